@@ -1,107 +1,234 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Brain, Loader2, Sparkles, Check, History, ArrowLeft, Trash2, Copy, Calendar } from 'lucide-react';
-import { EnergyLevel, ParsedItem, BrainDump } from '@/types';
+import { Input } from '@/components/ui/input';
+import {
+  Brain, Loader2, Sparkles, Check, History, ArrowLeft, Trash2, Copy, Calendar, WifiOff, ListChecks, RefreshCw, Search,
+} from 'lucide-react';
+import { EnergyLevel, ParsedItem, BrainDump, ParsedBrainDumpResult, UserHighlight } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 import ParsedItemCard from './ParsedItemCard';
+import EnergyHighlights from './EnergyHighlights';
 import { format } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
+import { runAi } from '@/lib/ai/service';
+import { isAiAbort } from '@/lib/ai/errors';
+import { parseBrainDumpLocally } from '@/lib/brainDumpParser';
+import {
+  ParseDiff, applyHighlights, brainDumpItemKey, diffParses, importedItemKeys, linkItemsToTasks, relocateHighlights,
+} from '@/lib/brainDumpHistory';
 
 interface BrainDumpModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onItemsAdded: (items: ParsedItem[]) => void;
+  // Resolves to the created task ids in item order
+  onItemsAdded: (items: ParsedItem[]) => Promise<(string | null)[]>;
 }
 
+const HISTORY_PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Rows come back with loosely typed json columns
+function toBrainDump(row: Record<string, unknown>): BrainDump {
+  return {
+    ...(row as unknown as BrainDump),
+    ai_parsed_result: (row.ai_parsed_result as BrainDump['ai_parsed_result']) ?? null,
+    user_highlights: (row.user_highlights as BrainDump['user_highlights']) || [],
+    items_added_to_planner: (row.items_added_to_planner as string[]) || [],
+    item_links: (row.item_links as BrainDump['item_links']) || [],
+    previous_parsed_result: (row.previous_parsed_result as BrainDump['previous_parsed_result']) ?? null,
+  };
+}
+
+// ilike treats % and _ as wildcards
+const escapeLike = (s: string) => s.replace(/[\\%_]/g, (c) => `\\${c}`);
+
 const BrainDumpModal = ({ open, onOpenChange, onItemsAdded }: BrainDumpModalProps) => {
   const [text, setText] = useState('');
   const [parsing, setParsing] = useState(false);
   const [parsedItems, setParsedItems] = useState<ParsedItem[]>([]);
   const [summary, setSummary] = useState<string | null>(null);
+  const [parsedOffline, setParsedOffline] = useState(false);
   const [step, setStep] = useState<'input' | 'review' | 'history'>('input');
   const [history, setHistory] = useState<BrainDump[]>([]);
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [historyQuery, setHistoryQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
   const [loadingHistory, setLoadingHistory] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [highlights, setHighlights] = useState<UserHighlight[]>([]);
+  // The saved dump under review, and how its latest parse differs from the one before
+  const [activeDump, setActiveDump] = useState<BrainDump | null>(null);
+  const [diff, setDiff] = useState<ParseDiff | null>(null);
+  const [adding, setAdding] = useState(false);
+  const parseAbortRef = useRef<AbortController | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // The history insert runs in the background; adding items waits for it to learn the dump id
+  const pendingSaveRef = useRef<Promise<BrainDump | null> | null>(null);
+  const historyRequestRef = useRef(0);
   const { toast } = useToast();
 
-  useEffect(() => {
-    if (open && step === 'history') {
-      loadHistory();
-    }
-  }, [open, step]);
+  // Stop an in-flight parse when the modal goes away
+  useEffect(() => () => parseAbortRef.current?.abort(), []);
 
-  const loadHistory = async () => {
-    setLoadingHistory(true);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(historyQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [historyQuery]);
+
+  // from > 0 appends the next page to the list
+  const loadHistory = useCallback(async (from = 0) => {
+    const append = from > 0;
+    const request = ++historyRequestRef.current;
+    if (append) setLoadingMore(true);
+    else setLoadingHistory(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const { data, error } = await supabase
+      let query = supabase
         .from('brain_dumps')
-        .select('*')
-        .eq('user_id', user.id)
+        .select('*', { count: 'exact' })
+        .eq('user_id', user.id);
+      if (debouncedQuery) query = query.ilike('raw_text', `%${escapeLike(debouncedQuery)}%`);
+
+      const { data, error, count } = await query
         .order('created_at', { ascending: false })
-        .limit(20);
+        .range(from, from + HISTORY_PAGE_SIZE - 1);
 
       if (error) throw error;
+      // A newer search has started since
+      if (request !== historyRequestRef.current) return;
 
-      // Transform the data to match our BrainDump type
-      const transformedData = (data || []).map(item => ({
-        ...item,
-        ai_parsed_result: item.ai_parsed_result as unknown as BrainDump['ai_parsed_result'],
-        user_highlights: (item.user_highlights as unknown as BrainDump['user_highlights']) || [],
-        items_added_to_planner: item.items_added_to_planner || []
-      }));
-
-      setHistory(transformedData);
+      const page = (data || []).map(toBrainDump);
+      setHistory(prev => append ? [...prev, ...page] : page);
+      setHistoryTotal(count ?? from + page.length);
     } catch (err) {
       console.error('Load history error:', err);
     } finally {
-      setLoadingHistory(false);
+      if (request === historyRequestRef.current) {
+        setLoadingHistory(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [debouncedQuery]);
+
+  useEffect(() => {
+    if (open && step === 'history') {
+      loadHistory();
+    }
+  }, [open, step, loadHistory]);
+
+  const saveDump = async (userId: string, rawText: string, result: ParsedBrainDumpResult, marks: UserHighlight[]) => {
+    const { data, error } = await supabase
+      .from('brain_dumps')
+      .insert({
+        user_id: userId,
+        raw_text: rawText,
+        ai_parsed_result: result,
+        user_highlights: marks,
+      })
+      .select('*')
+      .single();
+    if (error) {
+      console.error('Save brain dump error:', error);
+      return null;
     }
+    const dump = toBrainDump(data);
+    setActiveDump(dump);
+    return dump;
   };
 
-  const handleParse = async () => {
-    if (!text.trim() || parsing) return;
+  // Replace a saved dump's parse, keeping the old one to diff against
+  const saveReparse = async (dump: BrainDump, result: ParsedBrainDumpResult, marks: UserHighlight[]) => {
+    const updated: BrainDump = {
+      ...dump,
+      ai_parsed_result: result,
+      previous_parsed_result: dump.ai_parsed_result,
+      user_highlights: marks,
+    };
+    setActiveDump(updated);
+    setHistory(prev => prev.map(d => d.id === dump.id ? updated : d));
+
+    const { error } = await supabase
+      .from('brain_dumps')
+      .update({
+        ai_parsed_result: result,
+        previous_parsed_result: dump.ai_parsed_result,
+        user_highlights: marks,
+      })
+      .eq('id', dump.id);
+    if (error) console.error('Save re-parse error:', error);
+    return updated;
+  };
 
+  /**
+   * 'offline' skips the AI; the AI path falls back to it when the AI is unavailable.
+   * Passing a saved dump re-parses it in place and diffs against its previous parse.
+   */
+  const handleParse = async (mode: 'ai' | 'offline' = 'ai', target?: BrainDump) => {
+    // Parsing the unchanged text of the dump under review is a re-parse too
+    const reparse = target ?? (activeDump && activeDump.raw_text === text ? { ...activeDump, user_highlights: highlights } : undefined);
+    const source = reparse?.raw_text ?? text;
+    const marks = reparse ? relocateHighlights(source, reparse.user_highlights) : highlights;
+    if (!source.trim() || parsing) return;
+
+    if (reparse) {
+      setText(source);
+      setHighlights(marks);
+      setStep('input');
+    }
     setParsing(true);
+    const controller = new AbortController();
+    parseAbortRef.current = controller;
 
     try {
       const { data: { user } } = await supabase.auth.getUser();
 
-      const { data, error } = await supabase.functions.invoke('parse-brain-dump', {
-        body: { text },
-      });
-
-      if (error) throw error;
-
-      if (data?.error) {
-        throw new Error(data.error);
+      let result: ParsedBrainDumpResult;
+      let offline = mode === 'offline';
+      if (offline) {
+        result = parseBrainDumpLocally(source);
+      } else {
+        try {
+          const data = await runAi('parseBrainDump', { text: source, highlights: marks }, { signal: controller.signal });
+          result = {
+            items: data.items.map((item) => ({ ...item, user_override_energy: null, due_date: null })),
+            summary: data.summary,
+          };
+        } catch (err) {
+          if (isAiAbort(err)) return;
+          console.error('Parse error:', err);
+          result = parseBrainDumpLocally(source);
+          offline = true;
+          toast({
+            title: 'AI unavailable',
+            description: 'Parsed offline instead. Check the items before adding them.',
+          });
+        }
       }
+      // The user's own marks win over whatever the parser guessed
+      result = applyHighlights(result, marks);
 
-      if (!data?.items || !Array.isArray(data.items)) {
-        throw new Error('Invalid response from AI');
+      if (result.items.length === 0) {
+        toast({ title: 'Nothing to add', description: 'No tasks or ideas were found in your brain dump.' });
+        return;
       }
 
-      const items = data.items.map((item: ParsedItem) => ({
-        ...item,
-        user_override_energy: null,
-        due_date: null,
-      }));
-
-      setParsedItems(items);
-      setSummary(data.summary);
+      setParsedItems(result.items);
+      setSummary(result.summary);
+      setParsedOffline(offline);
+      setDiff(reparse ? diffParses(reparse.ai_parsed_result, result) : null);
       setStep('review');
 
       // Save brain dump to history
-      if (user) {
-        supabase.from('brain_dumps').insert({
-          user_id: user.id,
-          raw_text: text,
-          ai_parsed_result: data,
-        });
+      if (reparse) {
+        pendingSaveRef.current = saveReparse(reparse, result, marks);
+      } else if (user) {
+        setActiveDump(null);
+        pendingSaveRef.current = saveDump(user.id, source, result, marks);
       }
     } catch (err) {
       console.error('Parse error:', err);
@@ -111,10 +238,15 @@ const BrainDumpModal = ({ open, onOpenChange, onItemsAdded }: BrainDumpModalProp
         variant: 'destructive',
       });
     } finally {
+      if (parseAbortRef.current === controller) parseAbortRef.current = null;
       setParsing(false);
     }
   };
 
+  const handleCancelParse = () => {
+    parseAbortRef.current?.abort();
+  };
+
   const handleEnergyChange = (index: number, energy: EnergyLevel) => {
     setParsedItems(prev => prev.map((item, i) =>
       i === index ? { ...item, user_override_energy: energy } : item
@@ -133,32 +265,110 @@ const BrainDumpModal = ({ open, onOpenChange, onItemsAdded }: BrainDumpModalProp
     ));
   };
 
+  const handleSubtasksChange = (index: number, subtasks: string[] | undefined) => {
+    setParsedItems(prev => prev.map((item, i) =>
+      i === index ? { ...item, subtasks } : item
+    ));
+  };
+
   const handleRemoveItem = (index: number) => {
     setParsedItems(prev => prev.filter((_, i) => i !== index));
+    setDiff(prev => prev && { ...prev, items: prev.items.filter((_, i) => i !== index) });
   };
 
-  const handleAddToPlanner = () => {
-    onItemsAdded(parsedItems);
-    toast({
-      title: "Items added",
-      description: `${parsedItems.length} items added to your planner`
-    });
-    handleClose();
+  // Items of this dump that became tasks on an earlier import are not imported again
+  const alreadyImported = importedItemKeys(activeDump);
+  const isImported = (item: ParsedItem) => alreadyImported.has(brainDumpItemKey(item.text));
+  // Items another item took in as subtasks don't become tasks of their own
+  const subtaskKeys = new Set(parsedItems.flatMap(item => (item.subtasks ?? []).map(brainDumpItemKey)));
+  const isNested = (item: ParsedItem) => !item.subtasks?.length && subtaskKeys.has(brainDumpItemKey(item.text));
+  const isImportable = (item: ParsedItem) => !isImported(item) && !isNested(item);
+  const importableCount = parsedItems.filter(isImportable).length;
+  const importedItems = parsedItems.filter(isImported);
+  const nestedItems = parsedItems.filter(item => !isImported(item) && isNested(item));
+
+  const handleAddToPlanner = async () => {
+    const items = parsedItems.filter(isImportable);
+    if (items.length === 0 || adding) return;
+
+    setAdding(true);
+    try {
+      const taskIds = await onItemsAdded(items);
+      // Subtask items are recorded against their parent's task so a re-import skips them too
+      const parentIds = nestedItems.map(nested => {
+        const key = brainDumpItemKey(nested.text);
+        const parent = items.findIndex(item => item.subtasks?.some(sub => brainDumpItemKey(sub) === key));
+        return parent === -1 ? null : taskIds[parent];
+      });
+      const links = [...linkItemsToTasks(items, taskIds), ...linkItemsToTasks(nestedItems, parentIds)];
+
+      // Record which item became which task on the saved dump
+      const dump = activeDump ?? await pendingSaveRef.current;
+      if (dump && links.length > 0) {
+        const { error } = await supabase
+          .from('brain_dumps')
+          .update({
+            item_links: [...dump.item_links, ...links],
+            items_added_to_planner: [...dump.items_added_to_planner, ...links.map(link => link.task_id)],
+          })
+          .eq('id', dump.id);
+        if (error) console.error('Save imported items error:', error);
+      }
+
+      toast({
+        title: "Items added",
+        description: `${taskIds.filter(Boolean).length} items added to your planner`
+      });
+      handleClose();
+    } catch (err) {
+      console.error('Add items error:', err);
+      toast({ title: "Error", description: "Could not add the items", variant: "destructive" });
+    } finally {
+      setAdding(false);
+    }
   };
 
   const handleClose = () => {
+    parseAbortRef.current?.abort();
     setText('');
+    setHighlights([]);
     setParsedItems([]);
     setSummary(null);
+    setParsedOffline(false);
+    setActiveDump(null);
+    setDiff(null);
+    pendingSaveRef.current = null;
     setStep('input');
     onOpenChange(false);
   };
 
+  const handleTextInput = (value: string) => {
+    setText(value);
+    setHighlights(prev => relocateHighlights(value, prev));
+  };
+
+  // Copying starts a new dump from the old text
   const handleCopyFromHistory = (dump: BrainDump) => {
     setText(dump.raw_text);
+    setHighlights(relocateHighlights(dump.raw_text, dump.user_highlights));
+    setActiveDump(null);
     setStep('input');
   };
 
+  // Open the stored parse; what was already imported stays out of the next import
+  const handleReviewFromHistory = (dump: BrainDump) => {
+    if (!dump.ai_parsed_result) return;
+    setText(dump.raw_text);
+    setHighlights(relocateHighlights(dump.raw_text, dump.user_highlights));
+    setParsedItems(dump.ai_parsed_result.items);
+    setSummary(dump.ai_parsed_result.summary);
+    setParsedOffline(false);
+    setActiveDump(dump);
+    pendingSaveRef.current = Promise.resolve(dump);
+    setDiff(dump.previous_parsed_result ? diffParses(dump.previous_parsed_result, dump.ai_parsed_result) : null);
+    setStep('review');
+  };
+
   const handleDeleteFromHistory = async (dumpId: string) => {
     try {
       const { error } = await supabase
@@ -168,6 +378,7 @@ const BrainDumpModal = ({ open, onOpenChange, onItemsAdded }: BrainDumpModalProp
 
       if (error) throw error;
       setHistory(prev => prev.filter(d => d.id !== dumpId));
+      setHistoryTotal(prev => Math.max(0, prev - 1));
       toast({ title: "Deleted", description: "Brain dump removed from history" });
     } catch (err) {
       console.error('Delete error:', err);
@@ -193,7 +404,7 @@ const BrainDumpModal = ({ open, onOpenChange, onItemsAdded }: BrainDumpModalProp
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => { setStep('history'); loadHistory(); }}
+                onClick={() => setStep('history')}
                 className="gap-1"
               >
                 <History className="w-4 h-4" />
@@ -220,6 +431,9 @@ const BrainDumpModal = ({ open, onOpenChange, onItemsAdded }: BrainDumpModalProp
                     <p className="font-medium text-foreground">Analyzing your thoughts...</p>
                     <p className="text-xs text-foreground-muted">Finding tasks, dates, and energy levels</p>
                   </div>
+                  <Button variant="ghost" size="sm" onClick={handleCancelParse}>
+                    Stop
+                  </Button>
                 </div>
 
                 <div className="flex-1 overflow-hidden space-y-3">
@@ -243,8 +457,9 @@ const BrainDumpModal = ({ open, onOpenChange, onItemsAdded }: BrainDumpModalProp
             ) : (
               <>
                 <Textarea
+                  ref={textareaRef}
                   value={text}
-                  onChange={(e) => setText(e.target.value)}
+                  onChange={(e) => handleTextInput(e.target.value)}
                   onKeyDown={(e) => {
                     if (e.key === 'Enter' && !e.shiftKey) {
                       e.preventDefault();
@@ -255,12 +470,29 @@ const BrainDumpModal = ({ open, onOpenChange, onItemsAdded }: BrainDumpModalProp
                   className="flex-1 min-h-[200px] resize-none"
                 />
 
+                <EnergyHighlights
+                  text={text}
+                  highlights={highlights}
+                  onChange={setHighlights}
+                  textareaRef={textareaRef}
+                />
+
                 <div className="flex justify-end gap-2 shrink-0">
+                  <Button
+                    variant="ghost"
+                    onClick={() => handleParse('offline')}
+                    disabled={!text.trim() || parsing}
+                    className="gap-2 mr-auto"
+                    title="Split into items with simple rules, without AI"
+                  >
+                    <WifiOff className="w-4 h-4" />
+                    Parse offline
+                  </Button>
                   <Button variant="outline" onClick={handleClose}>
                     Cancel
                   </Button>
                   <Button
-                    onClick={handleParse}
+                    onClick={() => handleParse()}
                     disabled={!text.trim() || parsing}
                     className="gap-2"
                   >
@@ -276,12 +508,28 @@ const BrainDumpModal = ({ open, onOpenChange, onItemsAdded }: BrainDumpModalProp
             {summary && (
               <div className="mx-6 mb-4 p-3 bg-primary/10 rounded-lg text-sm text-foreground-muted shrink-0">
                 <span className="font-medium text-foreground">Summary:</span> {summary}
+                {parsedOffline && <span className="ml-1 text-xs">(parsed offline)</span>}
+              </div>
+            )}
+
+            {diff && (
+              <div className="mx-6 mb-4 text-xs text-foreground-muted shrink-0">
+                Compared with the previous parse:{' '}
+                {diff.items.filter(c => c.status === 'added').length} new,{' '}
+                {diff.items.filter(c => c.status === 'changed').length} changed,{' '}
+                {diff.removed.length} no longer found
+                {diff.removed.length > 0 && (
+                  <span title={diff.removed.map(item => item.text).join('\n')}>
+                    {' '}({diff.removed.slice(0, 2).map(item => `"${item.text}"`).join(', ')}
+                    {diff.removed.length > 2 ? ', …' : ''})
+                  </span>
+                )}
               </div>
             )}
 
             <div className="flex-1 min-h-0 overflow-y-auto px-6">
               <div className="space-y-2 pb-4">
-                {parsedItems.map((item, index) => (
+                {parsedItems.map((item, index) => isImportable(item) && (
                   <ParsedItemCard
                     key={index}
                     item={item}
@@ -289,9 +537,43 @@ const BrainDumpModal = ({ open, onOpenChange, onItemsAdded }: BrainDumpModalProp
                     onRemove={() => handleRemoveItem(index)}
                     onDateChange={(date) => handleDateChange(index, date)}
                     onTextChange={(text) => handleTextChange(index, text)}
+                    change={diff?.items[index]}
+                    onSubtasksChange={(subtasks) => handleSubtasksChange(index, subtasks)}
                   />
                 ))}
               </div>
+
+              {nestedItems.length > 0 && (
+                <div className="pb-4">
+                  <p className="text-xs font-medium text-foreground-muted mb-2">
+                    Added as subtasks ({nestedItems.length})
+                  </p>
+                  <div className="space-y-1">
+                    {nestedItems.map((item, index) => (
+                      <div key={index} className="flex items-center gap-2 text-sm text-foreground-muted px-3 py-1.5 rounded-lg bg-secondary/40">
+                        <ListChecks className="w-3.5 h-3.5 shrink-0" />
+                        <span className="truncate">{item.text}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {importedItems.length > 0 && (
+                <div className="pb-4">
+                  <p className="text-xs font-medium text-foreground-muted mb-2">
+                    Already in planner ({importedItems.length})
+                  </p>
+                  <div className="space-y-1">
+                    {importedItems.map((item, index) => (
+                      <div key={index} className="flex items-center gap-2 text-sm text-foreground-muted px-3 py-1.5 rounded-lg bg-secondary/40">
+                        <Check className="w-3.5 h-3.5 text-primary shrink-0" />
+                        <span className="truncate">{item.text}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
 
             <div className="flex justify-between items-center px-6 py-4 border-t border-border shrink-0 bg-background">
@@ -302,9 +584,9 @@ const BrainDumpModal = ({ open, onOpenChange, onItemsAdded }: BrainDumpModalProp
                 <Button variant="outline" onClick={handleClose}>
                   Cancel
                 </Button>
-                <Button onClick={handleAddToPlanner} className="gap-2">
-                  <Check className="w-4 h-4" />
-                  Add {parsedItems.length} items
+                <Button onClick={handleAddToPlanner} disabled={importableCount === 0 || adding} className="gap-2">
+                  {adding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                  Add {importableCount} items
                 </Button>
               </div>
             </div>
@@ -316,8 +598,17 @@ const BrainDumpModal = ({ open, onOpenChange, onItemsAdded }: BrainDumpModalProp
                 <ArrowLeft className="w-4 h-4" />
                 Back
               </Button>
-              <span className="text-sm text-foreground-muted">
-                {history.length} past dumps
+              <div className="relative flex-1">
+                <Search className="w-4 h-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-foreground-muted" />
+                <Input
+                  value={historyQuery}
+                  onChange={(e) => setHistoryQuery(e.target.value)}
+                  placeholder="Search past dumps..."
+                  className="h-8 pl-8"
+                />
+              </div>
+              <span className="text-sm text-foreground-muted shrink-0">
+                {historyTotal} {debouncedQuery ? 'found' : 'past dumps'}
               </span>
             </div>
 
@@ -329,7 +620,7 @@ const BrainDumpModal = ({ open, onOpenChange, onItemsAdded }: BrainDumpModalProp
               ) : history.length === 0 ? (
                 <div className="text-center py-8 text-foreground-muted">
                   <Brain className="w-8 h-8 mx-auto mb-2 opacity-50" />
-                  <p>No brain dumps yet</p>
+                  <p>{debouncedQuery ? 'No brain dumps match your search' : 'No brain dumps yet'}</p>
                 </div>
               ) : (
                 <div className="space-y-3">
@@ -347,13 +638,39 @@ const BrainDumpModal = ({ open, onOpenChange, onItemsAdded }: BrainDumpModalProp
                           <p className="text-sm text-foreground line-clamp-3">
                             {dump.raw_text}
                           </p>
+                          <div className="flex items-center gap-2 mt-2 text-xs text-foreground-muted">
+                            {dump.ai_parsed_result && <span>{dump.ai_parsed_result.items.length} items</span>}
+                            {dump.item_links.length > 0 && <span>• {dump.item_links.length} in planner</span>}
+                            {dump.user_highlights.length > 0 && <span>• {dump.user_highlights.length} highlights</span>}
+                          </div>
                         </div>
                         <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => handleReviewFromHistory(dump)}
+                            disabled={!dump.ai_parsed_result}
+                            title="Review items"
+                          >
+                            <ListChecks className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => handleParse('ai', dump)}
+                            disabled={parsing}
+                            title="Parse again"
+                          >
+                            <RefreshCw className="w-4 h-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="icon"
                             className="h-8 w-8"
                             onClick={() => handleCopyFromHistory(dump)}
+                            title="Copy into a new dump"
                           >
                             <Copy className="w-4 h-4" />
                           </Button>
@@ -369,6 +686,17 @@ const BrainDumpModal = ({ open, onOpenChange, onItemsAdded }: BrainDumpModalProp
                       </div>
                     </div>
                   ))}
+                  {history.length < historyTotal && (
+                    <Button
+                      variant="ghost"
+                      className="w-full gap-2"
+                      onClick={() => loadHistory(history.length)}
+                      disabled={loadingMore}
+                    >
+                      {loadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+                      Load more
+                    </Button>
+                  )}
                 </div>
               )}
             </div>
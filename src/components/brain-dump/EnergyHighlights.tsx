@@ -0,0 +1,90 @@
+import { RefObject } from 'react';
+import { X, Highlighter } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { EnergyLevel, UserHighlight } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+
+interface EnergyHighlightsProps {
+  text: string;
+  highlights: UserHighlight[];
+  onChange: (highlights: UserHighlight[]) => void;
+  textareaRef: RefObject<HTMLTextAreaElement>;
+}
+
+const highlightLevels: { energy: EnergyLevel; label: string; className: string }[] = [
+  { energy: 'high', label: 'High', className: 'bg-energy-high/20 text-energy-high' },
+  { energy: 'medium', label: 'Steady', className: 'bg-energy-medium/20 text-energy-medium' },
+  { energy: 'low', label: 'Low', className: 'bg-energy-low/20 text-energy-low' },
+  { energy: 'recovery', label: 'Recovery', className: 'bg-energy-recovery/20 text-energy-recovery' },
+];
+
+/**
+ * Mark the selected part of the dump with an energy level; the parse gives items in that span this energy.
+ */
+const EnergyHighlights = ({ text, highlights, onChange, textareaRef }: EnergyHighlightsProps) => {
+  const { toast } = useToast();
+
+  const handleMark = (energy: EnergyLevel) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    // Trim the selection so a sloppy drag doesn't take surrounding spaces along
+    const raw = text.slice(textarea.selectionStart, textarea.selectionEnd);
+    const start = textarea.selectionStart + (raw.length - raw.trimStart().length);
+    const end = textarea.selectionEnd - (raw.length - raw.trimEnd().length);
+    if (end <= start) {
+      toast({ title: 'Select some text first', description: 'Then pick the energy it takes.' });
+      return;
+    }
+
+    // A new mark replaces any it overlaps
+    const kept = highlights.filter((h) => h.end_index <= start || h.start_index >= end);
+    onChange(
+      [...kept, { text: text.slice(start, end), start_index: start, end_index: end, energy_level: energy }]
+        .sort((a, b) => a.start_index - b.start_index)
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 shrink-0">
+      <span className="text-xs text-foreground-muted flex items-center gap-1 mr-1">
+        <Highlighter className="w-3 h-3" />
+        Mark selection:
+      </span>
+      {highlightLevels.map((level) => (
+        <button
+          key={level.energy}
+          type="button"
+          // Keep the textarea selection while clicking
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => handleMark(level.energy)}
+          className={cn('text-xs px-2 py-0.5 rounded-full hover:opacity-80 transition-opacity', level.className)}
+        >
+          {level.label}
+        </button>
+      ))}
+
+      {highlights.map((h) => {
+        const level = highlightLevels.find((l) => l.energy === h.energy_level);
+        return (
+          <span
+            key={`${h.start_index}-${h.end_index}`}
+            className={cn('text-xs pl-2 pr-1 py-0.5 rounded flex items-center gap-1 max-w-[200px]', level?.className)}
+            title={h.text}
+          >
+            <span className="truncate">{h.text}</span>
+            <button
+              type="button"
+              onClick={() => onChange(highlights.filter((other) => other !== h))}
+              className="rounded hover:bg-background/50"
+              aria-label="Remove highlight"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default EnergyHighlights;
@@ -1,13 +1,14 @@
 import { useState, useRef, useEffect } from 'react';
 import { cn } from '@/lib/utils';
 import { EnergyLevel, ParsedItem, Urgency } from '@/types';
-import { X, AlertCircle, Lightbulb, Target, Calendar, Sparkles, Inbox } from 'lucide-react';
+import { X, AlertCircle, Lightbulb, Target, Calendar, Sparkles, Inbox, ListChecks } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar as CalendarPicker } from '@/components/ui/calendar';
 import EnergyPill from '@/components/shared/EnergyPill';
 import { Input } from '@/components/ui/input';
 import { format } from 'date-fns';
+import type { ItemChange } from '@/lib/brainDumpHistory';
 
 interface ParsedItemCardProps {
   item: ParsedItem;
@@ -15,6 +16,8 @@ interface ParsedItemCardProps {
   onRemove: () => void;
   onDateChange?: (date: string | null) => void;
   onTextChange?: (text: string) => void;
+  change?: ItemChange; // set when reviewing a re-parse
+  onSubtasksChange?: (subtasks: string[] | undefined) => void;
 }
 
 const typeIcons = {
@@ -30,7 +33,16 @@ const urgencyColors: Record<Urgency, string> = {
   critical: 'text-red-500',
 };
 
-const ParsedItemCard = ({ item, onEnergyChange, onRemove, onDateChange, onTextChange }: ParsedItemCardProps) => {
+const changeLabels: Partial<Record<keyof ParsedItem, string>> = {
+  text: 'wording',
+  type: 'type',
+  detected_energy: 'energy',
+  urgency: 'urgency',
+  due_date: 'date',
+  suggested_timeframe: 'timeframe',
+};
+
+const ParsedItemCard = ({ item, onEnergyChange, onRemove, onDateChange, onTextChange, change, onSubtasksChange }: ParsedItemCardProps) => {
   const Icon = typeIcons[item.type];
   const currentEnergy = item.user_override_energy || item.detected_energy;
   // Handle due_date from parsed response - default to null (inbox)
@@ -128,6 +140,18 @@ const ParsedItemCard = ({ item, onEnergyChange, onRemove, onDateChange, onTextCh
           </div>
 
           <div className="flex flex-wrap items-center gap-1.5 mt-1.5">
+            {change?.status === 'added' && (
+              <span className="text-xs px-1.5 py-0.5 rounded-full bg-primary/15 text-primary">New</span>
+            )}
+            {change?.status === 'changed' && (
+              <span
+                className="text-xs px-1.5 py-0.5 rounded-full bg-energy-medium/15 text-energy-medium"
+                title={`Changed: ${change.fields.map((f) => changeLabels[f] ?? f).join(', ')}`}
+              >
+                Changed
+              </span>
+            )}
+
             <span className={cn(
               "text-xs px-1.5 py-0.5 rounded-full bg-secondary flex items-center gap-1",
               urgencyColors[item.urgency]
@@ -206,14 +230,28 @@ const ParsedItemCard = ({ item, onEnergyChange, onRemove, onDateChange, onTextCh
             </p>
           )}
 
-          {/* Related items */}
+          {/* Related items, optionally kept as this item's checklist */}
           {item.related_items && item.related_items.length > 0 && (
-            <div className="mt-1.5 flex flex-wrap gap-1">
+            <div className="mt-1.5 flex flex-wrap items-center gap-1">
               {item.related_items.map((rel, idx) => (
                 <span key={idx} className="text-xs px-1.5 py-0.5 rounded bg-secondary text-foreground-muted">
-                  🔗 {rel}
+                  {item.subtasks ? '☐' : '🔗'} {rel}
                 </span>
               ))}
+              {onSubtasksChange && (
+                <button
+                  type="button"
+                  onClick={() => onSubtasksChange(item.subtasks ? undefined : item.related_items)}
+                  className={cn(
+                    "text-xs px-1.5 py-0.5 rounded flex items-center gap-1 transition-colors",
+                    item.subtasks ? "bg-primary/20 text-primary" : "text-foreground-muted hover:bg-secondary"
+                  )}
+                  title={item.subtasks ? 'Add related items as separate tasks' : 'Add related items as steps of this task'}
+                >
+                  <ListChecks className="w-3 h-3" />
+                  {item.subtasks ? 'As subtasks' : 'Make subtasks'}
+                </button>
+              )}
             </div>
           )}
 
@@ -0,0 +1,275 @@
+import { useMemo, useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarArrowDown, CalendarArrowUp, Download, FileUp, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import EnergyPill from '@/components/shared/EnergyPill';
+import { EnergyLevel } from '@/types';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { UndoRecorder, useUndoOptional } from '@/contexts/UndoContext';
+import { IcsImportItem, dedupeImportItems, exportTasksToIcs, parseIcs, selectTasksForExport } from '@/lib/ical';
+
+interface CalendarSyncModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  focusedDate?: Date;
+  energyFilter?: EnergyLevel[];
+}
+
+type ExportScope = 'day' | 'range';
+
+const ENERGIES: EnergyLevel[] = ['high', 'medium', 'low', 'recovery'];
+
+const CalendarSyncModal = ({ open, onOpenChange, focusedDate, energyFilter = [] }: CalendarSyncModalProps) => {
+  const { tasks, addTask } = useTasksContext();
+  const undoContext = useUndoOptional();
+  const { toast } = useToast();
+
+  // Export state
+  const initialDay = format(focusedDate ?? new Date(), 'yyyy-MM-dd');
+  const [scope, setScope] = useState<ExportScope>('range');
+  const [day, setDay] = useState(initialDay);
+  const [rangeStart, setRangeStart] = useState(initialDay);
+  const [rangeEnd, setRangeEnd] = useState(initialDay);
+  const [energies, setEnergies] = useState<EnergyLevel[]>(energyFilter);
+
+  // Import state
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [freshItems, setFreshItems] = useState<IcsImportItem[]>([]);
+  const [duplicateItems, setDuplicateItems] = useState<IcsImportItem[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [importing, setImporting] = useState(false);
+
+  const exportOptions = useMemo(() => {
+    const startDate = scope === 'day' ? day : rangeStart;
+    const endDate = scope === 'day' ? day : rangeEnd < rangeStart ? rangeStart : rangeEnd;
+    return { startDate, endDate, energies };
+  }, [scope, day, rangeStart, rangeEnd, energies]);
+
+  const exportCount = useMemo(
+    () => selectTasksForExport(tasks, exportOptions).length,
+    [tasks, exportOptions]
+  );
+
+  const toggleEnergy = (energy: EnergyLevel) => {
+    setEnergies((prev) => (prev.includes(energy) ? prev.filter((e) => e !== energy) : [...prev, energy]));
+  };
+
+  const handleExport = () => {
+    const ics = exportTasksToIcs(tasks, { ...exportOptions, calendarName: 'luminoo' });
+    const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = exportOptions.startDate === exportOptions.endDate
+      ? `luminoo-${exportOptions.startDate}.ics`
+      : `luminoo-${exportOptions.startDate}_${exportOptions.endDate}.ics`;
+    link.click();
+    // Firefox and Safari start the download after click() returns
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    toast({ title: 'Calendar exported', description: `${exportCount} events saved to ${link.download}` });
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const items = parseIcs(await file.text());
+      const { fresh, duplicates } = dedupeImportItems(items, tasks);
+      setFileName(file.name);
+      setFreshItems(fresh);
+      setDuplicateItems(duplicates);
+      setSelected(new Set(fresh.map((_, i) => i)));
+      if (items.length === 0) {
+        toast({ title: 'No events found', description: 'The file has no events or to-dos to import' });
+      }
+    } catch (err) {
+      console.error('ICS parse error:', err);
+      toast({ title: 'Could not read file', description: 'Is it a valid .ics calendar?', variant: 'destructive' });
+    }
+  };
+
+  const toggleSelected = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    const items = freshItems.filter((_, i) => selected.has(i));
+    if (items.length === 0) return;
+
+    setImporting(true);
+    const run = async (undo?: UndoRecorder) => {
+      for (const item of items) {
+        await addTask({ ...item.task, ical_uid: item.uid }, { undo });
+      }
+    };
+    try {
+      if (undoContext) await undoContext.transaction('Calendar imported', run);
+      else await run();
+      toast({ title: 'Calendar imported', description: `${items.length} items added to your planner` });
+      onOpenChange(false);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const describeWhen = (item: IcsImportItem) => {
+    const { due_date, end_date, start_time, end_time } = item.task;
+    if (!due_date) return 'No date';
+    let text = format(parseISO(due_date), 'MMM d, yyyy');
+    if (end_date) text += ` – ${format(parseISO(end_date), 'MMM d')}`;
+    if (start_time) text += ` · ${start_time}${end_time ? `–${end_time}` : ''}`;
+    else text += ' · All day';
+    return text;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg p-0 gap-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-2">
+          <DialogTitle>Calendar import & export</DialogTitle>
+          <DialogDescription>Move scheduled tasks in and out as .ics files</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="export" className="flex flex-col">
+          <TabsList className="mx-6 mt-2 grid grid-cols-2 w-auto">
+            <TabsTrigger value="export" className="text-xs gap-1">
+              <CalendarArrowUp className="w-3 h-3" />
+              Export
+            </TabsTrigger>
+            <TabsTrigger value="import" className="text-xs gap-1">
+              <CalendarArrowDown className="w-3 h-3" />
+              Import
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="export" className="px-6 pb-6 space-y-5">
+            <div className="space-y-2">
+              <Label className="text-foreground-muted">Dates</Label>
+              <Select value={scope} onValueChange={(v) => setScope(v as ExportScope)}>
+                <SelectTrigger className="h-10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="day">Single day</SelectItem>
+                  <SelectItem value="range">Date range</SelectItem>
+                </SelectContent>
+              </Select>
+              {scope === 'day' ? (
+                <Input type="date" value={day} onChange={(e) => setDay(e.target.value || initialDay)} className="h-10" />
+              ) : (
+                <div className="grid grid-cols-2 gap-2">
+                  <Input type="date" value={rangeStart} onChange={(e) => setRangeStart(e.target.value || initialDay)} className="h-10" />
+                  <Input type="date" value={rangeEnd} min={rangeStart} onChange={(e) => setRangeEnd(e.target.value || rangeStart)} className="h-10" />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-foreground-muted">Energy (none selected = all)</Label>
+              <div className="flex flex-wrap gap-2">
+                {ENERGIES.map((e) => (
+                  <button
+                    key={e}
+                    onClick={() => toggleEnergy(e)}
+                    className={cn(
+                      'transition-all rounded-full',
+                      energies.includes(e)
+                        ? 'ring-2 ring-highlight/70 ring-offset-2 ring-offset-background'
+                        : 'opacity-50 hover:opacity-80'
+                    )}
+                  >
+                    <EnergyPill energy={e} />
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-foreground-muted">
+                {exportCount} event{exportCount === 1 ? '' : 's'}
+              </span>
+              <Button onClick={handleExport} disabled={exportCount === 0} className="gap-2">
+                <Download className="w-4 h-4" />
+                Download .ics
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="import" className="px-6 pb-6 space-y-4">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={(e) => {
+                void handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="w-full gap-2 h-10">
+              <FileUp className="w-4 h-4" />
+              {fileName ?? 'Choose .ics file'}
+            </Button>
+
+            {(freshItems.length > 0 || duplicateItems.length > 0) && (
+              <ScrollArea className="h-64 rounded-xl border border-border/50">
+                <ul className="divide-y divide-border/50">
+                  {freshItems.map((item, i) => (
+                    <li key={`new-${i}`} className="flex items-start gap-3 px-3 py-2">
+                      <Checkbox checked={selected.has(i)} onCheckedChange={() => toggleSelected(i)} className="mt-0.5" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm text-foreground truncate">{item.task.title}</p>
+                        <p className="text-xs text-foreground-muted">
+                          {describeWhen(item)}
+                          {item.kind === 'VTODO' && ' · To-do'}
+                        </p>
+                      </div>
+                      <EnergyPill energy={item.task.energy_level ?? 'medium'} />
+                    </li>
+                  ))}
+                  {duplicateItems.map((item, i) => (
+                    <li key={`dup-${i}`} className="flex items-start gap-3 px-3 py-2 opacity-50">
+                      <Checkbox checked={false} disabled className="mt-0.5" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm text-foreground truncate">{item.task.title}</p>
+                        <p className="text-xs text-foreground-muted">Already in your planner</p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </ScrollArea>
+            )}
+
+            {fileName && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-foreground-muted">
+                  {selected.size} selected{duplicateItems.length > 0 && ` · ${duplicateItems.length} duplicates skipped`}
+                </span>
+                <Button onClick={handleImport} disabled={selected.size === 0 || importing} className="gap-2">
+                  {importing && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Import
+                </Button>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalendarSyncModal;
@@ -0,0 +1,237 @@
+import { useMemo, useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import EnergyPill from '@/components/shared/EnergyPill';
+import { Campaign, CampaignStatus, EnergyLevel, Phase } from '@/types';
+import { cn } from '@/lib/utils';
+import { CAMPAIGN_STATUS_LABELS, MONTH_NAMES, parseTags } from '@/lib/campaigns';
+import { CampaignInsert, useCampaigns } from '@/contexts/CampaignsContext';
+import { useTasksContext } from '@/contexts/TasksContext';
+
+interface CampaignFormProps {
+  campaign: Campaign | null; // null creates a new campaign
+  phases: Phase[];
+  onSubmit: (data: CampaignInsert) => void;
+  onCancel: () => void;
+  onDelete?: () => void;
+}
+
+const ENERGIES: EnergyLevel[] = ['high', 'medium', 'low', 'recovery'];
+const NO_PHASE = 'none';
+const ANY_WEEK = 'any';
+
+const CampaignForm = ({ campaign, phases, onSubmit, onCancel, onDelete }: CampaignFormProps) => {
+  const [name, setName] = useState(campaign?.name ?? '');
+  const [description, setDescription] = useState(campaign?.description ?? '');
+  const [phaseId, setPhaseId] = useState<string | null>(campaign?.phase_id ?? null);
+  const [month, setMonth] = useState(campaign?.month ?? new Date().getMonth() + 1);
+  const [week, setWeek] = useState<number | null>(campaign?.week ?? null);
+  const [energy, setEnergy] = useState<EnergyLevel>(campaign?.energy_level ?? 'medium');
+  const [status, setStatus] = useState<CampaignStatus>(campaign?.status ?? 'planned');
+  const [tags, setTags] = useState((campaign?.tags ?? []).join(', '));
+
+  const handleSubmit = () => {
+    if (!name.trim()) return;
+    onSubmit({
+      name: name.trim(),
+      description: description.trim() || null,
+      phase_id: phaseId,
+      month,
+      week,
+      energy_level: energy,
+      status,
+      tags: parseTags(tags),
+    });
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2">
+        <Label htmlFor="campaign-name" className="text-foreground-muted">Name</Label>
+        <Input
+          id="campaign-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Spring album launch"
+          autoFocus
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="campaign-description" className="text-foreground-muted">Description (optional)</Label>
+        <Textarea
+          id="campaign-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className="min-h-[60px] resize-none"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label className="text-foreground-muted">Month</Label>
+          <Select value={month.toString()} onValueChange={(val) => setMonth(parseInt(val))}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MONTH_NAMES.map((m, i) => (
+                <SelectItem key={m} value={(i + 1).toString()}>{m}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label className="text-foreground-muted">Week</Label>
+          <Select
+            value={week ? week.toString() : ANY_WEEK}
+            onValueChange={(val) => setWeek(val === ANY_WEEK ? null : parseInt(val))}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_WEEK}>Whole month</SelectItem>
+              {[1, 2, 3, 4, 5].map((w) => (
+                <SelectItem key={w} value={w.toString()}>Week {w}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label className="text-foreground-muted">Phase</Label>
+          <Select value={phaseId ?? NO_PHASE} onValueChange={(val) => setPhaseId(val === NO_PHASE ? null : val)}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PHASE}>No phase</SelectItem>
+              {phases.map((p) => (
+                <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label className="text-foreground-muted">Status</Label>
+          <Select value={status} onValueChange={(val) => setStatus(val as CampaignStatus)}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CAMPAIGN_STATUS_LABELS) as CampaignStatus[]).map((s) => (
+                <SelectItem key={s} value={s}>{CAMPAIGN_STATUS_LABELS[s]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-foreground-muted">Energy</Label>
+        <div className="flex gap-2 flex-wrap">
+          {ENERGIES.map((e) => (
+            <button
+              key={e}
+              onClick={() => setEnergy(e)}
+              className={cn(
+                'transition-all rounded-full',
+                energy === e ? 'ring-2 ring-highlight/70 ring-offset-2 ring-offset-background' : 'opacity-50 hover:opacity-80'
+              )}
+            >
+              <EnergyPill energy={e} />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="campaign-tags" className="text-foreground-muted">Tags</Label>
+        <Input
+          id="campaign-tags"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="music, launch"
+        />
+      </div>
+
+      {campaign && <CampaignTasks campaignId={campaign.id} />}
+
+      <div className="flex items-center gap-2 pt-2">
+        {onDelete && (
+          <Button variant="ghost" size="sm" onClick={onDelete} className="gap-1.5 text-destructive hover:text-destructive mr-auto">
+            <Trash2 className="w-3.5 h-3.5" />
+            Delete
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={onCancel} className={cn(!onDelete && 'ml-auto')}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSubmit} disabled={!name.trim()}>
+          {campaign ? 'Save' : 'Create campaign'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Tasks assigned to a campaign; assigning and removing apply right away.
+ */
+const CampaignTasks = ({ campaignId }: { campaignId: string }) => {
+  const { tasks } = useTasksContext();
+  const { assignTaskToCampaign } = useCampaigns();
+
+  const assigned = useMemo(() => tasks.filter((t) => t.campaign_id === campaignId), [tasks, campaignId]);
+  const available = useMemo(
+    () => tasks.filter((t) => !t.completed && !t.campaign_id),
+    [tasks]
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-foreground-muted">Tasks</Label>
+      {assigned.length === 0 ? (
+        <p className="text-xs text-foreground-subtle">No tasks yet</p>
+      ) : (
+        <div className="space-y-1">
+          {assigned.map((task) => (
+            <div key={task.id} className="flex items-center gap-2 px-2 py-1 rounded-md bg-secondary/40">
+              <span className={cn('flex-1 text-sm truncate', task.completed && 'line-through text-foreground-muted')}>
+                {task.title}
+              </span>
+              <button
+                onClick={() => assignTaskToCampaign(task.id, null)}
+                className="p-0.5 rounded text-foreground-muted hover:text-foreground hover:bg-secondary"
+                aria-label={`Remove "${task.title}" from campaign`}
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {available.length > 0 && (
+        <Select value="" onValueChange={(taskId) => assignTaskToCampaign(taskId, campaignId)}>
+          <SelectTrigger className="h-8 text-xs gap-1.5">
+            <span className="flex items-center gap-1.5 text-foreground-muted">
+              <Plus className="w-3 h-3" />
+              Add a task
+            </span>
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((task) => (
+              <SelectItem key={task.id} value={task.id}>{task.title}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+};
+
+export default CampaignForm;
@@ -0,0 +1,264 @@
+import { useMemo, useState } from 'react';
+import { Flag, Layers, Plus } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { CampaignInsert, PhaseInsert, useCampaigns } from '@/contexts/CampaignsContext';
+import {
+  CAMPAIGN_STATUS_LABELS,
+  PHASE_TYPE_LABELS,
+  campaignColor,
+  campaignProgressMap,
+  campaignWhenLabel,
+  phaseColor,
+  phaseProgress,
+  phaseRangeLabel,
+} from '@/lib/campaigns';
+import CampaignForm from './CampaignForm';
+import PhaseForm from './PhaseForm';
+
+interface CampaignsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Editing = { kind: 'campaign' | 'phase'; id: string | null };
+
+const CampaignsModal = ({ open, onOpenChange }: CampaignsModalProps) => {
+  const { tasks } = useTasksContext();
+  const {
+    phases,
+    campaigns,
+    loading,
+    addPhase,
+    updatePhase,
+    deletePhase,
+    addCampaign,
+    updateCampaign,
+    deleteCampaign,
+  } = useCampaigns();
+  const { toast } = useToast();
+
+  const [tab, setTab] = useState<'campaigns' | 'phases'>('campaigns');
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Editing | null>(null);
+
+  const progress = useMemo(() => campaignProgressMap(tasks, campaigns), [tasks, campaigns]);
+
+  const editingCampaign = editing?.kind === 'campaign' && editing.id ? campaigns.find((c) => c.id === editing.id) ?? null : null;
+  const editingPhase = editing?.kind === 'phase' && editing.id ? phases.find((p) => p.id === editing.id) ?? null : null;
+
+  const handleCampaignSubmit = async (data: CampaignInsert) => {
+    const ok = editingCampaign ? await updateCampaign(editingCampaign.id, data) : !!(await addCampaign(data));
+    if (ok) setEditing(null);
+  };
+
+  const handlePhaseSubmit = async (data: PhaseInsert) => {
+    const ok = editingPhase ? await updatePhase(editingPhase.id, data) : !!(await addPhase(data));
+    if (ok) setEditing(null);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete?.id) return;
+    const ok = pendingDelete.kind === 'campaign'
+      ? await deleteCampaign(pendingDelete.id)
+      : await deletePhase(pendingDelete.id);
+    if (ok) {
+      toast({ title: pendingDelete.kind === 'campaign' ? 'Campaign deleted' : 'Phase deleted' });
+      setEditing(null);
+    }
+    setPendingDelete(null);
+  };
+
+  const pendingName = pendingDelete?.kind === 'campaign'
+    ? campaigns.find((c) => c.id === pendingDelete.id)?.name
+    : phases.find((p) => p.id === pendingDelete?.id)?.name;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg p-0 gap-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-2">
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="w-5 h-5 text-primary" />
+            Campaigns & Phases
+          </DialogTitle>
+          <DialogDescription>Plan the year in phases and fill them with campaigns</DialogDescription>
+        </DialogHeader>
+
+        <Tabs
+          value={tab}
+          onValueChange={(val) => {
+            setTab(val as 'campaigns' | 'phases');
+            setEditing(null);
+          }}
+          className="px-6 pb-6"
+        >
+          <TabsList className="grid w-full grid-cols-2 mt-2">
+            <TabsTrigger value="campaigns" className="gap-1.5">
+              <Flag className="w-3.5 h-3.5" />
+              Campaigns
+            </TabsTrigger>
+            <TabsTrigger value="phases" className="gap-1.5">
+              <Layers className="w-3.5 h-3.5" />
+              Phases
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="campaigns" className="mt-4">
+            {editing?.kind === 'campaign' ? (
+              <ScrollArea className="max-h-[60vh] pr-3">
+                <CampaignForm
+                  key={editing.id ?? 'new'}
+                  campaign={editingCampaign}
+                  phases={phases}
+                  onSubmit={handleCampaignSubmit}
+                  onCancel={() => setEditing(null)}
+                  onDelete={editingCampaign ? () => setPendingDelete(editing) : undefined}
+                />
+              </ScrollArea>
+            ) : (
+              <div className="space-y-3">
+                <Button size="sm" variant="outline" className="w-full gap-1.5" onClick={() => setEditing({ kind: 'campaign', id: null })}>
+                  <Plus className="w-3.5 h-3.5" />
+                  New campaign
+                </Button>
+                <ScrollArea className="max-h-[50vh]">
+                  {campaigns.length === 0 ? (
+                    <p className="py-8 text-center text-sm text-foreground-muted">
+                      {loading ? 'Loading…' : 'No campaigns yet'}
+                    </p>
+                  ) : (
+                    <div className="space-y-1.5 pr-3">
+                      {campaigns.map((campaign) => {
+                        const p = progress.get(campaign.id);
+                        const phase = phases.find((ph) => ph.id === campaign.phase_id);
+                        return (
+                          <button
+                            key={campaign.id}
+                            onClick={() => setEditing({ kind: 'campaign', id: campaign.id })}
+                            className="w-full text-left rounded-lg border border-border/50 px-3 py-2.5 hover:bg-secondary/40 transition-colors"
+                          >
+                            <div className="flex items-center gap-2">
+                              <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: campaignColor(campaign, phases) }} />
+                              <span className="flex-1 text-sm font-medium truncate">{campaign.name}</span>
+                              <Badge variant="secondary" className="text-[10px] font-normal">{CAMPAIGN_STATUS_LABELS[campaign.status]}</Badge>
+                            </div>
+                            <div className="mt-1 flex items-center gap-2 text-xs text-foreground-muted pl-[18px]">
+                              <span>{campaignWhenLabel(campaign)}</span>
+                              {phase && <span className="truncate">· {phase.name}</span>}
+                              {campaign.tags.length > 0 && <span className="truncate">· {campaign.tags.map((t) => `#${t}`).join(' ')}</span>}
+                            </div>
+                            <div className="mt-2 flex items-center gap-2 pl-[18px]">
+                              <Progress value={p?.percent ?? 0} className="h-1.5 flex-1" />
+                              <span className="text-[11px] tabular-nums text-foreground-muted w-16 text-right">
+                                {p?.completed ?? 0}/{p?.total ?? 0} tasks
+                              </span>
+                            </div>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </ScrollArea>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="phases" className="mt-4">
+            {editing?.kind === 'phase' ? (
+              <PhaseForm
+                key={editing.id ?? 'new'}
+                phase={editingPhase}
+                onSubmit={handlePhaseSubmit}
+                onCancel={() => setEditing(null)}
+                onDelete={editingPhase ? () => setPendingDelete(editing) : undefined}
+              />
+            ) : (
+              <div className="space-y-3">
+                <Button size="sm" variant="outline" className="w-full gap-1.5" onClick={() => setEditing({ kind: 'phase', id: null })}>
+                  <Plus className="w-3.5 h-3.5" />
+                  New phase
+                </Button>
+                <ScrollArea className="max-h-[50vh]">
+                  {phases.length === 0 ? (
+                    <p className="py-8 text-center text-sm text-foreground-muted">
+                      {loading ? 'Loading…' : 'No phases yet'}
+                    </p>
+                  ) : (
+                    <div className="space-y-1.5 pr-3">
+                      {phases.map((phase) => {
+                        const rollup = phaseProgress(phase, campaigns, progress);
+                        const count = campaigns.filter((c) => c.phase_id === phase.id).length;
+                        return (
+                          <button
+                            key={phase.id}
+                            onClick={() => setEditing({ kind: 'phase', id: phase.id })}
+                            className="w-full text-left rounded-lg border border-border/50 px-3 py-2.5 hover:bg-secondary/40 transition-colors"
+                          >
+                            <div className="flex items-center gap-2">
+                              <span className="w-2.5 h-2.5 rounded-sm flex-shrink-0" style={{ backgroundColor: phaseColor(phase) }} />
+                              <span className="flex-1 text-sm font-medium truncate">{phase.name}</span>
+                              <span className="text-xs text-foreground-muted">{phaseRangeLabel(phase)}</span>
+                            </div>
+                            <div className="mt-1 text-xs text-foreground-muted pl-[18px]">
+                              {PHASE_TYPE_LABELS[phase.type]} · {count} campaign{count === 1 ? '' : 's'}
+                            </div>
+                            {count > 0 && (
+                              <div className="mt-2 flex items-center gap-2 pl-[18px]">
+                                <Progress value={rollup.percent} className="h-1.5 flex-1" />
+                                <span className="text-[11px] tabular-nums text-foreground-muted w-16 text-right">{rollup.percent}%</span>
+                              </div>
+                            )}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </ScrollArea>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <AlertDialog open={!!pendingDelete} onOpenChange={(isOpen) => !isOpen && setPendingDelete(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete {pendingDelete?.kind}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {pendingDelete?.kind === 'campaign'
+                  ? `“${pendingName}” will be removed. Its tasks stay, unassigned.`
+                  : `“${pendingName}” will be removed. Its campaigns stay, without a phase.`}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                onClick={handleConfirmDelete}
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CampaignsModal;
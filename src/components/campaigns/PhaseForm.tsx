@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Check, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Phase, PhaseType } from '@/types';
+import { cn } from '@/lib/utils';
+import { MONTH_NAMES, PHASE_COLOR_PRESETS, PHASE_TYPE_LABELS, phaseColor } from '@/lib/campaigns';
+import { PhaseInsert } from '@/contexts/CampaignsContext';
+
+interface PhaseFormProps {
+  phase: Phase | null; // null creates a new phase
+  onSubmit: (data: PhaseInsert) => void;
+  onCancel: () => void;
+  onDelete?: () => void;
+}
+
+const PhaseForm = ({ phase, onSubmit, onCancel, onDelete }: PhaseFormProps) => {
+  const [name, setName] = useState(phase?.name ?? '');
+  const [type, setType] = useState<PhaseType>(phase?.type ?? 'planning');
+  const [startMonth, setStartMonth] = useState(phase?.start_month ?? new Date().getMonth() + 1);
+  const [endMonth, setEndMonth] = useState(phase?.end_month ?? new Date().getMonth() + 1);
+  const [description, setDescription] = useState(phase?.description ?? '');
+  const [color, setColor] = useState<string | null>(phase?.color ?? null);
+
+  const handleSubmit = () => {
+    if (!name.trim()) return;
+    onSubmit({
+      name: name.trim(),
+      type,
+      start_month: startMonth,
+      end_month: endMonth,
+      description: description.trim() || null,
+      color,
+    });
+  };
+
+  const monthSelect = (value: number, onChange: (month: number) => void) => (
+    <Select value={value.toString()} onValueChange={(val) => onChange(parseInt(val))}>
+      <SelectTrigger className="h-9">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {MONTH_NAMES.map((m, i) => (
+          <SelectItem key={m} value={(i + 1).toString()}>{m}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2">
+        <Label htmlFor="phase-name" className="text-foreground-muted">Name</Label>
+        <Input
+          id="phase-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Writing season"
+          autoFocus
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-2">
+          <Label className="text-foreground-muted">Type</Label>
+          <Select value={type} onValueChange={(val) => setType(val as PhaseType)}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PHASE_TYPE_LABELS) as PhaseType[]).map((t) => (
+                <SelectItem key={t} value={t}>{PHASE_TYPE_LABELS[t]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label className="text-foreground-muted">From</Label>
+          {monthSelect(startMonth, setStartMonth)}
+        </div>
+        <div className="space-y-2">
+          <Label className="text-foreground-muted">Through</Label>
+          {monthSelect(endMonth, setEndMonth)}
+        </div>
+      </div>
+      {endMonth < startMonth && (
+        <p className="text-xs text-foreground-muted -mt-3">Runs over the new year</p>
+      )}
+
+      <div className="space-y-2">
+        <Label className="text-foreground-muted">Color</Label>
+        <div className="flex items-center gap-2 flex-wrap">
+          <button
+            onClick={() => setColor(null)}
+            className={cn(
+              'w-7 h-7 rounded-full border-2 flex items-center justify-center transition-all',
+              color === null ? 'border-foreground' : 'border-transparent opacity-80 hover:opacity-100'
+            )}
+            style={{ backgroundColor: phaseColor({ type, color: null }) }}
+            title={`${PHASE_TYPE_LABELS[type]} default`}
+          >
+            {color === null && <Check className="w-3.5 h-3.5 text-foreground" />}
+          </button>
+          {PHASE_COLOR_PRESETS.map((preset) => (
+            <button
+              key={preset}
+              onClick={() => setColor(preset)}
+              className={cn(
+                'w-7 h-7 rounded-full border-2 flex items-center justify-center transition-all',
+                color === preset ? 'border-foreground' : 'border-transparent opacity-80 hover:opacity-100'
+              )}
+              style={{ backgroundColor: preset }}
+            >
+              {color === preset && <Check className="w-3.5 h-3.5 text-white" />}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="phase-description" className="text-foreground-muted">Description (optional)</Label>
+        <Textarea
+          id="phase-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className="min-h-[60px] resize-none"
+        />
+      </div>
+
+      <div className="flex items-center gap-2 pt-2">
+        {onDelete && (
+          <Button variant="ghost" size="sm" onClick={onDelete} className="gap-1.5 text-destructive hover:text-destructive mr-auto">
+            <Trash2 className="w-3.5 h-3.5" />
+            Delete
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={onCancel} className={cn(!onDelete && 'ml-auto')}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSubmit} disabled={!name.trim()}>
+          {phase ? 'Save' : 'Create phase'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PhaseForm;
@@ -0,0 +1,272 @@
+import { useEffect, useMemo, useState } from 'react';
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { ArrowLeft, CalendarClock, CalendarDays, CheckCircle2, Circle, Inbox, Pencil } from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { DialogTitle } from '@/components/ui/dialog';
+import { Command, useCommands } from '@/contexts/CommandsContext';
+import { useShortcutSettings, useShortcuts } from '@/contexts/ShortcutsContext';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { parseQuickAdd } from '@/lib/quickAddParser';
+import { formatCombo } from '@/lib/shortcuts';
+import { isRecurring } from '@/lib/recurrence';
+import { Task } from '@/types';
+import EditTaskDialog from '@/components/tasks/EditTaskDialog';
+
+// Task results need a couple of characters; an empty palette lists commands only
+const MIN_TASK_QUERY = 2;
+const MAX_TASK_RESULTS = 30;
+
+// Characters of the query in order, not necessarily adjacent ("rcpod" finds "record podcast")
+function fuzzyIncludes(text: string, query: string): boolean {
+  let i = 0;
+  for (const char of text.toLowerCase()) {
+    if (char === query[i]) i++;
+    if (i === query.length) return true;
+  }
+  return query.length === 0;
+}
+
+const dayLabel = (date: string) => format(parseISO(date), 'EEE, MMM d');
+
+interface CommandPaletteProps {
+  onGoToDate: (date: Date) => void;
+}
+
+/**
+ * Ctrl/Cmd+K palette (remappable): registered commands, "go to <date>" and task search with quick actions.
+ */
+const CommandPalette = ({ onGoToDate }: CommandPaletteProps) => {
+  const { commands, paletteOpen, setPaletteOpen } = useCommands();
+  const { tasks, updateTask, deleteTask } = useTasksContext();
+  const [search, setSearch] = useState('');
+  const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+
+  const { bindings } = useShortcutSettings();
+
+  useShortcuts({ 'palette.open': () => setPaletteOpen(!paletteOpen) });
+
+  // Start fresh every time
+  useEffect(() => {
+    if (paletteOpen) return;
+    setSearch('');
+    setSelectedTask(null);
+  }, [paletteOpen]);
+
+  const groups = useMemo(() => {
+    const byGroup = new Map<string, Command[]>();
+    for (const command of commands) {
+      byGroup.set(command.group, [...(byGroup.get(command.group) ?? []), command]);
+    }
+    return [...byGroup.entries()];
+  }, [commands]);
+
+  // Phrases like "tomorrow", "fri" or "mar 14"
+  const typedDate = useMemo(() => (search.trim() ? parseQuickAdd(search).date : null), [search]);
+
+  const taskResults = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (query.length < MIN_TASK_QUERY) return [];
+    return tasks
+      .filter((t) => t.location !== 'memory' && fuzzyIncludes(t.title, query))
+      .sort((a, b) => Number(a.completed) - Number(b.completed))
+      .slice(0, MAX_TASK_RESULTS);
+  }, [tasks, search]);
+
+  const close = () => setPaletteOpen(false);
+
+  const runCommand = (command: Command) => {
+    close();
+    command.run();
+  };
+
+  const reschedule = (task: Task, date: string | null) => {
+    close();
+    if (!date) {
+      void updateTask(task.id, { due_date: null, end_date: null, start_time: null, end_time: null });
+      return;
+    }
+    // Multi-day tasks keep their length
+    const days = task.due_date && task.end_date ? differenceInCalendarDays(parseISO(task.end_date), parseISO(task.due_date)) : 0;
+    void updateTask(task.id, {
+      due_date: date,
+      end_date: task.end_date ? format(addDays(parseISO(date), days), 'yyyy-MM-dd') : null,
+    });
+  };
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const rescheduleOptions = [
+    { label: 'Today', date: today },
+    { label: 'Tomorrow', date: format(addDays(new Date(), 1), 'yyyy-MM-dd') },
+    { label: 'Next week', date: format(addDays(new Date(), 7), 'yyyy-MM-dd') },
+  ];
+
+  return (
+    <>
+      <CommandDialog open={paletteOpen} onOpenChange={setPaletteOpen}>
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <CommandInput
+          value={search}
+          onValueChange={setSearch}
+          placeholder={selectedTask ? `Reschedule "${selectedTask.title}" to...` : 'Search commands, tasks or a date...'}
+          onKeyDown={(e) => {
+            // Backspace on an empty query leaves the task actions
+            if (e.key === 'Backspace' && !search && selectedTask) {
+              e.preventDefault();
+              setSelectedTask(null);
+            }
+          }}
+        />
+        <CommandList>
+          <CommandEmpty>No results</CommandEmpty>
+
+          {selectedTask ? (
+            <>
+              <CommandGroup heading={selectedTask.title}>
+                <CommandItem
+                  value="open edit details"
+                  onSelect={() => {
+                    close();
+                    setEditingTask(selectedTask);
+                  }}
+                >
+                  <Pencil className="mr-2" />
+                  Open
+                </CommandItem>
+                {!isRecurring(selectedTask) && (
+                  <CommandItem
+                    value={selectedTask.completed ? 'reopen mark not done' : 'complete mark done'}
+                    onSelect={() => {
+                      close();
+                      void updateTask(selectedTask.id, { completed: !selectedTask.completed });
+                    }}
+                  >
+                    {selectedTask.completed ? <Circle className="mr-2" /> : <CheckCircle2 className="mr-2" />}
+                    {selectedTask.completed ? 'Reopen' : 'Complete'}
+                  </CommandItem>
+                )}
+              </CommandGroup>
+              {/* Repeating tasks are completed and moved per occurrence, from the calendar */}
+              {!isRecurring(selectedTask) && (
+                <CommandGroup heading="Reschedule">
+                  {typedDate && (
+                    <CommandItem value={`reschedule ${search}`} onSelect={() => reschedule(selectedTask, typedDate)}>
+                      <CalendarClock className="mr-2" />
+                      {dayLabel(typedDate)}
+                    </CommandItem>
+                  )}
+                  {rescheduleOptions.map((option) => (
+                    <CommandItem
+                      key={option.label}
+                      value={`reschedule ${option.label}`}
+                      onSelect={() => reschedule(selectedTask, option.date)}
+                    >
+                      <CalendarClock className="mr-2" />
+                      {option.label}
+                      <CommandShortcut>{dayLabel(option.date)}</CommandShortcut>
+                    </CommandItem>
+                  ))}
+                  {selectedTask.due_date && (
+                    <CommandItem value="reschedule unschedule inbox" onSelect={() => reschedule(selectedTask, null)}>
+                      <Inbox className="mr-2" />
+                      Move to Inbox
+                    </CommandItem>
+                  )}
+                </CommandGroup>
+              )}
+            </>
+          ) : (
+            <>
+              {typedDate && (
+                <CommandGroup heading="Go to">
+                  <CommandItem
+                    value={`go to ${search}`}
+                    onSelect={() => {
+                      close();
+                      onGoToDate(parseISO(typedDate));
+                    }}
+                  >
+                    <CalendarDays className="mr-2" />
+                    {dayLabel(typedDate)}
+                  </CommandItem>
+                </CommandGroup>
+              )}
+
+              {groups.map(([group, groupCommands]) => (
+                <CommandGroup key={group} heading={group}>
+                  {groupCommands.map((command) => {
+                    const Icon = command.icon;
+                    // Commands that double as shortcuts show the current key
+                    const combo = bindings[command.id]?.[0];
+                    const shortcut = combo ? formatCombo(combo) : command.shortcut;
+                    return (
+                      <CommandItem
+                        key={command.id}
+                        value={command.id}
+                        keywords={[command.title, ...(command.keywords ?? [])]}
+                        onSelect={() => runCommand(command)}
+                      >
+                        {Icon && <Icon className="mr-2" />}
+                        {command.title}
+                        {shortcut && <CommandShortcut>{shortcut}</CommandShortcut>}
+                      </CommandItem>
+                    );
+                  })}
+                </CommandGroup>
+              ))}
+
+              {taskResults.length > 0 && (
+                <CommandGroup heading="Tasks">
+                  {taskResults.map((task) => (
+                    <CommandItem
+                      key={task.id}
+                      value={`task ${task.id}`}
+                      keywords={[task.title]}
+                      onSelect={() => {
+                        setSelectedTask(task);
+                        setSearch('');
+                      }}
+                    >
+                      {task.completed ? <CheckCircle2 className="mr-2 text-primary" /> : <Circle className="mr-2" />}
+                      <span className="truncate">{task.title}</span>
+                      <CommandShortcut className="tracking-normal">
+                        {task.due_date ? dayLabel(task.due_date) : 'Inbox'}
+                      </CommandShortcut>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </>
+          )}
+
+          {selectedTask && (
+            <CommandGroup>
+              <CommandItem value="back to results" onSelect={() => setSelectedTask(null)}>
+                <ArrowLeft className="mr-2" />
+                Back
+              </CommandItem>
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+
+      <EditTaskDialog
+        open={!!editingTask}
+        onOpenChange={(open) => !open && setEditingTask(null)}
+        task={editingTask}
+        onSave={(taskId, updates) => void updateTask(taskId, updates)}
+        onDelete={(taskId) => void deleteTask(taskId)}
+      />
+    </>
+  );
+};
+
+export default CommandPalette;
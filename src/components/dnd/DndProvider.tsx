@@ -13,10 +13,20 @@ import {
   DragEndEvent,
   DragMoveEvent,
 } from '@dnd-kit/core';
+import { AlertTriangle, Lock } from 'lucide-react';
 import { Task, EnergyLevel } from '@/types';
 import { parse, format, addMinutes, parseISO, addDays, startOfDay } from 'date-fns';
-import { useTasksContext, type TaskUpdate } from '@/contexts/TasksContext';
+import { useTasksContext, type TaskUpdate, type TaskWriteOptions } from '@/contexts/TasksContext';
+import { UndoRecorder, useUndoOptional } from '@/contexts/UndoContext';
+import { useDensity } from '@/contexts/DensityContext';
+import { getEnergyForSlot, isEnergyMismatch } from '@/lib/energyCurve';
+import { formatHourLabel } from '@/lib/timeRangeConfig';
+import { parseTimeToHours } from '@/lib/timeUtils';
+import { parseOccurrenceId } from '@/lib/recurrence';
+import { getSchedulingConflicts } from '@/lib/taskDependencies';
+import { useToast } from '@/hooks/use-toast';
 import ScheduleConfirmDialog from '@/components/tasks/ScheduleConfirmDialog';
+import { dateFromDndId, unscopeDndId } from './dndIds';
 
 interface DragOverInfo {
   groupTasks: Task[];
@@ -32,6 +42,12 @@ interface ResizeInfo {
   targetDate: Date | null;
 }
 
+// Hovered slot whose expected energy doesn't suit the dragged task
+interface EnergyWarning {
+  slotEnergy: EnergyLevel;
+  hour: number;
+}
+
 interface DndContextValue {
   activeTask: Task | null;
   dragOverInfo: DragOverInfo | null;
@@ -49,8 +65,14 @@ interface DndProviderProps {
 }
 
 const DndProvider = memo(({ children, onTaskScheduled }: DndProviderProps) => {
-  const { tasks: allTasks, updateTask, moveTask } = useTasksContext();
+  const { tasks: allTasks, updateTask: saveTask, moveTask } = useTasksContext();
+  const undoContext = useUndoOptional();
+  const { energyProfile } = useDensity();
+  const { toast } = useToast();
   const [activeTask, setActiveTask] = useState<Task | null>(null);
+  const [energyWarning, setEnergyWarning] = useState<EnergyWarning | null>(null);
+  // Dependencies still running on the hovered day
+  const [dependencyWarning, setDependencyWarning] = useState<Task[]>([]);
   const [dragOverInfo, setDragOverInfo] = useState<DragOverInfo | null>(null);
   const [resizeInfo, setResizeInfo] = useState<ResizeInfo | null>(null);
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
@@ -87,6 +109,24 @@ const DndProvider = memo(({ children, onTaskScheduled }: DndProviderProps) => {
     return null;
   };
 
+  // Drops still go through, but scheduling a task before one of its dependencies ends gets a warning
+  const updateTask = useCallback(async (id: string, updates: TaskUpdate, options?: TaskWriteOptions) => {
+    const task = allTasks.find(t => t.id === (parseOccurrenceId(id)?.seriesId ?? id));
+    if (task && updates.due_date && updates.due_date !== task.due_date) {
+      const conflicts = getSchedulingConflicts(task, updates.due_date, allTasks);
+      if (conflicts.length > 0) {
+        const first = conflicts[0];
+        const firstEnd = first.end_date ?? first.due_date!;
+        toast({
+          title: 'Scheduled before a dependency',
+          description: `"${task.title}" depends on "${first.title}", which ends ${format(parseISO(firstEnd), 'MMM d')}` +
+            (conflicts.length > 1 ? ` (and ${conflicts.length - 1} more).` : '.'),
+        });
+      }
+    }
+    return saveTask(id, updates, options);
+  }, [allTasks, saveTask, toast]);
+
   const handleDragStart = useCallback((event: DragStartEvent) => {
     const task = event.active.data.current?.task as Task | undefined;
     const type = event.active.data.current?.type as string | undefined;
@@ -131,8 +171,32 @@ const DndProvider = memo(({ children, onTaskScheduled }: DndProviderProps) => {
       }
     }
 
+    // Soft warning when the hovered hour's expected energy doesn't suit the task
+    let warning: EnergyWarning | null = null;
+    const slotData = over?.data.current;
+    if (activeTask && (slotData?.type === 'time-slot' || slotData?.type === 'day')) {
+      // Day cells keep the task's own time
+      const hour = slotData.type === 'time-slot' ? (slotData.hour as number) : parseTimeToHours(activeTask.start_time);
+      if (hour != null) {
+        const slotEnergy = getEnergyForSlot(energyProfile, format(slotData.date as Date, 'yyyy-MM-dd'), hour);
+        if (slotEnergy && isEnergyMismatch(activeTask.energy_level, slotEnergy)) {
+          warning = { slotEnergy, hour: Math.floor(hour) };
+        }
+      }
+    }
+    setEnergyWarning(prev =>
+      prev?.slotEnergy === warning?.slotEnergy && prev?.hour === warning?.hour ? prev : warning
+    );
+
+    const conflicts = activeTask && (slotData?.type === 'time-slot' || slotData?.type === 'day')
+      ? getSchedulingConflicts(activeTask, format(slotData.date as Date, 'yyyy-MM-dd'), allTasks)
+      : [];
+    setDependencyWarning(prev =>
+      prev.length === conflicts.length && prev.every((t, i) => t.id === conflicts[i].id) ? prev : conflicts
+    );
+
     // Check if hovering over a reorder drop zone
-    if (over && typeof over.id === 'string' && over.id.startsWith('reorder-zone-')) {
+    if (over && unscopeDndId(over.id).id.startsWith('reorder-zone-')) {
       const data = over.data.current;
       if (data?.type === 'reorder-zone') {
         setDragOverInfo({
@@ -148,22 +212,12 @@ const DndProvider = memo(({ children, onTaskScheduled }: DndProviderProps) => {
     // Update resize preview
     if (resizeInfo) {
       let targetDate: Date | null = null;
-      const overId = over?.id as string;
       const overData = over?.data.current;
 
       if (overData?.type === 'day' || overData?.type === 'time-slot') {
         targetDate = overData.date as Date;
-      } else if (overId && /^\d{4}-\d{2}-\d{2}$/.test(overId)) {
-        targetDate = parseISO(overId);
-      } else if (overId && overId.startsWith('multi-')) {
-        // Extract date from multi-day segment ID: multi-taskid-yyyy-MM-dd
-        const parts = overId.split('-');
-        if (parts.length >= 3) {
-          const dateStr = parts.slice(-3).join('-'); // Get yyyy-MM-dd
-          if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-            targetDate = parseISO(dateStr);
-          }
-        }
+      } else if (over) {
+        targetDate = dateFromDndId(over.id);
       }
 
       if (targetDate) {
@@ -172,7 +226,7 @@ const DndProvider = memo(({ children, onTaskScheduled }: DndProviderProps) => {
     }
 
     setDragOverInfo(null);
-  }, [resizeInfo]);
+  }, [resizeInfo, activeTask, energyProfile, allTasks]);
 
   const handleDragEnd = useCallback(async (event: DragEndEvent) => {
     const { active, over } = event;
@@ -183,6 +237,8 @@ const DndProvider = memo(({ children, onTaskScheduled }: DndProviderProps) => {
 
     // Reset visual state
     setActiveTask(null);
+    setEnergyWarning(null);
+    setDependencyWarning([]);
     setDragOverInfo(null);
     setResizeInfo(null);
     lastOverIdRef.current = null;
@@ -193,7 +249,7 @@ const DndProvider = memo(({ children, onTaskScheduled }: DndProviderProps) => {
     if (!over && !currentResizeInfo?.targetDate) return;
 
     const overData = over?.data.current;
-    const overId = over?.id as string;
+    const overId = over ? unscopeDndId(over.id).id : '';
 
     if (import.meta.env.DEV) {
       console.log('[DnD:end]', active.id, over?.id, over?.data.current);
@@ -337,16 +393,8 @@ const DndProvider = memo(({ children, onTaskScheduled }: DndProviderProps) => {
       if (!nextDate && over) {
         if (overData?.type === 'time-slot' || overData?.type === 'day') {
           nextDate = overData.date as Date;
-        } else if (overId && /^\d{4}-\d{2}-\d{2}$/.test(overId)) {
-          nextDate = parseISO(overId);
-        } else if (overId && overId.startsWith('multi-')) {
-          const parts = overId.split('-');
-          if (parts.length >= 3) {
-            const dateStr = parts.slice(-3).join('-');
-            if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-              nextDate = parseISO(dateStr);
-            }
-          }
+        } else {
+          nextDate = dateFromDndId(over.id);
         }
       }
 
@@ -403,25 +451,29 @@ const DndProvider = memo(({ children, onTaskScheduled }: DndProviderProps) => {
 
         if (newIndex === currentIndex) return;
 
-        // Update display_order for all affected tasks
-        const updatePromises: Promise<unknown>[] = [];
-        groupTasks.forEach((t, idx) => {
-          let newOrder: number;
-          if (t.id === task.id) {
-            newOrder = newIndex * 10;
-          } else if (idx < currentIndex && idx >= newIndex) {
-            // Tasks that need to shift right
-            newOrder = (idx + 1) * 10;
-          } else if (idx > currentIndex && idx <= newIndex) {
-            // Tasks that need to shift left
-            newOrder = (idx - 1) * 10;
-          } else {
-            newOrder = idx * 10;
-          }
-          updatePromises.push(updateTask(t.id, { display_order: newOrder }));
-        });
+        // Update display_order for all affected tasks (one undo step for the whole reorder)
+        const reorder = async (undo?: UndoRecorder) => {
+          const updatePromises: Promise<unknown>[] = [];
+          groupTasks.forEach((t, idx) => {
+            let newOrder: number;
+            if (t.id === task.id) {
+              newOrder = newIndex * 10;
+            } else if (idx < currentIndex && idx >= newIndex) {
+              // Tasks that need to shift right
+              newOrder = (idx + 1) * 10;
+            } else if (idx > currentIndex && idx <= newIndex) {
+              // Tasks that need to shift left
+              newOrder = (idx - 1) * 10;
+            } else {
+              newOrder = idx * 10;
+            }
+            updatePromises.push(updateTask(t.id, { display_order: newOrder }, { undo }));
+          });
 
-        await Promise.all(updatePromises);
+          await Promise.all(updatePromises);
+        };
+        if (undoContext) await undoContext.transaction('Tasks reordered', reorder);
+        else await reorder();
         onTaskScheduled?.();
         return;
       }
@@ -665,7 +717,7 @@ const DndProvider = memo(({ children, onTaskScheduled }: DndProviderProps) => {
       onTaskScheduled?.();
       return;
     }
-  }, [allTasks, onTaskScheduled, updateTask, resizeInfo]);
+  }, [allTasks, onTaskScheduled, updateTask, resizeInfo, undoContext]);
 
   const handleConfirmSchedule = useCallback(async (
     taskId: string,
@@ -723,14 +775,14 @@ const DndProvider = memo(({ children, onTaskScheduled }: DndProviderProps) => {
     // If resizing multi-day tasks, we want day columns, fallback to closest center for edges
     // If resizing multi-day tasks, we want day columns, prefer them over anything else
     if (activeType === 'resize-start' || activeType === 'resize-end') {
-      const dayCollisions = pointerCollisions.filter(c => c.data?.current?.type === 'day' || /^\d{4}-\d{2}-\d{2}$/.test(String(c.id)));
+      const dayCollisions = pointerCollisions.filter(c => c.data?.current?.type === 'day' || /^\d{4}-\d{2}-\d{2}$/.test(unscopeDndId(c.id).id));
       if (dayCollisions.length) return dayCollisions;
       return pointerCollisions.length ? pointerCollisions : closestCenter(args);
     }
 
     // If reordering overlapping tasks, prefer reorder zones over time-slot rows
     if (activeType === 'calendar-task') {
-      const reorderPointer = pointerCollisions.filter((c) => String(c.id).startsWith('reorder-zone-'));
+      const reorderPointer = pointerCollisions.filter((c) => unscopeDndId(c.id).id.startsWith('reorder-zone-'));
       if (reorderPointer.length) return reorderPointer;
     }
 
@@ -738,7 +790,7 @@ const DndProvider = memo(({ children, onTaskScheduled }: DndProviderProps) => {
 
     // 2) If reordering, prefer reorder zones even when pointer isn't inside one
     if (activeType === 'calendar-task') {
-      const reorderContainers = args.droppableContainers.filter((c) => String(c.id).startsWith('reorder-zone-'));
+      const reorderContainers = args.droppableContainers.filter((c) => unscopeDndId(c.id).id.startsWith('reorder-zone-'));
       if (reorderContainers.length) {
         const reorderClosest = closestCenter({ ...args, droppableContainers: reorderContainers });
         if (reorderClosest.length) return reorderClosest;
@@ -765,6 +817,18 @@ const DndProvider = memo(({ children, onTaskScheduled }: DndProviderProps) => {
           {activeTask && (
             <div className="pointer-events-none p-2 rounded bg-card border border-primary shadow-lg opacity-90 max-w-xs">
               <span className="text-sm truncate block">{activeTask.title}</span>
+              {energyWarning && (
+                <span className="mt-1 flex items-center gap-1 text-[11px] text-amber-500">
+                  <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                  {energyWarning.slotEnergy} energy expected at {formatHourLabel(energyWarning.hour)}
+                </span>
+              )}
+              {dependencyWarning.length > 0 && (
+                <span className="mt-1 flex items-center gap-1 text-[11px] text-amber-500">
+                  <Lock className="w-3 h-3 flex-shrink-0" />
+                  <span className="truncate">Before "{dependencyWarning[0].title}" is done</span>
+                </span>
+              )}
             </div>
           )}
         </DragOverlay>
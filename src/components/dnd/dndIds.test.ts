@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import { dateFromDndId, scopeDndId, unscopeDndId } from './dndIds';
+
+// The ids one calendar window registers for a week, as WeekView and DayView build them
+const weekIds = (instanceId: string) => [
+  scopeDndId(instanceId, 'task:t2'),
+  ...['2026-03-02', '2026-03-03', '2026-03-04'].flatMap((day) => [
+    scopeDndId(instanceId, day),
+    scopeDndId(instanceId, `multi-t1-${day}`),
+    scopeDndId(instanceId, `cal:slot:${day}:09:00`),
+  ]),
+];
+
+describe('scopeDndId', () => {
+  it('keeps two calendar windows on the same week apart', () => {
+    const first = new Set(weekIds('calendar'));
+    const second = weekIds('calendar:2');
+    expect(second.some((id) => first.has(id))).toBe(false);
+    expect(scopeDndId('calendar:2', '2026-03-04')).toBe('calendar:2/2026-03-04');
+  });
+
+  it('leaves ids outside a window as they are', () => {
+    expect(scopeDndId(null, 'task:t1')).toBe('task:t1');
+  });
+});
+
+describe('unscopeDndId', () => {
+  it('gives back the window and the id it scoped', () => {
+    expect(unscopeDndId('calendar:2/cal:slot:2026-03-04:09:00')).toEqual({
+      instanceId: 'calendar:2',
+      id: 'cal:slot:2026-03-04:09:00',
+    });
+    expect(unscopeDndId('memory-panel')).toEqual({ instanceId: null, id: 'memory-panel' });
+  });
+});
+
+describe('dateFromDndId', () => {
+  it('reads the same day from either window', () => {
+    for (const instanceId of ['calendar', 'calendar:2']) {
+      const day = dateFromDndId(scopeDndId(instanceId, '2026-03-04'));
+      const segment = dateFromDndId(scopeDndId(instanceId, 'multi-3f2a-9c1d-2026-03-04'));
+      expect([day, segment].map((d) => d && format(d, 'yyyy-MM-dd'))).toEqual(['2026-03-04', '2026-03-04']);
+    }
+  });
+
+  it('ignores ids that are not days', () => {
+    expect(dateFromDndId('calendar/task:t1')).toBeNull();
+    expect(dateFromDndId('calendar/reorder-zone-0-1')).toBeNull();
+    expect(dateFromDndId('month-3')).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import { useCallback } from 'react';
+import type { UniqueIdentifier } from '@dnd-kit/core';
+import { parseISO } from 'date-fns';
+import { useWindowInstanceId } from '@/windows/WindowInstanceContext';
+
+// Instance ids use ':' (calendar:2), as do slot ids; task ids and dates never contain '/'
+const SCOPE_SEPARATOR = '/';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A draggable or droppable id prefixed with the window it renders in. dnd-kit needs ids unique
+ * across the whole root context, and two windows can show the same tasks and days.
+ */
+export function scopeDndId(instanceId: string | null, id: string): string {
+  return instanceId ? `${instanceId}${SCOPE_SEPARATOR}${id}` : id;
+}
+
+export function unscopeDndId(id: UniqueIdentifier): { instanceId: string | null; id: string } {
+  const raw = String(id);
+  const idx = raw.indexOf(SCOPE_SEPARATOR);
+  return idx < 0 ? { instanceId: null, id: raw } : { instanceId: raw.slice(0, idx), id: raw.slice(idx + 1) };
+}
+
+/** The day a day cell (`yyyy-MM-dd`) or multi-day segment (`multi-<taskId>-yyyy-MM-dd`) id stands for */
+export function dateFromDndId(id: UniqueIdentifier): Date | null {
+  const bare = unscopeDndId(id).id;
+  if (DATE_RE.test(bare)) return parseISO(bare);
+  if (bare.startsWith('multi-')) {
+    const dateStr = bare.split('-').slice(-3).join('-');
+    if (DATE_RE.test(dateStr)) return parseISO(dateStr);
+  }
+  return null;
+}
+
+// Scopes ids to the surrounding window
+export function useDndId(): (id: string) => string {
+  const instanceId = useWindowInstanceId();
+  return useCallback((id: string) => scopeDndId(instanceId, id), [instanceId]);
+}
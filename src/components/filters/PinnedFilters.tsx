@@ -0,0 +1,51 @@
+import { Bookmark } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useFilters } from '@/contexts/FiltersContext';
+import { cn } from '@/lib/utils';
+
+interface PinnedFiltersProps {
+  onSelect?: () => void;
+}
+
+/**
+ * Sidebar section with the pinned saved filters; choosing the active one again clears it.
+ */
+const PinnedFilters = ({ onSelect }: PinnedFiltersProps) => {
+  const { savedFilters, activeSavedFilter, applySavedFilter, clearFilter } = useFilters();
+  const pinned = savedFilters.filter((f) => f.pinned);
+
+  if (pinned.length === 0) return null;
+
+  return (
+    <div className="space-y-1.5 lg:space-y-2">
+      <span className="caption text-[10px] lg:text-xs">Saved Filters</span>
+      <div className="space-y-0.5 lg:space-y-1">
+        {pinned.map((saved) => {
+          const active = activeSavedFilter?.id === saved.id;
+          return (
+            <Button
+              key={saved.id}
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                if (active) clearFilter();
+                else applySavedFilter(saved.id);
+                onSelect?.();
+              }}
+              title={saved.query}
+              className={cn(
+                "w-full justify-start gap-2 text-foreground-muted hover:text-foreground min-h-[36px] lg:min-h-[40px] text-xs lg:text-sm",
+                active && "bg-secondary text-foreground"
+              )}
+            >
+              <Bookmark className={cn("w-3.5 h-3.5 lg:w-4 lg:h-4 flex-shrink-0", active && "text-primary")} />
+              <span className="truncate">{saved.name}</span>
+            </Button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PinnedFilters;
@@ -0,0 +1,250 @@
+import { useEffect, useState } from 'react';
+import { Bookmark, Check, Filter, HelpCircle, Pin, PinOff, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useFilters } from '@/contexts/FiltersContext';
+import { useToast } from '@/hooks/use-toast';
+import { SavedFilter } from '@/types';
+import { cn } from '@/lib/utils';
+
+const APPLY_DEBOUNCE_MS = 250;
+
+const SYNTAX_HELP: [string, string][] = [
+  ['tag:release', 'has the tag (tag:a,b for any of several)'],
+  ['energy:high', 'high, med, low or rec'],
+  ['urgency:critical', 'low, normal, high or critical'],
+  ['due:today', 'also tomorrow, overdue, none, any'],
+  ['due:<7d', 'due within a week (d, w or m; <, <=, >, >=)'],
+  ['due:2026-03-14', 'on a date, or before/after it with < and >'],
+  ['campaign:launch', 'campaign name contains the text'],
+  ['blocked', 'also completed, open, overdue, recurring, scheduled, unscheduled, tagged'],
+  ['is:inbox', 'also is:notes'],
+  ['-completed', 'a leading - excludes matches'],
+];
+
+/**
+ * Query input for the active task filter, shared by every planner view and pane,
+ * with the list of saved filters.
+ */
+const TaskFilterBar = () => {
+  const {
+    query,
+    setQuery,
+    clearFilter,
+    filter,
+    savedFilters,
+    activeSavedFilter,
+    applySavedFilter,
+    saveFilter,
+    updateSavedFilter,
+    deleteSavedFilter,
+  } = useFilters();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState(query);
+  const [savedOpen, setSavedOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<SavedFilter | null>(null);
+
+  // Follow changes made elsewhere (saved filters in the sidebar)
+  useEffect(() => {
+    setDraft(query);
+  }, [query]);
+
+  useEffect(() => {
+    if (draft === query) return;
+    const timer = setTimeout(() => setQuery(draft), APPLY_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [draft, query, setQuery]);
+
+  const canSave = !!query.trim() && !activeSavedFilter && draft === query;
+
+  const handleSave = async () => {
+    if (!name.trim() || !canSave) return;
+    const saved = await saveFilter(name, query);
+    if (saved) {
+      setName('');
+      toast({ title: 'Filter saved', description: `"${saved.name}" is pinned to the sidebar` });
+    }
+  };
+
+  return (
+    <div className="px-2 sm:px-4 lg:px-6 pt-2 sm:pt-3">
+      <div className="w-full max-w-[1600px] 2xl:max-w-[1800px] mx-auto">
+        <div className="flex items-center gap-1.5">
+          <div className="relative flex-1 min-w-0">
+            <Filter
+              className={cn(
+                'absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5',
+                query.trim() ? 'text-primary' : 'text-foreground-muted'
+              )}
+            />
+            <Input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') setQuery(draft);
+                if (e.key === 'Escape') {
+                  setDraft('');
+                  clearFilter();
+                }
+              }}
+              placeholder="Filter: tag:release energy:high due:<7d -completed"
+              className="h-8 pl-8 pr-8 text-xs sm:text-sm"
+              aria-label="Filter tasks"
+            />
+            {draft && (
+              <button
+                type="button"
+                onClick={() => {
+                  setDraft('');
+                  clearFilter();
+                }}
+                className="absolute right-2 top-1/2 -translate-y-1/2 text-foreground-muted hover:text-foreground"
+                aria-label="Clear filter"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-8 w-8 flex-shrink-0" aria-label="Filter syntax">
+                <HelpCircle className="w-4 h-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-80" align="end">
+              <div className="space-y-1.5 text-xs">
+                {SYNTAX_HELP.map(([example, meaning]) => (
+                  <button
+                    key={example}
+                    type="button"
+                    onClick={() => setDraft((prev) => (prev.trim() ? `${prev.trim()} ${example}` : example))}
+                    className="flex w-full gap-2 text-left rounded px-1 py-0.5 hover:bg-secondary/60"
+                  >
+                    <code className="font-mono text-foreground flex-shrink-0">{example}</code>
+                    <span className="text-foreground-muted">{meaning}</span>
+                  </button>
+                ))}
+                <p className="pt-1 text-foreground-muted">Any other words search titles, notes and tags.</p>
+              </div>
+            </PopoverContent>
+          </Popover>
+
+          <Popover open={savedOpen} onOpenChange={setSavedOpen}>
+            <PopoverTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className={cn('h-8 gap-1.5 flex-shrink-0 text-xs', activeSavedFilter && 'text-primary')}
+              >
+                <Bookmark className="w-3.5 h-3.5" />
+                <span className="hidden sm:inline max-w-[10rem] truncate">{activeSavedFilter?.name ?? 'Saved'}</span>
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 p-2" align="end">
+              {canSave && (
+                <div className="flex gap-1.5 pb-2 mb-2 border-b border-border">
+                  <Input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                    placeholder="Name this filter..."
+                    className="h-8 text-xs"
+                  />
+                  <Button size="sm" className="h-8" onClick={handleSave} disabled={!name.trim()}>
+                    Save
+                  </Button>
+                </div>
+              )}
+
+              {savedFilters.length === 0 ? (
+                <p className="px-1 py-2 text-xs text-foreground-muted">
+                  {canSave ? 'Save this filter to reuse it.' : 'Type a filter to save it.'}
+                </p>
+              ) : (
+                <div className="space-y-0.5">
+                  {savedFilters.map((saved) => (
+                    <div key={saved.id} className="group flex items-center gap-1 rounded-md hover:bg-secondary/60">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          applySavedFilter(saved.id);
+                          setSavedOpen(false);
+                        }}
+                        className="flex-1 min-w-0 px-2 py-1.5 text-left"
+                        title={saved.query}
+                      >
+                        <span className="flex items-center gap-1.5 text-sm">
+                          {activeSavedFilter?.id === saved.id && <Check className="w-3.5 h-3.5 text-primary flex-shrink-0" />}
+                          <span className="truncate">{saved.name}</span>
+                        </span>
+                        <span className="block truncate font-mono text-[10px] text-foreground-muted">{saved.query}</span>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => updateSavedFilter(saved.id, { pinned: !saved.pinned })}
+                        className={cn('p-1.5 hover:text-foreground', saved.pinned ? 'text-primary' : 'text-foreground-muted')}
+                        aria-label={saved.pinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+                        title={saved.pinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+                      >
+                        {saved.pinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setPendingDelete(saved)}
+                        className="p-1.5 text-foreground-muted hover:text-destructive"
+                        aria-label={`Delete ${saved.name}`}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </PopoverContent>
+          </Popover>
+        </div>
+
+        {filter.errors.length > 0 && (
+          <p className="mt-1 px-1 text-[11px] text-destructive truncate" title={filter.errors.join('\n')}>
+            Ignored: {filter.errors.join(' · ')}
+          </p>
+        )}
+      </div>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete saved filter?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently remove “{pendingDelete?.name}”. The active filter is not changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => pendingDelete && deleteSavedFilter(pendingDelete.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default TaskFilterBar;
@@ -2,7 +2,7 @@ import { memo, useCallback, useState, useEffect } from 'react';
 import { cn } from '@/lib/utils';
 import { User } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
-import { Squirrel, Menu, LogOut, User as UserIcon, ChevronDown, Moon, Sun } from 'lucide-react';
+import { Squirrel, Menu, LogOut, User as UserIcon, ChevronDown, Moon, Sun, CloudOff, RefreshCw, Search } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -16,6 +16,9 @@ import { EnergyLevel } from '@/types';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import WindowsDropdown from '@/windows/WindowsDropdown';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { useCommands } from '@/contexts/CommandsContext';
+import UndoHistoryPanel from './UndoHistoryPanel';
 
 interface HeaderProps {
   user: User;
@@ -105,6 +108,9 @@ const Header = memo(({
 
       {/* Right section - windows + theme toggle + avatar */}
       <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
+        <SyncStatus />
+        {!isMobile && <CommandPaletteButton />}
+        {!isMobile && <UndoHistoryPanel />}
         <WindowsDropdown />
         <ThemeToggle />
 
@@ -202,6 +208,69 @@ const ThemeToggle = memo(() => {
 
 ThemeToggle.displayName = 'ThemeToggle';
 
+// Offline / unsynced changes indicator (hidden when everything is saved)
+const SyncStatus = memo(() => {
+  const { isOnline, pendingChanges } = useTasksContext();
+
+  if (isOnline && pendingChanges === 0) return null;
+
+  const label = !isOnline
+    ? pendingChanges > 0
+      ? `Offline – ${pendingChanges} change${pendingChanges === 1 ? '' : 's'} will sync when you reconnect`
+      : 'Offline – changes will sync when you reconnect'
+    : `Syncing ${pendingChanges} change${pendingChanges === 1 ? '' : 's'}…`;
+
+  return (
+    <TooltipProvider delayDuration={300}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div className="flex items-center gap-1.5 h-11 px-2 text-xs text-foreground-muted">
+            {isOnline ? (
+              <RefreshCw className="w-4 h-4 animate-spin" />
+            ) : (
+              <CloudOff className="w-4 h-4" />
+            )}
+            {pendingChanges > 0 && <span className="tabular-nums">{pendingChanges}</span>}
+          </div>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>{label}</p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+});
+
+SyncStatus.displayName = 'SyncStatus';
+
+const CommandPaletteButton = memo(() => {
+  const { setPaletteOpen } = useCommands();
+  const isMac = typeof navigator !== 'undefined' && /mac/i.test(navigator.platform);
+
+  return (
+    <TooltipProvider delayDuration={300}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setPaletteOpen(true)}
+            className="h-11 w-11 min-h-[44px] min-w-[44px] text-foreground-muted hover:text-foreground touch-manipulation"
+            aria-label="Command palette"
+          >
+            <Search className="w-5 h-5" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent side="bottom">
+          <p>Commands ({isMac ? '⌘' : 'Ctrl+'}K)</p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+});
+
+CommandPaletteButton.displayName = 'CommandPaletteButton';
+
 Header.displayName = 'Header';
 
 export default Header;
@@ -5,6 +5,8 @@ import {
   Brain,
   TrendingUp,
   Users,
+  CalendarSync,
+  Flag,
   X
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -16,6 +18,7 @@ import {
   SheetHeader,
   SheetTitle,
 } from '@/components/ui/sheet';
+import PinnedFilters from '@/components/filters/PinnedFilters';
 
 interface SidebarProps {
   open: boolean;
@@ -24,6 +27,8 @@ interface SidebarProps {
   onBrainDumpClick: () => void;
   onTrendingClick: () => void;
   onFriendsClick: () => void;
+  onCalendarSyncClick?: () => void;
+  onCampaignsClick?: () => void;
   onJumpToToday: () => void;
   memoryOpen?: boolean;
   onMemoryClick?: () => void;
@@ -42,6 +47,8 @@ const SidebarContent = ({
   onBrainDumpClick,
   onTrendingClick,
   onFriendsClick,
+  onCalendarSyncClick,
+  onCampaignsClick,
   onJumpToToday,
   onClose,
   selectedEnergies = [],
@@ -97,9 +104,34 @@ const SidebarContent = ({
             <Users className="w-3.5 h-3.5 lg:w-4 lg:h-4" />
             Friends & Sharing
           </Button>
+          {onCampaignsClick && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleAction(onCampaignsClick)}
+              className="w-full justify-start gap-2 text-foreground-muted hover:text-foreground min-h-[36px] lg:min-h-[40px] text-xs lg:text-sm"
+            >
+              <Flag className="w-3.5 h-3.5 lg:w-4 lg:h-4" />
+              Campaigns & Phases
+            </Button>
+          )}
+          {onCalendarSyncClick && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleAction(onCalendarSyncClick)}
+              className="w-full justify-start gap-2 text-foreground-muted hover:text-foreground min-h-[36px] lg:min-h-[40px] text-xs lg:text-sm"
+            >
+              <CalendarSync className="w-3.5 h-3.5 lg:w-4 lg:h-4" />
+              Import / Export
+            </Button>
+          )}
         </div>
       </div>
 
+      {/* Saved Filters */}
+      <PinnedFilters onSelect={onClose} />
+
       {/* Energy Filters */}
       {onToggleEnergy && onClearEnergies && (
         <div className="space-y-1.5 lg:space-y-2">
@@ -178,6 +210,8 @@ const Sidebar = ({
   onBrainDumpClick,
   onTrendingClick,
   onFriendsClick,
+  onCalendarSyncClick,
+  onCampaignsClick,
   onJumpToToday,
   memoryOpen,
   onMemoryClick,
@@ -202,6 +236,8 @@ const Sidebar = ({
             onBrainDumpClick={onBrainDumpClick}
             onTrendingClick={onTrendingClick}
             onFriendsClick={onFriendsClick}
+            onCalendarSyncClick={onCalendarSyncClick}
+            onCampaignsClick={onCampaignsClick}
             onJumpToToday={onJumpToToday}
             onClose={onClose}
             selectedEnergies={selectedEnergies}
@@ -227,6 +263,8 @@ const Sidebar = ({
         onBrainDumpClick={onBrainDumpClick}
         onTrendingClick={onTrendingClick}
         onFriendsClick={onFriendsClick}
+        onCalendarSyncClick={onCalendarSyncClick}
+        onCampaignsClick={onCampaignsClick}
         onJumpToToday={onJumpToToday}
         selectedEnergies={selectedEnergies}
         onToggleEnergy={onToggleEnergy}
@@ -0,0 +1,83 @@
+import { memo } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { History, Redo2, Undo2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useUndoOptional } from '@/contexts/UndoContext';
+
+const UndoHistoryPanel = memo(() => {
+  const undoContext = useUndoOptional();
+  if (!undoContext) return null;
+
+  const { undo, redo, canUndo, canRedo, history, redoHistory } = undoContext;
+  const isEmpty = history.length === 0 && redoHistory.length === 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-11 w-11 min-h-[44px] min-w-[44px] text-foreground-muted hover:text-foreground touch-manipulation"
+          aria-label="Undo history"
+        >
+          <History className="w-5 h-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-0">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+          <span className="text-sm font-medium text-foreground">History</span>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" className="h-8 px-2 gap-1" onClick={() => undo()} disabled={!canUndo}>
+              <Undo2 className="w-3.5 h-3.5" />
+              Undo
+            </Button>
+            <Button variant="ghost" size="sm" className="h-8 px-2 gap-1" onClick={() => redo()} disabled={!canRedo}>
+              <Redo2 className="w-3.5 h-3.5" />
+              Redo
+            </Button>
+          </div>
+        </div>
+
+        {isEmpty ? (
+          <p className="px-3 py-6 text-center text-xs text-foreground-muted">No recent actions</p>
+        ) : (
+          <ScrollArea className="max-h-72">
+            <ul className="py-1">
+              {/* Undone actions (redo order), newest on top */}
+              {redoHistory.map((entry) => (
+                <li key={entry.id} className="flex items-center justify-between gap-2 px-3 py-1.5 text-sm text-foreground-subtle line-through">
+                  <span className="truncate">{entry.description}</span>
+                </li>
+              ))}
+              {history.map((entry, i) => (
+                <li
+                  key={entry.id}
+                  className={cn(
+                    'flex items-center justify-between gap-2 px-3 py-1.5 text-sm',
+                    i === 0 ? 'text-foreground' : 'text-foreground-muted'
+                  )}
+                >
+                  <span className="truncate">{entry.description}</span>
+                  <span className="text-[10px] text-foreground-subtle flex-shrink-0">
+                    {formatDistanceToNow(entry.timestamp, { addSuffix: true })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+
+        <p className="px-3 py-2 border-t border-border text-[10px] text-foreground-subtle">
+          Ctrl+Z to undo · Ctrl+Shift+Z to redo
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+});
+
+UndoHistoryPanel.displayName = 'UndoHistoryPanel';
+
+export default UndoHistoryPanel;
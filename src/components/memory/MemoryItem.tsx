@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from 'react';
 import { useDraggable } from '@dnd-kit/core';
+import { useDndId } from '@/components/dnd/dndIds';
 import { Task, EnergyLevel } from '@/types';
 import { cn } from '@/lib/utils';
 import { GripVertical, Check, X, Trash2, Inbox } from 'lucide-react';
@@ -32,6 +33,7 @@ const MemoryItem = ({ item, onTitleChange, onEnergyChange, onDelete, onMoveToInb
   const [clickPosition, setClickPosition] = useState<number | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  const dndId = useDndId();
   const {
     attributes,
     listeners,
@@ -39,7 +41,7 @@ const MemoryItem = ({ item, onTitleChange, onEnergyChange, onDelete, onMoveToInb
     transform,
     isDragging,
   } = useDraggable({
-    id: `memory-${item.id}`,
+    id: dndId(`memory-${item.id}`),
     data: { task: item, type: 'memory-item' },
   });
 
@@ -13,11 +13,12 @@ interface MemoryPanelProps {
   userId: string;
   isOpen: boolean;
   onClose: () => void;
+  variant?: 'sidebar' | 'window'; // the window variant sits inside a WindowFrame, which has the title
 }
 
 const MAX_VISIBLE_ITEMS = 8;
 
-const MemoryPanel = ({ userId, isOpen, onClose }: MemoryPanelProps) => {
+const MemoryPanel = ({ userId, isOpen, onClose, variant = 'sidebar' }: MemoryPanelProps) => {
   const { tasks, addTask, updateTask, deleteTask } = useTasksContext();
   const [searchQuery, setSearchQuery] = useState('');
   const [showSearch, setShowSearch] = useState(false);
@@ -25,8 +26,9 @@ const MemoryPanel = ({ userId, isOpen, onClose }: MemoryPanelProps) => {
   const [newItemTitle, setNewItemTitle] = useState('');
   const inputRef = useRef<HTMLInputElement>(null);
 
+  const isWindow = variant === 'window';
   const { setNodeRef, isOver } = useDroppable({
-    id: 'memory-panel',
+    id: isWindow ? 'zone:memory' : 'memory-panel',
     data: { type: 'memory' },
   });
 
@@ -105,39 +107,42 @@ const MemoryPanel = ({ userId, isOpen, onClose }: MemoryPanelProps) => {
     <div
       ref={setNodeRef}
       className={cn(
-        "w-72 border-l border-border bg-sidebar flex flex-col h-full transition-all",
+        "flex flex-col h-full transition-all",
+        isWindow ? "rounded-lg min-h-0" : "w-72 border-l border-border bg-sidebar",
         isOver && "ring-2 ring-highlight ring-inset bg-highlight-muted/30"
       )}
     >
       {/* Header */}
-      <div className="p-3 border-b border-border flex items-center justify-between">
-        <div className="flex items-center gap-2">
-          <Archive className="w-4 h-4 text-foreground-muted" />
-          <span className="text-sm font-medium">Memory</span>
-          <span className="text-xs text-foreground-muted">({memoryItems.length})</span>
-        </div>
-        <div className="flex items-center gap-1">
-          <Button
-            variant="ghost"
-            size="sm"
-            className="h-6 w-6 p-0"
-            onClick={() => setShowSearch(!showSearch)}
-          >
-            <Search className="w-3.5 h-3.5" />
-          </Button>
-          <Button
-            variant="ghost"
-            size="sm"
-            className="h-6 w-6 p-0"
-            onClick={() => { }} // No-op refresh since local
-          >
-            <RefreshCw className="w-3.5 h-3.5" />
-          </Button>
+      {!isWindow && (
+        <div className="p-3 border-b border-border flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Archive className="w-4 h-4 text-foreground-muted" />
+            <span className="text-sm font-medium">Memory</span>
+            <span className="text-xs text-foreground-muted">({memoryItems.length})</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => setShowSearch(!showSearch)}
+            >
+              <Search className="w-3.5 h-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => { }} // No-op refresh since local
+            >
+              <RefreshCw className="w-3.5 h-3.5" />
+            </Button>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Search */}
-      {showSearch && (
+      {(showSearch || isWindow) && (
         <div className="p-2 border-b border-border">
           <Input
             placeholder="Search memory..."
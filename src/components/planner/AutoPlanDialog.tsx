@@ -0,0 +1,231 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, ChevronRight, Loader2, Wand2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import EnergyPill from '@/components/shared/EnergyPill';
+import EnergyProfileEditor from './EnergyProfileEditor';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { useDensity } from '@/contexts/DensityContext';
+import { UndoRecorder, useUndoOptional } from '@/contexts/UndoContext';
+import { ProposedPlacement, proposeSchedule, selectAutoScheduleCandidates } from '@/lib/autoScheduler';
+import { getEnergyForSlot, isEnergyMismatch } from '@/lib/energyCurve';
+import { formatHoursToTime, parseTimeToHours } from '@/lib/timeUtils';
+
+interface AutoPlanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  dates: string[]; // days to fill (YYYY-MM-DD)
+}
+
+type PlacementEdit = Pick<ProposedPlacement, 'date' | 'startTime' | 'endTime'>;
+
+const AutoPlanDialog = ({ open, onOpenChange, dates }: AutoPlanDialogProps) => {
+  const { tasks, rescheduleTask } = useTasksContext();
+  const { timeRangeSettings, energyProfile, setEnergyProfile } = useDensity();
+  const undoContext = useUndoOptional();
+  const { toast } = useToast();
+
+  const [edits, setEdits] = useState<Record<string, PlacementEdit>>({});
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [showCurve, setShowCurve] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setEdits({});
+      setExcluded(new Set());
+    }
+  }, [open]);
+
+  const tasksById = useMemo(() => new Map(tasks.map((t) => [t.id, t])), [tasks]);
+
+  const proposal = useMemo(() => {
+    if (!open) return { placements: [], unplaced: [] };
+    return proposeSchedule({
+      candidates: selectAutoScheduleCandidates(tasks, dates),
+      tasks,
+      dates,
+      timeRangeSettings,
+      energyProfile,
+      bufferMinutes: 15,
+    });
+  }, [open, tasks, dates, timeRangeSettings, energyProfile]);
+
+  // Proposal with the user's tweaks applied
+  const rows = useMemo(
+    () => proposal.placements
+      .filter((p) => tasksById.has(p.taskId))
+      .map((p) => ({ ...p, ...edits[p.taskId], task: tasksById.get(p.taskId)! }))
+      .sort((a, b) => (a.date + a.startTime).localeCompare(b.date + b.startTime)),
+    [proposal, edits, tasksById]
+  );
+  const selectedRows = rows.filter((r) => !excluded.has(r.taskId));
+
+  const editPlacement = (placement: PlacementEdit & { taskId: string }, patch: Partial<PlacementEdit>) => {
+    const next = { date: placement.date, startTime: placement.startTime, endTime: placement.endTime, ...patch };
+    if (patch.startTime) {
+      // Keep the proposed duration when the start moves
+      const duration = (parseTimeToHours(placement.endTime) ?? 0) - (parseTimeToHours(placement.startTime) ?? 0);
+      const start = parseTimeToHours(patch.startTime) ?? 0;
+      next.endTime = start + duration >= 24 ? '23:59' : formatHoursToTime(start + duration);
+    }
+    setEdits((prev) => ({ ...prev, [placement.taskId]: next }));
+  };
+
+  const toggleExcluded = (taskId: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(taskId)) next.delete(taskId);
+      else next.add(taskId);
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    if (selectedRows.length === 0) return;
+    setApplying(true);
+    const apply = async (undo?: UndoRecorder) => {
+      for (const row of selectedRows) {
+        await rescheduleTask(row.taskId, row.date, row.startTime, row.endTime, { undo });
+      }
+    };
+    try {
+      if (undoContext) await undoContext.transaction('Auto-plan applied', apply);
+      else await apply();
+      toast({ title: 'Plan applied', description: `${selectedRows.length} task${selectedRows.length === 1 ? '' : 's'} scheduled` });
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Auto-plan apply error:', err);
+      toast({ title: 'Error', description: 'Could not schedule every task', variant: 'destructive' });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const rangeLabel = dates.length === 1
+    ? format(parseISO(dates[0]), 'EEEE, MMM d')
+    : `${format(parseISO(dates[0]), 'MMM d')} – ${format(parseISO(dates[dates.length - 1]), 'MMM d')}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl p-0 gap-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-2">
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="w-5 h-5 text-primary" />
+            Auto-plan {dates.length === 1 ? 'my day' : 'my week'}
+          </DialogTitle>
+          <DialogDescription>
+            {rangeLabel} · Unscheduled tasks placed in free time by energy, urgency and due date
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="px-6 pt-2">
+          <button
+            onClick={() => setShowCurve(!showCurve)}
+            className="flex items-center gap-1 text-xs text-foreground-muted hover:text-foreground"
+          >
+            <ChevronRight className={cn('w-3 h-3 transition-transform', showCurve && 'rotate-90')} />
+            Energy curve
+          </button>
+          {showCurve && (
+            <div className="mt-3 pl-4 border-l-2 border-border">
+              <EnergyProfileEditor profile={energyProfile} onChange={setEnergyProfile} />
+            </div>
+          )}
+        </div>
+
+        <ScrollArea className="max-h-[50vh] px-6 py-4">
+          {rows.length === 0 && proposal.unplaced.length === 0 ? (
+            <p className="py-8 text-center text-sm text-foreground-muted">Nothing to plan: no unscheduled tasks</p>
+          ) : (
+            <div className="space-y-4">
+              {dates.filter((d) => rows.some((r) => r.date === d)).map((dateStr) => (
+                <div key={dateStr} className="space-y-1.5">
+                  {dates.length > 1 && (
+                    <p className="text-xs font-medium text-foreground-muted">{format(parseISO(dateStr), 'EEEE, MMM d')}</p>
+                  )}
+                  {rows.filter((r) => r.date === dateStr).map((row) => {
+                    const slotEnergy = getEnergyForSlot(energyProfile, row.date, parseTimeToHours(row.startTime) ?? 0);
+                    const mismatch = isEnergyMismatch(row.task.energy_level, slotEnergy);
+                    return (
+                      <div
+                        key={row.taskId}
+                        className={cn(
+                          'flex items-center gap-3 rounded-lg border border-border/50 px-3 py-2',
+                          excluded.has(row.taskId) && 'opacity-50'
+                        )}
+                      >
+                        <Checkbox checked={!excluded.has(row.taskId)} onCheckedChange={() => toggleExcluded(row.taskId)} />
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm text-foreground truncate">{row.task.title}</p>
+                          {mismatch && slotEnergy && (
+                            <p className="flex items-center gap-1 text-[11px] text-amber-500">
+                              <AlertTriangle className="w-3 h-3" />
+                              {slotEnergy} energy slot
+                            </p>
+                          )}
+                        </div>
+                        <EnergyPill energy={row.task.energy_level} />
+                        {dates.length > 1 && (
+                          <Select value={row.date} onValueChange={(val) => editPlacement(row, { date: val })}>
+                            <SelectTrigger className="h-8 w-24 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {dates.map((d) => (
+                                <SelectItem key={d} value={d}>{format(parseISO(d), 'EEE d')}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        <Input
+                          type="time"
+                          step={900}
+                          value={row.startTime}
+                          onChange={(e) => e.target.value && editPlacement(row, { startTime: e.target.value })}
+                          className="h-8 w-24 text-xs"
+                        />
+                        <span className="text-xs text-foreground-muted w-10">–{row.endTime}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+
+              {proposal.unplaced.length > 0 && (
+                <div className="space-y-1.5">
+                  <p className="text-xs font-medium text-foreground-muted">Not placed</p>
+                  {proposal.unplaced.filter((u) => tasksById.has(u.taskId)).map((u) => (
+                    <div key={u.taskId} className="flex items-center justify-between gap-3 px-3 py-1.5 text-sm text-foreground-muted">
+                      <span className="truncate">{tasksById.get(u.taskId)!.title}</span>
+                      <span className="text-xs flex-shrink-0">{u.reason}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </ScrollArea>
+
+        <DialogFooter className="px-6 py-4 border-t border-border bg-background">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={selectedRows.length === 0 || applying} className="gap-2">
+            {applying && <Loader2 className="w-4 h-4 animate-spin" />}
+            Schedule {selectedRows.length} task{selectedRows.length === 1 ? '' : 's'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AutoPlanDialog;
@@ -1,5 +1,9 @@
+import { useMemo } from 'react';
 import { ZoomLevel, EnergyLevel } from '@/types';
 import { cn } from '@/lib/utils';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { useCampaigns } from '@/contexts/CampaignsContext';
+import { campaignColor, campaignProgressMap, campaignsInMonth, phaseColor, phaseMonthIndices } from '@/lib/campaigns';
 
 interface CircularViewProps {
   zoomLevel: ZoomLevel;
@@ -15,6 +19,21 @@ const MONTHS = [
   'Sep', 'Oct', 'Nov', 'Dec'
 ];
 
+// SVG arc between two angles in degrees (0 = 3 o'clock, clockwise)
+const arcPath = (cx: number, cy: number, r: number, startDeg: number, endDeg: number) => {
+  const sweep = Math.min(endDeg - startDeg, 359.9);
+  const start = (startDeg * Math.PI) / 180;
+  const end = ((startDeg + sweep) * Math.PI) / 180;
+  const x1 = cx + r * Math.cos(start);
+  const y1 = cy + r * Math.sin(start);
+  const x2 = cx + r * Math.cos(end);
+  const y2 = cy + r * Math.sin(end);
+  return `M ${x1} ${y1} A ${r} ${r} 0 ${sweep > 180 ? 1 : 0} 1 ${x2} ${y2}`;
+};
+
+// Month slices are centered on their node, 30 degrees each
+const monthStartAngle = (monthIndex: number) => monthIndex * 30 - 90 - 15;
+
 const CircularView = ({
   zoomLevel,
   focusedMonth,
@@ -29,6 +48,10 @@ const CircularView = ({
   const center = size / 2;
   const radius = 160;
 
+  const { tasks } = useTasksContext();
+  const { phases, campaigns } = useCampaigns();
+  const progress = useMemo(() => campaignProgressMap(tasks, campaigns), [tasks, campaigns]);
+
   return (
     <div className="flex flex-col items-center justify-center min-h-[600px] animate-fade-in">
       {/* Header */}
@@ -64,6 +87,56 @@ const CircularView = ({
           />
         </svg>
 
+        {/* Phase arcs (outer ring) and campaign arcs (inner ring) */}
+        <svg width={size} height={size} className="absolute inset-0">
+          {phases.map((phase, i) => {
+            const months = phaseMonthIndices(phase);
+            const start = monthStartAngle(months[0]) + 2;
+            return (
+              <path
+                key={phase.id}
+                d={arcPath(center, center, radius + 30 + (i % 2) * 6, start, start + months.length * 30 - 4)}
+                fill="none"
+                stroke={phaseColor(phase)}
+                strokeWidth="4"
+                strokeLinecap="round"
+                opacity="0.85"
+              >
+                <title>{phase.name}</title>
+              </path>
+            );
+          })}
+          {MONTHS.map((_, monthIndex) =>
+            campaignsInMonth(campaigns, monthIndex).slice(0, 4).map((campaign, k) => {
+              const start = monthStartAngle(monthIndex) + 4;
+              const r = radius - 34 - k * 6;
+              const percent = progress.get(campaign.id)?.percent ?? 0;
+              return (
+                <g key={campaign.id}>
+                  <path
+                    d={arcPath(center, center, r, start, start + 22)}
+                    fill="none"
+                    stroke={campaignColor(campaign, phases)}
+                    strokeWidth="3"
+                    strokeLinecap="round"
+                    opacity="0.3"
+                  />
+                  {percent > 0 && (
+                    <path
+                      d={arcPath(center, center, r, start, start + 22 * (percent / 100))}
+                      fill="none"
+                      stroke={campaignColor(campaign, phases)}
+                      strokeWidth="3"
+                      strokeLinecap="round"
+                    />
+                  )}
+                  <title>{`${campaign.name} · ${percent}%`}</title>
+                </g>
+              );
+            })
+          )}
+        </svg>
+
         {/* Center content */}
         <div 
           className="absolute inset-0 flex items-center justify-center"
@@ -137,6 +210,18 @@ const CircularView = ({
           <div className="w-3 h-3 rounded-full bg-card border border-border" />
           <span>Upcoming</span>
         </div>
+        {phases.length > 0 && (
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-1 rounded-full bg-foreground-muted/60" />
+            <span>Phases</span>
+          </div>
+        )}
+        {campaigns.length > 0 && (
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-0.5 rounded-full bg-foreground-muted/60" />
+            <span>Campaigns (inner ring)</span>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,10 +1,10 @@
 import { useState, useEffect, useRef, useMemo, useCallback, memo } from 'react';
-import { format, startOfDay, addHours, addDays, isToday } from 'date-fns';
+import { format, startOfDay, addHours, addDays, isToday, parseISO } from 'date-fns';
 import { cn } from '@/lib/utils';
-import { parseTimeToHours } from '@/lib/timeUtils';
+import { formatHoursToTime, parseTimeToHours } from '@/lib/timeUtils';
 import { getUnifiedTimeRangeConfig, formatHourLabel, getEffectiveFocusTimes } from '@/lib/timeRangeConfig';
-import { EnergyLevel, Task } from '@/types';
-import { ChevronLeft, ChevronRight, Plus } from 'lucide-react';
+import { EnergyLevel, RecurrenceRule, Task, Urgency } from '@/types';
+import { ChevronLeft, ChevronRight, Plus, Wand2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import QuickAddTask from '@/components/tasks/QuickAddTask';
 import CalendarTask from '@/components/tasks/CalendarTask';
@@ -12,12 +12,19 @@ import DraggableUntimedTask from '@/components/tasks/DraggableUntimedTask';
 import CreateTaskDialog from '@/components/tasks/CreateTaskDialog';
 import CurrentTimeIndicator from '@/components/planner/CurrentTimeIndicator';
 import DayViewTimeControls from '@/components/planner/DayViewTimeControls';
+import AutoPlanDialog from '@/components/planner/AutoPlanDialog';
 import { useDroppable } from '@dnd-kit/core';
 import { useTasksContext } from '@/contexts/TasksContext';
+import { useFilters } from '@/contexts/FiltersContext';
+import { useShortcuts } from '@/contexts/ShortcutsContext';
+import { expandTasksInRange } from '@/lib/recurrence';
+import { getCurveForDate, getEnergyAtHour, isEnergyMismatch } from '@/lib/energyCurve';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useContainerSize } from '@/hooks/useContainerSize';
+import { useSelectedTaskShortcuts } from '@/hooks/useSelectedTaskShortcuts';
 
 import { useDndContext } from '@/components/dnd/DndProvider';
+import { useDndId } from '@/components/dnd/dndIds';
 import { useDensity } from '@/contexts/DensityContext';
 import {
   Tooltip,
@@ -26,6 +33,14 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 
+// Hour-row tint by expected energy
+const energySlotShade: Record<EnergyLevel, string> = {
+  high: 'bg-energy-high/5 border-l-energy-high/50',
+  medium: 'bg-energy-medium/5 border-l-energy-medium/50',
+  low: 'bg-energy-low/5 border-l-energy-low/50',
+  recovery: 'bg-energy-recovery/5 border-l-energy-recovery/50',
+};
+
 // Track recently added task IDs for glow animation
 const recentlyAddedTasks = new Set<string>();
 
@@ -51,8 +66,9 @@ const TimeSlotDropZone = memo(({ hour, slotIndex, date, children }: TimeSlotDrop
   const minutesFromStartOfDay = slotIndex * 60;
   const hh = String(Math.floor(minutesFromStartOfDay / 60)).padStart(2, '0');
   const mm = String(minutesFromStartOfDay % 60).padStart(2, '0');
+  const dndId = useDndId();
   const { setNodeRef, isOver } = useDroppable({
-    id: `cal:slot:${dateISO}:${hh}:${mm}`,
+    id: dndId(`cal:slot:${dateISO}:${hh}:${mm}`),
     data: { kind: 'cal-slot', zone: 'calendar', dateISO, minutesFromStartOfDay, hour, type: 'time-slot', date },
   });
 
@@ -97,8 +113,9 @@ interface ReorderDropZoneProps {
 }
 
 const ReorderDropZone = memo(({ groupIdx, columnIndex, groupTasks, groupTop, groupHeight, edgeLeftPercent }: ReorderDropZoneProps) => {
+  const dndId = useDndId();
   const { setNodeRef, isOver } = useDroppable({
-    id: `reorder-zone-${groupIdx}-${columnIndex}`,
+    id: dndId(`reorder-zone-${groupIdx}-${columnIndex}`),
     data: {
       type: 'reorder-zone',
       columnIndex,
@@ -147,7 +164,7 @@ const DayView = ({ date, currentEnergy, energyFilter = [], onBack, showHourFocus
   const isNarrowPane = paneWidth > 0 && paneWidth <= 900;
   const stackUntimed = isNarrowPane || isMobile;
   const { activeTask, dragOverInfo } = useDndContext();
-  const { isTooltipEnabledForView, timeRangeSettings } = useDensity();
+  const { isTooltipEnabledForView, timeRangeSettings, energyProfile } = useDensity();
 
   // Time range configuration from settings - with per-day overrides
   const BASE_HOUR_HEIGHT = isMobile ? 72 : 64;
@@ -180,6 +197,7 @@ const DayView = ({ date, currentEnergy, energyFilter = [], onBack, showHourFocus
   const { hours, hourHeight: HOUR_HEIGHT, startHour: rangeStartHour, endHour: rangeEndHour, isCrossingMidnight, nightSegments } = timeRangeConfig;
 
   const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [showAutoPlan, setShowAutoPlan] = useState(false);
   const [createTimeRange, setCreateTimeRange] = useState<{ start: string; end: string } | null>(null);
 
   // Track which task is currently selected (only one at a time)
@@ -194,6 +212,7 @@ const DayView = ({ date, currentEnergy, energyFilter = [], onBack, showHourFocus
   const [taskLefts, setTaskLefts] = useState<Record<string, number>>({});
 
   const { tasks: allTasks, addTask, updateTask, deleteTask } = useTasksContext();
+  const { matchesTask } = useFilters();
 
   // Deselect task when clicking outside any task
   useEffect(() => {
@@ -389,10 +408,12 @@ const DayView = ({ date, currentEnergy, energyFilter = [], onBack, showHourFocus
   }, [date]);
 
   const dateStr = format(currentDate, 'yyyy-MM-dd');
+  const autoPlanDates = useMemo(() => [dateStr], [dateStr]);
+  const energyCurve = useMemo(() => getCurveForDate(energyProfile, dateStr), [energyProfile, dateStr]);
 
   // Filter tasks for current date from the centralized context
   const tasks = useMemo(() =>
-    allTasks.filter(t => t.due_date === dateStr),
+    expandTasksInRange(allTasks, dateStr, dateStr),
     [allTasks, dateStr]
   );
 
@@ -483,6 +504,9 @@ const DayView = ({ date, currentEnergy, energyFilter = [], onBack, showHourFocus
     startTime?: string;
     endTime?: string;
     endDate?: string;
+    location?: string;
+    urgency?: Urgency;
+    recurrence?: RecurrenceRule;
   }) => {
     await addTask({
       title: task.title,
@@ -491,6 +515,9 @@ const DayView = ({ date, currentEnergy, energyFilter = [], onBack, showHourFocus
       start_time: task.startTime,
       end_time: task.endTime,
       end_date: task.endDate,
+      location: task.location ?? null,
+      urgency: task.urgency ?? 'normal',
+      recurrence: task.recurrence ?? null,
     });
     setAddingAtHour(null);
   }, [addTask, dateStr]);
@@ -526,13 +553,29 @@ const DayView = ({ date, currentEnergy, energyFilter = [], onBack, showHourFocus
   }, []);
 
   const filteredTasks = useMemo(() =>
-    energyFilter.length > 0
-      ? tasks.filter(t => energyFilter.includes(t.energy_level))
-      : tasks,
-    [tasks, energyFilter]
+    tasks.filter(t => matchesTask(t) && (energyFilter.length === 0 || energyFilter.includes(t.energy_level))),
+    [tasks, energyFilter, matchesTask]
   );
 
   const untimedTasks = useMemo(() => filteredTasks.filter(t => !t.start_time), [filteredTasks]);
+
+  const selectedTask = useMemo(() => filteredTasks.find(t => t.id === selectedTaskId), [filteredTasks, selectedTaskId]);
+
+  // New task at the focused slot: after the selected task, else the current hour today, else the start of focus time
+  const handleCreateAtFocus = useCallback(() => {
+    const selectedEnd = parseTimeToHours(selectedTask?.end_time ?? selectedTask?.start_time);
+    const start = Math.min(selectedEnd ?? (isToday(currentDate) ? new Date().getHours() : effectiveSettings.focusStartTime), 23);
+    setCreateTimeRange({ start: formatHoursToTime(start), end: formatHoursToTime(Math.min(start + 1, 23.75)) });
+    setShowCreateDialog(true);
+  }, [selectedTask, currentDate, effectiveSettings.focusStartTime]);
+
+  useShortcuts({
+    'calendar.previous': handlePrevDay,
+    'calendar.next': handleNextDay,
+    'task.new': handleCreateAtFocus,
+  });
+
+  useSelectedTaskShortcuts(selectedTask, (movedTo) => setCurrentDate(parseISO(movedTo)));
   const timedTasks = useMemo(() => filteredTasks.filter(t => t.start_time), [filteredTasks]);
 
   // Track new untimed tasks for glow animation
@@ -743,6 +786,20 @@ const DayView = ({ date, currentEnergy, energyFilter = [], onBack, showHourFocus
         <div className="flex items-center gap-2 flex-shrink-0">
           <DayViewTimeControls date={currentDate} />
 
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowAutoPlan(true)}
+            className={cn(
+              "gap-1.5 border-border/50",
+              isMobile ? "h-11 w-11 p-0" : "h-10 px-3"
+            )}
+            aria-label="Auto-plan my day"
+          >
+            <Wand2 className="w-4 h-4" />
+            <span className="hidden lg:inline text-sm">Auto-plan</span>
+          </Button>
+
           <div className="flex items-center gap-1">
             <Button
               variant="outline"
@@ -796,6 +853,7 @@ const DayView = ({ date, currentEnergy, energyFilter = [], onBack, showHourFocus
               const showNightEnabled = effectiveSettings.showNight ?? false;
               const isNight = isNightHour(hour);
               const showNightIndicator = showNightEnabled && effectiveSettings.dayTimeRangeMode === 'FOCUS' && isNight;
+              const slotEnergy = getEnergyAtHour(energyCurve, hour);
 
               return (
                 <TimeSlotDropZone key={`${hour}-${hourIndex}`} hour={hour} slotIndex={hourIndex} date={currentDate}>
@@ -811,6 +869,17 @@ const DayView = ({ date, currentEnergy, energyFilter = [], onBack, showHourFocus
                     onMouseDown={(e) => handleMouseDown(hour, e)}
                     onClick={() => handleTapToAdd(hour)}
                   >
+                    {/* Expected energy for this hour */}
+                    {slotEnergy && (
+                      <div
+                        className={cn(
+                          'absolute inset-y-0 right-0 border-l-2 pointer-events-none',
+                          isMobile ? 'left-12' : 'left-14',
+                          energySlotShade[slotEnergy]
+                        )}
+                      />
+                    )}
+
                     {/* 15-min subdivision lines for denser grid feel */}
                     <div
                       className="absolute left-14 right-0 top-1/4 border-t border-border/20 pointer-events-none"
@@ -1007,6 +1076,9 @@ const DayView = ({ date, currentEnergy, energyFilter = [], onBack, showHourFocus
                         const displayLeft = isMultiTask ? taskLeft : (taskLefts[task.id] ?? 0);
                         const displayWidth = isMultiTask ? taskWidth : (taskWidths[task.id] ?? 100);
 
+                        const startHour = parseTimeToHours(task.start_time);
+                        const slotEnergy = startHour != null ? getEnergyAtHour(energyCurve, startHour) : null;
+
                         return (
                           <div
                             key={task.id}
@@ -1047,6 +1119,7 @@ const DayView = ({ date, currentEnergy, energyFilter = [], onBack, showHourFocus
                               onSelect={() => setSelectedTaskId(task.id)}
                               minTimeHour={rangeStartHour}
                               maxTimeHour={isCrossingMidnight ? 24 : rangeEndHour}
+                              slotEnergyMismatch={isEnergyMismatch(task.energy_level, slotEnergy) ? slotEnergy : null}
                             />
                           </div>
                         );
@@ -1096,6 +1169,12 @@ const DayView = ({ date, currentEnergy, energyFilter = [], onBack, showHourFocus
         </div>
       </div>
 
+      <AutoPlanDialog
+        open={showAutoPlan}
+        onOpenChange={setShowAutoPlan}
+        dates={autoPlanDates}
+      />
+
       <CreateTaskDialog
         open={showCreateDialog}
         onOpenChange={setShowCreateDialog}
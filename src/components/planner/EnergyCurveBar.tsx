@@ -0,0 +1,48 @@
+import { memo } from 'react';
+import { cn } from '@/lib/utils';
+import { EnergyLevel } from '@/types';
+import { EnergyCurve } from '@/lib/energyCurve';
+
+interface EnergyCurveBarProps {
+  curve: EnergyCurve;
+  startHour?: number;
+  endHour?: number;
+  className?: string;
+  title?: string;
+}
+
+const ENERGY_COLOR: Record<EnergyLevel, string> = {
+  high: 'bg-energy-high',
+  medium: 'bg-energy-medium',
+  low: 'bg-energy-low',
+  recovery: 'bg-energy-recovery',
+};
+
+/**
+ * Horizontal bar of an energy curve between two hours (the whole day by default).
+ */
+const EnergyCurveBar = memo(({ curve, startHour = 0, endHour = 24, className, title }: EnergyCurveBarProps) => {
+  const span = endHour - startHour;
+
+  return (
+    <div title={title} className={cn('relative h-3 rounded-full bg-secondary overflow-hidden', className)}>
+      {curve
+        .filter((s) => s.endHour > startHour && s.startHour < endHour)
+        .map((s, i) => {
+          const from = Math.max(s.startHour, startHour);
+          const to = Math.min(s.endHour, endHour);
+          return (
+            <div
+              key={i}
+              className={cn('absolute inset-y-0', ENERGY_COLOR[s.energy])}
+              style={{ left: `${((from - startHour) / span) * 100}%`, width: `${((to - from) / span) * 100}%` }}
+            />
+          );
+        })}
+    </div>
+  );
+});
+
+EnergyCurveBar.displayName = 'EnergyCurveBar';
+
+export default EnergyCurveBar;
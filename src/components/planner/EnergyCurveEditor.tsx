@@ -0,0 +1,138 @@
+import { memo } from 'react';
+import { Plus, RotateCcw, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EnergyLevel } from '@/types';
+import { EnergyCurve, defaultEnergyCurve } from '@/lib/energyCurve';
+import { formatHourLabel } from '@/lib/timeRangeConfig';
+import EnergyCurveBar from './EnergyCurveBar';
+
+interface EnergyCurveEditorProps {
+  curve: EnergyCurve;
+  onChange: (curve: EnergyCurve) => void;
+}
+
+const ENERGY_OPTIONS: { value: EnergyLevel; shortLabel: string; color: string }[] = [
+  { value: 'high', shortLabel: 'High', color: 'bg-energy-high' },
+  { value: 'medium', shortLabel: 'Med', color: 'bg-energy-medium' },
+  { value: 'low', shortLabel: 'Low', color: 'bg-energy-low' },
+  { value: 'recovery', shortLabel: 'Rec', color: 'bg-energy-recovery' },
+];
+
+const hourOptions = Array.from({ length: 25 }, (_, h) => ({
+  value: h,
+  label: h === 24 ? '12 AM (end)' : formatHourLabel(h),
+}));
+
+/**
+ * Edit the daily energy curve as hour segments; a 24h bar previews the result.
+ */
+const EnergyCurveEditor = memo(({ curve, onChange }: EnergyCurveEditorProps) => {
+  const updateSegment = (index: number, patch: Partial<EnergyCurve[number]>) => {
+    onChange(curve.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  };
+
+  const lastEnd = curve.length > 0 ? curve[curve.length - 1].endHour : 8;
+
+  return (
+    <div className="space-y-3">
+      {/* 24h preview */}
+      <EnergyCurveBar curve={curve} />
+      <div className="flex justify-between text-[10px] text-foreground-subtle -mt-1">
+        <span>12 AM</span>
+        <span>6 AM</span>
+        <span>12 PM</span>
+        <span>6 PM</span>
+        <span>12 AM</span>
+      </div>
+
+      <div className="space-y-2">
+        {curve.map((segment, index) => (
+          <div key={index} className="flex items-center gap-2 flex-wrap">
+            <Select
+              value={segment.startHour.toString()}
+              onValueChange={(val) => updateSegment(index, { startHour: parseInt(val) })}
+            >
+              <SelectTrigger className="h-8 w-24 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {hourOptions
+                  .filter((opt) => opt.value < segment.endHour)
+                  .map((opt) => (
+                    <SelectItem key={opt.value} value={opt.value.toString()}>{opt.label}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <span className="text-xs text-foreground-muted">to</span>
+            <Select
+              value={segment.endHour.toString()}
+              onValueChange={(val) => updateSegment(index, { endHour: parseInt(val) })}
+            >
+              <SelectTrigger className="h-8 w-24 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {hourOptions
+                  .filter((opt) => opt.value > segment.startHour)
+                  .map((opt) => (
+                    <SelectItem key={opt.value} value={opt.value.toString()}>{opt.label}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+
+            <div className="flex items-center gap-1">
+              {ENERGY_OPTIONS.map((opt) => (
+                <button
+                  key={opt.value}
+                  onClick={() => updateSegment(index, { energy: opt.value })}
+                  className={cn(
+                    'flex items-center gap-1 px-1.5 py-1 rounded-md text-xs transition-all',
+                    segment.energy === opt.value
+                      ? 'bg-secondary text-foreground ring-1 ring-primary/30'
+                      : 'text-foreground-muted hover:bg-secondary/50'
+                  )}
+                >
+                  <span className={cn('w-2 h-2 rounded-full', opt.color)} />
+                  {opt.shortLabel}
+                </button>
+              ))}
+            </div>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0 ml-auto text-foreground-muted"
+              onClick={() => onChange(curve.filter((_, i) => i !== index))}
+              aria-label="Remove segment"
+            >
+              <X className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 gap-1 text-xs"
+          disabled={lastEnd >= 24}
+          onClick={() => onChange([...curve, { startHour: lastEnd, endHour: Math.min(24, lastEnd + 2), energy: 'medium' }])}
+        >
+          <Plus className="w-3 h-3" />
+          Add segment
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={() => onChange(defaultEnergyCurve)}>
+          <RotateCcw className="w-3 h-3" />
+          Reset
+        </Button>
+      </div>
+    </div>
+  );
+});
+
+EnergyCurveEditor.displayName = 'EnergyCurveEditor';
+
+export default EnergyCurveEditor;
@@ -0,0 +1,105 @@
+import { memo, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { EnergyCurve, EnergyProfile } from '@/lib/energyCurve';
+import EnergyCurveEditor from './EnergyCurveEditor';
+
+interface EnergyProfileEditorProps {
+  profile: EnergyProfile;
+  onChange: (profile: EnergyProfile) => void;
+}
+
+// Monday-first, values match Date.getDay
+const WEEKDAYS = [
+  { value: 1, label: 'Mon', name: 'Monday' },
+  { value: 2, label: 'Tue', name: 'Tuesday' },
+  { value: 3, label: 'Wed', name: 'Wednesday' },
+  { value: 4, label: 'Thu', name: 'Thursday' },
+  { value: 5, label: 'Fri', name: 'Friday' },
+  { value: 6, label: 'Sat', name: 'Saturday' },
+  { value: 0, label: 'Sun', name: 'Sunday' },
+];
+
+/**
+ * Edit the default energy curve and optional per-weekday curves.
+ */
+const EnergyProfileEditor = memo(({ profile, onChange }: EnergyProfileEditorProps) => {
+  const [selected, setSelected] = useState<'default' | number>('default');
+
+  const weekdayCurve = selected === 'default' ? undefined : profile.weekdays[selected];
+  const weekdayName = WEEKDAYS.find((d) => d.value === selected)?.name;
+
+  const setWeekdayCurve = (day: number, curve: EnergyCurve | undefined) => {
+    const weekdays = { ...profile.weekdays };
+    if (curve) weekdays[day] = curve;
+    else delete weekdays[day];
+    onChange({ ...profile, weekdays });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-1 flex-wrap">
+        <button
+          onClick={() => setSelected('default')}
+          className={cn(
+            'px-2 py-1 rounded-md text-xs transition-all',
+            selected === 'default'
+              ? 'bg-secondary text-foreground ring-1 ring-primary/30'
+              : 'text-foreground-muted hover:bg-secondary/50'
+          )}
+        >
+          Every day
+        </button>
+        {WEEKDAYS.map((day) => (
+          <button
+            key={day.value}
+            onClick={() => setSelected(day.value)}
+            className={cn(
+              'relative px-2 py-1 rounded-md text-xs transition-all',
+              selected === day.value
+                ? 'bg-secondary text-foreground ring-1 ring-primary/30'
+                : 'text-foreground-muted hover:bg-secondary/50'
+            )}
+          >
+            {day.label}
+            {profile.weekdays[day.value] && (
+              <span className="absolute top-0.5 right-0.5 w-1 h-1 rounded-full bg-primary" />
+            )}
+          </button>
+        ))}
+      </div>
+
+      {selected === 'default' ? (
+        <EnergyCurveEditor curve={profile.default} onChange={(curve) => onChange({ ...profile, default: curve })} />
+      ) : weekdayCurve ? (
+        <>
+          <EnergyCurveEditor curve={weekdayCurve} onChange={(curve) => setWeekdayCurve(selected, curve)} />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs text-foreground-muted"
+            onClick={() => setWeekdayCurve(selected, undefined)}
+          >
+            Use the every-day curve on {weekdayName}s
+          </Button>
+        </>
+      ) : (
+        <div className="flex items-center justify-between gap-3 rounded-lg bg-secondary/30 px-3 py-2">
+          <p className="text-xs text-foreground-muted">{weekdayName}s follow the every-day curve</p>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setWeekdayCurve(selected, profile.default)}
+          >
+            Customize
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+});
+
+EnergyProfileEditor.displayName = 'EnergyProfileEditor';
+
+export default EnergyProfileEditor;
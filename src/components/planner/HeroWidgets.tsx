@@ -1,8 +1,130 @@
-import { memo } from 'react';
+import { memo, useCallback } from 'react';
+import { CalendarPlus, Check, Loader2, RefreshCw, Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import EnergyPill from '@/components/shared/EnergyPill';
+import { useToast } from '@/hooks/use-toast';
+import { useSuggestions } from '@/contexts/SuggestionsContext';
+import { useCampaigns } from '@/contexts/CampaignsContext';
+import { campaignColor } from '@/lib/campaigns';
+import { suggestedDateLabel } from '@/lib/suggestions';
+import { ContentSuggestion } from '@/types';
 
+// Cards shown in the strip; the rest wait in the queue
+const VISIBLE_SUGGESTIONS = 4;
+
+/**
+ * "Suggested for you" strip: the head of the content suggestions queue.
+ */
 const HeroWidgets = memo(() => {
-  // Hidden as they rely on AI integration
-  return null;
+  const { pending, generating, generateSuggestions, acceptSuggestion, scheduleSuggestion, dismissSuggestion } = useSuggestions();
+  const { campaigns, phases } = useCampaigns();
+  const { toast } = useToast();
+
+  const handleRefresh = useCallback(async () => {
+    const added = await generateSuggestions();
+    if (added === 0) toast({ title: 'No new suggestions right now' });
+  }, [generateSuggestions, toast]);
+
+  const handleSchedule = useCallback(async (suggestion: ContentSuggestion) => {
+    const task = await scheduleSuggestion(suggestion.id);
+    if (task?.due_date) toast({ title: 'Scheduled', description: `${task.title} · ${suggestedDateLabel(task.due_date)}` });
+  }, [scheduleSuggestion, toast]);
+
+  const handleAccept = useCallback(async (suggestion: ContentSuggestion) => {
+    const task = await acceptSuggestion(suggestion.id);
+    if (task) toast({ title: 'Added to inbox', description: task.title });
+  }, [acceptSuggestion, toast]);
+
+  if (pending.length === 0 && !generating) return null;
+
+  const visible = pending.slice(0, VISIBLE_SUGGESTIONS);
+
+  return (
+    <section className="mb-4 sm:mb-5" aria-label="Suggested for you">
+      <div className="flex items-center gap-2 mb-2">
+        <Sparkles className="w-4 h-4 text-primary" />
+        <h2 className="text-sm font-medium">Suggested for you</h2>
+        {pending.length > VISIBLE_SUGGESTIONS && (
+          <span className="text-xs text-foreground-muted">+{pending.length - VISIBLE_SUGGESTIONS} more</span>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 ml-auto text-foreground-muted"
+          onClick={handleRefresh}
+          disabled={generating}
+          aria-label="Find new suggestions"
+        >
+          {generating ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+        </Button>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-1 -mx-1 px-1">
+        {visible.map((suggestion) => {
+          const campaign = suggestion.related_campaign_id
+            ? campaigns.find((c) => c.id === suggestion.related_campaign_id)
+            : undefined;
+          const dateLabel = suggestedDateLabel(suggestion.suggested_date);
+          return (
+            <div
+              key={suggestion.id}
+              className="flex-shrink-0 w-60 rounded-lg border border-border/50 bg-card px-3 py-2.5 flex flex-col gap-1.5"
+            >
+              <div className="flex items-start gap-2">
+                <span className="flex-1 text-sm font-medium leading-snug line-clamp-2">{suggestion.title}</span>
+                <button
+                  onClick={() => dismissSuggestion(suggestion.id)}
+                  className="p-0.5 -mr-1 rounded text-foreground-muted hover:text-foreground hover:bg-secondary"
+                  aria-label={`Dismiss "${suggestion.title}"`}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <p className="text-xs text-foreground-muted line-clamp-1" title={suggestion.description}>{suggestion.reason}</p>
+              <div className="flex items-center gap-1.5 flex-wrap text-[11px] text-foreground-muted">
+                <EnergyPill energy={suggestion.energy_level} compact />
+                {dateLabel && <span>{dateLabel}</span>}
+                {suggestion.platform && (
+                  <Badge variant="secondary" className="text-[10px] font-normal px-1.5 py-0 capitalize">{suggestion.platform}</Badge>
+                )}
+                {campaign && (
+                  <span className="flex items-center gap-1 truncate max-w-[7rem]">
+                    <span className="w-1.5 h-1.5 rounded-full flex-shrink-0" style={{ backgroundColor: campaignColor(campaign, phases) }} />
+                    <span className="truncate">{campaign.name}</span>
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-1.5 pt-0.5">
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button size="sm" className="h-7 flex-1 gap-1 text-xs" onClick={() => handleSchedule(suggestion)}>
+                      <CalendarPlus className="w-3.5 h-3.5" />
+                      Schedule
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Add to the calendar · {dateLabel ?? 'Today'}</TooltipContent>
+                </Tooltip>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button size="sm" variant="outline" className="h-7 gap-1 text-xs" onClick={() => handleAccept(suggestion)}>
+                      <Check className="w-3.5 h-3.5" />
+                      Accept
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Add to the inbox without a date</TooltipContent>
+                </Tooltip>
+              </div>
+            </div>
+          );
+        })}
+        {visible.length === 0 && (
+          <p className="py-3 text-xs text-foreground-muted">Looking for ideas…</p>
+        )}
+      </div>
+    </section>
+  );
 });
 
 HeroWidgets.displayName = 'HeroWidgets';
@@ -18,6 +18,21 @@ interface TopTask {
   energy: EnergyLevel;
 }
 
+export interface PhaseBand {
+  id: string;
+  name: string;
+  color: string;
+  isStart: boolean; // phase begins in this month
+  isEnd: boolean;
+}
+
+export interface CampaignChip {
+  id: string;
+  name: string;
+  color: string;
+  percent: number;
+}
+
 interface MonthCardProps {
   month: number;
   name: string;
@@ -26,6 +41,8 @@ interface MonthCardProps {
   onClick: () => void;
   taskIndicators?: TaskIndicator[];
   topTasks?: TopTask[];
+  phaseBands?: PhaseBand[];
+  campaigns?: CampaignChip[];
 }
 
 const energyColors: Record<EnergyLevel, string> = {
@@ -43,6 +60,8 @@ const MonthCard = ({
   onClick,
   taskIndicators = [],
   topTasks = [],
+  phaseBands = [],
+  campaigns = [],
 }: MonthCardProps) => {
   const isCompact = zoomLevel === 'year';
   const isExpanded = zoomLevel === 'month';
@@ -62,6 +81,23 @@ const MonthCard = ({
         isExpanded && "p-6 lg:p-8 min-h-[300px] lg:min-h-[400px]"
       )}
     >
+      {/* Phase bands - continue across months, rounded where a phase starts or ends */}
+      {phaseBands.length > 0 && (
+        <div className="absolute top-0 inset-x-0 flex flex-col gap-px pointer-events-none">
+          {phaseBands.map((band) => (
+            <div
+              key={band.id}
+              className={cn(
+                'h-1 opacity-80',
+                band.isStart && 'ml-2 rounded-l-full',
+                band.isEnd && 'mr-2 rounded-r-full'
+              )}
+              style={{ backgroundColor: band.color }}
+            />
+          ))}
+        </div>
+      )}
+
       {/* Month header */}
       <div className="flex items-start justify-between">
         <div className="min-w-0">
@@ -88,6 +124,34 @@ const MonthCard = ({
         </span>
       </div>
 
+      {/* Campaigns */}
+      {campaigns.length > 0 && (
+        <div className={cn('min-w-0', isCompact ? 'mt-1.5 space-y-0.5' : 'mt-3 space-y-1.5')}>
+          {campaigns.slice(0, isCompact ? 2 : campaigns.length).map((campaign) => (
+            <div key={campaign.id} className="flex items-center gap-1.5 min-w-0" title={`${campaign.name} · ${campaign.percent}%`}>
+              <span
+                className={cn('rounded-full flex-shrink-0', isCompact ? 'w-1.5 h-1.5' : 'w-2 h-2')}
+                style={{ backgroundColor: campaign.color }}
+              />
+              <span className={cn('truncate text-foreground-muted', isCompact ? 'text-[9px] sm:text-[10px]' : 'text-xs')}>
+                {campaign.name}
+              </span>
+              {!isCompact && (
+                <div className="ml-auto flex items-center gap-1.5 flex-shrink-0">
+                  <div className="w-12 h-1 rounded-full bg-secondary overflow-hidden">
+                    <div className="h-full rounded-full" style={{ width: `${campaign.percent}%`, backgroundColor: campaign.color }} />
+                  </div>
+                  <span className="text-2xs tabular-nums text-foreground-muted w-7 text-right">{campaign.percent}%</span>
+                </div>
+              )}
+            </div>
+          ))}
+          {isCompact && campaigns.length > 2 && (
+            <span className="text-[8px] sm:text-[9px] text-foreground-muted">+{campaigns.length - 2} more</span>
+          )}
+        </div>
+      )}
+
       {/* Minimalist energy indicators - just tiny dots in a row */}
       {isCompact && totalTasks > 0 && (
         <div className="mt-auto pt-2">
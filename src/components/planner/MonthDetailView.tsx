@@ -7,6 +7,9 @@ import { Button } from '@/components/ui/button';
 
 import { useDroppable, useDraggable as useDndDraggable } from '@dnd-kit/core';
 import { useTasksContext } from '@/contexts/TasksContext';
+import { useFilters } from '@/contexts/FiltersContext';
+import { useShortcuts } from '@/contexts/ShortcutsContext';
+import { expandTasksInRange } from '@/lib/recurrence';
 import EditTaskDialog from '@/components/tasks/EditTaskDialog';
 import { useContainerSize } from '@/hooks/useContainerSize';
 import {
@@ -19,6 +22,7 @@ import { useSortable, SortableContext, verticalListSortingStrategy } from '@dnd-
 import { useDraggable } from '@dnd-kit/core';
 import { CSS } from '@dnd-kit/utilities';
 import { useDndContext } from '@/components/dnd/DndProvider';
+import { useDndId } from '@/components/dnd/dndIds';
 
 interface MonthDetailViewProps {
   month: number;
@@ -60,8 +64,9 @@ const ResizeHandle = memo(({
   type: 'start' | 'end';
   className: string
 }) => {
+  const dndId = useDndId();
   const { attributes, listeners, setNodeRef, isDragging } = useDndDraggable({
-    id: `resize-${type}-${taskId}`,
+    id: dndId(`resize-${type}-${taskId}`),
     data: { type: `resize-${type}`, taskId },
   });
 
@@ -107,6 +112,7 @@ const DraggableMultiDaySegment = memo(({
   onClick: (e: React.MouseEvent) => void;
   date: Date;
 }) => {
+  const dndId = useDndId();
   const {
     attributes,
     listeners,
@@ -115,7 +121,7 @@ const DraggableMultiDaySegment = memo(({
     transition,
     isDragging,
   } = useSortable({
-    id: `multi-${task.id}-${dateStr}`,
+    id: dndId(`multi-${task.id}-${dateStr}`),
     data: { type: 'calendar-task', task },
   });
 
@@ -215,8 +221,9 @@ const DroppableDayCell = memo(({ day, tasks, multiDayTasks, allTasksInView, inMo
   const dateStr = format(day, 'yyyy-MM-dd');
   const { resizeInfo } = useDndContext();
 
+  const dndId = useDndId();
   const { isOver, setNodeRef } = useDroppable({
-    id: dateStr,
+    id: dndId(dateStr),
     data: { type: 'day', date: day },
   });
 
@@ -290,7 +297,7 @@ const DroppableDayCell = memo(({ day, tasks, multiDayTasks, allTasksInView, inMo
         style={{ minHeight: `${maxLanes * 36}px` }}
       >
         <SortableContext
-          items={multiDayTasks.map(t => `multi-${t.id}-${dateStr}`)}
+          items={multiDayTasks.map(t => dndId(`multi-${t.id}-${dateStr}`))}
           strategy={verticalListSortingStrategy}
         >
           {multiDayTasks.sort((a, b) => (a.display_order || 0) - (b.display_order || 0)).map(task => {
@@ -409,8 +416,9 @@ interface DraggableMonthTaskProps {
 }
 
 const DraggableMonthTask = memo(({ task, userId, onDoubleClick }: DraggableMonthTaskProps) => {
+  const dndId = useDndId();
   const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
-    id: `task:${task.id}`,
+    id: dndId(`task:${task.id}`),
     data: { kind: 'task', type: 'calendar-task', fromZone: 'calendar', taskId: task.id, task },
   });
 
@@ -496,18 +504,19 @@ const MonthDetailView = ({ month, year, currentEnergy, energyFilter = [], onDayC
   const calendarDays = useMemo(() => eachDayOfInterval({ start: calendarStart, end: calendarEnd }), [calendarStart, calendarEnd]);
 
   const { tasks: allTasks, updateTask, deleteTask } = useTasksContext();
+  const { matchesTask } = useFilters();
 
   const tasks = useMemo(() => {
     const startStr = format(calendarStart, 'yyyy-MM-dd');
     const endStr = format(calendarEnd, 'yyyy-MM-dd');
-    return allTasks.filter(t => t.due_date && t.due_date >= startStr && t.due_date <= endStr);
+    return expandTasksInRange(allTasks, startStr, endStr);
   }, [allTasks, calendarStart, calendarEnd]);
 
   const { regularTasks, multiDayTasks } = useMemo(() => {
     const regular: Task[] = [];
     const multiDay: Task[] = [];
 
-    tasks.forEach(t => {
+    tasks.filter(matchesTask).forEach(t => {
       if (t.end_date && t.end_date !== t.due_date) {
         multiDay.push(t);
       } else {
@@ -516,7 +525,7 @@ const MonthDetailView = ({ month, year, currentEnergy, energyFilter = [], onDayC
     });
 
     return { regularTasks: regular, multiDayTasks: multiDay };
-  }, [tasks]);
+  }, [tasks, matchesTask]);
 
   const getTasksForDay = useCallback((date: Date) => {
     const dateStr = format(date, 'yyyy-MM-dd');
@@ -570,7 +579,7 @@ const MonthDetailView = ({ month, year, currentEnergy, energyFilter = [], onDayC
   }, [updateTask]);
 
   const handleResizeTask = useCallback((taskId: string, newDate: Date) => {
-    const task = allTasks.find(t => t.id === taskId);
+    const task = tasks.find(t => t.id === taskId);
     if (!task || !task.due_date) return;
 
     const start = parseISO(task.due_date);
@@ -582,7 +591,7 @@ const MonthDetailView = ({ month, year, currentEnergy, energyFilter = [], onDayC
       updateTask(taskId, { end_date: dateStr });
     }
     setSelectedTaskId(null);
-  }, [allTasks, updateTask]);
+  }, [tasks, updateTask]);
 
   const handlePrevMonth = useCallback(() => {
     const newDate = addMonths(monthDate, -1);
@@ -596,6 +605,8 @@ const MonthDetailView = ({ month, year, currentEnergy, energyFilter = [], onDayC
     setCurrentYear(newDate.getFullYear());
   }, [monthDate]);
 
+  useShortcuts({ 'calendar.previous': handlePrevMonth, 'calendar.next': handleNextMonth });
+
   const weeks = useMemo(() => {
     const result: Date[][] = [];
     for (let i = 0; i < calendarDays.length; i += 7) {
@@ -654,7 +665,7 @@ const MonthDetailView = ({ month, year, currentEnergy, energyFilter = [], onDayC
                 setSelectedTaskId={setSelectedTaskId}
                 onResizeTask={handleResizeTask}
                 maxLanes={maxLanes}
-                allTasksInView={allTasks}
+                allTasksInView={tasks}
               />
             ))}
           </div>
@@ -1,5 +1,6 @@
 import { memo, useState, useMemo, useRef, useCallback, useEffect } from 'react';
 import { useDraggable, useDroppable } from '@dnd-kit/core';
+import { useDndId } from '@/components/dnd/dndIds';
 import { cn } from '@/lib/utils';
 import { Task, EnergyLevel } from '@/types';
 import { Moon, ChevronDown, ChevronUp, Clock, Copy, Trash2 } from 'lucide-react';
@@ -67,6 +68,7 @@ const NightTaskItem = memo(({ task, onUpdate, onDelete, onCopy, isSelected, onSe
   const titleInputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
+  const dndId = useDndId();
   const {
     attributes,
     listeners,
@@ -74,7 +76,7 @@ const NightTaskItem = memo(({ task, onUpdate, onDelete, onCopy, isSelected, onSe
     transform,
     isDragging,
   } = useDraggable({
-    id: `task:${task.id}`,
+    id: dndId(`task:${task.id}`),
     data: { kind: 'task', type: 'night-task', fromZone: 'calendar', taskId: task.id, task },
     disabled: isEditingTitle,
   });
@@ -303,9 +305,10 @@ const OffHoursSection = memo(({
   const isNightBefore = type === 'night-before';
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
   
+  const dndId = useDndId();
   // Droppable zone for the night section
   const { setNodeRef: setDropRef, isOver } = useDroppable({
-    id: `night-section-${type}`,
+    id: dndId(`night-section-${type}`),
     data: { type: 'night-section', section: type },
   });
   
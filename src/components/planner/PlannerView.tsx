@@ -8,7 +8,9 @@ import MonthDetailView from './MonthDetailView';
 import WeekView from './WeekView';
 import DayView from './DayView';
 import ViewSelector from './ViewSelector';
+import HeroWidgets from './HeroWidgets';
 import useSwipeNavigation from '@/hooks/useSwipeNavigation';
+import { useShortcuts } from '@/contexts/ShortcutsContext';
 
 interface PlannerViewProps {
   viewMode: ViewMode;
@@ -89,6 +91,9 @@ const PlannerView = ({
     }
   }, [zoomLevel, focusedDate, focusedMonth, onSetFocusedDate, onSetFocusedMonth]);
 
+  // Day, week and month views handle these with their own navigation
+  useShortcuts({ 'calendar.previous': handleSwipePrev, 'calendar.next': handleSwipeNext }, { fallback: true });
+
   // Swipe navigation hook
   const { bindToElement } = useSwipeNavigation({
     onSwipeLeft: handleSwipeNext,
@@ -161,6 +166,7 @@ const PlannerView = ({
             onJumpToToday={onJumpToToday}
           />
         </div>
+        <HeroWidgets />
         <MonthDetailView
           month={focusedMonth}
           year={currentYear}
@@ -192,6 +198,7 @@ const PlannerView = ({
           onJumpToToday={onJumpToToday}
         />
       </div>
+      <HeroWidgets />
       {viewMode === 'grid' && <YearGridView {...commonProps} />}
       {viewMode === 'circular' && <CircularView {...commonProps} />}
       {viewMode === 'timeline' && <TimelineView {...commonProps} />}
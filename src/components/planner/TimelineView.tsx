@@ -1,5 +1,9 @@
+import { useMemo } from 'react';
 import { ZoomLevel, EnergyLevel } from '@/types';
 import { cn } from '@/lib/utils';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { useCampaigns } from '@/contexts/CampaignsContext';
+import { campaignColor, campaignProgressMap, campaignsInMonth, phaseColor, phaseMonthIndices } from '@/lib/campaigns';
 
 interface TimelineViewProps {
   zoomLevel: ZoomLevel;
@@ -24,6 +28,14 @@ const TimelineView = ({
 }: TimelineViewProps) => {
   const currentMonth = new Date().getMonth();
   const currentYear = new Date().getFullYear();
+  const { tasks } = useTasksContext();
+  const { phases, campaigns } = useCampaigns();
+
+  const progress = useMemo(() => campaignProgressMap(tasks, campaigns), [tasks, campaigns]);
+  const phaseMonths = useMemo(
+    () => phases.slice(0, 3).map((phase) => ({ phase, months: phaseMonthIndices(phase) })),
+    [phases]
+  );
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -56,6 +68,25 @@ const TimelineView = ({
                   isCurrentMonth && "bg-card"
                 )}
               >
+                {/* Phase bands - up to three, stretched over the gap so a phase reads as one bar */}
+                {phaseMonths.map(({ phase, months }, bandIndex) => {
+                  if (!months.includes(index)) return null;
+                  const isStart = months[0] === index;
+                  const isEnd = months[months.length - 1] === index;
+                  return (
+                    <div
+                      key={phase.id}
+                      className={cn(
+                        'absolute w-1 opacity-80',
+                        isStart ? 'top-2 rounded-t-full' : 'top-0',
+                        isEnd ? 'bottom-2 rounded-b-full' : '-bottom-2'
+                      )}
+                      style={{ left: `${2 + bandIndex * 5}px`, backgroundColor: phaseColor(phase) }}
+                      title={phase.name}
+                    />
+                  );
+                })}
+
                 {/* Timeline dot */}
                 <div
                   className={cn(
@@ -82,6 +113,11 @@ const TimelineView = ({
                         Current
                       </span>
                     )}
+                    {phaseMonths.filter(({ months }) => months[0] === index).map(({ phase }) => (
+                      <span key={phase.id} className="ml-2 text-2xs text-foreground-muted">
+                        {phase.name} begins
+                      </span>
+                    ))}
                   </div>
 
                   <span className="text-foreground-subtle text-sm">
@@ -89,10 +125,28 @@ const TimelineView = ({
                   </span>
                 </div>
 
-                {/* Campaigns would go here */}
-                <div className="mt-2 flex flex-wrap gap-2">
-                  {/* Placeholder for campaign chips */}
-                </div>
+                {/* Campaigns */}
+                {campaignsInMonth(campaigns, index).length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {campaignsInMonth(campaigns, index).map((campaign) => {
+                      const color = campaignColor(campaign, phases);
+                      const percent = progress.get(campaign.id)?.percent ?? 0;
+                      return (
+                        <span
+                          key={campaign.id}
+                          className="relative inline-flex items-center gap-1.5 pl-2 pr-2.5 py-1 rounded-md bg-secondary/60 text-xs text-foreground overflow-hidden"
+                        >
+                          <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: color }} />
+                          {campaign.name}
+                          {campaign.week && <span className="text-foreground-muted">W{campaign.week}</span>}
+                          <span className="tabular-nums text-foreground-muted">{percent}%</span>
+                          {/* Progress underline */}
+                          <span className="absolute bottom-0 left-0 h-0.5" style={{ width: `${percent}%`, backgroundColor: color }} />
+                        </span>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
             );
           })}
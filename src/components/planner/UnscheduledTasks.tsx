@@ -7,6 +7,7 @@ import InboxTaskItem from '@/components/tasks/InboxTaskItem';
 import { useToast } from '@/hooks/use-toast';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useTasksContext, type TaskUpdate } from '@/contexts/TasksContext';
+import { useFilters } from '@/contexts/FiltersContext';
 import { useContainerSize } from '@/hooks/useContainerSize';
 
 import {
@@ -36,6 +37,7 @@ const ROWS_DESKTOP = 3;
 
 const UnscheduledTasks = memo(({ energyFilter }: UnscheduledTasksProps) => {
   const { inboxTasks: tasks, loading, addInboxTask, updateTask, deleteTask } = useTasksContext();
+  const { matchesTask } = useFilters();
   const [collapsed, setCollapsed] = useState(false);
   const [expanded, setExpanded] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
@@ -169,10 +171,8 @@ const UnscheduledTasks = memo(({ energyFilter }: UnscheduledTasksProps) => {
   }, [newTaskTitle, addInboxTask, defaultInboxEnergy, selectedEnergy, selectedDate, selectedStartTime, selectedEndTime]);
 
   const energyFilteredTasks = useMemo(() =>
-    energyFilter.length > 0
-      ? tasks.filter(t => energyFilter.includes(t.energy_level))
-      : tasks,
-    [tasks, energyFilter]
+    tasks.filter(t => matchesTask(t) && (energyFilter.length === 0 || energyFilter.includes(t.energy_level))),
+    [tasks, energyFilter, matchesTask]
   );
 
   const filteredTasks = useMemo(() => {
@@ -2,12 +2,14 @@ import { useState, useEffect, memo, useCallback, useMemo } from 'react';
 import { format, startOfWeek, addDays, addWeeks, isToday, isWithinInterval, parseISO, isSameDay } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { EnergyLevel, Task } from '@/types';
-import { ChevronLeft, ChevronRight, Plus, Clock, CalendarDays } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Plus, Clock, CalendarDays, Wand2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 import DraggableTask from '@/components/tasks/DraggableTask';
 import EditTaskDialog from '@/components/tasks/EditTaskDialog';
 import CreateTaskDialog from '@/components/tasks/CreateTaskDialog';
+import AutoPlanDialog from '@/components/planner/AutoPlanDialog';
+import EnergyCurveBar from '@/components/planner/EnergyCurveBar';
 import { useDroppable, useDraggable as useDndDraggable } from '@dnd-kit/core';
 import {
   SortableContext,
@@ -16,7 +18,14 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { useTasksContext } from '@/contexts/TasksContext';
+import { useFilters } from '@/contexts/FiltersContext';
+import { useShortcuts } from '@/contexts/ShortcutsContext';
+import { expandTasksInRange } from '@/lib/recurrence';
+import { getCurveForDate, getEnergyAtHour, isEnergyMismatch } from '@/lib/energyCurve';
+import { getEffectiveFocusTimes, formatHourLabel } from '@/lib/timeRangeConfig';
+import { parseTimeToHours } from '@/lib/timeUtils';
 import { useContainerSize } from '@/hooks/useContainerSize';
+import { useSelectedTaskShortcuts } from '@/hooks/useSelectedTaskShortcuts';
 import {
   Tooltip,
   TooltipContent,
@@ -24,6 +33,8 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { useDndContext } from '@/components/dnd/DndProvider';
+import { useDndId } from '@/components/dnd/dndIds';
+import { useDensity } from '@/contexts/DensityContext';
 
 interface WeekViewProps {
   startDate: Date;
@@ -62,8 +73,9 @@ const ResizeHandle = memo(({
   type: 'start' | 'end';
   className: string
 }) => {
+  const dndId = useDndId();
   const { attributes, listeners, setNodeRef, isDragging } = useDndDraggable({
-    id: `resize-${type}-${taskId}`,
+    id: dndId(`resize-${type}-${taskId}`),
     data: { type: `resize-${type}`, taskId },
   });
 
@@ -109,6 +121,7 @@ const DraggableMultiDaySegment = memo(({
   onClick: (e: React.MouseEvent) => void;
   date: Date;
 }) => {
+  const dndId = useDndId();
   const {
     attributes,
     listeners,
@@ -117,7 +130,7 @@ const DraggableMultiDaySegment = memo(({
     transition,
     isDragging,
   } = useSortable({
-    id: `multi-${task.id}-${dateStr}`,
+    id: dndId(`multi-${task.id}-${dateStr}`),
     data: { type: 'calendar-task', task },
   });
 
@@ -229,9 +242,13 @@ const DroppableDay = memo(({
   const dateStr = format(date, 'yyyy-MM-dd');
   const today = isToday(date);
   const { resizeInfo } = useDndContext();
+  const { timeRangeSettings, energyProfile } = useDensity();
+  const energyCurve = useMemo(() => getCurveForDate(energyProfile, dateStr), [energyProfile, dateStr]);
+  const { focusStartTime, focusEndTime } = getEffectiveFocusTimes(timeRangeSettings, dateStr);
 
+  const dndId = useDndId();
   const { isOver, setNodeRef } = useDroppable({
-    id: dateStr,
+    id: dndId(dateStr),
     data: { type: 'day', date },
   });
 
@@ -274,8 +291,12 @@ const DroppableDay = memo(({
     <div
       ref={setNodeRef}
       onClick={(e) => {
-        if (selectedTaskId) {
-          onResizeTask(selectedTaskId, date);
+        const selected = selectedTaskId ? allTasksInView.find(t => t.id === selectedTaskId) : null;
+        if (selected?.end_date && selected.end_date !== selected.due_date) {
+          onResizeTask(selected.id, date);
+          e.stopPropagation();
+        } else if (selectedTaskId) {
+          setSelectedTaskId(null);
           e.stopPropagation();
         } else {
           onDayClick(date);
@@ -321,12 +342,23 @@ const DroppableDay = memo(({
         )}
       </button>
 
+      {/* Expected energy across the day's focus hours */}
+      {focusEndTime > focusStartTime && (
+        <EnergyCurveBar
+          curve={energyCurve}
+          startHour={focusStartTime}
+          endHour={focusEndTime}
+          className="h-1 -mt-2 mb-3 opacity-60"
+          title={`Energy ${formatHourLabel(focusStartTime)} – ${formatHourLabel(focusEndTime)}`}
+        />
+      )}
+
       <div
         className="mb-4 space-y-1 relative"
         style={{ minHeight: `${maxLanes * 52}px` }}
       >
         <SortableContext
-          items={multiDayTasks.map(t => `multi-${t.id}-${dateStr}`)}
+          items={multiDayTasks.map(t => dndId(`multi-${t.id}-${dateStr}`))}
           strategy={verticalListSortingStrategy}
         >
           {multiDayTasks.sort((a, b) => (a.display_order || 0) - (b.display_order || 0)).map(task => {
@@ -419,7 +451,7 @@ const DroppableDay = memo(({
       </div>
 
       <SortableContext
-        items={tasks.map(t => `task:${t.id}`)}
+        items={tasks.map(t => dndId(`task:${t.id}`))}
         strategy={verticalListSortingStrategy}
       >
         <div className="flex flex-col gap-1.5 flex-1 min-h-[100px] mt-2">
@@ -427,6 +459,9 @@ const DroppableDay = memo(({
             const isBeingResized = resizeInfo?.taskId === task.id;
             if (isBeingResized) return null; // Logic handled in multi-day preview block above
 
+            const startHour = parseTimeToHours(task.start_time);
+            const slotEnergy = startHour != null ? getEnergyAtHour(energyCurve, startHour) : null;
+
             return (
               <DraggableTask
                 key={task.id}
@@ -437,6 +472,9 @@ const DroppableDay = memo(({
                 compact
                 enableFullDrag
                 showTime
+                slotEnergyMismatch={isEnergyMismatch(task.energy_level, slotEnergy) ? slotEnergy : null}
+                isSelected={selectedTaskId === task.id}
+                onSelect={() => setSelectedTaskId(selectedTaskId === task.id ? null : task.id)}
               />
             );
           })}
@@ -495,17 +533,24 @@ const WeekView = ({ startDate, currentEnergy, energyFilter = [], onDayClick, onB
   );
 
   const { tasks: allTasks, addTask, updateTask, deleteTask } = useTasksContext();
+  const { matchesTask } = useFilters();
+  const [showAutoPlan, setShowAutoPlan] = useState(false);
+  const weekStartStr = format(weekStart, 'yyyy-MM-dd');
+  const autoPlanDates = useMemo(
+    () => Array.from({ length: 7 }, (_, i) => format(addDays(parseISO(weekStartStr), i), 'yyyy-MM-dd')),
+    [weekStartStr]
+  );
 
   const tasks = useMemo(() => {
     const startStr = format(weekStart, 'yyyy-MM-dd');
     const endStr = format(addDays(weekStart, 6), 'yyyy-MM-dd');
-    return allTasks.filter(t => t.due_date && t.due_date >= startStr && t.due_date <= endStr);
+    return expandTasksInRange(allTasks, startStr, endStr);
   }, [allTasks, weekStart]);
 
   const { regularTasks, multiDayTasks } = useMemo(() => {
     const regular: Task[] = [];
     const multiDay: Task[] = [];
-    tasks.forEach(t => {
+    tasks.filter(matchesTask).forEach(t => {
       if (t.end_date && t.end_date !== t.due_date) {
         multiDay.push(t);
       } else {
@@ -513,7 +558,7 @@ const WeekView = ({ startDate, currentEnergy, energyFilter = [], onDayClick, onB
       }
     });
     return { regularTasks: regular, multiDayTasks: multiDay };
-  }, [tasks]);
+  }, [tasks, matchesTask]);
 
   const getTasksForDay = useCallback((date: Date) => {
     const dateStr = format(date, 'yyyy-MM-dd');
@@ -571,6 +616,34 @@ const WeekView = ({ startDate, currentEnergy, energyFilter = [], onDayClick, onB
     setCreateDialogOpen(true);
   }, []);
 
+  const selectedTask = useMemo(() => tasks.find(t => t.id === selectedTaskId), [tasks, selectedTaskId]);
+
+  // New task on the selected task's day, else today when it's in this week, else the first day
+  const handleCreateAtFocus = useCallback(() => {
+    const focusedDay = selectedTask?.due_date ? parseISO(selectedTask.due_date) : weekDays.find(isToday);
+    handleOpenCreateDialog(focusedDay ?? weekDays[0]);
+  }, [selectedTask, weekDays, handleOpenCreateDialog]);
+
+  useShortcuts({
+    'calendar.previous': handlePrevWeek,
+    'calendar.next': handleNextWeek,
+    'task.new': handleCreateAtFocus,
+  });
+
+  useShortcuts({
+    'task.delete': () => {
+      if (!selectedTask) return;
+      deleteTask(selectedTask.id);
+      setSelectedTaskId(null);
+    },
+  }, { enabled: !!selectedTask });
+
+  // Follow a task moved out of the week
+  useSelectedTaskShortcuts(selectedTask, (movedTo) => {
+    const movedDate = parseISO(movedTo);
+    if (!weekDays.some(day => isSameDay(day, movedDate))) setCurrentStartDate(movedDate);
+  });
+
   const handleCreateTask = useCallback(async (title: string, energy: EnergyLevel, startTime?: string, endTime?: string, options?: { description?: string; location?: string; isShared?: boolean; endDate?: string }) => {
     await addTask({
       title,
@@ -597,7 +670,7 @@ const WeekView = ({ startDate, currentEnergy, energyFilter = [], onDayClick, onB
   }, [updateTask]);
 
   const handleResizeTask = useCallback((taskId: string, newDate: Date) => {
-    const task = allTasks.find(t => t.id === taskId);
+    const task = tasks.find(t => t.id === taskId);
     if (!task || !task.due_date) return;
 
     const start = parseISO(task.due_date);
@@ -609,7 +682,7 @@ const WeekView = ({ startDate, currentEnergy, energyFilter = [], onDayClick, onB
       updateTask(taskId, { end_date: dateStr });
     }
     setSelectedTaskId(null);
-  }, [allTasks, updateTask]);
+  }, [tasks, updateTask]);
 
   const weekTaskCount = tasks.length;
   const completedCount = tasks.filter(t => t.completed).length;
@@ -632,6 +705,10 @@ const WeekView = ({ startDate, currentEnergy, energyFilter = [], onDayClick, onB
           </div>
         </div>
         <div className="flex items-center gap-2 flex-shrink-0 ml-auto">
+          <Button variant="outline" size="sm" onClick={() => setShowAutoPlan(true)} className="h-11 gap-1.5 px-3 border-border/50 hover:border-highlight/50 transition-colors" aria-label="Auto-plan my week">
+            <Wand2 className="w-4 h-4" />
+            <span className="hidden sm:inline text-sm">Auto-plan</span>
+          </Button>
           <Button variant="outline" size="sm" onClick={handlePrevWeek} className="h-11 w-11 p-0 border-border/50 hover:border-highlight/50 transition-colors"><ChevronLeft className="w-5 h-5" /></Button>
           <Button variant="outline" size="sm" onClick={handleNextWeek} className="h-11 w-11 p-0 border-border/50 hover:border-highlight/50 transition-colors"><ChevronRight className="w-5 h-5" /></Button>
         </div>
@@ -663,12 +740,13 @@ const WeekView = ({ startDate, currentEnergy, energyFilter = [], onDayClick, onB
             setSelectedTaskId={setSelectedTaskId}
             onResizeTask={handleResizeTask}
             maxLanes={maxLanes}
-            allTasksInView={allTasks}
+            allTasksInView={tasks}
           />
         ))}
       </div>
 
       <EditTaskDialog open={editDialogOpen} onOpenChange={setEditDialogOpen} task={editingTask} onSave={handleSaveTask} onDelete={editingTask ? () => { deleteTask(editingTask.id); setEditDialogOpen(false); setEditingTask(null); } : undefined} />
+      <AutoPlanDialog open={showAutoPlan} onOpenChange={setShowAutoPlan} dates={autoPlanDates} />
       <CreateTaskDialog open={createDialogOpen} onOpenChange={setCreateDialogOpen} targetDate={createDialogDate} defaultEnergy={currentEnergy} onConfirm={handleCreateTask} />
     </div>
   );
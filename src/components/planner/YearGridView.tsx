@@ -1,9 +1,16 @@
-import { useMemo, useEffect, useState } from 'react';
-import { ZoomLevel, EnergyLevel, Task } from '@/types';
-import MonthCard from './MonthCard';
+import { useMemo } from 'react';
+import { parseISO } from 'date-fns';
+import { ZoomLevel, EnergyLevel } from '@/types';
+import MonthCard, { CampaignChip, PhaseBand } from './MonthCard';
 import { cn } from '@/lib/utils';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { expandTasksInRange } from '@/lib/recurrence';
+import { useCampaigns } from '@/contexts/CampaignsContext';
+import { useFilters } from '@/contexts/FiltersContext';
+import { campaignColor, campaignProgressMap, campaignsInMonth, phaseColor, phaseMonthIndices } from '@/lib/campaigns';
 
 import { useDroppable } from '@dnd-kit/core';
+import { useDndId } from '@/components/dnd/dndIds';
 
 interface YearGridViewProps {
   zoomLevel: ZoomLevel;
@@ -38,11 +45,14 @@ interface DroppableMonthCardProps {
   onClick: () => void;
   taskIndicators: { energy: EnergyLevel; count: number }[];
   topTasks: { title: string; energy: EnergyLevel }[];
+  phaseBands: PhaseBand[];
+  campaigns: CampaignChip[];
 }
 
-const DroppableMonthCard = ({ monthIndex, name, isCurrentMonth, zoomLevel, onClick, taskIndicators, topTasks }: DroppableMonthCardProps) => {
+const DroppableMonthCard = ({ monthIndex, name, isCurrentMonth, zoomLevel, onClick, taskIndicators, topTasks, phaseBands, campaigns }: DroppableMonthCardProps) => {
+  const dndId = useDndId();
   const { isOver, setNodeRef } = useDroppable({
-    id: `month-${monthIndex}`,
+    id: dndId(`month-${monthIndex}`),
     data: { type: 'month', monthIndex },
   });
 
@@ -56,6 +66,8 @@ const DroppableMonthCard = ({ monthIndex, name, isCurrentMonth, zoomLevel, onCli
         onClick={onClick}
         taskIndicators={taskIndicators}
         topTasks={topTasks}
+        phaseBands={phaseBands}
+        campaigns={campaigns}
       />
     </div>
   );
@@ -71,13 +83,50 @@ const YearGridView = ({
 }: YearGridViewProps) => {
   const currentMonth = new Date().getMonth();
   const currentYear = new Date().getFullYear();
-  const [monthTaskData, setMonthTaskData] = useState<MonthTaskData>({});
+  const { tasks: allTasks } = useTasksContext();
+  const { phases, campaigns } = useCampaigns();
+  const { matchesTask } = useFilters();
+
+  // Per-month energy counts for the year, with recurring tasks expanded into occurrences
+  const monthTaskData = useMemo(() => {
+    const data: MonthTaskData = {};
+    const yearTasks = expandTasksInRange(allTasks, `${currentYear}-01-01`, `${currentYear}-12-31`).filter(matchesTask);
+
+    yearTasks.forEach(task => {
+      const month = parseISO(task.due_date!).getMonth();
+      const entry = data[month] ?? (data[month] = { high: 0, medium: 0, low: 0, recovery: 0, topTasks: [] });
+      entry[task.energy_level]++;
+      if (entry.topTasks.length < 4 && (energyFilter.length === 0 || energyFilter.includes(task.energy_level))) {
+        entry.topTasks.push({ title: task.title, energy: task.energy_level });
+      }
+    });
 
-  // Fetch tasks for the year to show indicators (Stubbed)
-  useEffect(() => {
-    // Stub - empty data for visual clean start
-    setMonthTaskData({});
-  }, []);
+    return data;
+  }, [allTasks, currentYear, energyFilter, matchesTask]);
+
+  // Phase bands and campaign chips per month
+  const monthPlanning = useMemo(() => {
+    const progress = campaignProgressMap(allTasks, campaigns);
+    return Array.from({ length: 12 }, (_, monthIndex) => ({
+      phaseBands: phases.flatMap((phase) => {
+        const months = phaseMonthIndices(phase);
+        if (!months.includes(monthIndex)) return [];
+        return [{
+          id: phase.id,
+          name: phase.name,
+          color: phaseColor(phase),
+          isStart: months[0] === monthIndex,
+          isEnd: months[months.length - 1] === monthIndex,
+        }];
+      }),
+      campaigns: campaignsInMonth(campaigns, monthIndex).map((c) => ({
+        id: c.id,
+        name: c.name,
+        color: campaignColor(c, phases),
+        percent: progress.get(c.id)?.percent ?? 0,
+      })),
+    }));
+  }, [allTasks, phases, campaigns]);
 
   const gridClass = useMemo(() => {
     switch (zoomLevel) {
@@ -161,6 +210,8 @@ const YearGridView = ({
             onClick={() => onMonthClick(monthIndex)}
             taskIndicators={getTaskIndicators(monthIndex)}
             topTasks={getTopTasks(monthIndex)}
+            phaseBands={monthPlanning[monthIndex].phaseBands}
+            campaigns={monthPlanning[monthIndex].campaigns}
           />
         ))}
       </div>
@@ -0,0 +1,176 @@
+import { memo, useCallback, useEffect, useState } from 'react';
+import { CalendarSync, Copy, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+
+interface CalendarFeedSectionProps {
+  userId: string;
+}
+
+interface FeedToken {
+  token: string;
+  include_shared: boolean;
+}
+
+const feedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL || ''}/functions/v1/ics-feed?token=${token}`;
+
+// 32 random bytes, hex encoded
+const generateToken = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)), (b) => b.toString(16).padStart(2, '0')).join('');
+
+const CalendarFeedSection = memo(({ userId }: CalendarFeedSectionProps) => {
+  const { toast } = useToast();
+  const [feed, setFeed] = useState<FeedToken | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const { data, error } = await supabase
+          .from('calendar_feed_tokens')
+          .select('token, include_shared')
+          .eq('user_id', userId)
+          .maybeSingle();
+        if (error) throw error;
+        if (!cancelled) setFeed(data);
+      } catch (err) {
+        console.error('Load feed token error:', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Creating again replaces the token, so the old URL stops working
+  const handleCreate = useCallback(async () => {
+    setSaving(true);
+    try {
+      const next = { token: generateToken(), include_shared: feed?.include_shared ?? false };
+      const { error } = await supabase
+        .from('calendar_feed_tokens')
+        .upsert({ user_id: userId, ...next }, { onConflict: 'user_id' });
+      if (error) throw error;
+      setFeed(next);
+      toast({ title: feed ? 'Feed URL regenerated' : 'Feed URL created', description: 'Subscribe to it from your calendar app' });
+    } catch (err) {
+      console.error('Create feed token error:', err);
+      toast({ title: 'Error', description: 'Could not create feed URL', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  }, [feed, userId, toast]);
+
+  const handleRevoke = useCallback(async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('calendar_feed_tokens').delete().eq('user_id', userId);
+      if (error) throw error;
+      setFeed(null);
+      toast({ title: 'Feed URL revoked', description: 'Subscribed calendars will stop updating' });
+    } catch (err) {
+      console.error('Revoke feed token error:', err);
+      toast({ title: 'Error', description: 'Could not revoke feed URL', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  }, [userId, toast]);
+
+  const handleIncludeShared = useCallback(async (includeShared: boolean) => {
+    if (!feed) return;
+    setFeed({ ...feed, include_shared: includeShared });
+    const { error } = await supabase
+      .from('calendar_feed_tokens')
+      .update({ include_shared: includeShared })
+      .eq('user_id', userId);
+    if (error) {
+      console.error('Update feed token error:', error);
+      setFeed(feed);
+      toast({ title: 'Error', description: 'Could not update feed', variant: 'destructive' });
+    }
+  }, [feed, userId, toast]);
+
+  const handleCopy = useCallback(async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl(feed.token));
+      toast({ title: 'Copied', description: 'Feed URL copied to clipboard' });
+    } catch {
+      // ignore
+    }
+  }, [feed, toast]);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <CalendarSync className="w-3.5 h-3.5 text-highlight" />
+          <Label className="text-xs font-medium">Calendar Feed</Label>
+        </div>
+        <p className="text-xs text-foreground-muted">
+          A private URL that Google, Apple or Outlook Calendar can subscribe to. Anyone with the link can see your scheduled tasks.
+        </p>
+      </div>
+
+      {loading ? (
+        <Loader2 className="w-4 h-4 animate-spin text-foreground-muted" />
+      ) : feed ? (
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <Input readOnly value={feedUrl(feed.token)} className="h-9 text-xs font-mono" onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" className="h-9 w-9 flex-shrink-0" onClick={handleCopy}>
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="feed-include-shared" className="text-xs text-foreground-muted cursor-pointer">
+              Include calendars friends share with me
+            </Label>
+            <Switch
+              id="feed-include-shared"
+              checked={feed.include_shared}
+              onCheckedChange={handleIncludeShared}
+              disabled={saving}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="gap-2" onClick={handleCreate} disabled={saving}>
+              <RefreshCw className="w-3.5 h-3.5" />
+              Regenerate
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2 border-destructive/20 hover:bg-destructive/10 hover:text-destructive"
+              onClick={handleRevoke}
+              disabled={saving}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+              Revoke
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" className="gap-2" onClick={handleCreate} disabled={saving}>
+          {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <CalendarSync className="w-3.5 h-3.5" />}
+          Create feed URL
+        </Button>
+      )}
+    </div>
+  );
+});
+
+CalendarFeedSection.displayName = 'CalendarFeedSection';
+
+export default CalendarFeedSection;
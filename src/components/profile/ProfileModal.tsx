@@ -6,7 +6,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { User, Loader2, Save, Camera, Music, Palette, PenTool, Heart, Video, Briefcase, Plus, Clock, Search, X, Shield, CreditCard, Users, Key, Share2, LayoutGrid, Calendar, CalendarDays, Maximize2, Minimize2, SlidersHorizontal, MessageSquare, Check } from 'lucide-react';
+import { User, Loader2, Save, Camera, Music, Palette, PenTool, Heart, Video, Briefcase, Plus, Clock, Search, X, Shield, CreditCard, Users, Key, Share2, LayoutGrid, Calendar, CalendarDays, Maximize2, Minimize2, SlidersHorizontal, MessageSquare, Check, Sparkles } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { CreatorType, Platform, ZoomLevel } from '@/types';
 import { cn } from '@/lib/utils';
@@ -14,6 +14,10 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { supabase } from '@/integrations/supabase/client';
+import CalendarFeedSection from './CalendarFeedSection';
+import EnergyProfileEditor from '@/components/planner/EnergyProfileEditor';
+import { useDensity } from '@/contexts/DensityContext';
+import { runAi } from '@/lib/ai/service';
 
 interface ProfileModalProps {
   open: boolean;
@@ -59,8 +63,11 @@ const ProfileModal = ({ open, onOpenChange, userId, userEmail, onDefaultViewChan
   const [currentTime, setCurrentTime] = useState('');
   const [defaultView, setDefaultView] = useState<ZoomLevel>('year');
   const [highlightColor, setHighlightColor] = useState<HighlightColor>('blue');
+  const [profileSummary, setProfileSummary] = useState<string | null>(null);
+  const [generatingSummary, setGeneratingSummary] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const { energyProfile, setEnergyProfile } = useDensity();
 
   useEffect(() => {
     if (open && userId) {
@@ -85,6 +92,7 @@ const ProfileModal = ({ open, onOpenChange, userId, userEmail, onDefaultViewChan
         setNicheKeywords(data.niche_keywords || []);
         setDefaultView(data.default_view as ZoomLevel || 'year');
         setHighlightColor(data.highlight_color as HighlightColor || 'blue');
+        setProfileSummary(data.ai_profile_summary);
       }
     } catch (err) {
       console.error('Load profile error:', err);
@@ -183,6 +191,26 @@ const ProfileModal = ({ open, onOpenChange, userId, userEmail, onDefaultViewChan
     } finally { setSaving(false); }
   };
 
+  const handleGenerateSummary = async () => {
+    setGeneratingSummary(true);
+    try {
+      const { summary } = await runAi('profileSummary', {
+        userProfile: {
+          creatorType: creatorType || null,
+          platforms: platforms as Platform[],
+          nicheKeywords,
+          audienceDescription: audienceDescription || null,
+        },
+      });
+      const { error } = await supabase.from('profiles').update({ ai_profile_summary: summary }).eq('id', userId);
+      if (error) throw error;
+      setProfileSummary(summary);
+    } catch (err) {
+      console.error('Profile summary error:', err);
+      toast({ title: "Could not write a summary", description: err instanceof Error ? err.message : undefined, variant: "destructive" });
+    } finally { setGeneratingSummary(false); }
+  };
+
   const selectedTimezoneLabel = ALL_TIMEZONES.find(tz => tz.value === timezone)?.label || timezone;
 
   return (
@@ -279,6 +307,17 @@ const ProfileModal = ({ open, onOpenChange, userId, userEmail, onDefaultViewChan
                   </div>
                 </div>
 
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label>Profile Summary</Label>
+                    <Button variant="ghost" size="sm" onClick={handleGenerateSummary} disabled={generatingSummary} className="h-7 gap-1.5 text-xs">
+                      {generatingSummary ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />}
+                      {profileSummary ? 'Regenerate' : 'Generate'}
+                    </Button>
+                  </div>
+                  <p className="text-sm text-foreground-muted">{profileSummary || 'A short description of you and your work, used to tailor trends and suggestions.'}</p>
+                </div>
+
                 <div className="flex justify-end pt-4">
                   <Button onClick={handleSave} disabled={saving}>{saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}Save Changes</Button>
                 </div>
@@ -311,6 +350,11 @@ const ProfileModal = ({ open, onOpenChange, userId, userEmail, onDefaultViewChan
                       ))}
                     </div>
                   </div>
+                  <div className="pt-4">
+                    <Label className="text-sm font-medium mb-1 block">Energy Rhythm</Label>
+                    <p className="text-xs text-foreground-muted mb-3">When you usually have energy for focused work; shades the day and week grids and guides auto-plan.</p>
+                    <EnergyProfileEditor profile={energyProfile} onChange={setEnergyProfile} />
+                  </div>
                 </div>
                 <div className="flex justify-end pt-8">
                   <Button onClick={handleSave} disabled={saving}>{saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}Save Changes</Button>
@@ -326,6 +370,10 @@ const ProfileModal = ({ open, onOpenChange, userId, userEmail, onDefaultViewChan
                     <Users className="w-4 h-4" />Open Friends & Sharing
                   </Button>
                 </div>
+
+                <div className="p-4 rounded-xl bg-secondary/30 border border-border/50">
+                  <CalendarFeedSection userId={userId} />
+                </div>
               </TabsContent>
 
               <TabsContent value="account" className="px-6 py-8 space-y-8 mt-0 pr-8">
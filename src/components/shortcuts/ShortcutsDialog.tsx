@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Keyboard, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Command, useRegisterCommands } from '@/contexts/CommandsContext';
+import { useShortcutSettings, useShortcuts } from '@/contexts/ShortcutsContext';
+import { RESERVED_COMBOS, SHORTCUT_DEFINITIONS, ShortcutDefinition, comboFromEvent, formatCombo } from '@/lib/shortcuts';
+import { cn } from '@/lib/utils';
+
+const titleById = new Map(SHORTCUT_DEFINITIONS.map((d) => [d.id, d.title]));
+
+const groups = SHORTCUT_DEFINITIONS.reduce<[string, ShortcutDefinition[]][]>((acc, definition) => {
+  const group = acc.find(([name]) => name === definition.group);
+  if (group) group[1].push(definition);
+  else acc.push([definition.group, [definition]]);
+  return acc;
+}, []);
+
+interface PendingReassign {
+  id: string;
+  combo: string;
+  takenBy: string[];
+}
+
+const Keys = ({ keys }: { keys: string[] }) => (
+  <span className="flex flex-wrap justify-end gap-1">
+    {keys.map((combo) => (
+      <kbd key={combo} className="rounded border border-border bg-secondary px-1.5 py-0.5 font-mono text-xs text-foreground">
+        {formatCombo(combo)}
+      </kbd>
+    ))}
+  </span>
+);
+
+/**
+ * Cheat sheet of every shortcut; click a shortcut's keys to record new ones.
+ */
+const ShortcutsDialog = () => {
+  const { bindings, conflicts, assignShortcut, clearShortcut, resetShortcut, resetAllShortcuts } = useShortcutSettings();
+  const [open, setOpen] = useState(false);
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingReassign | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useShortcuts({ 'help.shortcuts': () => setOpen((prev) => !prev) });
+
+  const commands = useMemo((): Command[] => [
+    { id: 'help.shortcuts', title: 'Keyboard shortcuts', group: 'Open', keywords: ['keys', 'hotkeys', 'remap'], icon: Keyboard, run: () => setOpen(true) },
+  ], []);
+
+  useRegisterCommands('shortcuts', commands);
+
+  useEffect(() => {
+    if (open) return;
+    setRecordingId(null);
+    setPending(null);
+    setError(null);
+  }, [open]);
+
+  // Capture the next key press before the shortcut manager or the dialog sees it
+  useEffect(() => {
+    if (!recordingId) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+
+      if (combo === 'escape') {
+        setRecordingId(null);
+        return;
+      }
+      if (RESERVED_COMBOS.includes(combo)) {
+        setError(`${formatCombo(combo)} is reserved for undo, redo, copy and paste`);
+        return;
+      }
+
+      setRecordingId(null);
+      setError(null);
+      const takenBy = Object.keys(bindings).filter((id) => id !== recordingId && bindings[id].includes(combo));
+      if (takenBy.length > 0) setPending({ id: recordingId, combo, takenBy });
+      else assignShortcut(recordingId, combo);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recordingId, bindings, assignShortcut]);
+
+  const isDefault = (definition: ShortcutDefinition) => bindings[definition.id].join() === definition.defaultKeys.join();
+  const allDefault = SHORTCUT_DEFINITIONS.every(isDefault);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="sm:max-w-lg p-0 gap-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-2">
+          <DialogTitle className="flex items-center gap-2">
+            <Keyboard className="w-5 h-5 text-primary" />
+            Keyboard shortcuts
+          </DialogTitle>
+          <DialogDescription>
+            Click a shortcut to change it. Single keys are ignored while typing in a text field.
+          </DialogDescription>
+        </DialogHeader>
+
+        {pending && (
+          <div className="mx-6 mt-2 rounded-md border border-amber-500/40 bg-amber-500/10 p-3 text-sm">
+            <p>
+              {formatCombo(pending.combo)} is used by {pending.takenBy.map((id) => titleById.get(id)).join(', ')}.
+              Move it to {titleById.get(pending.id)}?
+            </p>
+            <div className="mt-2 flex justify-end gap-2">
+              <Button size="sm" variant="ghost" onClick={() => setPending(null)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => {
+                  assignShortcut(pending.id, pending.combo);
+                  setPending(null);
+                }}
+              >
+                Reassign
+              </Button>
+            </div>
+          </div>
+        )}
+        {error && <p className="mx-6 mt-2 text-sm text-destructive">{error}</p>}
+
+        <ScrollArea className="max-h-[60vh] px-6">
+          <div className="space-y-4 py-4">
+            {groups.map(([group, definitions]) => (
+              <section key={group}>
+                <h3 className="mb-1 text-xs font-medium uppercase tracking-wide text-foreground-muted">{group}</h3>
+                {definitions.map((definition) => {
+                  const keys = bindings[definition.id];
+                  const conflicting = keys.some((combo) => conflicts.has(combo));
+                  const recording = recordingId === definition.id;
+                  return (
+                    <div key={definition.id} className="group flex min-h-9 items-center gap-2 text-sm">
+                      <span className="flex-1 truncate">{definition.title}</span>
+                      {conflicting && (
+                        <AlertTriangle className="w-3.5 h-3.5 shrink-0 text-amber-500" aria-label="Shared with another shortcut" />
+                      )}
+                      <button
+                        type="button"
+                        className={cn(
+                          'rounded px-1 py-0.5 hover:bg-secondary',
+                          recording && 'ring-2 ring-primary'
+                        )}
+                        onClick={() => {
+                          setError(null);
+                          setPending(null);
+                          setRecordingId(recording ? null : definition.id);
+                        }}
+                      >
+                        {recording ? (
+                          <span className="text-xs text-foreground-muted">Press keys… (Esc to cancel)</span>
+                        ) : keys.length > 0 ? (
+                          <Keys keys={keys} />
+                        ) : (
+                          <span className="text-xs text-foreground-muted">Not set</span>
+                        )}
+                      </button>
+                      <div className="flex w-14 justify-end opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+                        {keys.length > 0 && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            aria-label={`Remove shortcut for ${definition.title}`}
+                            onClick={() => clearShortcut(definition.id)}
+                          >
+                            <X className="w-3.5 h-3.5" />
+                          </Button>
+                        )}
+                        {!isDefault(definition) && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            aria-label={`Reset shortcut for ${definition.title}`}
+                            onClick={() => resetShortcut(definition.id)}
+                          >
+                            <RotateCcw className="w-3.5 h-3.5" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </section>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <div className="flex justify-end border-t border-border px-6 py-3">
+          <Button size="sm" variant="outline" className="gap-1.5" disabled={allDefault} onClick={resetAllShortcuts}>
+            <RotateCcw className="w-3.5 h-3.5" />
+            Reset all
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShortcutsDialog;
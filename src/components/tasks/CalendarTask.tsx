@@ -1,12 +1,18 @@
 import { useDraggable } from '@dnd-kit/core';
+import { useDndId } from '@/components/dnd/dndIds';
 import { cn } from '@/lib/utils';
 import { normalizeTime, parseTimeToHours, formatHoursToTime } from '@/lib/timeUtils';
 import { Task, EnergyLevel } from '@/types';
 import { format } from 'date-fns';
-import { Pencil, ChevronLeft, ChevronRight, Hand } from 'lucide-react';
+import { Pencil, ChevronLeft, ChevronRight, Hand, AlertTriangle, Lock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useState, useCallback, useRef, useEffect } from 'react';
 import EditTaskDialog from '@/components/tasks/EditTaskDialog';
+import { useTaskBlockers } from '@/hooks/useTaskBlockers';
+import { useShortcuts } from '@/contexts/ShortcutsContext';
+import { blockedLabel } from '@/lib/taskDependencies';
+import ChecklistBadge from './ChecklistBadge';
+import TaskTags from './TaskTags';
 import {
   Tooltip,
   TooltipContent,
@@ -45,6 +51,8 @@ interface CalendarTaskProps {
   // Time bounds for resize (defaults to 0-24 for full range)
   minTimeHour?: number;
   maxTimeHour?: number;
+  // Expected energy of the slot the task sits in, when it doesn't suit the task
+  slotEnergyMismatch?: EnergyLevel | null;
 }
 
 const energyBorderColors: Record<EnergyLevel, string> = {
@@ -88,9 +96,12 @@ const CalendarTask = ({
   onSelect,
   minTimeHour = 0,
   maxTimeHour = 24,
+  slotEnergyMismatch = null,
 }: CalendarTaskProps) => {
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [isResizing, setIsResizing] = useState(false);
+  const blockers = useTaskBlockers(task);
+  const isBlocked = blockers.length > 0;
   // Use prop if provided, otherwise manage locally
   const [isSelectedLocal, setIsSelectedLocal] = useState(false);
   const isSelected = isSelectedProp !== undefined ? isSelectedProp : isSelectedLocal;
@@ -116,7 +127,7 @@ const CalendarTask = ({
   const titleInputRef = useRef<HTMLInputElement>(null);
   const descriptionInputRef = useRef<HTMLTextAreaElement>(null);
 
-  // Handle keyboard shortcuts when selected (but NOT when editing text)
+  // Copy when selected (but NOT when editing text)
   useEffect(() => {
     if (!isSelected) return;
 
@@ -129,16 +140,17 @@ const CalendarTask = ({
         ev.preventDefault();
         onCopy();
       }
-      // Delete: Backspace or Delete (only when not editing)
-      if ((ev.key === 'Backspace' || ev.key === 'Delete') && onDelete) {
-        ev.preventDefault();
-        onDelete();
-      }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isSelected, onCopy, onDelete, isEditingTitle, isEditingDescription]);
+  }, [isSelected, onCopy, isEditingTitle, isEditingDescription]);
+
+  // Delete (remappable, Backspace or Delete by default)
+  useShortcuts(
+    { 'task.delete': () => onDelete?.() },
+    { enabled: isSelected && !!onDelete && !isEditingTitle && !isEditingDescription }
+  );
 
   // Deselect when clicking outside (only for local selection management)
   useEffect(() => {
@@ -156,6 +168,7 @@ const CalendarTask = ({
     return () => window.removeEventListener('pointerdown', handleOutsidePointerDown);
   }, [isSelectedProp, isSelectedLocal]);
 
+  const dndId = useDndId();
   const {
     attributes,
     listeners,
@@ -163,7 +176,7 @@ const CalendarTask = ({
     transform,
     isDragging,
   } = useDraggable({
-    id: `task:${task.id}`,
+    id: dndId(`task:${task.id}`),
     data: { kind: 'task', type: 'calendar-task', fromZone: 'calendar', taskId: task.id, task },
     disabled: isResizing || isEditingTitle || isEditingDescription,
   });
@@ -624,6 +637,7 @@ const CalendarTask = ({
                   isSelected && !isResizing && !isDragging && 'ring-2 ring-highlight/50',
                   isDragging && 'opacity-60 shadow-lg ring-2 ring-highlight',
                   isResizing && 'ring-2 ring-highlight shadow-lg z-50',
+                  isBlocked && 'border-dashed saturate-50',
                   task.completed && 'opacity-50'
                 )}
               >
@@ -799,6 +813,11 @@ const CalendarTask = ({
                   </div>
                 )}
 
+                {/* Checklist progress */}
+                {!isCompact && !isEditingTitle && (
+                  <ChecklistBadge items={task.checklist} className="mt-0.5 opacity-80" />
+                )}
+
                 {/* Description - click to edit inline, expands based on height */}
                 {showDescription && (
                   isEditingDescription ? (
@@ -877,6 +896,29 @@ const CalendarTask = ({
                 </div>
               )}
 
+              {/* Energy mismatch flag */}
+              {slotEnergyMismatch && !isEditingTitle && !isEditingDescription && (
+                <AlertTriangle
+                  className={cn(
+                    'absolute w-3 h-3 text-amber-500 pointer-events-none z-30',
+                    isVerySmall ? 'top-1.5 right-8' : 'bottom-1.5 right-1.5'
+                  )}
+                  aria-label={`Scheduled in a ${slotEnergyMismatch}-energy slot`}
+                />
+              )}
+
+              {/* Waiting on unfinished dependencies */}
+              {isBlocked && !isEditingTitle && !isEditingDescription && (
+                <Lock
+                  className={cn(
+                    'absolute w-3 h-3 text-foreground-muted pointer-events-none z-30',
+                    isVerySmall ? 'top-1.5 right-12' : 'bottom-1.5',
+                    !isVerySmall && (slotEnergyMismatch ? 'right-6' : 'right-1.5')
+                  )}
+                  aria-label={blockedLabel(blockers)}
+                />
+              )}
+
               {/* Edit button - appears on hover, always visible for very small tasks */}
               {!isEditingTitle && !isEditingDescription && (
                 <Button
@@ -910,6 +952,19 @@ const CalendarTask = ({
               {task.description && (
                 <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{task.description}</p>
               )}
+              <ChecklistBadge items={task.checklist} className="mt-1 text-xs" />
+              <TaskTags tags={task.tags} max={5} className="mt-1 flex-wrap" />
+              {slotEnergyMismatch && (
+                <p className="text-xs text-amber-500 mt-1">
+                  {task.energy_level} energy task in a {slotEnergyMismatch}-energy slot
+                </p>
+              )}
+              {isBlocked && (
+                <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                  <Lock className="w-3 h-3 flex-shrink-0" />
+                  {blockedLabel(blockers)}
+                </p>
+              )}
             </TooltipContent>
           )}
         </Tooltip>
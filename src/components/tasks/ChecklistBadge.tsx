@@ -0,0 +1,34 @@
+import { ListChecks } from 'lucide-react';
+import { ChecklistItem } from '@/types';
+import { checklistProgress } from '@/lib/checklist';
+import { cn } from '@/lib/utils';
+
+interface ChecklistBadgeProps {
+  items: ChecklistItem[] | null | undefined;
+  className?: string;
+}
+
+/**
+ * "3/7" checklist progress; renders nothing for tasks without a checklist.
+ */
+const ChecklistBadge = ({ items, className }: ChecklistBadgeProps) => {
+  const progress = checklistProgress(items);
+  if (!progress) return null;
+  const complete = progress.done === progress.total;
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-0.5 text-[10px] tabular-nums flex-shrink-0',
+        complete ? 'text-primary' : 'text-foreground-muted',
+        className
+      )}
+      title={`${progress.done} of ${progress.total} steps done`}
+    >
+      <ListChecks className="w-3 h-3" />
+      {progress.done}/{progress.total}
+    </span>
+  );
+};
+
+export default ChecklistBadge;
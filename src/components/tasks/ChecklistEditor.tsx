@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpRight, ListChecks, X } from 'lucide-react';
+import { ChecklistItem } from '@/types';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { checklistProgress, createChecklistItem, moveChecklistItem } from '@/lib/checklist';
+import { cn } from '@/lib/utils';
+
+interface ChecklistEditorProps {
+  items: ChecklistItem[];
+  onChange: (items: ChecklistItem[]) => void;
+  onPromote?: (item: ChecklistItem) => void;
+}
+
+const ChecklistEditor = ({ items, onChange, onPromote }: ChecklistEditorProps) => {
+  const [draft, setDraft] = useState('');
+  const progress = checklistProgress(items);
+
+  const update = (id: string, changes: Partial<ChecklistItem>) => {
+    onChange(items.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const handleAdd = () => {
+    if (!draft.trim()) return;
+    onChange([...items, createChecklistItem(draft)]);
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-1.5 text-foreground-muted">
+        <ListChecks className="w-3.5 h-3.5" />
+        Checklist
+        {progress && (
+          <span className="text-xs font-normal">
+            {progress.done}/{progress.total}
+          </span>
+        )}
+      </Label>
+
+      {items.length > 0 && (
+        <div className="space-y-1">
+          {items.map((item, index) => (
+            <div key={item.id} className="group flex items-center gap-2 rounded-lg px-1 py-0.5 hover:bg-secondary/40">
+              <Checkbox
+                checked={item.done}
+                onCheckedChange={(checked) => update(item.id, { done: checked === true })}
+                aria-label={item.done ? 'Mark as not done' : 'Mark as done'}
+              />
+              <Input
+                value={item.text}
+                onChange={(e) => update(item.id, { text: e.target.value })}
+                // An emptied step is removed rather than kept blank
+                onBlur={() => !item.text.trim() && onChange(items.filter((i) => i.id !== item.id))}
+                className={cn(
+                  'h-8 flex-1 border-transparent bg-transparent px-1 shadow-none focus-visible:border-border',
+                  item.done && 'line-through text-foreground-muted'
+                )}
+              />
+              <div className="flex items-center opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+                <button
+                  type="button"
+                  onClick={() => onChange(moveChecklistItem(items, item.id, -1))}
+                  disabled={index === 0}
+                  className="p-1 text-foreground-muted hover:text-foreground disabled:opacity-30"
+                  aria-label="Move up"
+                >
+                  <ArrowUp className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onChange(moveChecklistItem(items, item.id, 1))}
+                  disabled={index === items.length - 1}
+                  className="p-1 text-foreground-muted hover:text-foreground disabled:opacity-30"
+                  aria-label="Move down"
+                >
+                  <ArrowDown className="w-3.5 h-3.5" />
+                </button>
+                {onPromote && (
+                  <button
+                    type="button"
+                    onClick={() => onPromote(item)}
+                    disabled={!item.text.trim()}
+                    className="p-1 text-foreground-muted hover:text-foreground disabled:opacity-30"
+                    title="Make this a task of its own"
+                    aria-label="Promote to task"
+                  >
+                    <ArrowUpRight className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onChange(items.filter((i) => i.id !== item.id))}
+                  className="p-1 text-foreground-muted hover:text-destructive"
+                  aria-label="Remove step"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            handleAdd();
+          }
+        }}
+        onBlur={handleAdd}
+        placeholder="Add a step..."
+        className="h-9"
+      />
+    </div>
+  );
+};
+
+export default ChecklistEditor;
@@ -0,0 +1,122 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Check, GitBranch, Plus, X } from 'lucide-react';
+import { Task } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { parseOccurrenceId } from '@/lib/recurrence';
+import { getDependents, wouldCreateCycle } from '@/lib/taskDependencies';
+import { cn } from '@/lib/utils';
+
+interface DependencyPickerProps {
+  task: Task;
+  value: string[];
+  onChange: (ids: string[]) => void;
+}
+
+const dateLabel = (task: Task) => (task.due_date ? format(parseISO(task.end_date ?? task.due_date), 'MMM d') : 'Unscheduled');
+
+/**
+ * "Depends on" list for the edit dialog: tasks that have to be finished before this one starts.
+ * Tasks that would close a loop are not offered.
+ */
+const DependencyPicker = ({ task, value, onChange }: DependencyPickerProps) => {
+  const { tasks } = useTasksContext();
+  const [open, setOpen] = useState(false);
+  const taskId = parseOccurrenceId(task.id)?.seriesId ?? task.id;
+
+  const selected = useMemo(
+    () => value.map((id) => tasks.find((t) => t.id === id)).filter((t): t is Task => !!t),
+    [value, tasks]
+  );
+
+  const candidates = useMemo(
+    () => tasks.filter((t) =>
+      !t.completed &&
+      t.id !== taskId &&
+      !value.includes(t.id) &&
+      t.location !== 'memory' &&
+      !wouldCreateCycle(tasks, taskId, t.id)
+    ),
+    [tasks, taskId, value]
+  );
+
+  const dependentCount = useMemo(() => getDependents(tasks, taskId).length, [tasks, taskId]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-1.5 text-foreground-muted">
+          <GitBranch className="w-3.5 h-3.5" />
+          Depends on
+        </Label>
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs">
+              <Plus className="w-3.5 h-3.5" />
+              Add
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 p-0" align="end">
+            <Command>
+              <CommandInput placeholder="Search tasks..." />
+              <CommandList>
+                <CommandEmpty>No tasks to depend on</CommandEmpty>
+                <CommandGroup>
+                  {candidates.map((candidate) => (
+                    <CommandItem
+                      key={candidate.id}
+                      value={`${candidate.title} ${candidate.id}`}
+                      onSelect={() => {
+                        onChange([...value, candidate.id]);
+                        setOpen(false);
+                      }}
+                    >
+                      <span className="flex-1 truncate">{candidate.title}</span>
+                      <span className="text-xs text-foreground-muted ml-2">{dateLabel(candidate)}</span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {selected.length === 0 ? (
+        <p className="text-xs text-foreground-muted">Can start any time</p>
+      ) : (
+        <div className="space-y-1">
+          {selected.map((dep) => (
+            <div key={dep.id} className="flex items-center gap-2 rounded-lg bg-secondary/40 px-2.5 py-1.5 text-sm">
+              {dep.completed && <Check className="w-3.5 h-3.5 text-primary flex-shrink-0" />}
+              <span className={cn('flex-1 truncate', dep.completed && 'line-through text-foreground-muted')}>
+                {dep.title}
+              </span>
+              <span className="text-xs text-foreground-muted">{dep.completed ? 'Done' : dateLabel(dep)}</span>
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((id) => id !== dep.id))}
+                className="text-foreground-muted hover:text-destructive"
+                aria-label={`Remove dependency on ${dep.title}`}
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {dependentCount > 0 && (
+        <p className="text-xs text-foreground-muted">
+          {dependentCount} {dependentCount === 1 ? 'task waits' : 'tasks wait'} on this one
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DependencyPicker;
@@ -1,8 +1,9 @@
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
+import { useDndId } from '@/components/dnd/dndIds';
 import { cn } from '@/lib/utils';
 import { Task, EnergyLevel } from '@/types';
-import { Check, MoreHorizontal, Pencil, Trash2, Users, MapPin, Clock } from 'lucide-react';
+import { Check, MoreHorizontal, Pencil, Trash2, Users, MapPin, Clock, AlertTriangle } from 'lucide-react';
 import { format } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import {
@@ -13,6 +14,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import EnergyPill from '@/components/shared/EnergyPill';
+import ChecklistBadge from './ChecklistBadge';
 import { useState } from 'react';
 import {
   Tooltip,
@@ -34,6 +36,9 @@ interface DraggableTaskProps {
   disableDoubleClickEdit?: boolean;
   showTime?: boolean;
   dndData?: Record<string, unknown>;
+  slotEnergyMismatch?: EnergyLevel | null; // expected energy of the task's slot, when it doesn't suit the task
+  isSelected?: boolean; // compact cards only
+  onSelect?: () => void;
 }
 
 const energyColors: Record<EnergyLevel, string> = {
@@ -55,6 +60,9 @@ const DraggableTask = ({
   disableDoubleClickEdit = false,
   showTime = false,
   dndData,
+  slotEnergyMismatch = null,
+  isSelected = false,
+  onSelect,
 }: DraggableTaskProps) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState(task.title);
@@ -87,6 +95,7 @@ const DraggableTask = ({
     }
   };
 
+  const dndId = useDndId();
   const {
     attributes,
     listeners,
@@ -95,7 +104,7 @@ const DraggableTask = ({
     transition,
     isDragging,
   } = useSortable({
-    id: `task:${task.id}`,
+    id: dndId(`task:${task.id}`),
     data: { kind: 'task', type: 'calendar-task', fromZone: 'calendar', taskId: task.id, task, ...(dndData || {}) },
   });
 
@@ -136,8 +145,13 @@ const DraggableTask = ({
           energyColors[task.energy_level],
           isDragging && 'opacity-50 shadow-lg',
           task.completed && 'opacity-60',
+          isSelected && 'ring-2 ring-highlight/50',
           !isEditing && 'cursor-grab active:cursor-grabbing'
         )}
+        onClick={onSelect ? (e) => {
+          e.stopPropagation();
+          onSelect();
+        } : undefined}
         onDoubleClick={handleDoubleClick}
       >
 
@@ -170,6 +184,8 @@ const DraggableTask = ({
             </span>
           )}
 
+          <ChecklistBadge items={task.checklist} className="mt-0.5" />
+
           {/* Show time if enabled and task has time */}
           {showTime && task.start_time && (
             <div className="flex items-center gap-1 text-[10px] text-foreground-muted leading-tight mt-0.5">
@@ -178,6 +194,11 @@ const DraggableTask = ({
                 {formatTime(task.start_time)}
                 {task.end_time && ` - ${formatTime(task.end_time)}`}
               </span>
+              {slotEnergyMismatch && (
+                <span title={`${task.energy_level} energy task in a ${slotEnergyMismatch}-energy slot`} className="flex-shrink-0">
+                  <AlertTriangle className="w-2.5 h-2.5 text-amber-500" />
+                </span>
+              )}
             </div>
           )}
         </div>
@@ -258,6 +279,7 @@ const DraggableTask = ({
         ) : (
           <span className={cn('text-sm', task.completed && 'line-through')}>{task.title}</span>
         )}
+        <ChecklistBadge items={task.checklist} className="ml-2" />
         {task.location && (
           <TooltipProvider>
             <Tooltip>
@@ -1,4 +1,5 @@
 import { useDraggable } from '@dnd-kit/core';
+import { useDndId } from '@/components/dnd/dndIds';
 import { cn } from '@/lib/utils';
 import { Task, EnergyLevel } from '@/types';
 import { Users, GripVertical } from 'lucide-react';
@@ -39,8 +40,9 @@ const DraggableUntimedTask = ({ task, onUpdate, onDelete, isShared, isNew }: Dra
   const downPosRef = useRef<{ x: number; y: number } | null>(null);
   const movedRef = useRef(false);
 
+  const dndId = useDndId();
   const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
-    id: `task:${task.id}`,
+    id: dndId(`task:${task.id}`),
     data: { kind: 'task', type: 'inbox-task', fromZone: 'calendar', taskId: task.id, task },
     disabled: isEditing || editDialogOpen,
   });
@@ -1,6 +1,6 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { format, isBefore, differenceInDays } from 'date-fns';
-import { Task, EnergyLevel } from '@/types';
+import { Task, EnergyLevel, RecurrenceEditScope, RecurrenceRule, ChecklistItem } from '@/types';
 import {
   Dialog,
   DialogContent,
@@ -13,14 +13,27 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Calendar as CalendarIcon, MapPin, Users, Trash2, CalendarDays, Pencil } from 'lucide-react';
+import { Calendar as CalendarIcon, MapPin, Users, Trash2, CalendarDays, Pencil, Flag } from 'lucide-react';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import EnergyPill from '@/components/shared/EnergyPill';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
+import { parseOccurrenceId } from '@/lib/recurrence';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { useCampaigns } from '@/contexts/CampaignsContext';
+import { campaignColor, campaignWhenLabel, parseTags } from '@/lib/campaigns';
+import { collectTags } from '@/lib/taskFilter';
 import TaskTimeSelector from './TaskTimeSelector';
+import RecurrenceEditor from './RecurrenceEditor';
+import DependencyPicker from './DependencyPicker';
+import ChecklistEditor from './ChecklistEditor';
+import { useToast } from '@/hooks/use-toast';
+
+const NO_CAMPAIGN = 'none';
 
 interface EditTaskDialogProps {
   open: boolean;
@@ -48,7 +61,23 @@ const EditTaskDialog = ({
   const [isShared, setIsShared] = useState(false);
   const [useTime, setUseTime] = useState(false);
   const [isMultiDay, setIsMultiDay] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [scope, setScope] = useState<RecurrenceEditScope>('this');
+  const [campaignId, setCampaignId] = useState<string | null>(null);
+  const [dependsOn, setDependsOn] = useState<string[]>([]);
+  const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+  const [tags, setTags] = useState('');
+  const { tasks, updateRecurringTask, deleteRecurringTask, promoteChecklistItem } = useTasksContext();
+  const { toast } = useToast();
+  const { campaigns, phases } = useCampaigns();
   const loadedTaskIdRef = useRef<string | null>(null);
+  const isOccurrence = !!task && !!parseOccurrenceId(task.id);
+
+  // Tags used on other tasks, most used first
+  const tagSuggestions = useMemo(() => {
+    const current = parseTags(tags);
+    return collectTags(tasks).filter((tag) => !current.includes(tag)).slice(0, 6);
+  }, [tasks, tags]);
 
   useEffect(() => {
     if (!open || !task) {
@@ -69,6 +98,12 @@ const EditTaskDialog = ({
     setLocation(task.location || '');
     setIsShared(task.is_shared || false);
     setIsMultiDay(!!task.end_date);
+    setRecurrence(task.recurrence ?? null);
+    setScope('this');
+    setCampaignId(task.campaign_id ?? null);
+    setDependsOn(task.depends_on ?? []);
+    setChecklist(task.checklist ?? []);
+    setTags((task.tags ?? []).join(', '));
 
     const hasTime = !!(task.start_time && task.start_time !== 'none');
     setUseTime(hasTime);
@@ -96,18 +131,41 @@ const EditTaskDialog = ({
       location: location.trim() || null,
       is_shared: isShared,
     };
+    if (campaignId !== (task.campaign_id ?? null)) updates.campaign_id = campaignId;
+    if (dependsOn.join() !== (task.depends_on ?? []).join()) updates.depends_on = dependsOn;
+    const steps = checklist.filter((item) => item.text.trim());
+    if (JSON.stringify(steps) !== JSON.stringify(task.checklist ?? [])) updates.checklist = steps;
+    const nextTags = parseTags(tags);
+    if (nextTags.join() !== (task.tags ?? []).join()) updates.tags = nextTags;
 
-    onSave(task.id, updates);
+    if (isOccurrence && scope !== 'this') {
+      void updateRecurringTask(task.id, { ...updates, recurrence }, scope);
+    } else {
+      // A single occurrence is detached from its series, so it never carries a rule.
+      onSave(task.id, isOccurrence ? updates : { ...updates, recurrence: dueDate ? recurrence : null });
+    }
     onOpenChange(false);
   };
 
+  const handlePromote = async (item: ChecklistItem) => {
+    if (!task) return;
+    const created = await promoteChecklistItem(task.id, item);
+    if (!created) return;
+    setChecklist((prev) => prev.filter((i) => i.id !== item.id));
+    toast({ title: 'Step promoted', description: `"${created.title}" is now a task of its own.` });
+  };
+
   // Calculate duration for multi-day tasks
   const durationText = isMultiDay && dueDate && endDate
     ? `${differenceInDays(endDate, dueDate) + 1} days`
     : null;
 
   const handleDelete = () => {
-    if (task && onDelete) {
+    if (!task) return;
+    if (isOccurrence && scope !== 'this') {
+      void deleteRecurringTask(task.id, scope);
+      onOpenChange(false);
+    } else if (onDelete) {
       onDelete(task.id);
       onOpenChange(false);
     }
@@ -130,6 +188,31 @@ const EditTaskDialog = ({
 
         <ScrollArea className="max-h-[60vh] px-6">
           <div className="space-y-5 pb-6">
+            {/* Which occurrences an edit applies to */}
+            {isOccurrence && (
+              <div className="space-y-2.5 rounded-xl border border-border/50 p-4 bg-secondary/20">
+                <Label className="text-foreground-muted">This is a repeating task</Label>
+                <RadioGroup
+                  value={scope}
+                  onValueChange={(v) => setScope(v as RecurrenceEditScope)}
+                  className="gap-2"
+                >
+                  {([
+                    ['this', 'This event'],
+                    ['following', 'This and following events'],
+                    ['all', 'All events'],
+                  ] as [RecurrenceEditScope, string][]).map(([value, label]) => (
+                    <div key={value} className="flex items-center gap-2">
+                      <RadioGroupItem value={value} id={`edit-scope-${value}`} />
+                      <Label htmlFor={`edit-scope-${value}`} className="text-sm font-normal cursor-pointer">
+                        {label}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+            )}
+
             {/* Task title */}
             <div className="space-y-2">
               <Label htmlFor="edit-title" className="text-foreground-muted">Title</Label>
@@ -154,6 +237,34 @@ const EditTaskDialog = ({
               />
             </div>
 
+            {/* Tags */}
+            <div className="space-y-2">
+              <Label htmlFor="edit-tags" className="text-foreground-muted">Tags</Label>
+              <Input
+                id="edit-tags"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="release, video"
+              />
+              {tagSuggestions.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {tagSuggestions.map((tag) => (
+                    <button
+                      key={tag}
+                      type="button"
+                      onClick={() => setTags((prev) => [...parseTags(prev), tag].join(', '))}
+                      className="rounded-md border border-border px-1.5 py-0.5 text-[11px] text-foreground-muted hover:text-foreground hover:bg-secondary/60"
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Ordered steps */}
+            <ChecklistEditor items={checklist} onChange={setChecklist} onPromote={handlePromote} />
+
             {/* Energy level selector */}
             <div className="space-y-2.5">
               <Label className="text-foreground-muted">Energy Level</Label>
@@ -305,6 +416,11 @@ const EditTaskDialog = ({
               </div>
             )}
 
+            {/* Repeat rule - a detached single occurrence can't have one */}
+            {!(isOccurrence && scope === 'this') && (
+              <RecurrenceEditor value={recurrence} onChange={setRecurrence} startDate={dueDate} />
+            )}
+
             {/* Location */}
             <div className="space-y-2">
               <Label htmlFor="edit-location" className="flex items-center gap-1.5 text-foreground-muted">
@@ -320,6 +436,39 @@ const EditTaskDialog = ({
               />
             </div>
 
+            {/* Campaign */}
+            {campaigns.length > 0 && (
+              <div className="space-y-2">
+                <Label className="flex items-center gap-1.5 text-foreground-muted">
+                  <Flag className="w-3.5 h-3.5" />
+                  Campaign
+                </Label>
+                <Select
+                  value={campaignId && campaigns.some((c) => c.id === campaignId) ? campaignId : NO_CAMPAIGN}
+                  onValueChange={(val) => setCampaignId(val === NO_CAMPAIGN ? null : val)}
+                >
+                  <SelectTrigger className="h-10">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CAMPAIGN}>No campaign</SelectItem>
+                    {campaigns.map((c) => (
+                      <SelectItem key={c.id} value={c.id}>
+                        <span className="flex items-center gap-2">
+                          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: campaignColor(c, phases) }} />
+                          {c.name}
+                          <span className="text-xs text-foreground-muted">{campaignWhenLabel(c)}</span>
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {/* Tasks that must be done first */}
+            <DependencyPicker task={task} value={dependsOn} onChange={setDependsOn} />
+
             {/* Share toggle */}
             <div className="flex items-center justify-between py-1">
               <Label htmlFor="edit-share" className="flex items-center gap-2 text-foreground-muted cursor-pointer">
@@ -1,7 +1,8 @@
 import { useDraggable } from '@dnd-kit/core';
+import { useDndId } from '@/components/dnd/dndIds';
 import { cn } from '@/lib/utils';
 import { Task, EnergyLevel } from '@/types';
-import { GripVertical, Calendar, Clock, Users, Check, X, Trash2 } from 'lucide-react';
+import { GripVertical, Calendar, Clock, Users, Check, X, Trash2, Lock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Popover,
@@ -19,6 +20,10 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useTaskBlockers } from '@/hooks/useTaskBlockers';
+import { blockedLabel } from '@/lib/taskDependencies';
+import ChecklistBadge from './ChecklistBadge';
+import TaskTags from './TaskTags';
 
 interface InboxTaskItemProps {
   task: Task;
@@ -56,7 +61,9 @@ const InboxTaskItem = memo(
   const [energyPickerOpen, setEnergyPickerOpen] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const isMobile = useIsMobile();
+  const blockers = useTaskBlockers(task);
 
+  const dndId = useDndId();
   const {
     attributes,
     listeners,
@@ -64,7 +71,7 @@ const InboxTaskItem = memo(
     transform,
     isDragging,
   } = useDraggable({
-    id: `task:${task.id}`,
+    id: dndId(`task:${task.id}`),
     data: { kind: 'task', taskId: task.id, fromZone, task, type: fromZone === 'notes' ? 'notes-task' : 'inbox-task' },
   });
 
@@ -164,7 +171,8 @@ const InboxTaskItem = memo(
         "group flex items-center gap-1.5 lg:gap-2 p-1.5 lg:p-2 rounded-lg bg-card border border-border transition-all min-h-[48px]",
         isMobile ? "touch-auto" : "touch-none",
         isDragging && "opacity-70 shadow-lg ring-2 ring-primary",
-        !isDragging && !isMobile && "cursor-grab active:cursor-grabbing"
+        !isDragging && !isMobile && "cursor-grab active:cursor-grabbing",
+        blockers.length > 0 && "border-dashed bg-card/60"
       )}
     >
       {/* Grip handle for dragging */}
@@ -219,13 +227,20 @@ const InboxTaskItem = memo(
           </div>
         ) : (
           <span
-            className="text-xs lg:text-sm truncate cursor-text"
+            className={cn("text-xs lg:text-sm truncate cursor-text", blockers.length > 0 && "text-foreground-muted")}
             onDoubleClick={handleDoubleClick}
             title="Double-click to edit"
           >
             {task.title}
           </span>
         )}
+        {blockers.length > 0 && !isEditing && (
+          <span className="flex-shrink-0" title={blockedLabel(blockers)}>
+            <Lock className="w-3 h-3 text-foreground-muted" aria-label={blockedLabel(blockers)} />
+          </span>
+        )}
+        {!isEditing && <ChecklistBadge items={task.checklist} />}
+        {!isEditing && !isMobile && <TaskTags tags={task.tags} />}
         {badge}
 
         {/* Energy dot - click shows dropdown to select energy level */}
@@ -0,0 +1,63 @@
+import { memo } from 'react';
+import { Calendar, CalendarRange, Clock, Flag, MapPin, Repeat, X, Zap } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { QuickAddChip, QuickAddField } from '@/lib/quickAddParser';
+
+interface QuickAddChipsProps {
+  chips: QuickAddChip[];
+  onDismiss: (field: QuickAddField) => void;
+  // Recognised but not applied, with the reason shown on hover
+  inactive?: Partial<Record<QuickAddField, string>>;
+  className?: string;
+}
+
+const FIELD_ICONS: Record<QuickAddField, typeof Calendar> = {
+  date: Calendar,
+  endDate: CalendarRange,
+  time: Clock,
+  energy: Zap,
+  urgency: Flag,
+  location: MapPin,
+  recurrence: Repeat,
+};
+
+/**
+ * Fields recognised in a quick-add line; dismissing one keeps its words in the title.
+ */
+const QuickAddChips = memo(({ chips, onDismiss, inactive, className }: QuickAddChipsProps) => {
+  if (chips.length === 0) return null;
+
+  return (
+    <div className={cn('flex items-center gap-1 flex-wrap', className)}>
+      {chips.map((chip) => {
+        const Icon = FIELD_ICONS[chip.field];
+        const reason = inactive?.[chip.field];
+        return (
+          <span
+            key={chip.field}
+            title={reason ? `"${chip.text}": ${reason}` : `"${chip.text}"`}
+            className={cn(
+              'inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-md text-xs animate-fade-in',
+              reason ? 'bg-muted text-muted-foreground line-through' : 'bg-primary/10 text-primary'
+            )}
+          >
+            <Icon className="w-3 h-3" />
+            {chip.label}
+            <button
+              type="button"
+              onClick={() => onDismiss(chip.field)}
+              className="p-0.5 rounded hover:bg-primary/20"
+              aria-label={`Keep "${chip.text}" in the title`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        );
+      })}
+    </div>
+  );
+});
+
+QuickAddChips.displayName = 'QuickAddChips';
+
+export default QuickAddChips;
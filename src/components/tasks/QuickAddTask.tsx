@@ -1,16 +1,18 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { format, addDays } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { Plus, Calendar, Clock, ChevronRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { EnergyLevel } from '@/types';
+import { EnergyLevel, RecurrenceRule, Urgency } from '@/types';
+import { parseQuickAdd, QuickAddField } from '@/lib/quickAddParser';
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
+import QuickAddChips from './QuickAddChips';
 
 interface QuickAddTaskProps {
   onAdd: (task: {
@@ -20,6 +22,9 @@ interface QuickAddTaskProps {
     startTime?: string;
     endTime?: string;
     endDate?: string;
+    location?: string;
+    urgency?: Urgency;
+    recurrence?: RecurrenceRule;
   }) => void;
   defaultEnergy?: EnergyLevel;
   defaultDate?: Date;
@@ -57,6 +62,7 @@ const QuickAddTask = ({
   const [endTime, setEndTime] = useState<string>('');
   const [endDate, setEndDate] = useState<Date | undefined>();
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [ignoredFields, setIgnoredFields] = useState<QuickAddField[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -73,20 +79,32 @@ const QuickAddTask = ({
     setStartTime(defaultTime || '');
   }, [defaultTime]);
 
+  // Typed phrases ("tomorrow 14-16 !high @studio") take precedence over the pickers
+  const parsed = useMemo(
+    () => parseQuickAdd(title, { defaultDate: date ? format(date, 'yyyy-MM-dd') : undefined, ignore: ignoredFields }),
+    [title, date, ignoredFields]
+  );
+  const effectiveEnergy = parsed.energy ?? energy;
+
   const handleSubmit = () => {
-    if (!title.trim()) return;
+    if (!parsed.title) return;
 
+    const typedTime = parsed.startTime != null;
     onAdd({
-      title: title.trim(),
-      energy,
-      date: date ? format(date, 'yyyy-MM-dd') : undefined,
-      startTime: startTime || undefined,
-      endTime: endTime || undefined,
-      endDate: endDate ? format(endDate, 'yyyy-MM-dd') : undefined,
+      title: parsed.title,
+      energy: effectiveEnergy,
+      date: parsed.date ?? (date ? format(date, 'yyyy-MM-dd') : undefined),
+      startTime: (typedTime ? parsed.startTime : startTime) || undefined,
+      endTime: (typedTime ? parsed.endTime : endTime) || undefined,
+      endDate: parsed.endDate ?? (endDate ? format(endDate, 'yyyy-MM-dd') : undefined),
+      location: parsed.location ?? undefined,
+      urgency: parsed.urgency ?? undefined,
+      recurrence: parsed.recurrence ?? undefined,
     });
 
     // Reset form
     setTitle('');
+    setIgnoredFields([]);
     setEnergy(defaultEnergy);
     setStartTime(defaultTime || '');
     setEndTime('');
@@ -133,12 +151,20 @@ const QuickAddTask = ({
       <Input
         ref={inputRef}
         value={title}
-        onChange={(e) => setTitle(e.target.value)}
+        onChange={(e) => {
+          setTitle(e.target.value);
+          if (!e.target.value.trim()) setIgnoredFields([]);
+        }}
         onKeyDown={handleKeyDown}
-        placeholder="What needs to be done?"
+        placeholder="e.g. Record podcast tomorrow 14-16 !high @studio"
         className="border-0 bg-transparent focus-visible:ring-0 px-0 text-sm"
       />
 
+      <QuickAddChips
+        chips={parsed.chips}
+        onDismiss={(field) => setIgnoredFields((prev) => [...prev, field])}
+      />
+
       {/* Quick energy selection */}
       <div className="flex items-center gap-1 flex-wrap">
         {ENERGY_OPTIONS.map((opt) => (
@@ -147,7 +173,7 @@ const QuickAddTask = ({
             onClick={() => setEnergy(opt.value)}
             className={cn(
               "flex items-center gap-1.5 px-2 py-1 rounded-md text-xs transition-all",
-              energy === opt.value
+              effectiveEnergy === opt.value
                 ? "bg-secondary text-foreground ring-1 ring-primary/30"
                 : "text-foreground-muted hover:bg-secondary/50"
             )}
@@ -314,7 +340,7 @@ const QuickAddTask = ({
 
       {/* Action buttons */}
       <div className="flex items-center gap-2 pt-2 border-t border-border">
-        <Button size="sm" onClick={handleSubmit} disabled={!title.trim()}>
+        <Button size="sm" onClick={handleSubmit} disabled={!parsed.title}>
           Add Task
         </Button>
         <Button variant="ghost" size="sm" onClick={() => setIsOpen(false)}>
@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { format, isBefore, differenceInDays } from 'date-fns';
+import { useState, useEffect, useMemo } from 'react';
+import { format, isBefore, differenceInDays, parseISO } from 'date-fns';
 import {
   Dialog,
   DialogContent,
@@ -15,6 +15,8 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { EnergyLevel } from '@/types';
 import EnergyPill from '@/components/shared/EnergyPill';
 import TaskTimeSelector from './TaskTimeSelector';
+import QuickAddChips from './QuickAddChips';
+import { parseQuickAdd, QuickAddField } from '@/lib/quickAddParser';
 import { useToast } from '@/hooks/use-toast';
 import { useTasksContext } from '@/contexts/TasksContext';
 import {
@@ -48,6 +50,7 @@ const QuickAddTaskDialog = ({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [useTime, setUseTime] = useState(false);
   const [isMultiDay, setIsMultiDay] = useState(false);
+  const [ignoredFields, setIgnoredFields] = useState<QuickAddField[]>([]);
   const { toast } = useToast();
   const { addTask } = useTasksContext();
 
@@ -61,26 +64,46 @@ const QuickAddTaskDialog = ({
       setEndTime('10:00');
       setUseTime(false);
       setIsMultiDay(false);
+      setIgnoredFields([]);
     }
   }, [open, defaultEnergy]);
 
+  // Typed phrases ("tomorrow 14-16 !high @studio") take precedence over the pickers
+  const parsed = useMemo(
+    () => parseQuickAdd(title, {
+      defaultDate: selectedDate ? format(selectedDate, 'yyyy-MM-dd') : undefined,
+      ignore: ignoredFields,
+    }),
+    [title, selectedDate, ignoredFields]
+  );
+  const effectiveEnergy = parsed.energy ?? energy;
+  // A typed time without a date means today
+  const effectiveDate = parsed.date
+    ?? (selectedDate ? format(selectedDate, 'yyyy-MM-dd') : null)
+    ?? (parsed.startTime ? format(new Date(), 'yyyy-MM-dd') : null);
+
   const handleConfirm = async () => {
-    if (!title.trim()) return;
+    if (!parsed.title) return;
 
+    const typedTime = parsed.startTime != null;
     setIsSubmitting(true);
     try {
       await addTask({
-        title: title.trim(),
-        energy_level: energy,
-        due_date: selectedDate ? format(selectedDate, 'yyyy-MM-dd') : null,
-        end_date: isMultiDay && endDate ? format(endDate, 'yyyy-MM-dd') : null,
-        start_time: selectedDate && useTime ? startTime : null,
-        end_time: selectedDate && useTime ? endTime : null,
+        title: parsed.title,
+        energy_level: effectiveEnergy,
+        due_date: effectiveDate,
+        end_date: parsed.endDate ?? (isMultiDay && endDate ? format(endDate, 'yyyy-MM-dd') : null),
+        start_time: typedTime ? parsed.startTime : selectedDate && useTime ? startTime : null,
+        end_time: typedTime ? parsed.endTime : selectedDate && useTime ? endTime : null,
+        // Undated tasks live in the inbox, which is keyed on an empty location
+        location: effectiveDate ? parsed.location : null,
+        urgency: parsed.urgency ?? 'normal',
+        recurrence: parsed.recurrence,
       });
 
       toast({
         title: 'Task created',
-        description: selectedDate ? `Scheduled for ${format(selectedDate, 'MMM d')}` : 'Added to inbox',
+        description: effectiveDate ? `Scheduled for ${format(parseISO(effectiveDate), 'MMM d')}` : 'Added to inbox',
       });
 
       onOpenChange(false);
@@ -97,7 +120,7 @@ const QuickAddTaskDialog = ({
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && title.trim()) {
+    if (e.key === 'Enter' && parsed.title) {
       handleConfirm();
     }
   };
@@ -125,12 +148,20 @@ const QuickAddTaskDialog = ({
               <Input
                 id="quick-title"
                 value={title}
-                onChange={(e) => setTitle(e.target.value)}
+                onChange={(e) => {
+                  setTitle(e.target.value);
+                  if (!e.target.value.trim()) setIgnoredFields([]);
+                }}
                 onKeyDown={handleKeyDown}
-                placeholder="What do you want to do?"
+                placeholder="e.g. Newsletter every friday 9am"
                 autoFocus
                 className="text-base focus:ring-1 focus:ring-primary/30 focus:border-primary/50 transition-all"
               />
+              <QuickAddChips
+                chips={parsed.chips}
+                onDismiss={(field) => setIgnoredFields((prev) => [...prev, field])}
+                inactive={effectiveDate ? undefined : { location: 'undated tasks go to the inbox, so the place needs a date' }}
+              />
             </div>
 
             {/* Energy selector */}
@@ -143,7 +174,7 @@ const QuickAddTaskDialog = ({
                     onClick={() => setEnergy(e)}
                     className={cn(
                       'transition-all rounded-full',
-                      energy === e
+                      effectiveEnergy === e
                         ? 'ring-2 ring-primary/70 ring-offset-2 ring-offset-background'
                         : 'opacity-50 hover:opacity-80'
                     )}
@@ -274,8 +305,8 @@ const QuickAddTaskDialog = ({
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
-          <Button onClick={handleConfirm} disabled={!title.trim() || isSubmitting}>
-            {selectedDate ? 'Schedule Task' : 'Add to Inbox'}
+          <Button onClick={handleConfirm} disabled={!parsed.title || isSubmitting}>
+            {effectiveDate ? 'Schedule Task' : 'Add to Inbox'}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -0,0 +1,201 @@
+import { memo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Repeat } from 'lucide-react';
+import { RecurrenceFrequency, RecurrenceRule } from '@/types';
+import { cn } from '@/lib/utils';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { createRecurrenceRule, describeRecurrence, getSetPosForDate } from '@/lib/recurrence';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  startDate: Date | undefined;
+}
+
+// Mon..Sun order, values are JS weekday numbers (0 = Sunday)
+const WEEKDAYS: { value: number; label: string }[] = [
+  { value: 1, label: 'M' },
+  { value: 2, label: 'T' },
+  { value: 3, label: 'W' },
+  { value: 4, label: 'T' },
+  { value: 5, label: 'F' },
+  { value: 6, label: 'S' },
+  { value: 0, label: 'S' },
+];
+
+type EndMode = 'never' | 'until' | 'count';
+
+const RecurrenceEditor = memo(({ value, onChange, startDate }: RecurrenceEditorProps) => {
+  const startStr = startDate ? format(startDate, 'yyyy-MM-dd') : null;
+  const endMode: EndMode = value?.until ? 'until' : value?.count != null ? 'count' : 'never';
+
+  const handleFrequencyChange = (freq: string) => {
+    if (freq === 'none' || !startStr) {
+      onChange(null);
+      return;
+    }
+    onChange(createRecurrenceRule(freq as RecurrenceFrequency, startStr));
+  };
+
+  const update = (patch: Partial<RecurrenceRule>) => {
+    if (!value) return;
+    onChange({ ...value, ...patch });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+    const next = value.by_weekday.includes(day)
+      ? value.by_weekday.filter((d) => d !== day)
+      : [...value.by_weekday, day];
+    // A weekly rule always needs at least one day
+    if (next.length === 0) return;
+    update({ by_weekday: next });
+  };
+
+  const handleMonthlyModeChange = (mode: string) => {
+    if (!value || !startStr) return;
+    const start = parseISO(startStr);
+    if (mode === 'weekday') {
+      update({ by_month_day: null, by_set_pos: getSetPosForDate(startStr), by_weekday: [start.getDay()] });
+    } else {
+      update({ by_month_day: start.getDate(), by_set_pos: null, by_weekday: [] });
+    }
+  };
+
+  const handleEndModeChange = (mode: string) => {
+    if (mode === 'until') {
+      update({ until: startStr, count: null });
+    } else if (mode === 'count') {
+      update({ until: null, count: 10 });
+    } else {
+      update({ until: null, count: null });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <Label className="flex items-center gap-1.5 text-foreground-muted">
+          <Repeat className="w-3.5 h-3.5" />
+          Repeat
+        </Label>
+        <Select value={value?.freq ?? 'none'} onValueChange={handleFrequencyChange} disabled={!startStr}>
+          <SelectTrigger className="h-9 w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="daily">Daily</SelectItem>
+            <SelectItem value="weekly">Weekly</SelectItem>
+            <SelectItem value="monthly">Monthly</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!startStr && (
+        <p className="text-xs text-foreground-muted">Pick a date to make this task repeat.</p>
+      )}
+
+      {value && startStr && (
+        <div className="space-y-3 rounded-xl border border-border/50 p-4 bg-secondary/20">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-foreground-muted">Every</span>
+            <Input
+              type="number"
+              min={1}
+              max={99}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+              className="h-9 w-16"
+            />
+            <span className="text-foreground-muted">
+              {value.freq === 'daily' ? 'day(s)' : value.freq === 'weekly' ? 'week(s)' : 'month(s)'}
+            </span>
+          </div>
+
+          {value.freq === 'weekly' && (
+            <div className="flex gap-1.5">
+              {WEEKDAYS.map((d) => (
+                <button
+                  key={d.value}
+                  type="button"
+                  onClick={() => toggleWeekday(d.value)}
+                  className={cn(
+                    'w-8 h-8 rounded-full text-xs font-medium transition-colors',
+                    value.by_weekday.includes(d.value)
+                      ? 'bg-highlight text-highlight-foreground'
+                      : 'bg-secondary text-foreground-muted hover:bg-secondary/80'
+                  )}
+                >
+                  {d.label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {value.freq === 'monthly' && (
+            <Select value={value.by_set_pos != null ? 'weekday' : 'date'} onValueChange={handleMonthlyModeChange}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="date">
+                  {describeRecurrence(createRecurrenceRule('monthly', startStr), startStr).replace('Monthly ', '')}
+                </SelectItem>
+                <SelectItem value="weekday">
+                  {describeRecurrence(
+                    { ...createRecurrenceRule('monthly', startStr), by_month_day: null, by_set_pos: getSetPosForDate(startStr), by_weekday: [parseISO(startStr).getDay()] },
+                    startStr
+                  ).replace('Monthly ', '')}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-foreground-muted">Ends</span>
+            <Select value={endMode} onValueChange={handleEndModeChange}>
+              <SelectTrigger className="h-9 w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="until">On date</SelectItem>
+                <SelectItem value="count">After</SelectItem>
+              </SelectContent>
+            </Select>
+            {endMode === 'until' && (
+              <Input
+                type="date"
+                value={value.until ?? ''}
+                min={startStr}
+                onChange={(e) => update({ until: e.target.value || null })}
+                className="h-9 flex-1"
+              />
+            )}
+            {endMode === 'count' && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  value={value.count ?? 1}
+                  onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className="h-9 w-20"
+                />
+                <span className="text-foreground-muted">times</span>
+              </>
+            )}
+          </div>
+
+          <p className="text-xs text-foreground-muted">{describeRecurrence(value, startStr)}</p>
+        </div>
+      )}
+    </div>
+  );
+});
+
+RecurrenceEditor.displayName = 'RecurrenceEditor';
+
+export default RecurrenceEditor;
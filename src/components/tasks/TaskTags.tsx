@@ -0,0 +1,30 @@
+import { cn } from '@/lib/utils';
+
+interface TaskTagsProps {
+  tags: string[] | null | undefined;
+  max?: number;
+  className?: string;
+}
+
+/**
+ * "#release #video +2" tag chips; renders nothing for untagged tasks.
+ */
+const TaskTags = ({ tags, max = 2, className }: TaskTagsProps) => {
+  if (!tags || tags.length === 0) return null;
+  const shown = tags.slice(0, max);
+
+  return (
+    <span className={cn('inline-flex items-center gap-1 flex-shrink-0 min-w-0', className)} title={tags.map((t) => `#${t}`).join(' ')}>
+      {shown.map((tag) => (
+        <span key={tag} className="truncate max-w-[6rem] rounded px-1 text-[10px] bg-secondary/60 text-foreground-muted">
+          #{tag}
+        </span>
+      ))}
+      {tags.length > shown.length && (
+        <span className="text-[10px] text-foreground-muted">+{tags.length - shown.length}</span>
+      )}
+    </span>
+  );
+};
+
+export default TaskTags;
@@ -0,0 +1,247 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
+import { Campaign, Phase } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useTasksContext } from '@/contexts/TasksContext';
+
+export type PhaseInsert = Omit<Phase, 'id' | 'user_id' | 'created_at'>;
+export type CampaignInsert = Omit<Campaign, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+
+interface CampaignsContextValue {
+  phases: Phase[];
+  campaigns: Campaign[];
+  loading: boolean;
+  addPhase: (phase: PhaseInsert) => Promise<Phase | null>;
+  updatePhase: (id: string, updates: Partial<PhaseInsert>) => Promise<boolean>;
+  deletePhase: (id: string) => Promise<boolean>;
+  addCampaign: (campaign: CampaignInsert) => Promise<Campaign | null>;
+  updateCampaign: (id: string, updates: Partial<CampaignInsert>) => Promise<boolean>;
+  deleteCampaign: (id: string) => Promise<boolean>;
+  assignTaskToCampaign: (taskId: string, campaignId: string | null) => Promise<boolean>;
+  refreshCampaigns: () => Promise<void>;
+}
+
+const CampaignsContext = createContext<CampaignsContextValue | undefined>(undefined);
+
+export const useCampaigns = () => {
+  const context = useContext(CampaignsContext);
+  if (!context) {
+    throw new Error('useCampaigns must be used within a CampaignsProvider');
+  }
+  return context;
+};
+
+const byCreated = (a: { created_at: string }, b: { created_at: string }) => a.created_at.localeCompare(b.created_at);
+
+interface CampaignsProviderProps {
+  children: ReactNode;
+  userId: string;
+}
+
+export const CampaignsProvider = ({ children, userId }: CampaignsProviderProps) => {
+  const [phases, setPhases] = useState<Phase[]>([]);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const { updateTask, refreshTasks } = useTasksContext();
+
+  // Latest lists for rollback inside callbacks
+  const phasesRef = useRef<Phase[]>(phases);
+  phasesRef.current = phases;
+  const campaignsRef = useRef<Campaign[]>(campaigns);
+  campaignsRef.current = campaigns;
+
+  const fetchCampaigns = useCallback(async () => {
+    if (!userId) {
+      setPhases([]);
+      setCampaigns([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [phaseResult, campaignResult] = await Promise.all([
+        supabase.from('phases').select('*').eq('user_id', userId).order('start_month'),
+        supabase.from('campaigns').select('*').eq('user_id', userId).order('month'),
+      ]);
+      if (phaseResult.error) throw phaseResult.error;
+      if (campaignResult.error) throw campaignResult.error;
+      setPhases((phaseResult.data || []) as Phase[]);
+      setCampaigns((campaignResult.data || []) as Campaign[]);
+    } catch (err) {
+      console.error('Error fetching campaigns:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    void fetchCampaigns();
+
+    // Changes from other devices: both tables are small, so refetch
+    const channel = supabase
+      .channel('campaigns-changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'phases', filter: `user_id=eq.${userId}` }, () => {
+        void fetchCampaigns();
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'campaigns', filter: `user_id=eq.${userId}` }, () => {
+        void fetchCampaigns();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchCampaigns, userId]);
+
+  const addPhase = useCallback(
+    async (phaseData: PhaseInsert): Promise<Phase | null> => {
+      const phase: Phase = { ...phaseData, id: crypto.randomUUID(), user_id: userId, created_at: new Date().toISOString() };
+      setPhases((prev) => [...prev, phase]);
+      try {
+        const { error } = await supabase.from('phases').insert(phase);
+        if (error) throw error;
+        return phase;
+      } catch (err) {
+        console.error('Add phase error:', err);
+        setPhases((prev) => prev.filter((p) => p.id !== phase.id));
+        toast({ title: 'Error', description: 'Could not create phase', variant: 'destructive' });
+        return null;
+      }
+    },
+    [userId, toast]
+  );
+
+  const updatePhase = useCallback(
+    async (id: string, updates: Partial<PhaseInsert>): Promise<boolean> => {
+      const previous = phasesRef.current;
+      setPhases((prev) => prev.map((p) => (p.id === id ? { ...p, ...updates } : p)));
+      try {
+        const { error } = await supabase.from('phases').update(updates).eq('id', id);
+        if (error) throw error;
+        return true;
+      } catch (err) {
+        console.error('Update phase error:', err);
+        setPhases(previous);
+        toast({ title: 'Error', description: 'Could not update phase', variant: 'destructive' });
+        return false;
+      }
+    },
+    [toast]
+  );
+
+  const deletePhase = useCallback(
+    async (id: string): Promise<boolean> => {
+      const previousPhases = phasesRef.current;
+      const previousCampaigns = campaignsRef.current;
+      // Campaigns keep existing without a phase (on delete set null)
+      setPhases((prev) => prev.filter((p) => p.id !== id));
+      setCampaigns((prev) => prev.map((c) => (c.phase_id === id ? { ...c, phase_id: null } : c)));
+      try {
+        const { error } = await supabase.from('phases').delete().eq('id', id);
+        if (error) throw error;
+        return true;
+      } catch (err) {
+        console.error('Delete phase error:', err);
+        setPhases(previousPhases);
+        setCampaigns(previousCampaigns);
+        toast({ title: 'Error', description: 'Could not delete phase', variant: 'destructive' });
+        return false;
+      }
+    },
+    [toast]
+  );
+
+  const addCampaign = useCallback(
+    async (campaignData: CampaignInsert): Promise<Campaign | null> => {
+      const now = new Date().toISOString();
+      const campaign: Campaign = { ...campaignData, id: crypto.randomUUID(), user_id: userId, created_at: now, updated_at: now };
+      setCampaigns((prev) => [...prev, campaign]);
+      try {
+        const { error } = await supabase.from('campaigns').insert(campaign);
+        if (error) throw error;
+        return campaign;
+      } catch (err) {
+        console.error('Add campaign error:', err);
+        setCampaigns((prev) => prev.filter((c) => c.id !== campaign.id));
+        toast({ title: 'Error', description: 'Could not create campaign', variant: 'destructive' });
+        return null;
+      }
+    },
+    [userId, toast]
+  );
+
+  const updateCampaign = useCallback(
+    async (id: string, updates: Partial<CampaignInsert>): Promise<boolean> => {
+      const previous = campaignsRef.current;
+      const changes = { ...updates, updated_at: new Date().toISOString() };
+      setCampaigns((prev) => prev.map((c) => (c.id === id ? { ...c, ...changes } : c)));
+      try {
+        const { error } = await supabase.from('campaigns').update(changes).eq('id', id);
+        if (error) throw error;
+        return true;
+      } catch (err) {
+        console.error('Update campaign error:', err);
+        setCampaigns(previous);
+        toast({ title: 'Error', description: 'Could not update campaign', variant: 'destructive' });
+        return false;
+      }
+    },
+    [toast]
+  );
+
+  const deleteCampaign = useCallback(
+    async (id: string): Promise<boolean> => {
+      const previous = campaignsRef.current;
+      setCampaigns((prev) => prev.filter((c) => c.id !== id));
+      try {
+        const { error } = await supabase.from('campaigns').delete().eq('id', id);
+        if (error) throw error;
+        // The database unassigns its tasks
+        void refreshTasks();
+        return true;
+      } catch (err) {
+        console.error('Delete campaign error:', err);
+        setCampaigns(previous);
+        toast({ title: 'Error', description: 'Could not delete campaign', variant: 'destructive' });
+        return false;
+      }
+    },
+    [toast, refreshTasks]
+  );
+
+  const assignTaskToCampaign = useCallback(
+    (taskId: string, campaignId: string | null) => updateTask(taskId, { campaign_id: campaignId }),
+    [updateTask]
+  );
+
+  // In calendar order
+  const sortedPhases = useMemo(
+    () => [...phases].sort((a, b) => a.start_month - b.start_month || byCreated(a, b)),
+    [phases]
+  );
+  const sortedCampaigns = useMemo(
+    () => [...campaigns].sort((a, b) => a.month - b.month || (a.week ?? 0) - (b.week ?? 0) || byCreated(a, b)),
+    [campaigns]
+  );
+
+  return (
+    <CampaignsContext.Provider
+      value={{
+        phases: sortedPhases,
+        campaigns: sortedCampaigns,
+        loading,
+        addPhase,
+        updatePhase,
+        deletePhase,
+        addCampaign,
+        updateCampaign,
+        deleteCampaign,
+        assignTaskToCampaign,
+        refreshCampaigns: fetchCampaigns,
+      }}
+    >
+      {children}
+    </CampaignsContext.Provider>
+  );
+};
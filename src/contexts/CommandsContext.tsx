@@ -0,0 +1,72 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import type { LucideIcon } from 'lucide-react';
+
+export interface Command {
+  id: string; // stable, e.g. "view.today"
+  title: string;
+  group: string; // palette section
+  keywords?: string[];
+  icon?: LucideIcon;
+  shortcut?: string; // hint shown next to the title
+  run: () => void;
+}
+
+interface CommandsContextValue {
+  commands: Command[]; // every registered command, in registration order
+  paletteOpen: boolean;
+  setPaletteOpen: (open: boolean) => void;
+}
+
+type RegisterCommands = (source: string, commands: Command[]) => () => void;
+
+const CommandsContext = createContext<CommandsContextValue | undefined>(undefined);
+// Kept apart so registering doesn't re-render every contributor
+const RegisterCommandsContext = createContext<RegisterCommands | undefined>(undefined);
+
+export const useCommands = () => {
+  const context = useContext(CommandsContext);
+  if (!context) {
+    throw new Error('useCommands must be used within a CommandsProvider');
+  }
+  return context;
+};
+
+/**
+ * Contribute commands to the palette while the calling component is mounted.
+ * Pass a memoized list; a new list replaces the source's previous one.
+ */
+export const useRegisterCommands = (source: string, commands: Command[]) => {
+  const register = useContext(RegisterCommandsContext);
+  if (!register) {
+    throw new Error('useRegisterCommands must be used within a CommandsProvider');
+  }
+
+  useEffect(() => register(source, commands), [register, source, commands]);
+};
+
+export const CommandsProvider = ({ children }: { children: ReactNode }) => {
+  const [sources, setSources] = useState<Record<string, Command[]>>({});
+  const [paletteOpen, setPaletteOpen] = useState(false);
+
+  const register = useCallback<RegisterCommands>((source, commands) => {
+    setSources((prev) => ({ ...prev, [source]: commands }));
+    return () => {
+      setSources((prev) => {
+        if (prev[source] !== commands) return prev;
+        const next = { ...prev };
+        delete next[source];
+        return next;
+      });
+    };
+  }, []);
+
+  const commands = useMemo(() => Object.values(sources).flat(), [sources]);
+
+  return (
+    <RegisterCommandsContext.Provider value={register}>
+      <CommandsContext.Provider value={{ commands, paletteOpen, setPaletteOpen }}>
+        {children}
+      </CommandsContext.Provider>
+    </RegisterCommandsContext.Provider>
+  );
+};
@@ -5,6 +5,7 @@ import {
   OffHoursDisplay, 
   defaultTimeRangeSettings 
 } from '@/lib/timeRangeConfig';
+import { EnergyProfile, defaultEnergyProfile, normalizeEnergyProfile } from '@/lib/energyCurve';
 
 export type UIDensity = 'comfortable' | 'compact';
 export type ViewType = 'year' | 'month' | 'week' | 'day';
@@ -27,6 +28,9 @@ interface DensityContextType {
   timeRangeSettings: TimeRangeSettings;
   setTimeRangeSettings: (settings: TimeRangeSettings) => void;
   updateTimeRangeSetting: <K extends keyof TimeRangeSettings>(key: K, value: TimeRangeSettings[K]) => void;
+  // Expected energy through the day, with optional per-weekday curves
+  energyProfile: EnergyProfile;
+  setEnergyProfile: (profile: EnergyProfile) => void;
 }
 
 const defaultTooltipSettings: TooltipSettings = {
@@ -39,11 +43,13 @@ const defaultTooltipSettings: TooltipSettings = {
 const DensityContext = createContext<DensityContextType | undefined>(undefined);
 
 const TIME_RANGE_STORAGE_KEY = 'time-range-settings';
+const ENERGY_PROFILE_STORAGE_KEY = 'energy-curve';
 
 export function DensityProvider({ children }: { children: ReactNode }) {
   const [density, setDensityState] = useState<UIDensity>('comfortable');
   const [tooltipSettings, setTooltipSettingsState] = useState<TooltipSettings>(defaultTooltipSettings);
   const [timeRangeSettings, setTimeRangeSettingsState] = useState<TimeRangeSettings>(defaultTimeRangeSettings);
+  const [energyProfile, setEnergyProfileState] = useState<EnergyProfile>(defaultEnergyProfile);
 
   useEffect(() => {
     // Load density from localStorage
@@ -74,6 +80,16 @@ export function DensityProvider({ children }: { children: ReactNode }) {
         // Use defaults
       }
     }
+
+    // Load energy profile from localStorage (older versions stored a single curve)
+    const storedProfile = localStorage.getItem(ENERGY_PROFILE_STORAGE_KEY);
+    if (storedProfile) {
+      try {
+        setEnergyProfileState(normalizeEnergyProfile(JSON.parse(storedProfile)));
+      } catch {
+        // Use defaults
+      }
+    }
   }, []);
 
   const setDensity = (newDensity: UIDensity) => {
@@ -104,6 +120,12 @@ export function DensityProvider({ children }: { children: ReactNode }) {
     });
   };
 
+  const setEnergyProfile = (profile: EnergyProfile) => {
+    const normalized = normalizeEnergyProfile(profile);
+    setEnergyProfileState(normalized);
+    localStorage.setItem(ENERGY_PROFILE_STORAGE_KEY, JSON.stringify(normalized));
+  };
+
   return (
     <DensityContext.Provider value={{ 
       density, 
@@ -115,6 +137,8 @@ export function DensityProvider({ children }: { children: ReactNode }) {
       timeRangeSettings,
       setTimeRangeSettings,
       updateTimeRangeSetting,
+      energyProfile,
+      setEnergyProfile,
     }}>
       {children}
     </DensityContext.Provider>
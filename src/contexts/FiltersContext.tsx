@@ -0,0 +1,228 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
+import { format } from 'date-fns';
+import { Bookmark, FilterX } from 'lucide-react';
+import { SavedFilter, Task } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { useCampaigns } from '@/contexts/CampaignsContext';
+import { Command, useRegisterCommands } from '@/contexts/CommandsContext';
+import { ParsedFilter, createTaskMatcher, isFilterActive, parseFilterQuery } from '@/lib/taskFilter';
+
+type SavedFilterUpdate = Partial<Pick<SavedFilter, 'name' | 'query' | 'pinned'>>;
+
+interface FiltersContextValue {
+  query: string;
+  setQuery: (query: string) => void;
+  clearFilter: () => void;
+  filter: ParsedFilter;
+  isActive: boolean;
+  matchesTask: (task: Task) => boolean;
+  savedFilters: SavedFilter[];
+  activeSavedFilter: SavedFilter | null; // the saved filter whose query is applied, if any
+  applySavedFilter: (id: string) => void;
+  saveFilter: (name: string, query: string, pinned?: boolean) => Promise<SavedFilter | null>;
+  updateSavedFilter: (id: string, updates: SavedFilterUpdate) => Promise<boolean>;
+  deleteSavedFilter: (id: string) => Promise<boolean>;
+}
+
+const FiltersContext = createContext<FiltersContextValue | undefined>(undefined);
+
+export const useFilters = () => {
+  const context = useContext(FiltersContext);
+  if (!context) {
+    throw new Error('useFilters must be used within a FiltersProvider');
+  }
+  return context;
+};
+
+// Active query, restored on reload
+const ACTIVE_QUERY_KEY = 'luminoo-task-filter';
+
+const normalizeQuery = (query: string) => query.trim().replace(/\s+/g, ' ');
+
+interface FiltersProviderProps {
+  children: ReactNode;
+  userId: string;
+}
+
+export const FiltersProvider = ({ children, userId }: FiltersProviderProps) => {
+  const [query, setQueryState] = useState(() => {
+    try {
+      return localStorage.getItem(ACTIVE_QUERY_KEY) ?? '';
+    } catch {
+      return '';
+    }
+  });
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([]);
+  const { toast } = useToast();
+  const { tasks } = useTasksContext();
+  const { campaigns } = useCampaigns();
+
+  // Latest list for rollback inside callbacks
+  const savedFiltersRef = useRef<SavedFilter[]>(savedFilters);
+  savedFiltersRef.current = savedFilters;
+
+  const setQuery = useCallback((next: string) => {
+    setQueryState(next);
+    try {
+      if (next.trim()) localStorage.setItem(ACTIVE_QUERY_KEY, next);
+      else localStorage.removeItem(ACTIVE_QUERY_KEY);
+    } catch {
+      // ignore
+    }
+  }, []);
+
+  const clearFilter = useCallback(() => setQuery(''), [setQuery]);
+
+  const fetchSavedFilters = useCallback(async () => {
+    if (!userId) {
+      setSavedFilters([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('saved_filters')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at');
+      if (error) throw error;
+      setSavedFilters((data || []) as SavedFilter[]);
+    } catch (err) {
+      console.error('Error fetching saved filters:', err);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    void fetchSavedFilters();
+
+    const channel = supabase
+      .channel('saved-filters-changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'saved_filters', filter: `user_id=eq.${userId}` }, () => {
+        void fetchSavedFilters();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchSavedFilters, userId]);
+
+  const saveFilter = useCallback(
+    async (name: string, filterQuery: string, pinned = true): Promise<SavedFilter | null> => {
+      const saved: SavedFilter = {
+        id: crypto.randomUUID(),
+        user_id: userId,
+        name: name.trim(),
+        query: normalizeQuery(filterQuery),
+        pinned,
+        created_at: new Date().toISOString(),
+      };
+      setSavedFilters((prev) => [...prev, saved]);
+      try {
+        const { error } = await supabase.from('saved_filters').insert(saved);
+        if (error) throw error;
+        return saved;
+      } catch (err) {
+        console.error('Save filter error:', err);
+        setSavedFilters((prev) => prev.filter((f) => f.id !== saved.id));
+        toast({ title: 'Error', description: 'Could not save filter', variant: 'destructive' });
+        return null;
+      }
+    },
+    [userId, toast]
+  );
+
+  const updateSavedFilter = useCallback(
+    async (id: string, updates: SavedFilterUpdate): Promise<boolean> => {
+      const previous = savedFiltersRef.current;
+      const changes = updates.query === undefined ? updates : { ...updates, query: normalizeQuery(updates.query) };
+      setSavedFilters((prev) => prev.map((f) => (f.id === id ? { ...f, ...changes } : f)));
+      try {
+        const { error } = await supabase.from('saved_filters').update(changes).eq('id', id);
+        if (error) throw error;
+        return true;
+      } catch (err) {
+        console.error('Update filter error:', err);
+        setSavedFilters(previous);
+        toast({ title: 'Error', description: 'Could not update filter', variant: 'destructive' });
+        return false;
+      }
+    },
+    [toast]
+  );
+
+  const deleteSavedFilter = useCallback(
+    async (id: string): Promise<boolean> => {
+      const previous = savedFiltersRef.current;
+      setSavedFilters((prev) => prev.filter((f) => f.id !== id));
+      try {
+        const { error } = await supabase.from('saved_filters').delete().eq('id', id);
+        if (error) throw error;
+        return true;
+      } catch (err) {
+        console.error('Delete filter error:', err);
+        setSavedFilters(previous);
+        toast({ title: 'Error', description: 'Could not delete filter', variant: 'destructive' });
+        return false;
+      }
+    },
+    [toast]
+  );
+
+  const applySavedFilter = useCallback(
+    (id: string) => {
+      const saved = savedFiltersRef.current.find((f) => f.id === id);
+      if (saved) setQuery(saved.query);
+    },
+    [setQuery]
+  );
+
+  const filter = useMemo(() => parseFilterQuery(query), [query]);
+
+  const matchesTask = useMemo(
+    () => createTaskMatcher(filter, { today: format(new Date(), 'yyyy-MM-dd'), tasks, campaigns }),
+    [filter, tasks, campaigns]
+  );
+
+  const commands = useMemo((): Command[] => [
+    ...savedFilters.map((saved) => ({
+      id: `filter.apply.${saved.id}`,
+      title: `Filter: ${saved.name}`,
+      group: 'Filters',
+      keywords: [saved.query],
+      icon: Bookmark,
+      run: () => setQuery(saved.query),
+    })),
+    { id: 'filter.clear', title: 'Clear filter', group: 'Filters', keywords: ['show all'], icon: FilterX, run: clearFilter },
+  ], [savedFilters, setQuery, clearFilter]);
+
+  useRegisterCommands('filters', commands);
+
+  const activeSavedFilter = useMemo(() => {
+    const current = normalizeQuery(query);
+    return current ? savedFilters.find((f) => f.query === current) ?? null : null;
+  }, [query, savedFilters]);
+
+  return (
+    <FiltersContext.Provider
+      value={{
+        query,
+        setQuery,
+        clearFilter,
+        filter,
+        isActive: isFilterActive(filter),
+        matchesTask,
+        savedFilters,
+        activeSavedFilter,
+        applySavedFilter,
+        saveFilter,
+        updateSavedFilter,
+        deleteSavedFilter,
+      }}
+    >
+      {children}
+    </FiltersContext.Provider>
+  );
+};
@@ -0,0 +1,228 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
+import {
+  SHORTCUT_DEFINITIONS,
+  ShortcutBindings,
+  belongsToTextField,
+  comboFromEvent,
+  defaultBindings,
+  findConflicts,
+  resolveBindings,
+} from '@/lib/shortcuts';
+
+type ShortcutHandler = () => void;
+type ShortcutHandlers = Partial<Record<string, ShortcutHandler>>;
+
+interface ShortcutsContextValue {
+  bindings: ShortcutBindings; // action id -> combos
+  conflicts: Map<string, string[]>; // combo -> action ids sharing it
+  assignShortcut: (id: string, combo: string) => void; // takes the combo away from any other action
+  clearShortcut: (id: string) => void;
+  resetShortcut: (id: string) => void;
+  resetAllShortcuts: () => void;
+}
+
+interface RegisteredHandler {
+  handlers: { current: ShortcutHandlers };
+  fallback: boolean;
+  scope: string | null;
+}
+
+interface ShortcutRegistry {
+  register: (id: string, handler: RegisteredHandler) => () => void;
+  activateScope: (scope: string) => void;
+}
+
+const ShortcutsContext = createContext<ShortcutsContextValue | undefined>(undefined);
+// Kept apart so registering doesn't re-render on remaps
+const RegisterShortcutContext = createContext<ShortcutRegistry | undefined>(undefined);
+const ShortcutScopeContext = createContext<string | null>(null);
+
+export const useShortcutSettings = () => {
+  const context = useContext(ShortcutsContext);
+  if (!context) {
+    throw new Error('useShortcutSettings must be used within a ShortcutsProvider');
+  }
+  return context;
+};
+
+interface UseShortcutsOptions {
+  enabled?: boolean;
+  fallback?: boolean; // only runs when no other component handles the action
+}
+
+/**
+ * Handle shortcut actions while the calling component is mounted (and enabled).
+ * When several components handle an action, one in the scope the user last worked in wins,
+ * then the most recently mounted one.
+ */
+export const useShortcuts = (handlers: ShortcutHandlers, { enabled = true, fallback = false }: UseShortcutsOptions = {}) => {
+  const registry = useContext(RegisterShortcutContext);
+  if (!registry) {
+    throw new Error('useShortcuts must be used within a ShortcutsProvider');
+  }
+  const { register } = registry;
+  const scope = useContext(ShortcutScopeContext);
+
+  // Latest handlers without re-registering every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const ids = Object.keys(handlers).join(' ');
+
+  useEffect(() => {
+    if (!enabled || !ids) return;
+    const unregister = ids.split(' ').map((id) => register(id, { handlers: handlersRef, fallback, scope }));
+    return () => unregister.forEach((fn) => fn());
+  }, [register, ids, enabled, fallback, scope]);
+};
+
+/**
+ * Shortcuts registered inside belong to this scope (one window); clicking or focusing
+ * into it makes its handlers win over those of other windows with the same action.
+ */
+export const ShortcutScope = ({ id, children }: { id: string; children: ReactNode }) => {
+  const registry = useContext(RegisterShortcutContext);
+  const activate = () => registry?.activateScope(id);
+  return (
+    <ShortcutScopeContext.Provider value={id}>
+      <div className="contents" onPointerDownCapture={activate} onFocusCapture={activate}>
+        {children}
+      </div>
+    </ShortcutScopeContext.Provider>
+  );
+};
+
+const storageKey = (userKey: string) => `luminoo-shortcuts:${userKey}`;
+
+const definitionsById = new Map(SHORTCUT_DEFINITIONS.map((d) => [d.id, d]));
+
+// Components that handle an action outright beat fallbacks; the most recently mounted wins
+const pickHandler = (registered: RegisteredHandler[]): RegisteredHandler | undefined => {
+  const preferred = registered.filter((h) => !h.fallback);
+  return preferred[preferred.length - 1] ?? registered[registered.length - 1];
+};
+
+const isDialogOpen = () =>
+  !!document.querySelector('[role="dialog"][data-state="open"], [role="alertdialog"][data-state="open"]');
+
+interface ShortcutsProviderProps {
+  children: ReactNode;
+  userKey: string;
+}
+
+export const ShortcutsProvider = ({ children, userKey }: ShortcutsProviderProps) => {
+  // Only remapped actions are stored, so new defaults reach existing users
+  const [overrides, setOverrides] = useState<ShortcutBindings>({});
+
+  useEffect(() => {
+    try {
+      const raw = localStorage.getItem(storageKey(userKey));
+      const parsed = raw ? (JSON.parse(raw) as unknown) : null;
+      setOverrides(parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as ShortcutBindings) : {});
+    } catch {
+      setOverrides({});
+    }
+  }, [userKey]);
+
+  const updateOverrides = useCallback(
+    (update: (bindings: ShortcutBindings) => ShortcutBindings) => {
+      setOverrides((prev) => {
+        const next = update(resolveBindings(prev));
+        const defaults = defaultBindings();
+        const changed = Object.fromEntries(
+          Object.entries(next).filter(([id, keys]) => keys.join() !== (defaults[id] ?? []).join())
+        );
+        try {
+          localStorage.setItem(storageKey(userKey), JSON.stringify(changed));
+        } catch {
+          // ignore
+        }
+        return changed;
+      });
+    },
+    [userKey]
+  );
+
+  const assignShortcut = useCallback(
+    (id: string, combo: string) =>
+      updateOverrides((bindings) =>
+        Object.fromEntries(
+          Object.entries(bindings).map(([otherId, keys]) => [otherId, otherId === id ? [combo] : keys.filter((k) => k !== combo)])
+        )
+      ),
+    [updateOverrides]
+  );
+
+  const clearShortcut = useCallback((id: string) => updateOverrides((bindings) => ({ ...bindings, [id]: [] })), [updateOverrides]);
+
+  const resetShortcut = useCallback(
+    (id: string) => updateOverrides((bindings) => ({ ...bindings, [id]: definitionsById.get(id)?.defaultKeys ?? [] })),
+    [updateOverrides]
+  );
+
+  const resetAllShortcuts = useCallback(() => updateOverrides(() => defaultBindings()), [updateOverrides]);
+
+  const bindings = useMemo(() => resolveBindings(overrides), [overrides]);
+  const conflicts = useMemo(() => findConflicts(bindings), [bindings]);
+
+  // combo -> action ids, for the key listener
+  const keymapRef = useRef(new Map<string, string[]>());
+  keymapRef.current = useMemo(() => {
+    const keymap = new Map<string, string[]>();
+    for (const [id, keys] of Object.entries(bindings)) {
+      for (const combo of keys) keymap.set(combo, [...(keymap.get(combo) ?? []), id]);
+    }
+    return keymap;
+  }, [bindings]);
+
+  // action id -> handlers, most recent last
+  const handlersRef = useRef(new Map<string, RegisteredHandler[]>());
+
+  const register = useCallback<ShortcutRegistry['register']>((id, handler) => {
+    handlersRef.current.set(id, [...(handlersRef.current.get(id) ?? []), handler]);
+    return () => {
+      handlersRef.current.set(id, (handlersRef.current.get(id) ?? []).filter((h) => h !== handler));
+    };
+  }, []);
+
+  // The window the user last clicked or focused into
+  const activeScopeRef = useRef<string | null>(null);
+  const activateScope = useCallback((scope: string) => {
+    activeScopeRef.current = scope;
+  }, []);
+  const registry = useMemo(() => ({ register, activateScope }), [register, activateScope]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.isComposing) return;
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+      const ids = keymapRef.current.get(combo);
+      if (!ids || belongsToTextField(combo, e.target)) return;
+
+      const dialogOpen = isDialogOpen();
+      for (const id of ids) {
+        if (dialogOpen && !definitionsById.get(id)?.inDialogs) continue;
+        const registered = handlersRef.current.get(id) ?? [];
+        const inScope = registered.filter((h) => h.scope !== null && h.scope === activeScopeRef.current);
+        const handler = (pickHandler(inScope) ?? pickHandler(registered))?.handlers.current[id];
+        if (!handler) continue;
+        e.preventDefault();
+        handler();
+        return;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return (
+    <RegisterShortcutContext.Provider value={registry}>
+      <ShortcutsContext.Provider
+        value={{ bindings, conflicts, assignShortcut, clearShortcut, resetShortcut, resetAllShortcuts }}
+      >
+        {children}
+      </ShortcutsContext.Provider>
+    </RegisterShortcutContext.Provider>
+  );
+};
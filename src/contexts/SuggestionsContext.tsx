@@ -0,0 +1,225 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
+import { format } from 'date-fns';
+import { ContentSuggestion, SuggestionStatus, Task } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { useCampaigns } from '@/contexts/CampaignsContext';
+import {
+  SuggestionProfile,
+  SuggestionProvider,
+  freshDrafts,
+  localSuggestionProvider,
+  pendingQueue,
+} from '@/lib/suggestions';
+
+interface SuggestionsContextValue {
+  suggestions: ContentSuggestion[];
+  pending: ContentSuggestion[]; // queue order
+  loading: boolean;
+  generating: boolean;
+  generateSuggestions: () => Promise<number>;
+  acceptSuggestion: (id: string) => Promise<Task | null>;
+  scheduleSuggestion: (id: string, date?: string) => Promise<Task | null>;
+  dismissSuggestion: (id: string) => Promise<boolean>;
+}
+
+const SuggestionsContext = createContext<SuggestionsContextValue | undefined>(undefined);
+
+export const useSuggestions = () => {
+  const context = useContext(SuggestionsContext);
+  if (!context) {
+    throw new Error('useSuggestions must be used within a SuggestionsProvider');
+  }
+  return context;
+};
+
+// Day (YYYY-MM-DD) the queue was last filled automatically
+const LAST_GENERATED_KEY = 'luminoo-suggestions-generated-on';
+
+interface SuggestionsProviderProps {
+  children: ReactNode;
+  userId: string;
+  profile: SuggestionProfile;
+  provider?: SuggestionProvider;
+}
+
+export const SuggestionsProvider = ({
+  children,
+  userId,
+  profile,
+  provider = localSuggestionProvider,
+}: SuggestionsProviderProps) => {
+  const [suggestions, setSuggestions] = useState<ContentSuggestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const { toast } = useToast();
+  const { tasks, addTask } = useTasksContext();
+  const { campaigns, phases, loading: campaignsLoading } = useCampaigns();
+
+  // Latest values for callbacks
+  const suggestionsRef = useRef<ContentSuggestion[]>(suggestions);
+  suggestionsRef.current = suggestions;
+  const inputRef = useRef({ profile, campaigns, phases, tasks });
+  inputRef.current = { profile, campaigns, phases, tasks };
+
+  const fetchSuggestions = useCallback(async () => {
+    if (!userId) {
+      setSuggestions([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('content_suggestions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      setSuggestions((data || []) as ContentSuggestion[]);
+    } catch (err) {
+      console.error('Error fetching suggestions:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    void fetchSuggestions();
+
+    const channel = supabase
+      .channel('content-suggestions-changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'content_suggestions', filter: `user_id=eq.${userId}` }, () => {
+        void fetchSuggestions();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchSuggestions, userId]);
+
+  const generateSuggestions = useCallback(async (): Promise<number> => {
+    if (!userId) return 0;
+    setGenerating(true);
+    try {
+      const drafts = await provider.generate({ today: new Date(), ...inputRef.current });
+      const now = new Date().toISOString();
+      const rows: ContentSuggestion[] = freshDrafts(drafts, suggestionsRef.current).map((draft) => ({
+        ...draft,
+        id: crypto.randomUUID(),
+        user_id: userId,
+        status: 'pending',
+        created_at: now,
+      }));
+      if (rows.length === 0) return 0;
+
+      setSuggestions((prev) => [...rows, ...prev]);
+      const { error } = await supabase.from('content_suggestions').insert(rows);
+      if (error) {
+        const ids = new Set(rows.map((r) => r.id));
+        setSuggestions((prev) => prev.filter((s) => !ids.has(s.id)));
+        throw error;
+      }
+      return rows.length;
+    } catch (err) {
+      console.error('Generate suggestions error:', err);
+      toast({ title: 'Error', description: 'Could not load new suggestions', variant: 'destructive' });
+      return 0;
+    } finally {
+      setGenerating(false);
+    }
+  }, [userId, provider, toast]);
+
+  // Fill an empty queue once a day, after campaigns have loaded so they can inform it
+  const autoGeneratedRef = useRef(false);
+  useEffect(() => {
+    if (loading || campaignsLoading || autoGeneratedRef.current) return;
+    autoGeneratedRef.current = true;
+    if (suggestions.some((s) => s.status === 'pending')) return;
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+    try {
+      if (localStorage.getItem(LAST_GENERATED_KEY) === today) return;
+      localStorage.setItem(LAST_GENERATED_KEY, today);
+    } catch {
+      // ignore
+    }
+    void generateSuggestions();
+  }, [loading, campaignsLoading, suggestions, generateSuggestions]);
+
+  const setStatus = useCallback(
+    async (id: string, status: SuggestionStatus): Promise<boolean> => {
+      const previous = suggestionsRef.current;
+      setSuggestions((prev) => prev.map((s) => (s.id === id ? { ...s, status } : s)));
+      try {
+        const { error } = await supabase.from('content_suggestions').update({ status }).eq('id', id);
+        if (error) throw error;
+        return true;
+      } catch (err) {
+        console.error('Update suggestion error:', err);
+        setSuggestions(previous);
+        toast({ title: 'Error', description: 'Could not update suggestion', variant: 'destructive' });
+        return false;
+      }
+    },
+    [toast]
+  );
+
+  // Shared by accept (inbox) and schedule (dated)
+  const createTask = useCallback(
+    async (id: string, dueDate: string | null, status: SuggestionStatus): Promise<Task | null> => {
+      const suggestion = suggestionsRef.current.find((s) => s.id === id);
+      if (!suggestion) return null;
+
+      const task = await addTask({
+        title: suggestion.title,
+        description: suggestion.description || null,
+        energy_level: suggestion.energy_level,
+        due_date: dueDate,
+        campaign_id: suggestion.related_campaign_id,
+        location: null,
+      });
+      if (!task) return null;
+      await setStatus(id, status);
+      return task;
+    },
+    [addTask, setStatus]
+  );
+
+  const acceptSuggestion = useCallback(
+    (id: string) => createTask(id, null, 'accepted'),
+    [createTask]
+  );
+
+  const scheduleSuggestion = useCallback(
+    (id: string, date?: string) => {
+      const suggestion = suggestionsRef.current.find((s) => s.id === id);
+      const dueDate = date ?? suggestion?.suggested_date ?? format(new Date(), 'yyyy-MM-dd');
+      return createTask(id, dueDate, 'scheduled');
+    },
+    [createTask]
+  );
+
+  const dismissSuggestion = useCallback((id: string) => setStatus(id, 'dismissed'), [setStatus]);
+
+  const pending = useMemo(() => pendingQueue(suggestions), [suggestions]);
+
+  return (
+    <SuggestionsContext.Provider
+      value={{
+        suggestions,
+        pending,
+        loading,
+        generating,
+        generateSuggestions,
+        acceptSuggestion,
+        scheduleSuggestion,
+        dismissSuggestion,
+      }}
+    >
+      {children}
+    </SuggestionsContext.Provider>
+  );
+};
@@ -1,8 +1,25 @@
-import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import { Task } from '@/types';
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { ChecklistItem, RecurrenceEditScope, Task } from '@/types';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { supabase } from '@/integrations/supabase/client';
-import { useUndoOptional } from '@/contexts/UndoContext';
+import { UndoRecorder, useUndoOptional } from '@/contexts/UndoContext';
+import { buildOccurrence, parseOccurrenceId, remainingRecurrence, splitRecurrenceAt } from '@/lib/recurrence';
+import { DependentShift, getDependents, planDependentShift, wouldCreateCycle } from '@/lib/taskDependencies';
+import {
+  TaskMutation,
+  QueuedMutation,
+  applyMutation,
+  enqueueMutation,
+  invertMutations,
+  reconcileRow,
+  isNetworkError,
+  listMutations,
+  loadTasks,
+  removeMutation,
+  saveTasks,
+} from '@/lib/offlineStore';
 
 // Local types for context
 export type TaskInsert = Partial<Omit<Task, 'id' | 'created_at' | 'updated_at' | 'user_id'>> & { title: string };
@@ -18,19 +35,47 @@ const getErrorMessage = (err: unknown): string => {
   return 'Unknown error';
 };
 
+// Undo history label for a task update
+const describeUpdate = (updates: TaskUpdate): string => {
+  if (Object.keys(updates).every((key) => key === 'display_order')) return 'Tasks reordered';
+  if (Object.keys(updates).every((key) => key === 'depends_on')) return 'Dependencies changed';
+  if (Object.keys(updates).every((key) => key === 'checklist')) return 'Checklist updated';
+  if (Object.keys(updates).every((key) => key === 'tags')) return 'Tags changed';
+  if ('location' in updates) return 'Task moved';
+  if ('due_date' in updates || 'start_time' in updates || 'end_date' in updates || 'end_time' in updates) {
+    return 'Task rescheduled';
+  }
+  if ('completed' in updates) return updates.completed ? 'Task completed' : 'Task reopened';
+  return 'Task updated';
+};
+
+// `undo`: record the change there (e.g. a transaction's recorder) instead of as its own undo step
+export type TaskWriteOptions = { undo?: UndoRecorder };
+
 interface TasksContextValue {
   tasks: Task[];
   inboxTasks: Task[];
   notesTasks: Task[];
   loading: boolean;
-  addTask: (task: TaskInsert) => Promise<Task | null>;
+  addTask: (task: TaskInsert, options?: TaskWriteOptions) => Promise<Task | null>;
   addInboxTask: (task: Omit<TaskInsert, 'location'>) => Promise<Task | null>;
   addNotesTask: (task: Omit<TaskInsert, 'location'>) => Promise<Task | null>;
-  updateTask: (id: string, updates: TaskUpdate) => Promise<boolean>;
+  updateTask: (id: string, updates: TaskUpdate, options?: TaskWriteOptions) => Promise<boolean>;
   deleteTask: (id: string) => Promise<boolean>;
   moveTask: (taskId: string, fromZone: 'inbox' | 'notes', toZone: 'inbox' | 'notes') => Promise<boolean>;
-  rescheduleTask: (id: string, newDate: string | null, startTime?: string | null, endTime?: string | null) => Promise<boolean>;
+  rescheduleTask: (
+    id: string,
+    newDate: string | null,
+    startTime?: string | null,
+    endTime?: string | null,
+    options?: TaskWriteOptions
+  ) => Promise<boolean>;
+  updateRecurringTask: (id: string, updates: TaskUpdate, scope: RecurrenceEditScope) => Promise<boolean>;
+  deleteRecurringTask: (id: string, scope: RecurrenceEditScope) => Promise<boolean>;
+  promoteChecklistItem: (taskId: string, item: ChecklistItem) => Promise<Task | null>;
   refreshTasks: () => Promise<void>;
+  isOnline: boolean;
+  pendingChanges: number;
 }
 
 const TasksContext = createContext<TasksContextValue | undefined>(undefined);
@@ -64,7 +109,21 @@ export const TasksProvider = ({ children, userId }: TasksProviderProps) => {
     }
   }, [inboxTasks, notesTasks]);
   const { toast } = useToast();
-  const { pushUndo } = useUndoOptional() || {};
+  const { pushUndo, transaction } = useUndoOptional() || {};
+
+  // Latest tasks for callbacks that resolve recurring series without re-creating on every change.
+  const tasksRef = useRef<Task[]>(tasks);
+  tasksRef.current = tasks;
+
+  // Offline queue: mirrors the persisted mutations for this user, oldest first.
+  const queueRef = useRef<QueuedMutation[]>([]);
+  const flushingRef = useRef(false);
+  // Writes sent but not yet acknowledged, per task; realtime echoes for these are ignored.
+  const inFlightRef = useRef(new Map<string, number>());
+  // Deleted here; late realtime events must not bring these back.
+  const deletedIdsRef = useRef(new Set<string>());
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
 
   const fetchTasks = useCallback(async () => {
     if (!userId) {
@@ -81,22 +140,283 @@ export const TasksProvider = ({ children, userId }: TasksProviderProps) => {
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      setTasks(data || []);
+      // Changes that haven't reached the server yet stay applied on top.
+      setTasks(queueRef.current.reduce(applyMutation, (data || []) as Task[]));
     } catch (err) {
-      console.error('Error fetching tasks:', err);
-      toast({
-        title: 'Error loading tasks',
-        description: 'Please check your connection',
-        variant: 'destructive',
-      });
+      // Offline: keep working from the local copy.
+      if (!isNetworkError(err)) {
+        console.error('Error fetching tasks:', err);
+        toast({
+          title: 'Error loading tasks',
+          description: 'Please check your connection',
+          variant: 'destructive',
+        });
+      }
     } finally {
       setLoading(false);
     }
   }, [userId, toast]);
 
-  // Initial fetch
+  // Apply a server row unless a newer local version (or an unacknowledged write) exists.
+  const applyServerRow = useCallback((row: Task, authoritative = false) => {
+    if (inFlightRef.current.get(row.id) || deletedIdsRef.current.has(row.id)) return;
+    setTasks((prev) => reconcileRow(prev, row, queueRef.current, authoritative));
+  }, []);
+
+  const sendMutation = useCallback(
+    async (mutation: TaskMutation) => {
+      const inFlight = inFlightRef.current;
+      inFlight.set(mutation.taskId, (inFlight.get(mutation.taskId) ?? 0) + 1);
+
+      let row: Task | null = null;
+      try {
+        if (mutation.kind === 'insert') {
+          deletedIdsRef.current.delete(mutation.taskId);
+          const { updated_at: _, ...insert } = mutation.row;
+          // upsert so a replay after a lost response doesn't fail on the existing id
+          const { data, error } = await supabase.from('tasks').upsert(insert).select().single();
+          if (error) throw error;
+          row = data as Task;
+        } else if (mutation.kind === 'update') {
+          const { data, error } = await supabase
+            .from('tasks')
+            .update(mutation.updates)
+            .eq('id', mutation.taskId)
+            .select()
+            .maybeSingle();
+          if (error) throw error;
+          row = data as Task | null;
+        } else {
+          const { error } = await supabase.from('tasks').delete().eq('id', mutation.taskId);
+          if (error) throw error;
+          deletedIdsRef.current.add(mutation.taskId);
+        }
+      } finally {
+        const remaining = (inFlight.get(mutation.taskId) ?? 1) - 1;
+        if (remaining > 0) inFlight.set(mutation.taskId, remaining);
+        else inFlight.delete(mutation.taskId);
+      }
+
+      // The write response is the authoritative version (carries the new updated_at).
+      if (row) applyServerRow(row, true);
+    },
+    [applyServerRow]
+  );
+
+  const queueMutations = useCallback(
+    async (mutations: TaskMutation[]) => {
+      for (const mutation of mutations) {
+        const queued = await enqueueMutation({ ...mutation, userId, queuedAt: new Date().toISOString() });
+        queueRef.current = [...queueRef.current, queued];
+      }
+      setPendingChanges(queueRef.current.length);
+    },
+    [userId]
+  );
+
+  const notifyConflict = useCallback(
+    (taskId: string, deletedRemotely = false) => {
+      const title = tasksRef.current.find((t) => t.id === taskId)?.title ?? 'A task';
+      toast({
+        title: 'Sync conflict',
+        description: deletedRemotely
+          ? `"${title}" was deleted on another device, so your offline change was discarded.`
+          : `"${title}" was also changed on another device. Your offline change was applied on top.`,
+      });
+    },
+    [toast]
+  );
+
+  // Replay queued mutations in order. Stops at the first network failure and resumes on reconnect.
+  const flushQueue = useCallback(async () => {
+    if (flushingRef.current || queueRef.current.length === 0) return;
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+    flushingRef.current = true;
+
+    try {
+      // Only the first queued change per task carries the server version it was based on.
+      const checked = new Set<string>();
+
+      while (queueRef.current.length > 0) {
+        const mutation = queueRef.current[0];
+        let skip = false;
+
+        if (mutation.kind !== 'insert' && mutation.baseUpdatedAt && !checked.has(mutation.taskId)) {
+          const { data, error } = await supabase
+            .from('tasks')
+            .select('updated_at')
+            .eq('id', mutation.taskId)
+            .maybeSingle();
+          if (error) {
+            if (isNetworkError(error)) break;
+            throw error;
+          }
+          if (!data) {
+            if (mutation.kind === 'update') notifyConflict(mutation.taskId, true);
+            skip = true;
+          } else if (data.updated_at !== mutation.baseUpdatedAt) {
+            notifyConflict(mutation.taskId);
+          }
+        }
+        checked.add(mutation.taskId);
+
+        if (!skip) {
+          try {
+            await sendMutation(mutation);
+          } catch (err) {
+            if (isNetworkError(err)) break;
+            // Rejected by the server (e.g. permissions): drop it so the rest of the queue can go through.
+            console.error('Sync change error:', err);
+            toast({
+              title: 'Could not sync a change',
+              description: getErrorMessage(err),
+              variant: 'destructive',
+            });
+          }
+        }
+
+        if (mutation.seq != null) await removeMutation(mutation.seq);
+        queueRef.current = queueRef.current.slice(1);
+        setPendingChanges(queueRef.current.length);
+      }
+    } catch (err) {
+      console.error('Sync error:', err);
+    } finally {
+      flushingRef.current = false;
+    }
+  }, [notifyConflict, sendMutation, toast]);
+
+  // Apply mutations locally right away, then send them (or queue them while offline).
+  // Throws when the server rejects a change; the optimistic state is re-synced from the server.
+  const applyMutations = useCallback(
+    async (mutations: TaskMutation[]) => {
+      // Keep the ref current so back-to-back commits (and their inverses) see each other.
+      tasksRef.current = mutations.reduce(applyMutation, tasksRef.current);
+      setTasks((prev) => mutations.reduce(applyMutation, prev));
+
+      // Keep replay order: once anything is queued, later changes queue behind it.
+      const offline = typeof navigator !== 'undefined' && !navigator.onLine;
+      if (offline || queueRef.current.length > 0) {
+        await queueMutations(mutations);
+        void flushQueue();
+        return;
+      }
+
+      for (let i = 0; i < mutations.length; i++) {
+        try {
+          await sendMutation(mutations[i]);
+        } catch (err) {
+          if (isNetworkError(err)) {
+            await queueMutations(mutations.slice(i));
+            return;
+          }
+          void fetchTasks();
+          throw err;
+        }
+      }
+    },
+    [fetchTasks, flushQueue, queueMutations, sendMutation]
+  );
+
+  // Commit mutations and, when labelled, record their inverse so the change can be undone and redone.
+  const commitMutations = useCallback(
+    async (mutations: TaskMutation[], undoLabel?: string, recordUndo: UndoRecorder | undefined = pushUndo) => {
+      const inverse = undoLabel ? invertMutations(tasksRef.current, mutations) : [];
+      await applyMutations(mutations);
+
+      if (undoLabel && recordUndo && inverse.length > 0) {
+        // Redo/undo run later, against whatever version the server has by then.
+        const redo = mutations.map((m): TaskMutation => (m.kind === 'insert' ? m : { ...m, baseUpdatedAt: null }));
+        recordUndo(
+          undoLabel,
+          () => applyMutations(inverse),
+          () => applyMutations(redo)
+        );
+      }
+    },
+    [applyMutations, pushUndo]
+  );
+
+  const updateMutation = useCallback(
+    (id: string, updates: TaskUpdate): TaskMutation => ({
+      kind: 'update',
+      taskId: id,
+      updates,
+      baseUpdatedAt: tasksRef.current.find((t) => t.id === id)?.updated_at ?? null,
+    }),
+    []
+  );
+
+  const deleteMutation = useCallback(
+    (id: string): TaskMutation => ({
+      kind: 'delete',
+      taskId: id,
+      baseUpdatedAt: tasksRef.current.find((t) => t.id === id)?.updated_at ?? null,
+    }),
+    []
+  );
+
+  // Build a full row for a new task so it can live locally before the server has seen it.
+  const buildTaskRow = useCallback(
+    (taskData: TaskInsert, ownerId: string): Task => {
+      const now = new Date().toISOString();
+      return {
+        campaign_id: null,
+        description: null,
+        energy_level: 'medium',
+        time_model: 'event-based',
+        due_date: null,
+        end_date: null,
+        start_time: null,
+        end_time: null,
+        suggested_timeframe: null,
+        urgency: 'normal',
+        emotional_note: null,
+        completed: false,
+        detected_from_brain_dump: false,
+        is_shared: false,
+        shared_with: [],
+        location: null,
+        display_order: 0,
+        recurrence: null,
+        recurrence_exceptions: [],
+        ical_uid: null,
+        depends_on: [],
+        checklist: [],
+        tags: [],
+        ...taskData,
+        id: crypto.randomUUID(),
+        user_id: ownerId,
+        created_at: now,
+        updated_at: now,
+      };
+    },
+    []
+  );
+
+  // Initial load: local copy first, then the server
   useEffect(() => {
-    fetchTasks();
+    let cancelled = false;
+    let subscribedOnce = false;
+
+    const init = async () => {
+      try {
+        const [localTasks, queued] = await Promise.all([loadTasks(userId), listMutations(userId)]);
+        if (cancelled) return;
+        queueRef.current = queued;
+        setPendingChanges(queued.length);
+        if (localTasks.length > 0) {
+          setTasks(queued.reduce(applyMutation, localTasks));
+          setLoading(false);
+        }
+      } catch {
+        // ignore
+      }
+      if (cancelled) return;
+      await fetchTasks();
+      void flushQueue();
+    };
+    void init();
 
     // Subscribe to realtime changes
     const channel = supabase
@@ -109,38 +429,70 @@ export const TasksProvider = ({ children, userId }: TasksProviderProps) => {
           table: 'tasks',
           filter: `user_id=eq.${userId}`,
         },
-        async (payload) => {
-          // Simple refresh strategy for now
-          fetchTasks();
+        (payload) => {
+          // Another device touched a task we still have unsent changes for.
+          const changedId = (payload.new as Partial<Task>)?.id ?? (payload.old as Partial<Task>)?.id;
+          if (!changedId) return;
+          if (!flushingRef.current && queueRef.current.some((m) => m.taskId === changedId)) {
+            notifyConflict(changedId, payload.eventType === 'DELETE');
+          }
+
+          // Apply the change in place instead of refetching everything.
+          if (payload.eventType === 'DELETE') {
+            setTasks((prev) => prev.filter((t) => t.id !== changedId));
+          } else {
+            applyServerRow(payload.new as Task);
+          }
         }
       )
-      .subscribe();
+      .subscribe((status) => {
+        // Events may have been missed while disconnected: full fetch on reconnect only.
+        if (status !== 'SUBSCRIBED') return;
+        if (subscribedOnce) void fetchTasks();
+        subscribedOnce = true;
+      });
 
     return () => {
+      cancelled = true;
       supabase.removeChannel(channel);
     };
-  }, [fetchTasks, userId]);
+  }, [fetchTasks, flushQueue, notifyConflict, applyServerRow, userId]);
+
+  // Replay the queue when the connection comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      void flushQueue();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [flushQueue]);
+
+  // Persist the full task set locally (debounced)
+  useEffect(() => {
+    if (loading || !userId) return;
+    const timer = window.setTimeout(() => {
+      saveTasks(userId, tasks).catch(() => {
+        // ignore
+      });
+    }, 500);
+    return () => window.clearTimeout(timer);
+  }, [tasks, loading, userId]);
 
   // Add task
   const addTask = useCallback(
-    async (taskData: TaskInsert): Promise<Task | null> => {
+    async (taskData: TaskInsert, options?: TaskWriteOptions): Promise<Task | null> => {
       if (!userId) return null;
 
+      const row = buildTaskRow(taskData, userId);
       try {
-        const { data, error } = await supabase
-          .from('tasks')
-          .insert({
-            ...taskData,
-            user_id: userId,
-          })
-          .select()
-          .single();
-
-        if (error) throw error;
-
-        // Optimistic update done by realtime subscription or explicit fetch
-        // But for speed we can append locally too if we want, but fetch is safer
-        return data;
+        await commitMutations([{ kind: 'insert', taskId: row.id, row }], 'Task added', options?.undo);
+        return row;
       } catch (err) {
         console.error('Add task error:', err);
         toast({
@@ -151,7 +503,7 @@ export const TasksProvider = ({ children, userId }: TasksProviderProps) => {
         return null;
       }
     },
-    [userId, toast]
+    [userId, toast, buildTaskRow, commitMutations]
   );
 
   const addInboxTask = useCallback(
@@ -164,16 +516,91 @@ export const TasksProvider = ({ children, userId }: TasksProviderProps) => {
     [addTask]
   );
 
+  // Detach one occurrence of a recurring series into a standalone task.
+  const detachOccurrence = useCallback(
+    async (seriesId: string, date: string, updates: TaskUpdate, options?: TaskWriteOptions): Promise<boolean> => {
+      const series = tasksRef.current.find((t) => t.id === seriesId);
+      if (!series) return false;
+
+      // Column order is shared by every occurrence; don't fork the series for it.
+      if (Object.keys(updates).every((key) => key === 'display_order')) return true;
+
+      const { id: _, created_at: __, updated_at: ___, user_id: ____, ...occurrence } = buildOccurrence(series, date);
+      const { id: _____, ...rest } = updates;
+      const row = buildTaskRow(
+        { ...occurrence, ...rest, recurrence: null, recurrence_exceptions: [] },
+        series.user_id
+      );
+
+      await commitMutations([
+        { kind: 'insert', taskId: row.id, row },
+        updateMutation(seriesId, { recurrence_exceptions: [...(series.recurrence_exceptions ?? []), date] }),
+      ], describeUpdate(updates), options?.undo);
+      return true;
+    },
+    [buildTaskRow, commitMutations, updateMutation]
+  );
+
+  // Move the tasks downstream of a rescheduled task along with it
+  const shiftDependents = useCallback(
+    async (shifts: DependentShift[]) => {
+      try {
+        await commitMutations(
+          shifts.map(({ id, ...dates }) => updateMutation(id, dates)),
+          'Dependent tasks shifted'
+        );
+      } catch (err: unknown) {
+        console.error('Shift dependents error:', err);
+        toast({
+          title: 'Update failed',
+          description: getErrorMessage(err) || 'Could not move the dependent tasks',
+          variant: 'destructive',
+        });
+      }
+    },
+    [commitMutations, updateMutation, toast]
+  );
+
+  const offerDependentShift = useCallback(
+    (task: Task, newDate: string) => {
+      if (!task.due_date || task.due_date === newDate) return;
+      const shifts = planDependentShift(tasksRef.current, task.id, task.due_date, newDate);
+      if (shifts.length === 0) return;
+      toast({
+        title: 'Move dependent tasks too?',
+        description: `${shifts.length} scheduled ${shifts.length === 1 ? 'task depends' : 'tasks depend'} on "${task.title}".`,
+        action: (
+          <ToastAction altText="Shift dependent tasks" onClick={() => void shiftDependents(shifts)}>
+            Shift {shifts.length}
+          </ToastAction>
+        ),
+      });
+    },
+    [toast, shiftDependents]
+  );
+
   // Update task
   const updateTask = useCallback(
-    async (id: string, updates: TaskUpdate): Promise<boolean> => {
+    async (id: string, updates: TaskUpdate, options?: TaskWriteOptions): Promise<boolean> => {
       try {
-        const { error } = await supabase
-          .from('tasks')
-          .update(updates)
-          .eq('id', id);
+        if (updates.depends_on?.some((dependsOnId) => wouldCreateCycle(tasksRef.current, id, dependsOnId))) {
+          toast({
+            title: 'Circular dependency',
+            description: 'A task cannot depend on something that depends on it.',
+            variant: 'destructive',
+          });
+          return false;
+        }
+
+        // Occurrence ids ("<seriesId>::<date>") edit only that occurrence.
+        const occurrence = parseOccurrenceId(id);
+        if (occurrence) {
+          return await detachOccurrence(occurrence.seriesId, occurrence.date, updates, options);
+        }
 
-        if (error) throw error;
+        const previous = tasksRef.current.find((t) => t.id === id);
+        await commitMutations([updateMutation(id, updates)], describeUpdate(updates), options?.undo);
+        if (previous && updates.due_date) offerDependentShift(previous, updates.due_date);
         return true;
       } catch (err: unknown) {
         console.error('Update task error:', err);
@@ -185,31 +612,36 @@ export const TasksProvider = ({ children, userId }: TasksProviderProps) => {
         return false;
       }
     },
-    [toast]
+    [toast, detachOccurrence, commitMutations, updateMutation, offerDependentShift]
+  );
+
+  // Skip one occurrence by adding its date to the series' exceptions.
+  const skipOccurrence = useCallback(
+    async (seriesId: string, date: string): Promise<boolean> => {
+      const series = tasksRef.current.find((t) => t.id === seriesId);
+      if (!series) return false;
+      const previous = series.recurrence_exceptions ?? [];
+
+      await commitMutations([updateMutation(seriesId, { recurrence_exceptions: [...previous, date] })], 'Occurrence deleted');
+      return true;
+    },
+    [commitMutations, updateMutation]
   );
 
   // Delete task
   const deleteTask = useCallback(
     async (id: string): Promise<boolean> => {
-      // Find task for undo
-      const taskToDelete = tasks.find((t) => t.id === id);
-
       try {
-        const { error } = await supabase
-          .from('tasks')
-          .delete()
-          .eq('id', id);
-
-        if (error) throw error;
-
-        if (taskToDelete && pushUndo) {
-          pushUndo('Task deleted', async () => {
-            // Restore logic
-            const { id: _, created_at: __, updated_at: ___, ...rest } = taskToDelete;
-            await addTask(rest as TaskInsert);
-          });
+        const occurrence = parseOccurrenceId(id);
+        if (occurrence) {
+          return await skipOccurrence(occurrence.seriesId, occurrence.date);
         }
 
+        // Undo re-inserts the original row, id included, and its place in other tasks' dependencies.
+        const unlink = getDependents(tasksRef.current, id).map((t) =>
+          updateMutation(t.id, { depends_on: t.depends_on.filter((depId) => depId !== id) })
+        );
+        await commitMutations([deleteMutation(id), ...unlink], 'Task deleted');
         return true;
       } catch (err: unknown) {
         console.error('Delete task error:', err);
@@ -221,16 +653,149 @@ export const TasksProvider = ({ children, userId }: TasksProviderProps) => {
         return false;
       }
     },
-    [tasks, toast, pushUndo, addTask]
+    [toast, skipOccurrence, commitMutations, deleteMutation, updateMutation]
+  );
+
+  // Edit a recurring task: just this occurrence, this and following, or the whole series.
+  const updateRecurringTask = useCallback(
+    async (id: string, updates: TaskUpdate, scope: RecurrenceEditScope): Promise<boolean> => {
+      const occurrence = parseOccurrenceId(id);
+      if (!occurrence || scope === 'this') return updateTask(id, updates);
+
+      const series = tasksRef.current.find((t) => t.id === occurrence.seriesId);
+      if (!series?.due_date || !series.recurrence) return false;
+
+      try {
+        if (scope === 'all' || occurrence.date <= series.due_date) {
+          // Moving one occurrence by N days moves the whole series by N days.
+          const seriesUpdates: TaskUpdate = { ...updates };
+          delete seriesUpdates.id;
+          const shift = (dateStr: string) =>
+            format(addDays(parseISO(dateStr), differenceInCalendarDays(parseISO(series.due_date!), parseISO(occurrence.date))), 'yyyy-MM-dd');
+          if (updates.due_date) seriesUpdates.due_date = shift(updates.due_date);
+          if (updates.end_date) seriesUpdates.end_date = shift(updates.end_date);
+
+          await commitMutations([updateMutation(series.id, seriesUpdates)], 'Repeating task updated');
+          return true;
+        }
+
+        // "This and following": end the original series the day before and start a new one here.
+        const { head, tail, headExceptions, tailExceptions, occurrencesBefore } = splitRecurrenceAt(
+          series.recurrence,
+          series.due_date,
+          occurrence.date,
+          series.recurrence_exceptions ?? []
+        );
+
+        const { id: _, created_at: __, updated_at: ___, user_id: ____, ...base } = buildOccurrence(series, occurrence.date);
+        const { id: _____, recurrence, ...rest } = updates;
+        // An edited rule counts from the series start like the one it replaces
+        const tailRule = recurrence === undefined ? tail : recurrence && remainingRecurrence(recurrence, occurrencesBefore);
+        const row = buildTaskRow(
+          { ...base, ...rest, recurrence: tailRule, recurrence_exceptions: tailExceptions },
+          series.user_id
+        );
+
+        // No occurrences left before the split: the new series replaces the old one.
+        await commitMutations([
+          { kind: 'insert', taskId: row.id, row },
+          head
+            ? updateMutation(series.id, { recurrence: head, recurrence_exceptions: headExceptions })
+            : deleteMutation(series.id),
+        ], 'Repeating task updated');
+        return true;
+      } catch (err: unknown) {
+        console.error('Update recurring task error:', err);
+        toast({
+          title: 'Update failed',
+          description: getErrorMessage(err) || 'Could not save changes to database',
+          variant: 'destructive',
+        });
+        return false;
+      }
+    },
+    [toast, updateTask, buildTaskRow, commitMutations, updateMutation, deleteMutation]
+  );
+
+  const deleteRecurringTask = useCallback(
+    async (id: string, scope: RecurrenceEditScope): Promise<boolean> => {
+      const occurrence = parseOccurrenceId(id);
+      if (!occurrence || scope === 'this') return deleteTask(id);
+
+      const series = tasksRef.current.find((t) => t.id === occurrence.seriesId);
+      if (!series?.due_date || !series.recurrence) return false;
+
+      if (scope === 'all' || occurrence.date <= series.due_date) {
+        return deleteTask(series.id);
+      }
+
+      try {
+        const { head, headExceptions } = splitRecurrenceAt(
+          series.recurrence,
+          series.due_date,
+          occurrence.date,
+          series.recurrence_exceptions ?? []
+        );
+        if (!head) return deleteTask(series.id);
+
+        await commitMutations(
+          [updateMutation(series.id, { recurrence: head, recurrence_exceptions: headExceptions })],
+          'Occurrences deleted'
+        );
+        return true;
+      } catch (err: unknown) {
+        console.error('Delete recurring task error:', err);
+        toast({
+          title: 'Delete failed',
+          description: getErrorMessage(err) || 'Could not delete from database',
+          variant: 'destructive',
+        });
+        return false;
+      }
+    },
+    [deleteTask, toast, commitMutations, updateMutation]
+  );
+
+  // Turn a checklist item into a task of its own, next to its parent; undoes as one step
+  const promoteChecklistItem = useCallback(
+    async (taskId: string, item: ChecklistItem): Promise<Task | null> => {
+      const occurrence = parseOccurrenceId(taskId);
+      const parent = tasksRef.current.find((t) => t.id === (occurrence?.seriesId ?? taskId));
+      if (!parent) return null;
+
+      const promote = async (undo?: UndoRecorder) => {
+        const created = await addTask({
+          title: item.text,
+          energy_level: parent.energy_level,
+          campaign_id: parent.campaign_id,
+          due_date: occurrence?.date ?? parent.due_date,
+          location: parent.location,
+          completed: item.done,
+        }, { undo });
+        if (!created) return null;
+        // Occurrences share the series' checklist: take the step off the series instead of detaching this day
+        await updateTask(parent.id, { checklist: (parent.checklist ?? []).filter((i) => i.id !== item.id) }, { undo });
+        return created;
+      };
+
+      return transaction ? transaction('Checklist item promoted', promote) : promote();
+    },
+    [addTask, updateTask, transaction]
   );
 
   const rescheduleTask = useCallback(
-    async (id: string, newDate: string | null, startTime?: string | null, endTime?: string | null): Promise<boolean> => {
+    async (
+      id: string,
+      newDate: string | null,
+      startTime?: string | null,
+      endTime?: string | null,
+      options?: TaskWriteOptions
+    ): Promise<boolean> => {
       return updateTask(id, {
         due_date: newDate,
         start_time: startTime ?? null,
         end_time: endTime ?? null,
-      });
+      }, options);
     },
     [updateTask]
   );
@@ -259,7 +824,12 @@ export const TasksProvider = ({ children, userId }: TasksProviderProps) => {
         deleteTask,
         moveTask,
         rescheduleTask,
+        updateRecurringTask,
+        deleteRecurringTask,
+        promoteChecklistItem,
         refreshTasks: fetchTasks,
+        isOnline,
+        pendingChanges,
       }}
     >
       {children}
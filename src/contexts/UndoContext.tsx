@@ -2,16 +2,34 @@ import React, { createContext, useContext, useState, useEffect, useCallback, use
 import { useToast } from '@/hooks/use-toast';
 
 interface UndoAction {
+  id: number;
   description: string;
   undoFn: () => Promise<void>;
+  // Re-applies the action after an undo; actions without one drop out of history when undone.
+  redoFn?: () => Promise<void>;
   timestamp: number;
 }
 
+export interface UndoHistoryEntry {
+  id: number;
+  description: string;
+  timestamp: number;
+}
+
+// Records an undoable action: pushUndo for the history, or the recorder a transaction hands out
+export type UndoRecorder = (description: string, undoFn: () => Promise<void>, redoFn?: () => Promise<void>) => void;
+
 interface UndoContextValue {
-  pushUndo: (description: string, undoFn: () => Promise<void>) => void;
+  pushUndo: UndoRecorder;
+  // Actions recorded through `record` undo as one entry; pushUndo calls made meanwhile stay separate
+  transaction: <T>(description: string, fn: (record: UndoRecorder) => Promise<T>) => Promise<T>;
   undo: () => Promise<void>;
+  redo: () => Promise<void>;
   canUndo: boolean;
+  canRedo: boolean;
   lastActionDescription: string | null;
+  history: UndoHistoryEntry[];
+  redoHistory: UndoHistoryEntry[];
 }
 
 const UndoContext = createContext<UndoContextValue | null>(null);
@@ -37,17 +55,56 @@ const MAX_UNDO_STACK = 20;
 
 export const UndoProvider: React.FC<UndoProviderProps> = ({ children }) => {
   const [undoStack, setUndoStack] = useState<UndoAction[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoAction[]>([]);
   const { toast } = useToast();
   const isUndoingRef = useRef(false);
+  const nextIdRef = useRef(1);
 
-  const pushUndo = useCallback((description: string, undoFn: () => Promise<void>) => {
+  const record = useCallback((action: UndoAction) => {
     setUndoStack(prev => {
-      const newStack = [...prev, { description, undoFn, timestamp: Date.now() }];
+      const newStack = [...prev, action];
       // Keep only last MAX_UNDO_STACK items
       return newStack.slice(-MAX_UNDO_STACK);
     });
+    // A new action invalidates anything that was undone before it
+    setRedoStack([]);
   }, []);
 
+  const pushUndo = useCallback<UndoRecorder>((description, undoFn, redoFn) => {
+    // Changes made by undo/redo themselves are not new history
+    if (isUndoingRef.current) return;
+    record({ id: nextIdRef.current++, description, undoFn, redoFn, timestamp: Date.now() });
+  }, [record]);
+
+  const transaction = useCallback(async <T,>(description: string, fn: (record: UndoRecorder) => Promise<T>): Promise<T> => {
+    const actions: UndoAction[] = [];
+    const collect: UndoRecorder = (actionDescription, undoFn, redoFn) => {
+      if (isUndoingRef.current) return;
+      actions.push({ id: nextIdRef.current++, description: actionDescription, undoFn, redoFn, timestamp: Date.now() });
+    };
+
+    try {
+      return await fn(collect);
+    } finally {
+      if (actions.length > 0) {
+        const canRedo = actions.every(a => !!a.redoFn);
+        record({
+          id: nextIdRef.current++,
+          description,
+          undoFn: async () => {
+            for (const action of [...actions].reverse()) await action.undoFn();
+          },
+          redoFn: canRedo
+            ? async () => {
+                for (const action of actions) await action.redoFn!();
+              }
+            : undefined,
+          timestamp: Date.now(),
+        });
+      }
+    }
+  }, [record]);
+
   const undo = useCallback(async () => {
     if (isUndoingRef.current) return;
     
@@ -68,6 +125,9 @@ export const UndoProvider: React.FC<UndoProviderProps> = ({ children }) => {
       
       // Execute undo
       await action.undoFn();
+      if (action.redoFn) {
+        setRedoStack(prev => [...prev, action].slice(-MAX_UNDO_STACK));
+      }
       
       toast({
         title: "Undone",
@@ -85,31 +145,78 @@ export const UndoProvider: React.FC<UndoProviderProps> = ({ children }) => {
     }
   }, [undoStack, toast]);
 
-  // Global keyboard listener for Ctrl+Z / Cmd+Z
+  const redo = useCallback(async () => {
+    if (isUndoingRef.current) return;
+
+    const action = redoStack[redoStack.length - 1];
+    if (!action?.redoFn) {
+      toast({
+        title: "Nothing to redo",
+        description: "No undone actions to redo",
+      });
+      return;
+    }
+
+    isUndoingRef.current = true;
+
+    try {
+      setRedoStack(prev => prev.slice(0, -1));
+
+      await action.redoFn();
+      setUndoStack(prev => [...prev, action].slice(-MAX_UNDO_STACK));
+
+      toast({
+        title: "Redone",
+        description: action.description,
+      });
+    } catch (error) {
+      console.error('Redo failed:', error);
+      toast({
+        title: "Redo failed",
+        description: "Could not redo the last action",
+        variant: "destructive",
+      });
+    } finally {
+      isUndoingRef.current = false;
+    }
+  }, [redoStack, toast]);
+
+  // Global keyboard listener for Ctrl+Z / Cmd+Z (undo) and Ctrl+Shift+Z / Ctrl+Y (redo)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      // Check for Ctrl+Z (Windows/Linux) or Cmd+Z (Mac)
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
-        // Don't intercept if user is typing in an input/textarea
-        const target = e.target as HTMLElement;
-        if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) {
-          return;
-        }
-        
-        e.preventDefault();
-        undo();
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      const isUndo = key === 'z' && !e.shiftKey;
+      const isRedo = (key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey);
+      if (!isUndo && !isRedo) return;
+
+      // Don't intercept if user is typing in an input/textarea
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) {
+        return;
       }
+
+      e.preventDefault();
+      if (isUndo) undo();
+      else redo();
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [undo]);
+  }, [undo, redo]);
+
+  const toEntry = ({ id, description, timestamp }: UndoAction): UndoHistoryEntry => ({ id, description, timestamp });
 
   const value: UndoContextValue = {
     pushUndo,
+    transaction,
     undo,
+    redo,
     canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0,
     lastActionDescription: undoStack.length > 0 ? undoStack[undoStack.length - 1].description : null,
+    history: undoStack.map(toEntry).reverse(),
+    redoHistory: redoStack.map(toEntry).reverse(),
   };
 
   return <UndoContext.Provider value={value}>{children}</UndoContext.Provider>;
@@ -0,0 +1,46 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { useShortcuts } from '@/contexts/ShortcutsContext';
+import { shiftTime } from '@/lib/timeUtils';
+import type { Task } from '@/types';
+
+const MOVE_STEP_MINUTES = 30;
+
+const shiftDate = (date: string, days: number) => format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+
+/**
+ * Keyboard actions on a view's selected task: complete it, or move it by a day or half an hour.
+ * onMoved gets the task's new date so the view can follow it.
+ */
+export function useSelectedTaskShortcuts(task: Task | null | undefined, onMoved?: (date: string) => void) {
+  const { updateTask } = useTasksContext();
+
+  const moveDays = (days: number) => {
+    if (!task?.due_date) return;
+    const dueDate = shiftDate(task.due_date, days);
+    void updateTask(task.id, {
+      due_date: dueDate,
+      ...(task.end_date ? { end_date: shiftDate(task.end_date, days) } : {}),
+    });
+    onMoved?.(dueDate);
+  };
+
+  // Untimed tasks and moves past midnight are ignored
+  const moveMinutes = (minutes: number) => {
+    const startTime = shiftTime(task?.start_time, minutes);
+    const endTime = task?.end_time ? shiftTime(task.end_time, minutes) : null;
+    if (!task || !startTime || (task.end_time && !endTime)) return;
+    void updateTask(task.id, { start_time: startTime, ...(endTime ? { end_time: endTime } : {}) });
+  };
+
+  useShortcuts(
+    {
+      'task.complete': () => task && void updateTask(task.id, { completed: !task.completed }),
+      'task.move-earlier-day': () => moveDays(-1),
+      'task.move-later-day': () => moveDays(1),
+      'task.move-earlier': () => moveMinutes(-MOVE_STEP_MINUTES),
+      'task.move-later': () => moveMinutes(MOVE_STEP_MINUTES),
+    },
+    { enabled: !!task }
+  );
+}
@@ -0,0 +1,16 @@
+import { useMemo } from 'react';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { getBlockers, indexTasks } from '@/lib/taskDependencies';
+import type { Task } from '@/types';
+
+/**
+ * Unfinished tasks this task waits on; empty when it can be started.
+ */
+export function useTaskBlockers(task: Task): Task[] {
+  const { tasks } = useTasksContext();
+  const lookup = useMemo(() => indexTasks(tasks), [tasks]);
+  return useMemo(
+    () => (task.completed ? [] : getBlockers(task, lookup)),
+    [task, lookup]
+  );
+}
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AiError } from './errors';
+import { mockBackend } from './mockBackend';
+import { aiSchemas } from './schemas';
+import { openAiBackend, supabaseBackend } from './backends';
+
+const { invoke } = vi.hoisted(() => ({ invoke: vi.fn() }));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { functions: { invoke } },
+}));
+
+const profile = {
+  creatorType: 'music_producer',
+  platforms: ['youtube' as const],
+  nicheKeywords: ['synths', 'mixing'],
+  audienceDescription: null,
+};
+
+const signal = new AbortController().signal;
+
+const httpError = (status?: number) =>
+  Object.assign(new Error('Edge Function returned a non-2xx status code'), { context: { status } });
+
+async function failure(promise: Promise<unknown>): Promise<AiError> {
+  try {
+    await promise;
+  } catch (err) {
+    return err as AiError;
+  }
+  throw new Error('expected the call to fail');
+}
+
+beforeEach(() => {
+  invoke.mockReset();
+});
+
+describe('supabaseBackend', () => {
+  it("calls the capability's edge function with the request", async () => {
+    invoke.mockResolvedValue({ data: { summary: 'Hi' }, error: null });
+    const request = { userProfile: profile };
+    await expect(supabaseBackend.call('profileSummary', request, signal)).resolves.toEqual({ summary: 'Hi' });
+    expect(invoke).toHaveBeenCalledWith('generate-profile-summary', { body: request, signal });
+  });
+
+  it('retries server errors, rate limits and lost connections but not client errors', async () => {
+    for (const [status, retryable] of [[500, true], [429, true], [undefined, true], [400, false]] as const) {
+      invoke.mockResolvedValue({ data: null, error: httpError(status) });
+      const error = await failure(supabaseBackend.call('trendingTopics', { userProfile: null }, signal));
+      expect(error).toBeInstanceOf(AiError);
+      expect([error.code, error.retryable]).toEqual(['backend', retryable]);
+    }
+  });
+
+  it('reports an error in the body without retrying', async () => {
+    invoke.mockResolvedValue({ data: { error: 'No profile' }, error: null });
+    const error = await failure(supabaseBackend.call('trendingTopics', { userProfile: null }, signal));
+    expect([error.code, error.message, error.retryable]).toEqual(['backend', 'No profile', false]);
+  });
+});
+
+describe('openAiBackend', () => {
+  it('goes through the ai-proxy function with only the capability and request', async () => {
+    invoke.mockResolvedValue({ data: { trends: [] }, error: null });
+    const request = { userProfile: profile };
+    await expect(openAiBackend.call('trendingTopics', request, signal)).resolves.toEqual({ trends: [] });
+    expect(invoke).toHaveBeenCalledWith('ai-proxy', { body: { capability: 'trendingTopics', request }, signal });
+  });
+});
+
+describe('mockBackend', () => {
+  it('answers every capability with a valid, repeatable response', async () => {
+    const requests = {
+      parseBrainDump: { text: 'Call the venue tomorrow. Idea: a remix contest', highlights: [] },
+      trendingTopics: { userProfile: profile },
+      profileSummary: { userProfile: profile },
+    };
+    for (const [capability, request] of Object.entries(requests) as [keyof typeof requests, unknown][]) {
+      const first = await mockBackend.call(capability, request, signal);
+      expect(aiSchemas[capability].response.safeParse(first).success).toBe(true);
+      expect(await mockBackend.call(capability, request, signal)).toEqual(first);
+    }
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it('builds trends from the niche keywords', async () => {
+    const { trends } = (await mockBackend.call('trendingTopics', { userProfile: profile }, signal)) as {
+      trends: { title: string; platform: string }[];
+    };
+    expect(trends).toHaveLength(6);
+    expect(trends[0]).toMatchObject({ title: 'Behind-the-scenes synths', platform: 'youtube' });
+  });
+
+  it('summarises the profile', async () => {
+    await expect(mockBackend.call('profileSummary', { userProfile: profile }, signal)).resolves.toEqual({
+      summary: 'You are a music producer focused on synths, mixing. You publish on youtube.',
+    });
+  });
+});
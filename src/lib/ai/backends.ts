@@ -0,0 +1,54 @@
+/**
+ * Network AI backends: the Supabase edge functions and an OpenAI-compatible endpoint behind the ai-proxy function.
+ * Backends only move JSON; validation, retries and timeouts live in the service.
+ */
+import { supabase } from '@/integrations/supabase/client';
+import { AiError } from './errors';
+import type { AiCapability } from './schemas';
+
+export type AiBackendId = 'supabase' | 'openai' | 'mock';
+
+export interface AiBackend {
+  id: AiBackendId;
+  call: (capability: AiCapability, request: unknown, signal: AbortSignal) => Promise<unknown>;
+}
+
+const EDGE_FUNCTIONS: Record<AiCapability, string> = {
+  parseBrainDump: 'parse-brain-dump',
+  trendingTopics: 'get-trending-topics',
+  profileSummary: 'generate-profile-summary',
+};
+
+// Edge functions report failures in the body as { error }
+function bodyError(data: unknown): string | null {
+  if (data && typeof data === 'object' && 'error' in data && typeof data.error === 'string') return data.error;
+  return null;
+}
+
+async function invokeEdgeFunction(name: string, body: unknown, signal: AbortSignal): Promise<unknown> {
+  const { data, error } = await supabase.functions.invoke(name, {
+    body: body as Record<string, unknown>,
+    signal,
+  });
+  if (error) {
+    const status = (error as { context?: { status?: number } }).context?.status;
+    throw new AiError('backend', error.message, status === undefined || status >= 500 || status === 429);
+  }
+  const message = bodyError(data);
+  if (message) throw new AiError('backend', message, false);
+  return data;
+}
+
+export const supabaseBackend: AiBackend = {
+  id: 'supabase',
+  call: (capability, request, signal) => invokeEdgeFunction(EDGE_FUNCTIONS[capability], request, signal),
+};
+
+/**
+ * Any OpenAI-compatible server (OpenAI, a local model server) through the ai-proxy edge function,
+ * which holds the key and the prompts. Configure it with the AI_* function secrets.
+ */
+export const openAiBackend: AiBackend = {
+  id: 'openai',
+  call: (capability, request, signal) => invokeEdgeFunction('ai-proxy', { capability, request }, signal),
+};
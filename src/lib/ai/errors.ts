@@ -0,0 +1,21 @@
+export type AiErrorCode =
+  | 'invalid_request' // the request failed its schema
+  | 'invalid_response' // the backend answered with something that failed its schema
+  | 'backend' // the backend reported an error
+  | 'network'
+  | 'timeout'
+  | 'aborted';
+
+export class AiError extends Error {
+  readonly code: AiErrorCode;
+  readonly retryable: boolean;
+
+  constructor(code: AiErrorCode, message: string, retryable = false) {
+    super(message);
+    this.name = 'AiError';
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+export const isAiAbort = (err: unknown) => err instanceof AiError && err.code === 'aborted';
@@ -0,0 +1,56 @@
+/**
+ * Deterministic offline AI backend: the same request always gets the same answer
+ * (brain dump dates are relative to today). Lets the brain dump, trends and profile
+ * flows run without network or AI cost.
+ */
+import type { AiBackend } from './backends';
+import type { AiRequest, AiResponse } from './schemas';
+import { parseBrainDumpLocally } from '@/lib/brainDumpParser';
+
+function parseBrainDump({ text }: AiRequest<'parseBrainDump'>): AiResponse<'parseBrainDump'> {
+  return parseBrainDumpLocally(text);
+}
+
+const MOCK_TREND_ANGLES = [
+  { title: 'Behind-the-scenes {k}', category: 'viral', urgency: 'this_week', energy_level: 'medium' },
+  { title: '{k} myths, busted', category: 'evergreen', urgency: 'ongoing', energy_level: 'low' },
+  { title: 'What is changing in {k} this month', category: 'industry', urgency: 'this_month', energy_level: 'high' },
+] as const;
+
+function trendingTopics({ userProfile }: AiRequest<'trendingTopics'>): AiResponse<'trendingTopics'> {
+  const keywords = userProfile?.nicheKeywords.length ? userProfile.nicheKeywords : ['your craft'];
+  const platform = userProfile?.platforms[0] ?? 'instagram';
+  const trends = keywords.slice(0, 3).flatMap((keyword) =>
+    MOCK_TREND_ANGLES.map((angle) => ({
+      title: angle.title.replace('{k}', keyword),
+      description: `A ${angle.category} angle on ${keyword} for your audience.`,
+      content_ideas: [`Short video about ${keyword}`, `Carousel: 3 takeaways on ${keyword}`],
+      platform,
+      urgency: angle.urgency,
+      energy_level: angle.energy_level,
+      category: angle.category,
+    }))
+  );
+  return { trends };
+}
+
+function profileSummary({ userProfile }: AiRequest<'profileSummary'>): AiResponse<'profileSummary'> {
+  const who = userProfile.creatorType ? userProfile.creatorType.replace(/_/g, ' ') : 'creator';
+  const topics = userProfile.nicheKeywords.length ? ` focused on ${userProfile.nicheKeywords.join(', ')}` : '';
+  const where = userProfile.platforms.length ? ` You publish on ${userProfile.platforms.join(', ')}.` : '';
+  return { summary: `You are a ${who}${topics}.${where}` };
+}
+
+export const mockBackend: AiBackend = {
+  id: 'mock',
+  call: async (capability, request) => {
+    switch (capability) {
+      case 'parseBrainDump':
+        return parseBrainDump(request as AiRequest<'parseBrainDump'>);
+      case 'trendingTopics':
+        return trendingTopics(request as AiRequest<'trendingTopics'>);
+      case 'profileSummary':
+        return profileSummary(request as AiRequest<'profileSummary'>);
+    }
+  },
+};
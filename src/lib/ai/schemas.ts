@@ -0,0 +1,116 @@
+/**
+ * Request and response schemas for each AI capability.
+ * Every backend answer is validated against these before it reaches the UI,
+ * so components never have to hand-check the shape of AI output.
+ * The types are spelled out rather than inferred: without strict mode zod infers every key as optional,
+ * so the service casts validated output to them.
+ */
+import { z } from 'zod';
+import type { ParsedItem, Platform, UserHighlight } from '@/types';
+import type { Trend } from '@/lib/trendCache';
+
+export interface AiProfile {
+  creatorType: string | null;
+  platforms: Platform[];
+  nicheKeywords: string[];
+  audienceDescription: string | null;
+  aiProfileSummary?: string | null;
+}
+
+export type AiParsedItem = Omit<ParsedItem, 'user_override_energy' | 'due_date'>;
+
+interface AiCapabilities {
+  parseBrainDump: {
+    request: { text: string; highlights?: UserHighlight[] };
+    response: { items: AiParsedItem[]; summary: string | null };
+  };
+  trendingTopics: {
+    request: { userProfile: AiProfile | null };
+    response: { trends: Trend[] };
+  };
+  profileSummary: {
+    request: { userProfile: AiProfile };
+    response: { summary: string };
+  };
+}
+
+const energyLevel = z.enum(['high', 'medium', 'low', 'recovery']);
+const urgency = z.enum(['low', 'normal', 'high', 'critical']);
+const platform = z.enum([
+  'instagram', 'youtube', 'tiktok', 'spotify', 'newsletter', 'blog', 'twitter', 'linkedin', 'podcast', 'other',
+]);
+
+const aiProfileSchema = z.object({
+  creatorType: z.string().nullable(),
+  platforms: z.array(platform),
+  nicheKeywords: z.array(z.string()),
+  audienceDescription: z.string().nullable(),
+  aiProfileSummary: z.string().nullable().optional(),
+});
+
+// Brain dump parsing
+const highlightSchema = z.object({
+  text: z.string().min(1),
+  start_index: z.number().int().min(0),
+  end_index: z.number().int().min(0),
+  energy_level: energyLevel,
+});
+
+const parseBrainDumpRequestSchema = z.object({
+  text: z.string().trim().min(1, 'Nothing to parse'),
+  highlights: z.array(highlightSchema).default([]),
+});
+
+const parsedItemSchema = z.object({
+  text: z.string().min(1),
+  type: z.enum(['task', 'campaign', 'idea']).catch('task'),
+  detected_energy: energyLevel.catch('medium'),
+  suggested_timeframe: z.string().nullable().default(null),
+  urgency: urgency.catch('normal'),
+  emotional_note: z.string().nullable().default(null),
+  confidence: z.number().min(0).max(1).catch(0.5),
+  related_items: z.array(z.string()).default([]),
+});
+
+const parseBrainDumpResponseSchema = z.object({
+  items: z.array(parsedItemSchema),
+  summary: z.string().nullable().default(null),
+});
+
+// Trending topics
+const trendingTopicsRequestSchema = z.object({
+  userProfile: aiProfileSchema.nullable(),
+});
+
+const trendSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().default(''),
+  content_ideas: z.array(z.string()).default([]),
+  platform: z.string().default('other'),
+  urgency: z.enum(['now', 'this_week', 'this_month', 'ongoing']).catch('ongoing'),
+  energy_level: energyLevel.catch('medium'),
+  category: z.enum(['news', 'seasonal', 'industry', 'viral', 'evergreen']).catch('evergreen'),
+});
+
+const trendingTopicsResponseSchema = z.object({
+  trends: z.array(trendSchema),
+});
+
+// Profile summary (profiles.ai_profile_summary)
+const profileSummaryRequestSchema = z.object({
+  userProfile: aiProfileSchema,
+});
+
+const profileSummaryResponseSchema = z.object({
+  summary: z.string().trim().min(1),
+});
+
+export const aiSchemas: Record<keyof AiCapabilities, { request: z.ZodTypeAny; response: z.ZodTypeAny }> = {
+  parseBrainDump: { request: parseBrainDumpRequestSchema, response: parseBrainDumpResponseSchema },
+  trendingTopics: { request: trendingTopicsRequestSchema, response: trendingTopicsResponseSchema },
+  profileSummary: { request: profileSummaryRequestSchema, response: profileSummaryResponseSchema },
+};
+
+export type AiCapability = keyof AiCapabilities;
+export type AiRequest<C extends AiCapability> = AiCapabilities[C]['request'];
+export type AiResponse<C extends AiCapability> = AiCapabilities[C]['response'];
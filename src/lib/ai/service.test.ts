@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { AiBackend } from './backends';
+import { AiError } from './errors';
+import { mockBackend } from './mockBackend';
+import { runAi } from './service';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const profile = { creatorType: null, platforms: [], nicheKeywords: ['film'], audienceDescription: null };
+
+const backend = (call: AiBackend['call']): AiBackend => ({ id: 'mock', call: vi.fn(call) });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('runAi', () => {
+  it('returns the validated response', async () => {
+    const { summary } = await runAi('profileSummary', { userProfile: profile }, { backend: mockBackend });
+    expect(summary).toBe('You are a creator focused on film.');
+  });
+
+  it('rejects an invalid request without calling the backend', async () => {
+    const fake = backend(async () => ({}));
+    await expect(runAi('parseBrainDump', { text: '  ' }, { backend: fake })).rejects.toMatchObject({
+      code: 'invalid_request',
+      message: 'Nothing to parse',
+    });
+    expect(fake.call).not.toHaveBeenCalled();
+  });
+
+  it('retries transient failures with backoff', async () => {
+    vi.useFakeTimers();
+    let calls = 0;
+    const fake = backend(async () => {
+      calls++;
+      if (calls < 3) throw new AiError('backend', 'Busy', true);
+      return { summary: 'Third time' };
+    });
+    const result = runAi('profileSummary', { userProfile: profile }, { backend: fake });
+    await vi.advanceTimersByTimeAsync(1500);
+    await expect(result).resolves.toEqual({ summary: 'Third time' });
+    expect(calls).toBe(3);
+  });
+
+  it('does not retry permanent failures', async () => {
+    const fake = backend(async () => {
+      throw new AiError('backend', 'No profile', false);
+    });
+    await expect(runAi('trendingTopics', { userProfile: null }, { backend: fake })).rejects.toMatchObject({
+      code: 'backend',
+    });
+    expect(fake.call).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects responses that fail the schema', async () => {
+    const fake = backend(async () => ({ summary: '' }));
+    await expect(
+      runAi('profileSummary', { userProfile: profile }, { backend: fake, retries: 0 })
+    ).rejects.toMatchObject({ code: 'invalid_response' });
+  });
+
+  it('times out a backend that never answers', async () => {
+    vi.useFakeTimers();
+    const fake = backend(() => new Promise(() => {}));
+    const result = runAi('profileSummary', { userProfile: profile }, { backend: fake, timeoutMs: 100, retries: 0 });
+    const assertion = expect(result).rejects.toMatchObject({ code: 'timeout' });
+    await vi.advanceTimersByTimeAsync(100);
+    await assertion;
+  });
+
+  it('stops when the caller aborts', async () => {
+    const controller = new AbortController();
+    const fake = backend(() => new Promise(() => {}));
+    const result = runAi('profileSummary', { userProfile: profile }, { backend: fake, signal: controller.signal });
+    controller.abort();
+    await expect(result).rejects.toMatchObject({ code: 'aborted' });
+  });
+});
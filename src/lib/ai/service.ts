@@ -0,0 +1,137 @@
+/**
+ * Typed AI service: one entry point for every AI capability.
+ * Requests and responses are validated with the capability's schemas; calls time out,
+ * retry transient failures with backoff and can be cancelled with an AbortSignal.
+ * The backend comes from VITE_AI_BACKEND ('supabase' by default, 'openai' or 'mock').
+ */
+import { AiBackend, AiBackendId, openAiBackend, supabaseBackend } from './backends';
+import { AiError } from './errors';
+import { mockBackend } from './mockBackend';
+import { AiCapability, AiRequest, AiResponse, aiSchemas } from './schemas';
+
+export interface AiCallOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number; // extra attempts after the first
+  backend?: AiBackend;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+function backendFromEnv(): AiBackend {
+  const id: AiBackendId = import.meta.env.VITE_AI_BACKEND ?? 'supabase';
+  if (id === 'mock') return mockBackend;
+  if (id === 'openai') return openAiBackend;
+  return supabaseBackend;
+}
+
+let activeBackend: AiBackend | null = null;
+
+export function getAiBackend(): AiBackend {
+  if (!activeBackend) activeBackend = backendFromEnv();
+  return activeBackend;
+}
+
+/**
+ * Swap the backend at runtime (tests, offline development); null goes back to the env choice.
+ */
+export function setAiBackend(backend: AiBackend | null) {
+  activeBackend = backend;
+}
+
+function abortError(signal: AbortSignal | undefined) {
+  return signal?.reason instanceof AiError ? signal.reason : new AiError('aborted', 'Request cancelled');
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * One attempt: aborts on the caller's signal or after the timeout, whichever comes first.
+ */
+async function attempt(
+  backend: AiBackend,
+  capability: AiCapability,
+  request: unknown,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<unknown> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(
+    () => controller.abort(new AiError('timeout', 'The AI took too long to answer', true)),
+    timeoutMs
+  );
+
+  // Settle on abort even if the backend ignores its signal
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+  });
+  aborted.catch(() => {
+    // ignore
+  });
+
+  try {
+    return await Promise.race([backend.call(capability, request, controller.signal), aborted]);
+  } catch (err) {
+    if (signal?.aborted) throw new AiError('aborted', 'Request cancelled');
+    if (controller.signal.aborted && controller.signal.reason instanceof AiError) throw controller.signal.reason;
+    if (err instanceof AiError) throw err;
+    throw new AiError('network', err instanceof Error ? err.message : 'AI request failed', true);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+export async function runAi<C extends AiCapability>(
+  capability: C,
+  request: AiRequest<C>,
+  options: AiCallOptions = {}
+): Promise<AiResponse<C>> {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES } = options;
+  const backend = options.backend ?? getAiBackend();
+  const schemas = aiSchemas[capability];
+
+  const parsedRequest = schemas.request.safeParse(request);
+  if (!parsedRequest.success) {
+    throw new AiError('invalid_request', parsedRequest.error.issues[0]?.message ?? 'Invalid AI request');
+  }
+
+  let lastError: AiError = new AiError('network', 'AI request failed');
+  for (let n = 0; n <= retries; n++) {
+    if (n > 0) await wait(RETRY_BASE_DELAY_MS * 2 ** (n - 1), signal);
+    if (signal?.aborted) throw new AiError('aborted', 'Request cancelled');
+
+    try {
+      const raw = await attempt(backend, capability, parsedRequest.data, timeoutMs, signal);
+      const parsed = schemas.response.safeParse(raw);
+      if (!parsed.success) {
+        throw new AiError('invalid_response', 'Invalid response from AI', true);
+      }
+      return parsed.data as AiResponse<C>;
+    } catch (err) {
+      lastError = err instanceof AiError ? err : new AiError('network', String(err), true);
+      if (!lastError.retryable) throw lastError;
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,205 @@
+/**
+ * Auto-scheduler: proposes times for unscheduled tasks in the free time of a day or week.
+ * Pure (no Supabase / React); the caller shows the proposal and writes accepted
+ * placements through rescheduleTask.
+ *
+ * Tasks are placed one at a time, most pressing first (fixed due date, urgency, age).
+ * Each gets the free slot that best fits its energy on that day's energy curve;
+ * urgent tasks trade energy fit for an earlier day.
+ */
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { EnergyLevel, Task, Urgency } from '@/types';
+import { EnergyProfile, energyMatchScore, getCurveForDate, getEnergyAtHour } from './energyCurve';
+import { expandTasksInRange, isRecurring } from './recurrence';
+import { getEffectiveFocusTimes, TimeRangeSettings } from './timeRangeConfig';
+import { formatHoursToTime, parseTimeToHours } from './timeUtils';
+
+export interface AutoScheduleOptions {
+  candidates: Task[]; // tasks to place (inbox tasks, untimed tasks on a day in range)
+  tasks: Task[]; // every task; timed ones block their slots
+  dates: string[]; // days to fill (YYYY-MM-DD), in order
+  timeRangeSettings: TimeRangeSettings;
+  energyProfile: EnergyProfile;
+  now?: Date;
+  slotMinutes?: number; // start-time granularity
+  bufferMinutes?: number; // gap kept after every placed task
+}
+
+export type EnergyFit = 'match' | 'near' | 'mismatch';
+
+export interface ProposedPlacement {
+  taskId: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  slotEnergy: EnergyLevel | null;
+  fit: EnergyFit;
+}
+
+export interface UnplacedTask {
+  taskId: string;
+  reason: string;
+}
+
+export interface AutoScheduleResult {
+  placements: ProposedPlacement[];
+  unplaced: UnplacedTask[];
+}
+
+interface Interval {
+  start: number; // hours
+  end: number;
+}
+
+// Default length by energy when a task has no time range of its own
+export const DEFAULT_DURATION_MINUTES: Record<EnergyLevel, number> = {
+  high: 90,
+  medium: 60,
+  low: 30,
+  recovery: 30,
+};
+
+const URGENCY_RANK: Record<Urgency, number> = { critical: 3, high: 2, normal: 1, low: 0 };
+
+// Score lost per day a task is pushed back; urgent work wants the earliest day
+const DAY_PENALTY: Record<Urgency, number> = { critical: 8, high: 4, normal: 1.5, low: 0.5 };
+
+/**
+ * Tasks that the scheduler may place: open inbox tasks and untimed one-day tasks within the dates.
+ */
+export function selectAutoScheduleCandidates(tasks: Task[], dates: string[]): Task[] {
+  const days = new Set(dates);
+  return tasks.filter((t) => {
+    if (t.completed || isRecurring(t) || t.start_time) return false;
+    if (!t.due_date) return t.location === null;
+    return days.has(t.due_date) && !t.end_date;
+  });
+}
+
+export function taskDurationMinutes(task: Pick<Task, 'energy_level' | 'start_time' | 'end_time'>): number {
+  const start = parseTimeToHours(task.start_time);
+  const end = parseTimeToHours(task.end_time);
+  if (start != null && end != null && end > start) return Math.round((end - start) * 60);
+  return DEFAULT_DURATION_MINUTES[task.energy_level];
+}
+
+const fitOf = (score: number): EnergyFit => (score >= 1 ? 'match' : score >= 0.5 ? 'near' : 'mismatch');
+
+function subtract(intervals: Interval[], busy: Interval): Interval[] {
+  return intervals.flatMap((iv) => {
+    if (busy.end <= iv.start || busy.start >= iv.end) return [iv];
+    const parts: Interval[] = [];
+    if (busy.start > iv.start) parts.push({ start: iv.start, end: busy.start });
+    if (busy.end < iv.end) parts.push({ start: busy.end, end: iv.end });
+    return parts;
+  });
+}
+
+/**
+ * Timed tasks occupying a date, as hour intervals (multi-day tasks block every day they span).
+ */
+function busyIntervals(tasks: Task[], dateStr: string): Interval[] {
+  const onDay = expandTasksInRange(tasks, dateStr, dateStr);
+  const spanning = tasks.filter(
+    (t) => !isRecurring(t) && t.due_date && t.end_date && t.due_date < dateStr && t.end_date >= dateStr
+  );
+  return [...onDay, ...spanning].flatMap((t) => {
+    const start = parseTimeToHours(t.start_time);
+    if (start == null) return [];
+    const end = parseTimeToHours(t.end_time);
+    return [{ start, end: end != null && end > start ? end : start + 1 }];
+  });
+}
+
+/**
+ * Propose a slot for each candidate; nothing is written.
+ */
+export function proposeSchedule(options: AutoScheduleOptions): AutoScheduleResult {
+  const now = options.now ?? new Date();
+  const slotHours = (options.slotMinutes ?? 15) / 60;
+  const bufferHours = (options.bufferMinutes ?? 0) / 60;
+  const todayStr = format(now, 'yyyy-MM-dd');
+  const nowHours = now.getHours() + now.getMinutes() / 60;
+  const candidateIds = new Set(options.candidates.map((t) => t.id));
+  const dates = options.dates.filter((d) => d >= todayStr);
+
+  // Free time per day: focus hours minus timed tasks (and, today, the past)
+  const free = new Map<string, Interval[]>();
+  dates.forEach((dateStr) => {
+    const { focusStartTime, focusEndTime } = getEffectiveFocusTimes(options.timeRangeSettings, dateStr);
+    let start = focusStartTime;
+    if (dateStr === todayStr) start = Math.max(start, Math.ceil(nowHours / slotHours) * slotHours);
+    let intervals: Interval[] = start < focusEndTime ? [{ start, end: focusEndTime }] : [];
+    busyIntervals(options.tasks.filter((t) => !candidateIds.has(t.id)), dateStr).forEach((busy) => {
+      intervals = subtract(intervals, busy);
+    });
+    free.set(dateStr, intervals);
+  });
+
+  // Fixed-date tasks first, then most urgent, then oldest
+  const queue = [...options.candidates].sort((a, b) => {
+    if (!!a.due_date !== !!b.due_date) return a.due_date ? -1 : 1;
+    const urgency = URGENCY_RANK[b.urgency ?? 'normal'] - URGENCY_RANK[a.urgency ?? 'normal'];
+    if (urgency !== 0) return urgency;
+    return a.created_at.localeCompare(b.created_at);
+  });
+
+  const placements: ProposedPlacement[] = [];
+  const unplaced: UnplacedTask[] = [];
+
+  for (const task of queue) {
+    const duration = taskDurationMinutes(task) / 60;
+    const days = task.due_date ? dates.filter((d) => d === task.due_date) : dates;
+    if (days.length === 0) {
+      unplaced.push({ taskId: task.id, reason: 'Due date has passed' });
+      continue;
+    }
+
+    let best: { date: string; start: number; score: number; energyScore: number } | null = null;
+    for (const dateStr of days) {
+      const dayIndex = differenceInCalendarDays(parseISO(dateStr), parseISO(dates[0]));
+      const curve = getCurveForDate(options.energyProfile, dateStr);
+      for (const iv of free.get(dateStr) ?? []) {
+        for (let start = iv.start; start + duration <= iv.end + 1e-9; start += slotHours) {
+          // Average fit over the slot, sampled per step
+          let total = 0;
+          let samples = 0;
+          for (let h = start; h < start + duration - 1e-9; h += slotHours) {
+            total += energyMatchScore(task.energy_level, getEnergyAtHour(curve, h));
+            samples++;
+          }
+          const energyScore = samples > 0 ? total / samples : 0;
+          const score = energyScore * 10 - dayIndex * DAY_PENALTY[task.urgency ?? 'normal'] - start * 0.01;
+          if (!best || score > best.score) best = { date: dateStr, start, score, energyScore };
+        }
+      }
+    }
+
+    if (!best) {
+      unplaced.push({ taskId: task.id, reason: task.due_date ? 'No free slot on its day' : 'No free slot long enough' });
+      continue;
+    }
+
+    const { date, start, energyScore } = best;
+    free.set(date, subtract(free.get(date) ?? [], { start, end: start + duration + bufferHours }));
+    placements.push({
+      taskId: task.id,
+      date,
+      startTime: formatHoursToTime(start),
+      // A slot ending at midnight is stored as the last minute of the day
+      endTime: start + duration >= 24 ? '23:59' : formatHoursToTime(start + duration),
+      slotEnergy: getEnergyAtHour(getCurveForDate(options.energyProfile, date), start),
+      fit: fitOf(energyScore),
+    });
+  }
+
+  placements.sort((a, b) => (a.date + a.startTime).localeCompare(b.date + b.startTime));
+  return { placements, unplaced };
+}
+
+/**
+ * Day strings for a scheduling window starting at dateStr.
+ */
+export function scheduleDates(startDateStr: string, days: number): string[] {
+  return Array.from({ length: days }, (_, i) => format(addDays(parseISO(startDateStr), i), 'yyyy-MM-dd'));
+}
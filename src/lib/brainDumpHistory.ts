@@ -0,0 +1,164 @@
+/**
+ * Brain dump history helpers: stable keys for parsed items, the diff between two parses
+ * of the same dump, which items already became tasks, and energy highlights that steer a parse.
+ */
+import type { BrainDump, BrainDumpItemLink, ParsedBrainDumpResult, ParsedItem, UserHighlight } from '@/types';
+
+export type ItemChangeStatus = 'added' | 'changed' | 'unchanged';
+
+export interface ItemChange {
+  status: ItemChangeStatus;
+  fields: (keyof ParsedItem)[]; // what differs from the matching previous item
+}
+
+export interface ParseDiff {
+  items: ItemChange[]; // one per item of the new parse, same order
+  removed: ParsedItem[]; // previous items with no match in the new parse
+}
+
+const COMPARED_FIELDS: (keyof ParsedItem)[] = ['text', 'type', 'detected_energy', 'urgency', 'due_date', 'suggested_timeframe'];
+
+// Reworded items still count as the same item above this word overlap
+const SIMILAR_ITEM_THRESHOLD = 0.6;
+
+/**
+ * Case, punctuation and spacing don't make a different item.
+ */
+export function brainDumpItemKey(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Share of the shorter text's words found in the other; one shared word is never enough
+function wordOverlap(a: string, b: string): number {
+  const wordsA = new Set(a.split(' ').filter(Boolean));
+  const wordsB = new Set(b.split(' ').filter(Boolean));
+  const shared = [...wordsA].filter((w) => wordsB.has(w)).length;
+  if (shared < 2) return 0;
+  return shared / Math.min(wordsA.size, wordsB.size);
+}
+
+function changedFields(prev: ParsedItem, next: ParsedItem): (keyof ParsedItem)[] {
+  return COMPARED_FIELDS.filter((field) => {
+    if (field === 'text') return brainDumpItemKey(prev.text) !== brainDumpItemKey(next.text);
+    return (prev[field] ?? null) !== (next[field] ?? null);
+  });
+}
+
+/**
+ * Match items by key first, then by word overlap, so a reworded item shows as changed
+ * rather than as one removed and one added.
+ */
+export function diffParses(prev: ParsedBrainDumpResult | null, next: ParsedBrainDumpResult): ParseDiff {
+  const previous = prev?.items ?? [];
+  const used = new Set<number>();
+  const matches: (number | null)[] = next.items.map((item) => {
+    const key = brainDumpItemKey(item.text);
+    const index = previous.findIndex((p, i) => !used.has(i) && brainDumpItemKey(p.text) === key);
+    if (index !== -1) used.add(index);
+    return index === -1 ? null : index;
+  });
+
+  next.items.forEach((item, n) => {
+    if (matches[n] !== null) return;
+    const key = brainDumpItemKey(item.text);
+    let best = -1;
+    let bestScore = SIMILAR_ITEM_THRESHOLD;
+    previous.forEach((p, i) => {
+      if (used.has(i)) return;
+      const score = wordOverlap(key, brainDumpItemKey(p.text));
+      if (score >= bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    if (best !== -1) {
+      used.add(best);
+      matches[n] = best;
+    }
+  });
+
+  return {
+    items: next.items.map((item, n) => {
+      const match = matches[n];
+      if (match === null) return { status: 'added', fields: [] };
+      const fields = changedFields(previous[match], item);
+      return { status: fields.length > 0 ? 'changed' : 'unchanged', fields };
+    }),
+    removed: previous.filter((_, i) => !used.has(i)),
+  };
+}
+
+/**
+ * Keys of the items of a dump that already became tasks.
+ */
+export function importedItemKeys(dump: Pick<BrainDump, 'item_links'> | null): Set<string> {
+  return new Set((dump?.item_links ?? []).map((link) => link.item_key));
+}
+
+/**
+ * Pair imported items with the ids of the tasks they became; items that failed to import are skipped.
+ */
+export function linkItemsToTasks(items: ParsedItem[], taskIds: (string | null)[], now = new Date()): BrainDumpItemLink[] {
+  return items.flatMap((item, i) => {
+    const taskId = taskIds[i];
+    if (!taskId) return [];
+    return [{ item_key: brainDumpItemKey(item.text), text: item.text, task_id: taskId, added_at: now.toISOString() }];
+  });
+}
+
+/**
+ * Keep highlights pointing at their text after the dump is edited; highlights whose text is gone are dropped.
+ */
+export function relocateHighlights(text: string, highlights: UserHighlight[]): UserHighlight[] {
+  return highlights.flatMap((h) => {
+    if (text.slice(h.start_index, h.end_index) === h.text) return [h];
+    const start = text.indexOf(h.text);
+    if (start === -1) return [];
+    return [{ ...h, start_index: start, end_index: start + h.text.length }];
+  });
+}
+
+function coversHighlight(item: ParsedItem, highlightKey: string): boolean {
+  const itemKey = brainDumpItemKey(item.text);
+  return itemKey.includes(highlightKey) || highlightKey.includes(itemKey) || wordOverlap(itemKey, highlightKey) >= SIMILAR_ITEM_THRESHOLD;
+}
+
+/**
+ * The user's highlights win over detected energy: every item covering a highlighted span takes
+ * its energy, and a highlighted span the parse missed becomes an item of its own.
+ */
+export function applyHighlights(result: ParsedBrainDumpResult, highlights: UserHighlight[]): ParsedBrainDumpResult {
+  if (highlights.length === 0) return result;
+  let items = [...result.items];
+
+  for (const highlight of highlights) {
+    const key = brainDumpItemKey(highlight.text);
+    if (!key) continue;
+    let matched = false;
+    items = items.map((item) => {
+      if (!coversHighlight(item, key)) return item;
+      matched = true;
+      return { ...item, detected_energy: highlight.energy_level, confidence: Math.max(item.confidence, 0.9) };
+    });
+    if (!matched) {
+      items.push({
+        text: highlight.text.trim(),
+        type: 'task',
+        detected_energy: highlight.energy_level,
+        user_override_energy: null,
+        suggested_timeframe: null,
+        urgency: 'normal',
+        emotional_note: null,
+        confidence: 0.9,
+        related_items: [],
+        due_date: null,
+      });
+    }
+  }
+
+  return { ...result, items };
+}
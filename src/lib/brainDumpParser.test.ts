@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { parseBrainDumpLocally, splitBrainDump } from './brainDumpParser';
+
+// A Wednesday
+const NOW = new Date(2026, 2, 4, 9, 0);
+
+const parseOne = (text: string) => parseBrainDumpLocally(text, NOW).items[0];
+
+describe('splitBrainDump', () => {
+  it('splits lines, bullets, sentences and semicolon lists', () => {
+    expect(splitBrainDump('- email Sam; book the studio\n2) Mix track 3. Master it!')).toEqual([
+      'email Sam',
+      'book the studio',
+      'Mix track 3',
+      'Master it!',
+    ]);
+  });
+});
+
+describe('parseBrainDumpLocally', () => {
+  it('takes the date phrase out of the text and keeps the rest', () => {
+    const item = parseOne("finish the cover art by friday, it's exhausting but urgent");
+    expect(item.due_date).toBe('2026-03-06');
+    expect(item.suggested_timeframe).toBe('by friday');
+    expect(item.text).toBe("finish the cover art, it's exhausting but urgent");
+    expect(item.detected_energy).toBe('high');
+    expect(item.urgency).toBe('high');
+  });
+
+  it('reads a date followed by a colon', () => {
+    const item = parseOne('next tuesday: mix track 3');
+    expect(item.due_date).toBe('2026-03-10');
+    expect(item.text).toBe('mix track 3');
+  });
+
+  it('treats a campaign with a tentative start as a dated campaign', () => {
+    const item = parseOne('campaign for the single, could start next month');
+    expect(item.type).toBe('campaign');
+    expect(item.due_date).toBe('2026-04-01');
+    expect(item.text).toBe('campaign for the single, could start');
+  });
+
+  it('keeps ideas whole and undated', () => {
+    const item = parseOne('what if we filmed the session tomorrow?');
+    expect(item.type).toBe('idea');
+    expect(item.due_date).toBeNull();
+    expect(item.text).toBe('what if we filmed the session tomorrow?');
+    expect(item.urgency).toBe('low');
+  });
+
+  it('summarises the dump', () => {
+    expect(parseBrainDumpLocally('call the venue tomorrow\nidea: a remix contest', NOW).summary).toBe(
+      '1 task, 1 idea; 1 with a date'
+    );
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Offline brain dump parser: a rule-based stand-in for the AI.
+ * Splits the dump into sentences and bullets, then per item detects the due date
+ * ("next tuesday", "by friday", via the quick add parser), urgency, energy hints
+ * ("exhausting", "quick") and whether it is a task, a campaign or an idea.
+ * Produces the same ParsedBrainDumpResult shape as the AI.
+ */
+import type { EnergyLevel, ParsedBrainDumpResult, ParsedItem, Urgency } from '@/types';
+import { parseQuickAdd } from './quickAddParser';
+
+const ENERGY_HINTS: Record<Exclude<EnergyLevel, 'medium'>, string[]> = {
+  recovery: ['rest', 'relax', 'nap', 'walk', 'break', 'self-care', 'self care', 'meditate', 'stretch', 'day off'],
+  high: [
+    'exhausting', 'draining', 'hard', 'difficult', 'big', 'deep', 'focus', 'intense', 'complex',
+    'write', 'record', 'film', 'design', 'create', 'compose', 'produce', 'launch', 'pitch', 'edit',
+  ],
+  low: [
+    'quick', 'easy', 'simple', 'small', 'tiny', 'just', 'email', 'reply', 'call', 'text', 'pay',
+    'send', 'book', 'order', 'buy', 'admin', 'renew', 'cancel', 'schedule',
+  ],
+};
+
+const URGENCY_HINTS: { urgency: Urgency; words: string[] }[] = [
+  { urgency: 'critical', words: ['asap', 'critical', 'emergency', 'right away', 'immediately'] },
+  { urgency: 'high', words: ['urgent', 'deadline', 'overdue', 'must', 'important', 'today', 'tonight'] },
+  { urgency: 'low', words: ['someday', 'eventually', 'whenever', 'no rush', 'at some point'] },
+];
+
+const CAMPAIGN_WORDS = ['campaign', 'launch', 'release', 'tour', 'series', 'promo', 'promotion', 'rollout', 'drop'];
+const IDEA_WORDS = ['idea', 'maybe', 'what if', 'could', 'might', 'someday', 'wonder', 'thinking about', 'would be cool'];
+
+const FEELINGS: Record<string, string> = {
+  stressed: 'Feels stressful',
+  stressful: 'Feels stressful',
+  anxious: 'Brings up anxiety',
+  worried: 'Brings up worry',
+  overwhelmed: 'Feels overwhelming',
+  overwhelming: 'Feels overwhelming',
+  dreading: 'Being dreaded',
+  tired: 'Feeling tired',
+  excited: 'Exciting',
+  exciting: 'Exciting',
+  love: 'Something you love',
+};
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word (or whole-phrase) match, case-insensitive
+function findWord(text: string, words: string[]): string | null {
+  for (const word of words) {
+    if (new RegExp(`(?<![\\w-])${escapeRe(word)}(?![\\w-])`, 'i').test(text)) return word;
+  }
+  return null;
+}
+
+/**
+ * Split a dump into item candidates: lines, bullets, sentences and semicolon lists.
+ */
+export function splitBrainDump(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .flatMap((line) => line.split(/;|(?<=[.!?])\s+(?=[A-Z0-9"'])/))
+    .map((part) => part.replace(/^\s*(?:[-*•–]|\d{1,2}[.)]|\[[ x]?\])\s*/i, '').trim())
+    .map((part) => part.replace(/[.;,]+$/, '').trim())
+    .filter((part) => /[a-z]/i.test(part) && part.length > 1);
+}
+
+function detectEnergy(text: string): EnergyLevel {
+  if (findWord(text, ENERGY_HINTS.recovery)) return 'recovery';
+  // An explicit effort word beats the kind of work ("quick edit" is low)
+  const low = findWord(text, ENERGY_HINTS.low);
+  const high = findWord(text, ENERGY_HINTS.high);
+  if (low && high) return ['quick', 'easy', 'simple', 'small', 'tiny', 'just'].includes(low) ? 'low' : 'high';
+  if (high) return 'high';
+  if (low) return 'low';
+  return 'medium';
+}
+
+function detectUrgency(text: string): Urgency | null {
+  return URGENCY_HINTS.find(({ words }) => findWord(text, words))?.urgency ?? null;
+}
+
+// Campaign words win: "campaign for the single, could start in May" is a plan with a date
+function detectType(text: string): ParsedItem['type'] {
+  if (findWord(text, CAMPAIGN_WORDS)) return 'campaign';
+  if (findWord(text, IDEA_WORDS) || text.trim().endsWith('?')) return 'idea';
+  return 'task';
+}
+
+/**
+ * The sentence with one phrase (and a colon after it) cut out, or unchanged when it is not there.
+ */
+function withoutPhrase(sentence: string, phrase: string): string {
+  const index = sentence.indexOf(phrase);
+  if (index < 0) return sentence;
+  const rest = `${sentence.slice(0, index)} ${sentence.slice(index + phrase.length).replace(/^:/, '')}`
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([,.;:!?])/g, '$1')
+    .replace(/(?:^|\s)(?:at|on|by|from|due|for|in)\s*$/i, '')
+    .replace(/^[\s,;:-]+|[\s,;:-]+$/g, '')
+    .trim();
+  return rest || sentence;
+}
+
+function parseItem(sentence: string, now: Date): ParsedItem {
+  const quick = parseQuickAdd(sentence, { now, ignore: ['time', 'endDate', 'energy', 'location', 'recurrence'] });
+  const dateChip = quick.chips.find((c) => c.field === 'date');
+  const type = detectType(sentence);
+  const energy = detectEnergy(sentence);
+  const urgency = quick.urgency ?? detectUrgency(sentence) ?? (type === 'idea' ? 'low' : 'normal');
+  const feeling = findWord(sentence, Object.keys(FEELINGS));
+  // Each thing recognised makes the guess a little more trustworthy
+  const signals = [quick.date, urgency !== 'normal', feeling, energy !== 'medium'].filter(Boolean).length;
+  const dueDate = type === 'idea' ? null : quick.date;
+
+  return {
+    // Dated items read better without the date phrase, which becomes a field; other words stay
+    text: dueDate && dateChip ? withoutPhrase(sentence, dateChip.text) : sentence,
+    type,
+    detected_energy: energy,
+    user_override_energy: null,
+    suggested_timeframe: dateChip?.text ?? null,
+    urgency,
+    emotional_note: feeling ? FEELINGS[feeling] : null,
+    confidence: Math.min(8, 4 + signals) / 10,
+    related_items: [],
+    due_date: dueDate,
+  };
+}
+
+function summarize(items: ParsedItem[]): string | null {
+  if (items.length === 0) return null;
+  const count = (type: ParsedItem['type'], word: string) => {
+    const n = items.filter((i) => i.type === type).length;
+    return n > 0 ? `${n} ${word}${n === 1 ? '' : 's'}` : null;
+  };
+  const dated = items.filter((i) => i.due_date).length;
+  const parts = [count('task', 'task'), count('campaign', 'campaign'), count('idea', 'idea')].filter(Boolean).join(', ');
+  return dated > 0 ? `${parts}; ${dated} with a date` : parts;
+}
+
+export function parseBrainDumpLocally(text: string, now = new Date()): ParsedBrainDumpResult {
+  const items = splitBrainDump(text).map((sentence) => parseItem(sentence, now));
+  return { items, summary: summarize(items) };
+}
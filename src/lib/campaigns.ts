@@ -0,0 +1,133 @@
+/**
+ * Annual planning helpers for phases and campaigns.
+ * Phases and campaigns store months as 1-12; the planner views index months 0-11,
+ * so the helpers here take and return view indices.
+ */
+import type { Campaign, CampaignStatus, EnergyLevel, Phase, PhaseType, Task } from '@/types';
+
+export const PHASE_TYPE_LABELS: Record<PhaseType, string> = {
+  planning: 'Planning',
+  creation: 'Creation',
+  launch: 'Launch',
+  reflection: 'Reflection',
+};
+
+export const CAMPAIGN_STATUS_LABELS: Record<CampaignStatus, string> = {
+  planned: 'Planned',
+  active: 'Active',
+  completed: 'Completed',
+  paused: 'Paused',
+};
+
+// Preset swatches offered for phases; a phase without a color uses its type's theme color
+export const PHASE_COLOR_PRESETS = ['#6366f1', '#0ea5e9', '#10b981', '#f59e0b', '#ef4444', '#ec4899', '#8b5cf6', '#64748b'];
+
+const PHASE_TYPE_COLORS: Record<PhaseType, string> = {
+  planning: 'hsl(var(--phase-planning))',
+  creation: 'hsl(var(--phase-creation))',
+  launch: 'hsl(var(--phase-launch))',
+  reflection: 'hsl(var(--phase-reflection))',
+};
+
+const ENERGY_COLORS: Record<EnergyLevel, string> = {
+  high: 'hsl(var(--energy-high))',
+  medium: 'hsl(var(--energy-medium))',
+  low: 'hsl(var(--energy-low))',
+  recovery: 'hsl(var(--energy-recovery))',
+};
+
+export function phaseColor(phase: Pick<Phase, 'type' | 'color'>): string {
+  return phase.color || PHASE_TYPE_COLORS[phase.type];
+}
+
+/**
+ * A campaign takes its phase's color, or its energy color when it has no phase.
+ */
+export function campaignColor(campaign: Pick<Campaign, 'phase_id' | 'energy_level'>, phases: Phase[]): string {
+  const phase = campaign.phase_id ? phases.find((p) => p.id === campaign.phase_id) : undefined;
+  return phase ? phaseColor(phase) : ENERGY_COLORS[campaign.energy_level];
+}
+
+/**
+ * Month indices (0-11) a phase covers, in order; phases may wrap the year end (Nov-Feb).
+ */
+export function phaseMonthIndices(phase: Pick<Phase, 'start_month' | 'end_month'>): number[] {
+  const start = phase.start_month - 1;
+  const length = ((phase.end_month - phase.start_month + 12) % 12) + 1;
+  return Array.from({ length }, (_, i) => (start + i) % 12);
+}
+
+export function phaseCoversMonth(phase: Pick<Phase, 'start_month' | 'end_month'>, monthIndex: number): boolean {
+  return phaseMonthIndices(phase).includes(monthIndex);
+}
+
+export function campaignsInMonth(campaigns: Campaign[], monthIndex: number): Campaign[] {
+  return campaigns
+    .filter((c) => c.month - 1 === monthIndex)
+    .sort((a, b) => (a.week ?? 0) - (b.week ?? 0) || a.name.localeCompare(b.name));
+}
+
+export interface CampaignProgress {
+  total: number;
+  completed: number;
+  percent: number; // 0-100; completed campaigns without tasks count as done
+}
+
+/**
+ * Task completion per campaign (a recurring series counts once).
+ */
+export function campaignProgressMap(tasks: Task[], campaigns: Campaign[]): Map<string, CampaignProgress> {
+  const counts = new Map<string, { total: number; completed: number }>();
+  tasks.forEach((task) => {
+    if (!task.campaign_id) return;
+    const entry = counts.get(task.campaign_id) ?? { total: 0, completed: 0 };
+    entry.total++;
+    if (task.completed) entry.completed++;
+    counts.set(task.campaign_id, entry);
+  });
+
+  return new Map(campaigns.map((c) => {
+    const { total, completed } = counts.get(c.id) ?? { total: 0, completed: 0 };
+    const percent = total > 0 ? Math.round((completed / total) * 100) : c.status === 'completed' ? 100 : 0;
+    return [c.id, { total, completed, percent }];
+  }));
+}
+
+/**
+ * Roll campaign progress up to each phase.
+ */
+export function phaseProgress(phase: Phase, campaigns: Campaign[], progress: Map<string, CampaignProgress>): CampaignProgress {
+  const own = campaigns.filter((c) => c.phase_id === phase.id);
+  const total = own.reduce((sum, c) => sum + (progress.get(c.id)?.total ?? 0), 0);
+  const completed = own.reduce((sum, c) => sum + (progress.get(c.id)?.completed ?? 0), 0);
+  const percent = total > 0
+    ? Math.round((completed / total) * 100)
+    : own.length > 0 && own.every((c) => c.status === 'completed') ? 100 : 0;
+  return { total, completed, percent };
+}
+
+/**
+ * Parse a comma-separated tag list: trimmed, lowercase, unique.
+ */
+export function parseTags(input: string): string[] {
+  return [...new Set(input.split(',').map((t) => t.trim().toLowerCase()).filter(Boolean))];
+}
+
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/**
+ * "March" or "March · week 2" for a campaign; "Nov – Feb" style for a phase.
+ */
+export function campaignWhenLabel(campaign: Pick<Campaign, 'month' | 'week'>): string {
+  const month = MONTH_NAMES[campaign.month - 1];
+  return campaign.week ? `${month} · week ${campaign.week}` : month;
+}
+
+export function phaseRangeLabel(phase: Pick<Phase, 'start_month' | 'end_month'>): string {
+  const start = MONTH_NAMES[phase.start_month - 1].slice(0, 3);
+  const end = MONTH_NAMES[phase.end_month - 1].slice(0, 3);
+  return phase.start_month === phase.end_month ? start : `${start} – ${end}`;
+}
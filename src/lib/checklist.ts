@@ -0,0 +1,25 @@
+/**
+ * Checklist helpers: the ordered steps stored on a task.
+ */
+import type { ChecklistItem } from '@/types';
+
+export function createChecklistItem(text: string): ChecklistItem {
+  return { id: crypto.randomUUID(), text: text.trim(), done: false };
+}
+
+/**
+ * Done and total counts, or null when the task has no checklist.
+ */
+export function checklistProgress(items: ChecklistItem[] | null | undefined): { done: number; total: number } | null {
+  if (!items || items.length === 0) return null;
+  return { done: items.filter((item) => item.done).length, total: items.length };
+}
+
+export function moveChecklistItem(items: ChecklistItem[], id: string, offset: -1 | 1): ChecklistItem[] {
+  const from = items.findIndex((item) => item.id === id);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= items.length) return items;
+  const next = [...items];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+}
@@ -0,0 +1,114 @@
+/**
+ * Daily energy curve: which energy level the user expects to have at each hour.
+ * Used to match tasks to slots (high-focus work in the morning, recovery in the evening),
+ * shade the calendar grid and warn when a task lands in a slot that doesn't suit it.
+ */
+import type { EnergyLevel } from '@/types';
+
+export interface EnergyCurveSegment {
+  startHour: number; // 0-23, inclusive
+  endHour: number; // 1-24, exclusive
+  energy: EnergyLevel;
+}
+
+// Contiguous, sorted segments; hours outside every segment have no expected energy
+export type EnergyCurve = EnergyCurveSegment[];
+
+export const defaultEnergyCurve: EnergyCurve = [
+  { startHour: 8, endHour: 12, energy: 'high' },
+  { startHour: 12, endHour: 13, energy: 'recovery' },
+  { startHour: 13, endHour: 16, energy: 'medium' },
+  { startHour: 16, endHour: 19, energy: 'low' },
+  { startHour: 19, endHour: 24, energy: 'recovery' },
+];
+
+// Position on the intensity scale; adjacent levels are a near match
+const ENERGY_RANK: Record<EnergyLevel, number> = { high: 3, medium: 2, low: 1, recovery: 0 };
+
+/**
+ * Expected energy at an hour (fractional hours allowed), or null outside the curve.
+ */
+export function getEnergyAtHour(curve: EnergyCurve, hour: number): EnergyLevel | null {
+  const segment = curve.find((s) => hour >= s.startHour && hour < s.endHour);
+  return segment?.energy ?? null;
+}
+
+/**
+ * How well a task's energy fits a slot: 1 exact, 0.5 one level apart, 0 otherwise.
+ * Slots without an expected energy are neutral.
+ */
+export function energyMatchScore(taskEnergy: EnergyLevel, slotEnergy: EnergyLevel | null): number {
+  if (!slotEnergy) return 0.25;
+  const distance = Math.abs(ENERGY_RANK[taskEnergy] - ENERGY_RANK[slotEnergy]);
+  return distance === 0 ? 1 : distance === 1 ? 0.5 : 0;
+}
+
+/**
+ * Sort, clamp to 0-24 and drop empty segments; later segments win where they overlap.
+ */
+export function normalizeEnergyCurve(curve: EnergyCurve): EnergyCurve {
+  const sorted = curve
+    .map((s) => ({ ...s, startHour: Math.max(0, Math.min(24, s.startHour)), endHour: Math.max(0, Math.min(24, s.endHour)) }))
+    .filter((s) => s.endHour > s.startHour)
+    .sort((a, b) => a.startHour - b.startHour);
+
+  return sorted.map((s, i) => {
+    const next = sorted[i + 1];
+    return next && next.startHour < s.endHour ? { ...s, endHour: next.startHour } : s;
+  }).filter((s) => s.endHour > s.startHour);
+}
+
+// Default curve plus optional per-weekday overrides (0 = Sunday, as in Date.getDay)
+export interface EnergyProfile {
+  default: EnergyCurve;
+  weekdays: Partial<Record<number, EnergyCurve>>;
+}
+
+export const defaultEnergyProfile: EnergyProfile = {
+  default: defaultEnergyCurve,
+  weekdays: {},
+};
+
+/**
+ * Normalize every curve; accepts a bare curve (the old storage shape) as the default.
+ */
+export function normalizeEnergyProfile(value: unknown): EnergyProfile {
+  if (Array.isArray(value)) return { default: normalizeEnergyCurve(value), weekdays: {} };
+  if (!value || typeof value !== 'object') return defaultEnergyProfile;
+
+  const raw = value as Partial<EnergyProfile>;
+  const weekdays: Partial<Record<number, EnergyCurve>> = {};
+  Object.entries(raw.weekdays ?? {}).forEach(([day, curve]) => {
+    const index = Number(day);
+    if (Number.isInteger(index) && index >= 0 && index <= 6 && Array.isArray(curve)) {
+      weekdays[index] = normalizeEnergyCurve(curve);
+    }
+  });
+  return {
+    default: Array.isArray(raw.default) ? normalizeEnergyCurve(raw.default) : defaultEnergyCurve,
+    weekdays,
+  };
+}
+
+/**
+ * Curve that applies on a date (YYYY-MM-DD): the weekday override, else the default.
+ */
+export function getCurveForDate(profile: EnergyProfile, dateStr: string): EnergyCurve {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  const weekday = new Date(y, m - 1, d).getDay();
+  return profile.weekdays[weekday] ?? profile.default;
+}
+
+/**
+ * Expected energy at an hour on a date.
+ */
+export function getEnergyForSlot(profile: EnergyProfile, dateStr: string, hour: number): EnergyLevel | null {
+  return getEnergyAtHour(getCurveForDate(profile, dateStr), hour);
+}
+
+/**
+ * Whether a task's energy is too far from the slot's (two or more levels apart).
+ */
+export function isEnergyMismatch(taskEnergy: EnergyLevel, slotEnergy: EnergyLevel | null): boolean {
+  return slotEnergy !== null && energyMatchScore(taskEnergy, slotEnergy) < 0.5;
+}
@@ -0,0 +1,291 @@
+/**
+ * iCalendar (.ics) export and import for tasks (RFC 5545 subset).
+ * Scheduled tasks become VEVENTs; VEVENT/VTODO components import as TaskInsert rows.
+ * Energy is written both as a CATEGORIES value and an X-LUMINOO-ENERGY property.
+ */
+import { addDays, format, parseISO } from 'date-fns';
+import type { EnergyLevel, Task } from '@/types';
+import type { TaskInsert } from '@/contexts/TasksContext';
+import { expandTasksInRange, parseOccurrenceId } from './recurrence';
+import { normalizeTime } from './timeUtils';
+
+const PRODID = '-//luminoo//Planner//EN';
+const UID_DOMAIN = 'luminoo';
+const ENERGY_LEVELS: EnergyLevel[] = ['high', 'medium', 'low', 'recovery'];
+
+export const ENERGY_CATEGORY: Record<EnergyLevel, string> = {
+  high: 'High Focus',
+  medium: 'Steady',
+  low: 'Low Energy',
+  recovery: 'Recovery',
+};
+
+export interface IcsExportOptions {
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+  energies?: EnergyLevel[]; // empty = all
+  calendarName?: string;
+}
+
+export interface IcsImportItem {
+  uid: string | null;
+  task: TaskInsert;
+  kind: 'VEVENT' | 'VTODO';
+}
+
+// ---------- Export ----------
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded with CRLF + space (counted in UTF-16 units, close enough for UI text).
+const foldLine = (line: string) => {
+  if (line.length <= 75) return line;
+  const parts: string[] = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) parts.push(' ' + line.slice(i, i + 74));
+  return parts.join('\r\n');
+};
+
+const icsDate = (dateStr: string) => dateStr.replace(/-/g, '');
+const icsDateTime = (dateStr: string, time: string) => `${icsDate(dateStr)}T${normalizeTime(time)!.replace(':', '')}00`;
+const icsStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * UID for an exported task; occurrences of a series get one UID per date.
+ */
+export function taskUid(task: Pick<Task, 'id' | 'ical_uid'>): string {
+  if (task.ical_uid && !parseOccurrenceId(task.id)) return task.ical_uid;
+  return `${task.id}@${UID_DOMAIN}`;
+}
+
+/**
+ * Scheduled tasks inside the export window, filtered by energy.
+ */
+export function selectTasksForExport(tasks: Task[], options: IcsExportOptions): Task[] {
+  const energies = options.energies ?? [];
+  return expandTasksInRange(tasks, options.startDate, options.endDate)
+    .filter((t) => energies.length === 0 || energies.includes(t.energy_level))
+    .sort((a, b) => (a.due_date! + (a.start_time ?? '')).localeCompare(b.due_date! + (b.start_time ?? '')));
+}
+
+function taskToVevent(task: Task, stamp: string): string[] {
+  const startDate = task.due_date!;
+  const endDate = task.end_date ?? startDate;
+  const startTime = normalizeTime(task.start_time);
+  const endTime = normalizeTime(task.end_time);
+
+  const lines = ['BEGIN:VEVENT', `UID:${taskUid(task)}`, `DTSTAMP:${stamp}`];
+
+  if (startTime) {
+    // Floating local time: the planner has no time zone concept
+    lines.push(`DTSTART:${icsDateTime(startDate, startTime)}`);
+    lines.push(`DTEND:${icsDateTime(endDate, endTime ?? startTime)}`);
+  } else {
+    // All-day: DTEND is exclusive
+    lines.push(`DTSTART;VALUE=DATE:${icsDate(startDate)}`);
+    lines.push(`DTEND;VALUE=DATE:${icsDate(format(addDays(parseISO(endDate), 1), 'yyyy-MM-dd'))}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(task.title)}`);
+  if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+  if (task.location && task.location !== 'notes' && task.location !== 'memory') {
+    lines.push(`LOCATION:${escapeText(task.location)}`);
+  }
+  lines.push(`CATEGORIES:${escapeText(ENERGY_CATEGORY[task.energy_level])}`);
+  lines.push(`X-LUMINOO-ENERGY:${task.energy_level}`);
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serialize tasks to an .ics calendar document.
+ */
+export function exportTasksToIcs(tasks: Task[], options: IcsExportOptions): string {
+  const stamp = icsStamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    ...(options.calendarName ? [`X-WR-CALNAME:${escapeText(options.calendarName)}`] : []),
+    ...selectTasksForExport(tasks, options).flatMap((t) => taskToVevent(t, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ---------- Import ----------
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+
+function unfold(text: string): string[] {
+  return text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter((l) => l.trim() !== '');
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  // Split on the first ':' that is not inside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach((p) => {
+    const eq = p.indexOf('=');
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+interface IcsDateValue {
+  date: string; // YYYY-MM-DD
+  time: string | null; // HH:MM, null for all-day
+}
+
+function parseDateValue(prop: IcsProperty): IcsDateValue | null {
+  const match = prop.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, , utc] = match;
+
+  if (prop.params.VALUE === 'DATE' || h === undefined) {
+    return { date: `${y}-${mo}-${d}`, time: null };
+  }
+  if (utc) {
+    // UTC -> local wall time
+    const local = new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi));
+    return { date: format(local, 'yyyy-MM-dd'), time: format(local, 'HH:mm') };
+  }
+  // Floating or TZID times are taken as local wall time
+  return { date: `${y}-${mo}-${d}`, time: `${h}:${mi}` };
+}
+
+function energyFromProps(props: IcsProperty[]): EnergyLevel {
+  const explicit = props.find((p) => p.name === 'X-LUMINOO-ENERGY')?.value.trim().toLowerCase();
+  if (explicit && (ENERGY_LEVELS as string[]).includes(explicit)) return explicit as EnergyLevel;
+
+  const categories = props
+    .filter((p) => p.name === 'CATEGORIES')
+    .flatMap((p) => p.value.split(/(?<!\\),/).map((c) => unescapeText(c).trim().toLowerCase()));
+  for (const level of ENERGY_LEVELS) {
+    if (categories.some((c) => c === ENERGY_CATEGORY[level].toLowerCase() || c === level || c === `${level} energy`)) {
+      return level;
+    }
+  }
+  return 'medium';
+}
+
+function componentToItem(kind: 'VEVENT' | 'VTODO', props: IcsProperty[]): IcsImportItem | null {
+  const get = (name: string) => props.find((p) => p.name === name);
+  const title = get('SUMMARY') ? unescapeText(get('SUMMARY')!.value).trim() : '';
+  if (!title) return null;
+
+  const startProp = get('DTSTART') ?? (kind === 'VTODO' ? get('DUE') : undefined);
+  const endProp = get('DTEND') ?? (kind === 'VTODO' && get('DTSTART') ? get('DUE') : undefined);
+  const start = startProp ? parseDateValue(startProp) : null;
+  let end = endProp ? parseDateValue(endProp) : null;
+
+  // All-day DTEND is exclusive
+  if (start && end && !end.time) {
+    end = { date: format(addDays(parseISO(end.date), -1), 'yyyy-MM-dd'), time: null };
+  }
+
+  const endDate = start && end && end.date > start.date ? end.date : null;
+  const description = get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')!.value).trim() : '';
+  const location = get('LOCATION') ? unescapeText(get('LOCATION')!.value).trim() : '';
+  const status = get('STATUS')?.value.trim().toUpperCase();
+
+  return {
+    uid: get('UID')?.value.trim() || null,
+    kind,
+    task: {
+      title,
+      description: description || null,
+      energy_level: energyFromProps(props),
+      due_date: start?.date ?? null,
+      end_date: endDate,
+      start_time: start?.time ?? null,
+      end_time: start?.time ? end?.time ?? null : null,
+      location: location || null,
+      completed: kind === 'VTODO' && status === 'COMPLETED',
+    },
+  };
+}
+
+/**
+ * Parse VEVENT and VTODO components from an .ics document.
+ */
+export function parseIcs(text: string): IcsImportItem[] {
+  const items: IcsImportItem[] = [];
+  let current: { kind: 'VEVENT' | 'VTODO'; props: IcsProperty[] } | null = null;
+  // Nested components (VALARM) inside an event are skipped
+  let nestedDepth = 0;
+
+  for (const line of unfold(text)) {
+    const prop = parseProperty(line);
+    if (!prop) continue;
+
+    if (prop.name === 'BEGIN') {
+      const kind = prop.value.trim().toUpperCase();
+      if (current) nestedDepth++;
+      else if (kind === 'VEVENT' || kind === 'VTODO') current = { kind, props: [] };
+      continue;
+    }
+    if (prop.name === 'END') {
+      if (current && nestedDepth > 0) nestedDepth--;
+      else if (current) {
+        const item = componentToItem(current.kind, current.props);
+        if (item) items.push(item);
+        current = null;
+      }
+      continue;
+    }
+    if (current && nestedDepth === 0) current.props.push(prop);
+  }
+
+  return items;
+}
+
+/**
+ * Drop items already in the planner (same UID, or exported from here) and duplicate UIDs within the file.
+ */
+export function dedupeImportItems(items: IcsImportItem[], existing: Task[]): { fresh: IcsImportItem[]; duplicates: IcsImportItem[] } {
+  const knownUids = new Set(existing.map((t) => taskUid(t)));
+  existing.forEach((t) => t.ical_uid && knownUids.add(t.ical_uid));
+  const existingIds = new Set(existing.map((t) => t.id));
+
+  // Occurrence UIDs exported from here ("<seriesId>::<date>@luminoo") belong to a known series
+  const isOwnOccurrence = (uid: string) => {
+    if (!uid.endsWith(`@${UID_DOMAIN}`)) return false;
+    const occurrence = parseOccurrenceId(uid.slice(0, -(UID_DOMAIN.length + 1)));
+    return !!occurrence && existingIds.has(occurrence.seriesId);
+  };
+
+  const seen = new Set<string>();
+  const fresh: IcsImportItem[] = [];
+  const duplicates: IcsImportItem[] = [];
+
+  items.forEach((item) => {
+    if (item.uid && (knownUids.has(item.uid) || seen.has(item.uid) || isOwnOccurrence(item.uid))) {
+      duplicates.push(item);
+      return;
+    }
+    if (item.uid) seen.add(item.uid);
+    fresh.push(item);
+  });
+
+  return { fresh, duplicates };
+}
@@ -0,0 +1,203 @@
+/**
+ * Local task store (IndexedDB) and persisted mutation queue.
+ * Holds the full task set on device plus the writes made while offline,
+ * so TasksContext can apply changes optimistically and replay them in order later.
+ */
+import type { Task } from '@/types';
+
+export type TaskMutation =
+  | { kind: 'insert'; taskId: string; row: Task }
+  | { kind: 'update'; taskId: string; updates: Partial<Task>; baseUpdatedAt: string | null }
+  | { kind: 'delete'; taskId: string; baseUpdatedAt: string | null };
+
+export type QueuedMutation = TaskMutation & { seq?: number; userId: string; queuedAt: string };
+
+const DB_NAME = 'luminoo';
+const DB_VERSION = 1;
+const TASKS_STORE = 'tasks';
+const QUEUE_STORE = 'mutations';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// In-memory fallback when IndexedDB is unavailable (private mode, old browsers).
+let memorySeq = 0;
+const memoryQueue: QueuedMutation[] = [];
+const memoryTasks = new Map<string, Task[]>();
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TASKS_STORE)) {
+          db.createObjectStore(TASKS_STORE, { keyPath: 'id' }).createIndex('user_id', 'user_id');
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'seq', autoIncrement: true }).createIndex('userId', 'userId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Last known task set for a user (empty on first run).
+ */
+export async function loadTasks(userId: string): Promise<Task[]> {
+  const db = await openDb();
+  if (!db) return memoryTasks.get(userId) ?? [];
+  const tx = db.transaction(TASKS_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(TASKS_STORE).index('user_id').getAll(userId) as IDBRequest<Task[]>);
+}
+
+/**
+ * Replace the stored task set for a user.
+ */
+export async function saveTasks(userId: string, tasks: Task[]): Promise<void> {
+  const db = await openDb();
+  if (!db) {
+    memoryTasks.set(userId, tasks);
+    return;
+  }
+  const tx = db.transaction(TASKS_STORE, 'readwrite');
+  const store = tx.objectStore(TASKS_STORE);
+  const keys = await requestToPromise(store.index('user_id').getAllKeys(userId));
+  keys.forEach((key) => store.delete(key));
+  tasks.forEach((task) => store.put(task));
+  await transactionDone(tx);
+}
+
+/**
+ * Pending mutations for a user, oldest first.
+ */
+export async function listMutations(userId: string): Promise<QueuedMutation[]> {
+  const db = await openDb();
+  if (!db) return memoryQueue.filter((m) => m.userId === userId);
+  const tx = db.transaction(QUEUE_STORE, 'readonly');
+  const rows = await requestToPromise(tx.objectStore(QUEUE_STORE).index('userId').getAll(userId) as IDBRequest<QueuedMutation[]>);
+  return rows.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+}
+
+/**
+ * Append a mutation to the queue. Returns it with its sequence number.
+ */
+export async function enqueueMutation(mutation: QueuedMutation): Promise<QueuedMutation> {
+  const db = await openDb();
+  if (!db) {
+    const queued = { ...mutation, seq: ++memorySeq };
+    memoryQueue.push(queued);
+    return queued;
+  }
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  const seq = await requestToPromise(tx.objectStore(QUEUE_STORE).add(mutation));
+  await transactionDone(tx);
+  return { ...mutation, seq: seq as number };
+}
+
+export async function removeMutation(seq: number): Promise<void> {
+  const db = await openDb();
+  if (!db) {
+    const idx = memoryQueue.findIndex((m) => m.seq === seq);
+    if (idx >= 0) memoryQueue.splice(idx, 1);
+    return;
+  }
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  tx.objectStore(QUEUE_STORE).delete(seq);
+  await transactionDone(tx);
+}
+
+/**
+ * Apply a mutation to an in-memory task list (optimistic state and queue replay on top of fetched rows).
+ */
+export function applyMutation(tasks: Task[], mutation: TaskMutation): Task[] {
+  switch (mutation.kind) {
+    case 'insert':
+      return [mutation.row, ...tasks.filter((t) => t.id !== mutation.taskId)];
+    case 'update':
+      return tasks.map((t) => (t.id === mutation.taskId ? { ...t, ...mutation.updates } : t));
+    case 'delete':
+      return tasks.filter((t) => t.id !== mutation.taskId);
+  }
+}
+
+/**
+ * Mutations that revert `mutations` when applied to the state they produced (for undo).
+ * Deletes invert to inserts of the original row, so the task keeps its id.
+ */
+export function invertMutations(tasks: Task[], mutations: TaskMutation[]): TaskMutation[] {
+  const inverse: TaskMutation[] = [];
+  let state = tasks;
+
+  for (const mutation of mutations) {
+    const current = state.find((t) => t.id === mutation.taskId);
+    if (mutation.kind === 'insert') {
+      inverse.unshift({ kind: 'delete', taskId: mutation.taskId, baseUpdatedAt: null });
+    } else if (mutation.kind === 'update' && current) {
+      const previous = Object.fromEntries(
+        Object.keys(mutation.updates).map((key) => [key, current[key as keyof Task]])
+      ) as Partial<Task>;
+      inverse.unshift({ kind: 'update', taskId: mutation.taskId, updates: previous, baseUpdatedAt: null });
+    } else if (mutation.kind === 'delete' && current) {
+      inverse.unshift({ kind: 'insert', taskId: mutation.taskId, row: current });
+    }
+    state = applyMutation(state, mutation);
+  }
+
+  return inverse;
+}
+
+/**
+ * Merge a row received from the server (realtime event or write response) into the task list.
+ * Rows older than the local copy are ignored (unless authoritative, i.e. our own write's response);
+ * pending local mutations for the task stay applied on top.
+ */
+export function reconcileRow(tasks: Task[], row: Task, pending: TaskMutation[] = [], authoritative = false): Task[] {
+  const idx = tasks.findIndex((t) => t.id === row.id);
+  const local = idx >= 0 ? tasks[idx] : null;
+  if (!authoritative && local?.updated_at && row.updated_at && Date.parse(row.updated_at) < Date.parse(local.updated_at)) {
+    return tasks;
+  }
+
+  const merged = pending.filter((m) => m.taskId === row.id).reduce(applyMutation, [row]);
+  if (idx < 0) return [...merged, ...tasks];
+  return [...tasks.slice(0, idx), ...merged, ...tasks.slice(idx + 1)];
+}
+
+/**
+ * Whether a failed request should be queued for retry instead of reported.
+ */
+export function isNetworkError(err: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = err instanceof Error
+    ? err.message
+    : err && typeof err === 'object' && 'message' in err
+      ? String((err as Record<string, unknown>).message)
+      : String(err);
+  return /failed to fetch|fetch failed|network ?error|load failed|networkerror/i.test(message);
+}
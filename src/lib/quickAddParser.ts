@@ -0,0 +1,554 @@
+/**
+ * Natural-language quick add, e.g. "record podcast tomorrow 14-16 !high @studio"
+ * or "newsletter every friday 9am".
+ * Deterministic and fully client-side: recognised phrases are cut out of the text
+ * and the rest becomes the title.
+ *
+ * Supported:
+ *   dates      today, tonight, tomorrow, day after tomorrow, friday, next fri, next week,
+ *              in 3 days, mar 14, 14th march, 2025-03-14, 14.3., 3/14, mar 14-16
+ *   end dates  until fri, through mar 20, for 3 days
+ *   times      9am, 9:30, at 9, noon, 14-16, 2-4pm, 9:00 to 10:30, for 2h
+ *   repeat     daily, weekly, monthly, every day, every other week, every 2 weeks,
+ *              every weekday, every mon and wed
+ *   energy     !high !med !low !rec
+ *   urgency    !urgent !!, !critical !asap !!!, !someday, urgent, asap
+ *   location   @studio, @"home office"
+ */
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  format,
+  isValid,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import type { EnergyLevel, RecurrenceRule, Urgency } from '@/types';
+import { createRecurrenceRule, describeRecurrence } from './recurrence';
+
+export type QuickAddField = 'date' | 'endDate' | 'time' | 'energy' | 'urgency' | 'location' | 'recurrence';
+
+export interface QuickAddChip {
+  field: QuickAddField;
+  label: string;
+  text: string; // the matched phrase
+}
+
+export interface ParsedQuickAdd {
+  title: string;
+  date: string | null; // YYYY-MM-DD
+  endDate: string | null; // YYYY-MM-DD, multi-day tasks only
+  startTime: string | null; // HH:MM
+  endTime: string | null; // HH:MM
+  energy: EnergyLevel | null;
+  urgency: Urgency | null;
+  location: string | null;
+  recurrence: RecurrenceRule | null;
+  chips: QuickAddChip[];
+}
+
+export interface ParseQuickAddOptions {
+  now?: Date;
+  // Date that durations and repeat rules are anchored to when the text has none (YYYY-MM-DD)
+  defaultDate?: string;
+  // Fields the user dismissed; their phrases stay in the title
+  ignore?: QuickAddField[];
+}
+
+const ENERGY_WORDS: Record<string, EnergyLevel> = {
+  high: 'high', hi: 'high', focus: 'high', deep: 'high',
+  medium: 'medium', med: 'medium', mid: 'medium', steady: 'medium',
+  low: 'low', light: 'low', easy: 'low',
+  recovery: 'recovery', rec: 'recovery', rest: 'recovery',
+};
+
+const ENERGY_LABELS: Record<EnergyLevel, string> = {
+  high: 'High Focus',
+  medium: 'Steady',
+  low: 'Low Energy',
+  recovery: 'Recovery',
+};
+
+const URGENCY_WORDS: Record<string, Urgency> = {
+  urgent: 'high', important: 'high', '!!': 'high',
+  critical: 'critical', asap: 'critical', '!!!': 'critical',
+  someday: 'low', later: 'low', whenever: 'low',
+};
+
+const URGENCY_LABELS: Record<Urgency, string> = {
+  low: 'Low priority',
+  normal: 'Normal',
+  high: 'Urgent',
+  critical: 'Critical',
+};
+
+// Zone markers stored in `location`; never treat them as places
+const RESERVED_LOCATIONS = ['inbox', 'notes', 'memory'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const MONTH_RE = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const WEEKDAY_SHORT_RE = '(?:mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?)';
+// Bare weekday names are only dates when spelled out ("sat" and "sun" are common words)
+const WEEKDAY_LONG_RE = '(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)';
+const ORDINAL_RE = '(?:st|nd|rd|th)?';
+const DAY_PREFIX_RE = '(?:(?:on|by|due)\\s+)?';
+const TIME_RE = '(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)?';
+
+// Phrase boundaries: not inside a word, not right after a sigil
+const START = '(?<![\\w@!:./-])';
+const END = '(?![\\w:/-])';
+// Dates may be followed by a colon that introduces the rest ("next tuesday: mix track 3"), not by a time
+const DATE_END = '(?![\\w/-]|:\\S)';
+
+const toDateStr = (date: Date) => format(date, 'yyyy-MM-dd');
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const monthIndex = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+const weekdayIndex = (name: string) => WEEKDAYS.indexOf(name.slice(0, 3).toLowerCase());
+
+/**
+ * Calendar date from parts; null when the day does not exist (e.g. Feb 30).
+ * Without a year, picks the next such date from today.
+ */
+function makeDate(month: number, day: number, year: number | null, today: Date): string | null {
+  const resolve = (y: number) => {
+    const date = new Date(y, month, day);
+    return isValid(date) && date.getMonth() === month && date.getDate() === day ? date : null;
+  };
+  if (year != null) {
+    const date = resolve(year < 100 ? 2000 + year : year);
+    return date ? toDateStr(date) : null;
+  }
+  const thisYear = resolve(today.getFullYear());
+  if (thisYear && toDateStr(thisYear) >= toDateStr(today)) return toDateStr(thisYear);
+  const nextYear = resolve(today.getFullYear() + 1);
+  return nextYear ? toDateStr(nextYear) : null;
+}
+
+// Next date (today included) that falls on the weekday
+function upcomingWeekday(from: Date, weekday: number): Date {
+  return addDays(from, (weekday - from.getDay() + 7) % 7);
+}
+
+/**
+ * 24h time from clock parts, or null when out of range.
+ */
+function toTime(hourStr: string, minuteStr: string | undefined, meridiem: string | undefined): string | null {
+  let hour = parseInt(hourStr, 10);
+  const minute = minuteStr ? parseInt(minuteStr, 10) : 0;
+  if (minute > 59) return null;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    const pm = meridiem.toLowerCase().startsWith('p');
+    if (hour === 12) hour = pm ? 12 : 0;
+    else if (pm) hour += 12;
+  }
+  if (hour > 23) return null;
+  return `${pad(hour)}:${pad(minute)}`;
+}
+
+const timeToMinutes = (time: string) => parseInt(time.slice(0, 2), 10) * 60 + parseInt(time.slice(3), 10);
+const minutesToTime = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+/**
+ * Resolve a time range where only one side may carry am/pm ("2-4pm", "11-1pm", "9am-5").
+ */
+function toTimeRange(
+  start: [string, string | undefined, string | undefined],
+  end: [string, string | undefined, string | undefined]
+): [string, string] | null {
+  const [sh, sm] = start;
+  const [eh, em] = end;
+  let smer = start[2];
+  let emer = end[2];
+
+  if (!smer && emer) {
+    // Take the end's meridiem if that keeps the range forward
+    const candidate = toTime(sh, sm, emer);
+    const endTime = toTime(eh, em, emer);
+    if (candidate && endTime && timeToMinutes(candidate) < timeToMinutes(endTime)) smer = emer;
+    else if (emer.toLowerCase() === 'pm') smer = 'am';
+  } else if (smer && !emer) {
+    const startTime = toTime(sh, sm, smer);
+    const candidate = toTime(eh, em, smer);
+    if (startTime && candidate && timeToMinutes(candidate) > timeToMinutes(startTime)) emer = smer;
+    else if (parseInt(eh, 10) <= 12) emer = 'pm';
+  }
+
+  const startTime = toTime(sh, sm, smer);
+  const endTime = toTime(eh, em, emer);
+  if (!startTime || !endTime || timeToMinutes(endTime) <= timeToMinutes(startTime)) return null;
+  return [startTime, endTime];
+}
+
+function durationMinutes(amount: string, unit: string): number | null {
+  const value = amount === 'an' || amount === 'a' ? 1 : parseFloat(amount);
+  if (!Number.isFinite(value) || value <= 0) return null;
+  const minutes = unit.toLowerCase().startsWith('h') ? value * 60 : value;
+  return Math.round(minutes);
+}
+
+function dateLabel(dateStr: string, today: Date): string {
+  if (dateStr === toDateStr(today)) return 'Today';
+  if (dateStr === toDateStr(addDays(today, 1))) return 'Tomorrow';
+  const date = parseISO(dateStr);
+  return date.getFullYear() === today.getFullYear() ? format(date, 'EEE, MMM d') : format(date, 'EEE, MMM d, yyyy');
+}
+
+/**
+ * Parse a quick-add line into task fields.
+ */
+export function parseQuickAdd(input: string, options: ParseQuickAddOptions = {}): ParsedQuickAdd {
+  const now = options.now ?? new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const ignore = new Set(options.ignore ?? []);
+
+  let rest = input;
+  const chips: QuickAddChip[] = [];
+  const result: Omit<ParsedQuickAdd, 'title' | 'chips'> = {
+    date: null,
+    endDate: null,
+    startTime: null,
+    endTime: null,
+    energy: null,
+    urgency: null,
+    location: null,
+    recurrence: null,
+  };
+  // Parts resolved once the start date is known
+  const pending = {
+    untilDate: null as string | null,
+    spanDays: null as number | null,
+    weekdays: null as number[] | null,
+  };
+
+  /**
+   * Find the first match the handler accepts, cut it out of the text and record a chip.
+   * The handler returns false to reject a match (it then stays in the title).
+   */
+  const take = (field: QuickAddField, pattern: string, handler: (m: RegExpExecArray) => boolean) => {
+    if (ignore.has(field)) return false;
+    const re = new RegExp(pattern, 'gi');
+    let match: RegExpExecArray | null;
+    while ((match = re.exec(rest)) !== null) {
+      if (match[0].length === 0) {
+        re.lastIndex++;
+        continue;
+      }
+      if (handler(match)) {
+        chips.push({ field, label: '', text: match[0].trim() });
+        rest = `${rest.slice(0, match.index)} ${rest.slice(match.index + match[0].length)}`;
+        return true;
+      }
+    }
+    return false;
+  };
+
+  // ----- Location -----
+  take('location', `(?<![\\w@])@(?:"([^"]+)"|([^\\s"!@,;]+))`, (m) => {
+    const place = (m[1] ?? m[2]).replace(/[.,;:]+$/, '').trim();
+    if (!place || RESERVED_LOCATIONS.includes(place.toLowerCase())) return false;
+    result.location = place;
+    return true;
+  });
+
+  // ----- Energy and urgency sigils -----
+  take('energy', `(?<![\\w!])!([a-z]+)${END}`, (m) => {
+    const energy = ENERGY_WORDS[m[1].toLowerCase()];
+    if (!energy) return false;
+    result.energy = energy;
+    return true;
+  });
+  const urgencySigil = take('urgency', `(?<![\\w!])(?:!([a-z]+)|(!{2,3}))(?![\\w!])`, (m) => {
+    const urgency = URGENCY_WORDS[(m[1] ?? m[2]).toLowerCase()];
+    if (!urgency) return false;
+    result.urgency = urgency;
+    return true;
+  });
+  if (!urgencySigil) {
+    take('urgency', `${START}(urgent|asap)${END}`, (m) => {
+      result.urgency = URGENCY_WORDS[m[1].toLowerCase()];
+      return true;
+    });
+  }
+
+  // ----- Repeat rules -----
+  const setRepeat = (freq: RecurrenceRule['freq'], interval: number, weekdays: number[] | null) => {
+    result.recurrence = { ...createRecurrenceRule(freq, toDateStr(today)), interval };
+    pending.weekdays = weekdays;
+  };
+  const everyRule = take(
+    'recurrence',
+    `${START}(?:every|each)\\s+(?:(other)\\s+|(\\d{1,2})\\s+)?(days?|weeks?|months?|weekdays?|weekends?|${WEEKDAY_SHORT_RE}(?:\\s*(?:,|and|&)\\s*${WEEKDAY_SHORT_RE})*)${END}`,
+    (m) => {
+      const interval = m[1] ? 2 : m[2] ? parseInt(m[2], 10) : 1;
+      if (interval < 1) return false;
+      const unit = m[3].toLowerCase();
+      if (unit.startsWith('day')) setRepeat('daily', interval, null);
+      else if (unit.startsWith('weekday')) setRepeat('weekly', interval, [1, 2, 3, 4, 5]);
+      else if (unit.startsWith('weekend')) setRepeat('weekly', interval, [6, 0]);
+      else if (unit.startsWith('week')) setRepeat('weekly', interval, null);
+      else if (unit.startsWith('month')) setRepeat('monthly', interval, null);
+      else {
+        const days = unit.split(/\s*(?:,|and|&)\s*/).map(weekdayIndex).filter((d) => d >= 0);
+        if (days.length === 0) return false;
+        setRepeat('weekly', interval, Array.from(new Set(days)));
+      }
+      return true;
+    }
+  );
+  if (!everyRule) {
+    take('recurrence', `${START}(daily|weekly|monthly|fortnightly|biweekly)${END}`, (m) => {
+      const word = m[1].toLowerCase();
+      if (word === 'daily') setRepeat('daily', 1, null);
+      else if (word === 'monthly') setRepeat('monthly', 1, null);
+      else setRepeat('weekly', word === 'weekly' ? 1 : 2, null);
+      return true;
+    });
+  }
+
+  // ----- Dates -----
+  // A single date phrase at position 0 of `m`; returns YYYY-MM-DD or null
+  const DATE_PATTERNS: { pattern: string; resolve: (m: RegExpExecArray) => string | null }[] = [
+    {
+      pattern: `(\\d{4})-(\\d{1,2})-(\\d{1,2})`,
+      resolve: (m) => makeDate(+m[2] - 1, +m[3], +m[1], today),
+    },
+    {
+      pattern: `(\\d{1,2})\\.(\\d{1,2})\\.(\\d{4})?`,
+      resolve: (m) => makeDate(+m[2] - 1, +m[1], m[3] ? +m[3] : null, today),
+    },
+    {
+      pattern: `(\\d{1,2})/(\\d{1,2})(?:/(\\d{2}|\\d{4}))?`,
+      resolve: (m) => makeDate(+m[1] - 1, +m[2], m[3] ? +m[3] : null, today),
+    },
+    {
+      pattern: `${MONTH_RE}\\.?\\s+(\\d{1,2})${ORDINAL_RE}(?:,?\\s+(\\d{4}))?`,
+      resolve: (m) => makeDate(monthIndex(m[1]), +m[2], m[3] ? +m[3] : null, today),
+    },
+    {
+      pattern: `(\\d{1,2})${ORDINAL_RE}\\s+(?:of\\s+)?${MONTH_RE}(?:,?\\s+(\\d{4}))?`,
+      resolve: (m) => makeDate(monthIndex(m[2]), +m[1], m[3] ? +m[3] : null, today),
+    },
+    {
+      pattern: `(today|tonight|tomorrow|tmrw?|day after tomorrow)`,
+      resolve: (m) => {
+        const word = m[1].toLowerCase();
+        if (word === 'today' || word === 'tonight') return toDateStr(today);
+        if (word === 'day after tomorrow') return toDateStr(addDays(today, 2));
+        return toDateStr(addDays(today, 1));
+      },
+    },
+    {
+      pattern: `in\\s+(a|an|\\d{1,3})\\s+(days?|weeks?|months?)`,
+      resolve: (m) => {
+        const n = m[1] === 'a' || m[1] === 'an' ? 1 : parseInt(m[1], 10);
+        const unit = m[2].toLowerCase();
+        if (unit.startsWith('day')) return toDateStr(addDays(today, n));
+        if (unit.startsWith('week')) return toDateStr(addWeeks(today, n));
+        return toDateStr(addMonths(today, n));
+      },
+    },
+    {
+      pattern: `(next|this)\\s+(week|month|weekend)`,
+      resolve: (m) => {
+        const which = m[1].toLowerCase();
+        const unit = m[2].toLowerCase();
+        if (unit === 'weekend') {
+          const saturday = upcomingWeekday(today, 6);
+          return toDateStr(which === 'next' && today.getDay() !== 0 ? addWeeks(saturday, 1) : saturday);
+        }
+        if (unit === 'week') {
+          return which === 'next' ? toDateStr(addWeeks(startOfWeek(today, { weekStartsOn: 1 }), 1)) : toDateStr(today);
+        }
+        return which === 'next' ? toDateStr(startOfMonth(addMonths(today, 1))) : toDateStr(today);
+      },
+    },
+    {
+      pattern: `(?:(next|this|on|by|due)\\s+)(${WEEKDAY_SHORT_RE})|(${WEEKDAY_LONG_RE})`,
+      resolve: (m) => {
+        const which = m[1]?.toLowerCase();
+        const weekday = weekdayIndex(m[2] ?? m[3]);
+        if (weekday < 0) return null;
+        if (which === 'next') {
+          // The weekday in the following Monday-based week
+          const nextWeek = addWeeks(startOfWeek(today, { weekStartsOn: 1 }), 1);
+          return toDateStr(addDays(nextWeek, (weekday + 6) % 7));
+        }
+        return toDateStr(upcomingWeekday(today, weekday));
+      },
+    },
+    {
+      pattern: `(weekend)`,
+      resolve: () => toDateStr(upcomingWeekday(today, 6)),
+    },
+  ];
+
+  const matchDate = (text: string): string | null => {
+    for (const { pattern, resolve } of DATE_PATTERNS) {
+      const m = new RegExp(`^(?:${pattern})$`, 'i').exec(text.trim());
+      if (m) return resolve(m);
+    }
+    return null;
+  };
+  const ANY_DATE_RE = DATE_PATTERNS.map((p) => `(?:${p.pattern})`).join('|');
+  const anyDate = (m: RegExpExecArray, group: number) => matchDate(m[group]);
+
+  // Multi-day end: "until friday", "through mar 20"
+  take('endDate', `${START}(?:until|till|til|through|thru)\\s+(${ANY_DATE_RE})${DATE_END}`, (m) => {
+    pending.untilDate = anyDate(m, 1);
+    return pending.untilDate != null;
+  });
+
+  // Day ranges within one month: "mar 14-16", "14-16 march"
+  const dayRange = take(
+    'date',
+    `${START}${DAY_PREFIX_RE}(?:${MONTH_RE}\\.?\\s+(\\d{1,2})${ORDINAL_RE}\\s*(?:-|–|to)\\s*(\\d{1,2})${ORDINAL_RE}|(\\d{1,2})${ORDINAL_RE}\\s*(?:-|–)\\s*(\\d{1,2})${ORDINAL_RE}\\s+(?:of\\s+)?${MONTH_RE})${DATE_END}`,
+    (m) => {
+      const month = monthIndex(m[1] ?? m[6]);
+      const startDay = +(m[2] ?? m[4]);
+      const endDay = +(m[3] ?? m[5]);
+      if (endDay <= startDay) return false;
+      const start = makeDate(month, startDay, null, today);
+      if (!start) return false;
+      const end = makeDate(month, endDay, parseISO(start).getFullYear(), today);
+      if (!end) return false;
+      result.date = start;
+      pending.untilDate = pending.untilDate ?? end;
+      return true;
+    }
+  );
+  if (!dayRange) {
+    take('date', `${START}${DAY_PREFIX_RE}(${ANY_DATE_RE})${DATE_END}`, (m) => {
+      result.date = anyDate(m, 1);
+      return result.date != null;
+    });
+  }
+
+  take('endDate', `${START}for\\s+(\\d{1,2})\\s+days${END}`, (m) => {
+    const days = parseInt(m[1], 10);
+    if (days < 2) return false;
+    pending.spanDays = days;
+    return true;
+  });
+
+  // ----- Times -----
+  const timeRange = take(
+    'time',
+    `${START}(?:(?:from|at)\\s+)?${TIME_RE}\\s*(?:-|–|to|until|till)\\s*${TIME_RE}${END}`,
+    (m) => {
+      const range = toTimeRange([m[1], m[2], m[3]], [m[4], m[5], m[6]]);
+      if (!range) return false;
+      [result.startTime, result.endTime] = range;
+      return true;
+    }
+  );
+  if (!timeRange) {
+    take(
+      'time',
+      `${START}(?:(?:at|from)\\s+)?(?:(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)|(\\d{1,2}):(\\d{2})|(noon|midday))${END}|${START}at\\s+(\\d{1,2})${END}`,
+      (m) => {
+        const time = m[6]
+          ? '12:00'
+          : m[3]
+            ? toTime(m[1], m[2], m[3])
+            : m[4]
+              ? toTime(m[4], m[5], undefined)
+              : toTime(m[7], undefined, undefined);
+        if (!time) return false;
+        result.startTime = time;
+        return true;
+      }
+    );
+  }
+
+  take(
+    'time',
+    `${START}for\\s+(an?|\\d+(?:\\.\\d+)?)\\s*(h|hrs?|hours?|m|mins?|minutes?)${END}`,
+    (m) => {
+      if (!result.startTime || result.endTime) return false;
+      const minutes = durationMinutes(m[1], m[2]);
+      if (minutes == null || timeToMinutes(result.startTime) + minutes >= 24 * 60) return false;
+      result.endTime = minutesToTime(timeToMinutes(result.startTime) + minutes);
+      return true;
+    }
+  );
+
+  // ----- Resolve anchors -----
+  const anchor = result.date ?? options.defaultDate ?? toDateStr(today);
+
+  if (result.recurrence) {
+    const { weekdays } = pending;
+    let start = anchor;
+    if (weekdays && weekdays.length > 0) {
+      // Start the series on its first matching day
+      const from = parseISO(anchor);
+      const offsets = weekdays.map((d) => (d - from.getDay() + 7) % 7);
+      start = toDateStr(addDays(from, Math.min(...offsets)));
+    }
+    result.recurrence = { ...createRecurrenceRule(result.recurrence.freq, start), interval: result.recurrence.interval };
+    if (weekdays) result.recurrence.by_weekday = weekdays;
+    if (pending.untilDate && pending.untilDate >= start) result.recurrence.until = pending.untilDate;
+    result.date = start;
+  } else {
+    if (pending.untilDate && pending.untilDate > anchor) {
+      result.date = anchor;
+      result.endDate = pending.untilDate;
+    }
+    if (pending.spanDays != null) {
+      result.date = anchor;
+      result.endDate = toDateStr(addDays(parseISO(anchor), pending.spanDays - 1));
+    }
+  }
+
+  if (result.endDate && !result.date) result.endDate = null;
+
+  // ----- Chip labels -----
+  const labelFor = (chip: QuickAddChip): string => {
+    switch (chip.field) {
+      case 'date':
+        if (!result.date) return chip.text;
+        // A day range ("mar 14-16") carries its own end date
+        return result.endDate && !chips.some((c) => c.field === 'endDate')
+          ? `${dateLabel(result.date, today)} – ${format(parseISO(result.endDate), 'MMM d')}`
+          : dateLabel(result.date, today);
+      case 'endDate':
+        return result.endDate ? `Until ${format(parseISO(result.endDate), 'MMM d')}` : chip.text;
+      case 'time':
+        return result.startTime ? (result.endTime ? `${result.startTime}–${result.endTime}` : result.startTime) : chip.text;
+      case 'energy':
+        return result.energy ? ENERGY_LABELS[result.energy] : chip.text;
+      case 'urgency':
+        return result.urgency ? URGENCY_LABELS[result.urgency] : chip.text;
+      case 'location':
+        return `@${result.location}`;
+      case 'recurrence':
+        return result.recurrence ? describeRecurrence(result.recurrence, result.date) : chip.text;
+    }
+  };
+
+  // One chip per field (a duration folds into the time chip)
+  const merged: QuickAddChip[] = [];
+  chips.forEach((chip) => {
+    const existing = merged.find((c) => c.field === chip.field);
+    if (existing) existing.text = `${existing.text} ${chip.text}`;
+    else merged.push({ ...chip });
+  });
+  // Repeat rules show their end in the recurrence chip; a dropped end date shows nothing
+  const visible = merged
+    .filter((c) => c.field !== 'endDate' || result.endDate)
+    .map((c) => ({ ...c, label: labelFor(c) }));
+
+  const title = rest
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([,.;:!?])/g, '$1')
+    .replace(/(?:^|\s)(?:at|on|by|from|due|for)\s*$/i, '')
+    .replace(/^[\s,;:-]+|[\s,;:-]+$/g, '')
+    .trim();
+
+  return { title, ...result, chips: visible };
+}
@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import type { RecurrenceRule, Task } from '@/types';
+import {
+  buildOccurrence,
+  createRecurrenceRule,
+  describeRecurrence,
+  expandTask,
+  getSetPosForDate,
+  listOccurrenceDates,
+  makeOccurrenceId,
+  occursOn,
+  parseOccurrenceId,
+  remainingRecurrence,
+  splitRecurrenceAt,
+} from './recurrence';
+
+const rule = (overrides: Partial<RecurrenceRule>): RecurrenceRule => ({
+  freq: 'daily',
+  interval: 1,
+  by_weekday: [],
+  by_month_day: null,
+  by_set_pos: null,
+  until: null,
+  count: null,
+  ...overrides,
+});
+
+const series = (overrides: Partial<Task>): Task =>
+  ({
+    id: 'series',
+    title: 'Repeat',
+    due_date: '2025-03-03',
+    end_date: null,
+    recurrence: rule({}),
+    recurrence_exceptions: [],
+    ...overrides,
+  }) as Task;
+
+describe('occurrence ids', () => {
+  it('round-trips the series id and date', () => {
+    const id = makeOccurrenceId('abc', '2025-03-14');
+    expect(parseOccurrenceId(id)).toEqual({ seriesId: 'abc', date: '2025-03-14' });
+  });
+
+  it('returns null for ordinary ids', () => {
+    expect(parseOccurrenceId('abc')).toBeNull();
+    expect(parseOccurrenceId('abc::tomorrow')).toBeNull();
+  });
+});
+
+describe('listOccurrenceDates', () => {
+  it('repeats daily with an interval', () => {
+    expect(listOccurrenceDates(rule({ interval: 2 }), '2025-03-01', '2025-03-07')).toEqual([
+      '2025-03-01',
+      '2025-03-03',
+      '2025-03-05',
+      '2025-03-07',
+    ]);
+  });
+
+  it('repeats weekly on several weekdays, Monday first', () => {
+    // 2025-03-05 is a Wednesday
+    expect(listOccurrenceDates(rule({ freq: 'weekly', by_weekday: [1, 5] }), '2025-03-05', '2025-03-17')).toEqual([
+      '2025-03-07',
+      '2025-03-10',
+      '2025-03-14',
+      '2025-03-17',
+    ]);
+  });
+
+  it('skips months without the day of month', () => {
+    expect(listOccurrenceDates(rule({ freq: 'monthly', by_month_day: 31 }), '2025-01-31', '2025-05-31')).toEqual([
+      '2025-01-31',
+      '2025-03-31',
+      '2025-05-31',
+    ]);
+  });
+
+  it('repeats monthly on the last weekday', () => {
+    // Last Friday of each month
+    expect(
+      listOccurrenceDates(rule({ freq: 'monthly', by_weekday: [5], by_set_pos: -1 }), '2025-01-31', '2025-04-30')
+    ).toEqual(['2025-01-31', '2025-02-28', '2025-03-28', '2025-04-25']);
+  });
+
+  it('stops at until', () => {
+    expect(listOccurrenceDates(rule({ until: '2025-03-03' }), '2025-03-01', '2025-03-31')).toHaveLength(3);
+  });
+
+  it('gives up on monthly rules that can never match', () => {
+    expect(listOccurrenceDates(rule({ freq: 'monthly', by_month_day: 32 }), '2025-01-01', '2025-12-31')).toEqual([]);
+    expect(
+      listOccurrenceDates(rule({ freq: 'monthly', by_weekday: [1], by_set_pos: 0 }), '2025-01-01', '2025-12-31')
+    ).toEqual([]);
+    expect(
+      expandTask(series({ recurrence: rule({ freq: 'monthly', by_weekday: [1], by_set_pos: 7 }) }), '2025-03-01', '2025-03-31')
+    ).toEqual([]);
+  });
+
+  it('counts excepted dates towards count without returning them', () => {
+    expect(listOccurrenceDates(rule({ count: 3 }), '2025-03-01', '2025-03-31', ['2025-03-02'])).toEqual([
+      '2025-03-01',
+      '2025-03-03',
+    ]);
+  });
+});
+
+describe('getSetPosForDate', () => {
+  it('numbers the weekday within its month', () => {
+    expect(getSetPosForDate('2025-03-03')).toBe(1);
+    expect(getSetPosForDate('2025-03-17')).toBe(3);
+    expect(getSetPosForDate('2025-03-31')).toBe(-1);
+  });
+});
+
+describe('expanding a series', () => {
+  it('expands occurrences in range with their own ids and span', () => {
+    const task = series({ end_date: '2025-03-04', recurrence: rule({ freq: 'weekly' }) });
+    const occurrences = expandTask(task, '2025-03-05', '2025-03-20');
+    expect(occurrences.map((t) => [t.id, t.due_date, t.end_date])).toEqual([
+      ['series::2025-03-10', '2025-03-10', '2025-03-11'],
+      ['series::2025-03-17', '2025-03-17', '2025-03-18'],
+    ]);
+  });
+
+  it('returns a one-off task only when it is in range', () => {
+    const task = series({ recurrence: null });
+    expect(expandTask(task, '2025-03-01', '2025-03-31')).toEqual([task]);
+    expect(expandTask(task, '2025-04-01', '2025-04-30')).toEqual([]);
+  });
+
+  it('knows whether a series occurs on a date', () => {
+    const task = series({ recurrence_exceptions: ['2025-03-04'] });
+    expect(occursOn(task, '2025-03-05')).toBe(true);
+    expect(occursOn(task, '2025-03-04')).toBe(false);
+    expect(occursOn(task, '2025-03-02')).toBe(false);
+  });
+
+  it('builds a single occurrence without a span for one-day tasks', () => {
+    expect(buildOccurrence(series({}), '2025-03-09')).toMatchObject({ id: 'series::2025-03-09', end_date: null });
+  });
+});
+
+describe('splitRecurrenceAt', () => {
+  it('ends the head the day before and carries the remaining count', () => {
+    const split = splitRecurrenceAt(rule({ count: 10 }), '2025-03-01', '2025-03-05', ['2025-03-02', '2025-03-07']);
+    expect(split.occurrencesBefore).toBe(4);
+    expect(split.head).toMatchObject({ until: '2025-03-04', count: null });
+    expect(split.tail.count).toBe(6);
+    expect(split.headExceptions).toEqual(['2025-03-02']);
+    expect(split.tailExceptions).toEqual(['2025-03-07']);
+  });
+
+  it('has no head when split at the first occurrence', () => {
+    const split = splitRecurrenceAt(rule({ count: 3 }), '2025-03-01', '2025-03-01');
+    expect(split.head).toBeNull();
+    expect(split.tail.count).toBe(3);
+  });
+
+  it('keeps at least one occurrence in the remainder', () => {
+    expect(remainingRecurrence(rule({ count: 2 }), 5).count).toBe(1);
+    expect(remainingRecurrence(rule({ until: '2025-04-01' }), 5)).toMatchObject({ count: null, until: '2025-04-01' });
+  });
+});
+
+describe('createRecurrenceRule and describeRecurrence', () => {
+  it('anchors new rules on the start date', () => {
+    expect(createRecurrenceRule('weekly', '2025-03-05').by_weekday).toEqual([3]);
+    expect(createRecurrenceRule('monthly', '2025-03-05').by_month_day).toBe(5);
+  });
+
+  it('describes rules', () => {
+    expect(describeRecurrence(rule({ freq: 'weekly', interval: 2, by_weekday: [5, 1], until: '2025-03-01' }))).toBe(
+      'Every 2 weeks on Mon, Fri, until Mar 1, 2025'
+    );
+    expect(describeRecurrence(rule({ freq: 'monthly', by_weekday: [2], by_set_pos: 2, count: 1 }))).toBe(
+      'Monthly on the second Tuesday, 1 time'
+    );
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Recurrence expansion for repeating tasks.
+ * Pure date math (no Supabase / React) so views and the task store can share it.
+ *
+ * A recurring task is stored once (the "series"); its due_date is the first
+ * occurrence (DTSTART). Views expand the series into per-day occurrences whose
+ * ids encode the series id and the occurrence date.
+ */
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  format,
+  getDaysInMonth,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+} from 'date-fns';
+import type { RecurrenceFrequency, RecurrenceRule, Task } from '@/types';
+
+const OCCURRENCE_ID_SEPARATOR = '::';
+
+// Safety cap so a malformed rule can never spin forever: limits both the dates produced and
+// the days, weeks or months stepped through looking for them (a rule may match none).
+const MAX_ITERATIONS = 10000;
+
+const WEEKDAY_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKDAY_LONG = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ORDINALS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' };
+
+const toDateStr = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Build the id of a single occurrence of a series (e.g. "abc123::2025-03-14")
+ */
+export function makeOccurrenceId(seriesId: string, dateStr: string): string {
+  return `${seriesId}${OCCURRENCE_ID_SEPARATOR}${dateStr}`;
+}
+
+/**
+ * Split an occurrence id back into its series id and date.
+ * Returns null for ordinary task ids.
+ */
+export function parseOccurrenceId(id: string): { seriesId: string; date: string } | null {
+  const idx = id.lastIndexOf(OCCURRENCE_ID_SEPARATOR);
+  if (idx <= 0) return null;
+  const date = id.slice(idx + OCCURRENCE_ID_SEPARATOR.length);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  return { seriesId: id.slice(0, idx), date };
+}
+
+export function isRecurring(task: Pick<Task, 'recurrence' | 'due_date'>): boolean {
+  return !!task.recurrence && !!task.due_date;
+}
+
+/**
+ * Default rule for a frequency, anchored on the series start date.
+ */
+export function createRecurrenceRule(freq: RecurrenceFrequency, startDateStr: string): RecurrenceRule {
+  const start = parseISO(startDateStr);
+  return {
+    freq,
+    interval: 1,
+    by_weekday: freq === 'weekly' ? [start.getDay()] : [],
+    by_month_day: freq === 'monthly' ? start.getDate() : null,
+    by_set_pos: null,
+    until: null,
+    count: null,
+  };
+}
+
+/**
+ * Nth weekday position of a date within its month (1-4, or -1 when it is the last one).
+ */
+export function getSetPosForDate(dateStr: string): number {
+  const date = parseISO(dateStr);
+  const nth = Math.ceil(date.getDate() / 7);
+  const isLast = date.getDate() + 7 > getDaysInMonth(date);
+  return isLast && nth >= 4 ? -1 : Math.min(nth, 4);
+}
+
+function monthlyDate(rule: RecurrenceRule, month: Date, start: Date): Date | null {
+  if (rule.by_set_pos != null) {
+    const weekday = rule.by_weekday[0] ?? start.getDay();
+    if (rule.by_set_pos === -1) {
+      const last = addDays(month, getDaysInMonth(month) - 1);
+      return subDays(last, (last.getDay() - weekday + 7) % 7);
+    }
+    const first = addDays(month, (weekday - month.getDay() + 7) % 7);
+    const candidate = addDays(first, (rule.by_set_pos - 1) * 7);
+    return candidate.getMonth() === month.getMonth() ? candidate : null;
+  }
+
+  // By date: months without that day (e.g. the 31st) are skipped, as in RFC 5545.
+  const day = rule.by_month_day ?? start.getDate();
+  if (day > getDaysInMonth(month)) return null;
+  return addDays(month, day - 1);
+}
+
+function* candidateDates(rule: RecurrenceRule, start: Date): Generator<Date> {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+
+  if (rule.freq === 'daily') {
+    for (let n = 0; n < MAX_ITERATIONS; n++) yield addDays(start, n * interval);
+  }
+
+  if (rule.freq === 'weekly') {
+    const weekdays = rule.by_weekday.length > 0 ? rule.by_weekday : [start.getDay()];
+    // Offsets from Monday so a week runs Mon..Sun like the planner views.
+    const offsets = Array.from(new Set(weekdays)).map((d) => (d + 6) % 7).sort((a, b) => a - b);
+    const firstWeek = startOfWeek(start, { weekStartsOn: 1 });
+    for (let n = 0; n < MAX_ITERATIONS; n++) {
+      const weekStart = addWeeks(firstWeek, n * interval);
+      for (const offset of offsets) {
+        const date = addDays(weekStart, offset);
+        if (date >= start) yield date;
+      }
+    }
+  }
+
+  if (rule.freq === 'monthly') {
+    const firstMonth = startOfMonth(start);
+    for (let n = 0; n < MAX_ITERATIONS; n++) {
+      const date = monthlyDate(rule, addMonths(firstMonth, n * interval), start);
+      if (date && date >= start) yield date;
+    }
+  }
+}
+
+/**
+ * All occurrence dates of a series from its start up to (and including) rangeEnd.
+ * until/count are honored; exception dates still count towards `count` but are not returned.
+ */
+export function listOccurrenceDates(
+  rule: RecurrenceRule,
+  startDateStr: string,
+  rangeEndStr: string,
+  exceptions: string[] = []
+): string[] {
+  const excluded = new Set(exceptions);
+  const result: string[] = [];
+  let produced = 0;
+  let iterations = 0;
+
+  for (const date of candidateDates(rule, parseISO(startDateStr))) {
+    if (++iterations > MAX_ITERATIONS) break;
+    const dateStr = toDateStr(date);
+    if (dateStr > rangeEndStr) break;
+    if (rule.until && dateStr > rule.until) break;
+    if (rule.count != null && produced >= rule.count) break;
+    produced++;
+    if (!excluded.has(dateStr)) result.push(dateStr);
+  }
+
+  return result;
+}
+
+/**
+ * Whether the series has an occurrence on the given date.
+ */
+export function occursOn(task: Task, dateStr: string): boolean {
+  if (!isRecurring(task)) return task.due_date === dateStr;
+  return listOccurrenceDates(task.recurrence!, task.due_date!, dateStr, task.recurrence_exceptions ?? []).includes(dateStr);
+}
+
+/**
+ * Build the occurrence of a series on a given date (keeps multi-day span).
+ */
+export function buildOccurrence(task: Task, dateStr: string): Task {
+  const span = task.end_date && task.due_date
+    ? differenceInCalendarDays(parseISO(task.end_date), parseISO(task.due_date))
+    : 0;
+  return {
+    ...task,
+    id: makeOccurrenceId(task.id, dateStr),
+    due_date: dateStr,
+    end_date: span > 0 ? toDateStr(addDays(parseISO(dateStr), span)) : null,
+  };
+}
+
+/**
+ * Expand one task into the occurrences whose start date falls inside [rangeStart, rangeEnd].
+ * Non-recurring tasks are returned as-is when their due_date is in range.
+ */
+export function expandTask(task: Task, rangeStartStr: string, rangeEndStr: string): Task[] {
+  if (!isRecurring(task)) {
+    return task.due_date && task.due_date >= rangeStartStr && task.due_date <= rangeEndStr ? [task] : [];
+  }
+  return listOccurrenceDates(task.recurrence!, task.due_date!, rangeEndStr, task.recurrence_exceptions ?? [])
+    .filter((d) => d >= rangeStartStr)
+    .map((d) => buildOccurrence(task, d));
+}
+
+/**
+ * Expand a task list for a date window (DayView / WeekView / month grids).
+ */
+export function expandTasksInRange(tasks: Task[], rangeStartStr: string, rangeEndStr: string): Task[] {
+  return tasks.flatMap((t) => expandTask(t, rangeStartStr, rangeEndStr));
+}
+
+/**
+ * A rule for the rest of a series after `occurrencesBefore` occurrences: a count limit covers
+ * what remains of it (until is a date, so it stays).
+ */
+export function remainingRecurrence(rule: RecurrenceRule, occurrencesBefore: number): RecurrenceRule {
+  return {
+    ...rule,
+    count: rule.count != null ? Math.max(1, rule.count - occurrencesBefore) : null,
+  };
+}
+
+/**
+ * Split a series at an occurrence for "this and following" edits.
+ * `head` is the rule for the original series (null when the split is at its first occurrence),
+ * `tail` the rule for the new series starting at dateStr, and `occurrencesBefore` how many
+ * occurrences the head keeps.
+ */
+export function splitRecurrenceAt(
+  rule: RecurrenceRule,
+  startDateStr: string,
+  dateStr: string,
+  exceptions: string[] = []
+): {
+  head: RecurrenceRule | null;
+  tail: RecurrenceRule;
+  headExceptions: string[];
+  tailExceptions: string[];
+  occurrencesBefore: number;
+} {
+  const dayBefore = toDateStr(subDays(parseISO(dateStr), 1));
+  // Count includes excepted dates, so count them without exceptions.
+  const before = dateStr > startDateStr ? listOccurrenceDates(rule, startDateStr, dayBefore).length : 0;
+
+  const head = before === 0 ? null : { ...rule, until: dayBefore, count: null };
+
+  return {
+    head,
+    tail: remainingRecurrence(rule, before),
+    occurrencesBefore: before,
+    headExceptions: exceptions.filter((d) => d < dateStr),
+    tailExceptions: exceptions.filter((d) => d >= dateStr),
+  };
+}
+
+/**
+ * Human readable summary, e.g. "Every 2 weeks on Mon, Fri, until Mar 1, 2025".
+ */
+export function describeRecurrence(rule: RecurrenceRule, startDateStr?: string | null): string {
+  const interval = Math.max(1, rule.interval || 1);
+  const unit = rule.freq === 'daily' ? 'day' : rule.freq === 'weekly' ? 'week' : 'month';
+  let text = interval === 1
+    ? { daily: 'Daily', weekly: 'Weekly', monthly: 'Monthly' }[rule.freq]
+    : `Every ${interval} ${unit}s`;
+
+  if (rule.freq === 'weekly' && rule.by_weekday.length > 0) {
+    const ordered = [...rule.by_weekday].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+    text += ` on ${ordered.map((d) => WEEKDAY_SHORT[d]).join(', ')}`;
+  }
+
+  if (rule.freq === 'monthly') {
+    if (rule.by_set_pos != null) {
+      const weekday = rule.by_weekday[0] ?? (startDateStr ? parseISO(startDateStr).getDay() : 1);
+      text += ` on the ${ORDINALS[rule.by_set_pos] ?? `${rule.by_set_pos}th`} ${WEEKDAY_LONG[weekday]}`;
+    } else {
+      const day = rule.by_month_day ?? (startDateStr ? parseISO(startDateStr).getDate() : 1);
+      text += ` on day ${day}`;
+    }
+  }
+
+  if (rule.until) {
+    text += `, until ${format(parseISO(rule.until), 'MMM d, yyyy')}`;
+  } else if (rule.count != null) {
+    text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  }
+
+  return text;
+}
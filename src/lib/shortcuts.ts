@@ -0,0 +1,137 @@
+/**
+ * Keyboard shortcuts: the catalog of remappable actions with their default keys, and helpers
+ * to turn key events into combos like "mod+k", "shift+arrowleft" or "?".
+ * "mod" is Cmd on macOS and Ctrl elsewhere.
+ */
+import type { KeyboardEvent as ReactKeyboardEvent } from 'react';
+import { getAllWindows } from '@/windows/windowRegistry';
+
+export interface ShortcutDefinition {
+  id: string; // matches the palette command id where there is one
+  title: string;
+  group: string;
+  defaultKeys: string[];
+  inDialogs?: boolean; // also fires while a dialog is open
+}
+
+export type ShortcutBindings = Record<string, string[]>;
+
+export const SHORTCUT_DEFINITIONS: ShortcutDefinition[] = [
+  { id: 'palette.open', title: 'Command palette', group: 'General', defaultKeys: ['mod+k'], inDialogs: true },
+  { id: 'help.shortcuts', title: 'Keyboard shortcuts', group: 'General', defaultKeys: ['?'], inDialogs: true },
+  { id: 'task.new', title: 'New task (at the focused slot in day and week views)', group: 'General', defaultKeys: ['c'] },
+
+  { id: 'calendar.previous', title: 'Previous day / week / month', group: 'Calendar', defaultKeys: ['p'] },
+  { id: 'calendar.next', title: 'Next day / week / month', group: 'Calendar', defaultKeys: ['n'] },
+  { id: 'view.today', title: 'Jump to today', group: 'Calendar', defaultKeys: ['t'] },
+  { id: 'view.zoom-in', title: 'Zoom in', group: 'Calendar', defaultKeys: ['='] },
+  { id: 'view.zoom-out', title: 'Zoom out', group: 'Calendar', defaultKeys: ['-'] },
+  { id: 'view.zoom.year', title: 'Year view', group: 'Calendar', defaultKeys: ['y'] },
+  { id: 'view.zoom.month', title: 'Month view', group: 'Calendar', defaultKeys: ['m'] },
+  { id: 'view.zoom.week', title: 'Week view', group: 'Calendar', defaultKeys: ['w'] },
+  { id: 'view.zoom.day', title: 'Day view', group: 'Calendar', defaultKeys: ['d'] },
+
+  { id: 'task.complete', title: 'Complete or reopen', group: 'Selected task', defaultKeys: ['x'] },
+  { id: 'task.delete', title: 'Delete', group: 'Selected task', defaultKeys: ['delete', 'backspace'] },
+  { id: 'task.move-earlier-day', title: 'Move a day earlier', group: 'Selected task', defaultKeys: ['arrowleft'] },
+  { id: 'task.move-later-day', title: 'Move a day later', group: 'Selected task', defaultKeys: ['arrowright'] },
+  { id: 'task.move-earlier', title: 'Move 30 minutes earlier', group: 'Selected task', defaultKeys: ['arrowup'] },
+  { id: 'task.move-later', title: 'Move 30 minutes later', group: 'Selected task', defaultKeys: ['arrowdown'] },
+
+  ...getAllWindows().map((w, i) => ({
+    id: `window.toggle.${w.id}`,
+    title: `Show or hide ${w.title}`,
+    group: 'Windows',
+    defaultKeys: [`alt+${i + 1}`],
+  })),
+];
+
+// Handled elsewhere (undo/redo, copy/paste); can't be assigned
+export const RESERVED_COMBOS = ['mod+z', 'mod+shift+z', 'mod+y', 'mod+c', 'mod+v'];
+
+const MODIFIER_KEYS = new Set(['control', 'meta', 'alt', 'shift', 'altgraph', 'capslock']);
+
+export const isMacPlatform = () => typeof navigator !== 'undefined' && /mac/i.test(navigator.platform);
+
+/**
+ * The combo for a key event, or null for a lone modifier.
+ * Shift is folded into symbols ("?" rather than "shift+/"); Alt uses the physical key
+ * so Option+1 on a Mac is still "alt+1".
+ */
+export function comboFromEvent(e: KeyboardEvent | ReactKeyboardEvent): string | null {
+  let key = e.key.toLowerCase();
+  if (MODIFIER_KEYS.has(key)) return null;
+
+  if (e.altKey) {
+    const physical = e.code.match(/^(?:Key|Digit)(.)$/);
+    if (physical) key = physical[1].toLowerCase();
+  }
+  if (key === ' ') key = 'space';
+
+  const isSymbol = key.length === 1 && !/[a-z0-9]/.test(key);
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('mod');
+  if (e.altKey) parts.push('alt');
+  if (e.shiftKey && !isSymbol) parts.push('shift');
+  parts.push(key);
+  return parts.join('+');
+}
+
+const KEY_LABELS: Record<string, string> = {
+  arrowleft: '←',
+  arrowright: '→',
+  arrowup: '↑',
+  arrowdown: '↓',
+  delete: 'Del',
+  backspace: '⌫',
+  escape: 'Esc',
+  enter: '↵',
+  space: 'Space',
+};
+
+/**
+ * "⌘K" on a Mac, "Ctrl+K" elsewhere.
+ */
+export function formatCombo(combo: string, mac = isMacPlatform()): string {
+  const labels = combo.split('+').map((part) => {
+    if (part === 'mod') return mac ? '⌘' : 'Ctrl';
+    if (part === 'alt') return mac ? '⌥' : 'Alt';
+    if (part === 'shift') return mac ? '⇧' : 'Shift';
+    return KEY_LABELS[part] ?? (part.length === 1 ? part.toUpperCase() : part.charAt(0).toUpperCase() + part.slice(1));
+  });
+  return labels.join(mac ? '' : '+');
+}
+
+export function defaultBindings(): ShortcutBindings {
+  return Object.fromEntries(SHORTCUT_DEFINITIONS.map((d) => [d.id, d.defaultKeys]));
+}
+
+/**
+ * Defaults with the user's remapped keys applied; overrides for unknown actions are dropped.
+ */
+export function resolveBindings(overrides: ShortcutBindings): ShortcutBindings {
+  const bindings = defaultBindings();
+  for (const [id, keys] of Object.entries(overrides)) {
+    if (id in bindings && Array.isArray(keys)) bindings[id] = keys.filter((k) => typeof k === 'string');
+  }
+  return bindings;
+}
+
+/**
+ * Combos bound to more than one action.
+ */
+export function findConflicts(bindings: ShortcutBindings): Map<string, string[]> {
+  const byCombo = new Map<string, string[]>();
+  for (const [id, keys] of Object.entries(bindings)) {
+    for (const combo of keys) byCombo.set(combo, [...(byCombo.get(combo) ?? []), id]);
+  }
+  return new Map([...byCombo].filter(([, ids]) => ids.length > 1));
+}
+
+/**
+ * Keys typed into a text field belong to the field; combos with Cmd/Ctrl don't type anything.
+ */
+export function belongsToTextField(combo: string, target: EventTarget | null): boolean {
+  if (combo.startsWith('mod+') || !(target instanceof HTMLElement)) return false;
+  return target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable;
+}
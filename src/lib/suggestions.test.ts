@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import type { Campaign, ContentSuggestion, Phase, Task } from '@/types';
+import {
+  SuggestionDraft,
+  SuggestionInput,
+  freshDrafts,
+  localSuggestionProvider,
+  pendingQueue,
+  suggestedDateLabel,
+} from './suggestions';
+
+// A Wednesday; the first day of spring (Mar 20) is 16 days away
+const TODAY = new Date(2026, 2, 4, 10, 0);
+
+const campaign = (overrides: Partial<Campaign>): Campaign => ({
+  id: 'c1',
+  user_id: 'u',
+  phase_id: null,
+  name: 'Spring EP',
+  description: null,
+  month: 4,
+  week: null,
+  energy_level: 'high',
+  status: 'planned',
+  tags: [],
+  created_at: '',
+  updated_at: '',
+  ...overrides,
+});
+
+const phase = (overrides: Partial<Phase>): Phase => ({
+  id: 'p1',
+  user_id: 'u',
+  name: 'Writing',
+  type: 'creation',
+  start_month: 2,
+  end_month: 4,
+  description: null,
+  color: null,
+  created_at: '',
+  ...overrides,
+});
+
+const input = (overrides: Partial<SuggestionInput>): SuggestionInput => ({
+  today: TODAY,
+  profile: { creatorType: 'musician', platforms: [], nicheKeywords: [] },
+  campaigns: [],
+  phases: [],
+  tasks: [],
+  ...overrides,
+});
+
+const draft = (overrides: Partial<SuggestionDraft>): SuggestionDraft => ({
+  title: 'Idea',
+  description: '',
+  content_type: 'tips',
+  suggested_date: '2026-03-10',
+  reason: '',
+  trend_source: null,
+  platform: null,
+  energy_level: 'medium',
+  confidence: 0.5,
+  related_campaign_id: null,
+  ...overrides,
+});
+
+const suggestion = (overrides: Partial<ContentSuggestion>): ContentSuggestion => ({
+  ...draft({}),
+  id: 's',
+  user_id: 'u',
+  status: 'pending',
+  created_at: '',
+  ...overrides,
+});
+
+const generate = (overrides: Partial<SuggestionInput>) => localSuggestionProvider.generate(input(overrides));
+
+describe('localSuggestionProvider', () => {
+  it('teases and announces a thinly planned campaign starting within a month', async () => {
+    const drafts = await generate({ campaigns: [campaign({})] });
+    expect(drafts.filter((d) => d.related_campaign_id === 'c1')).toMatchObject([
+      { title: 'Tease Spring EP', suggested_date: '2026-03-25', reason: 'Spring EP starts in 28 days', platform: 'instagram' },
+      { title: 'Announce Spring EP', suggested_date: '2026-04-01', energy_level: 'high', confidence: 0.8 },
+    ]);
+  });
+
+  it('leaves out campaigns that are far off, finished or already planned', async () => {
+    const planned = Array.from({ length: 3 }, (_, i) => ({ id: `t${i}`, campaign_id: 'c3' }) as Task);
+    const drafts = await generate({
+      campaigns: [
+        campaign({ id: 'c1', month: 9 }),
+        campaign({ id: 'c2', status: 'completed' }),
+        campaign({ id: 'c3' }),
+      ],
+      tasks: planned,
+    });
+    expect(drafts.some((d) => d.related_campaign_id)).toBe(false);
+  });
+
+  it('announces a running campaign without a teaser, no earlier than tomorrow', async () => {
+    const drafts = await generate({ campaigns: [campaign({ month: 3, status: 'active' })] });
+    expect(drafts.filter((d) => d.related_campaign_id)).toMatchObject([
+      { title: 'Announce Spring EP', suggested_date: '2026-03-05', reason: 'Spring EP is running this month' },
+    ]);
+  });
+
+  it('suggests an idea for the current phase, and recaps only in its last month', async () => {
+    const drafts = await generate({
+      phases: [phase({}), phase({ id: 'p2', name: 'Looking back', type: 'reflection', start_month: 3, end_month: 4 })],
+    });
+    const titles = drafts.map((d) => d.title);
+    expect(titles).toContain('Share a work-in-progress (Writing)');
+    expect(titles).not.toContain('Share a recap (Looking back)');
+
+    const lastMonth = await generate({ phases: [phase({ type: 'reflection', start_month: 1, end_month: 3 })] });
+    expect(lastMonth.map((d) => d.title)).toContain('Share a recap (Writing)');
+  });
+
+  it('suggests seasonal moments within the horizon only', async () => {
+    const seasonal = (await generate({})).filter((d) => d.trend_source === 'seasonal');
+    expect(seasonal).toMatchObject([
+      { title: 'Post a fresh-start update for First day of spring', suggested_date: '2026-03-17' },
+    ]);
+  });
+
+  it('rotates one niche keyword per week and uses the profile platforms', async () => {
+    const profile = { creatorType: null, platforms: ['youtube' as const], nicheKeywords: ['synths', 'mixing'] };
+    const [tips] = (await generate({ profile })).filter((d) => d.content_type === 'tips');
+    // ISO week 10 picks the first keyword
+    expect(tips).toMatchObject({ title: 'Quick tips on synths', platform: 'youtube', suggested_date: '2026-03-07' });
+  });
+
+  it('gives the same drafts for the same input', async () => {
+    const overrides = { campaigns: [campaign({})], phases: [phase({})] };
+    expect(await generate(overrides)).toEqual(await generate(overrides));
+  });
+});
+
+describe('freshDrafts', () => {
+  it('ranks by confidence, then the soonest date, and caps the run', () => {
+    const drafts = [
+      draft({ title: 'a', confidence: 0.4 }),
+      draft({ title: 'b', confidence: 0.8, suggested_date: '2026-03-20' }),
+      draft({ title: 'c', confidence: 0.8, suggested_date: '2026-03-06' }),
+      draft({ title: 'd', confidence: 0.6, suggested_date: null }),
+    ];
+    expect(freshDrafts(drafts, [], 3).map((d) => d.title)).toEqual(['c', 'b', 'd']);
+  });
+
+  it('skips drafts already queued in any status and duplicates within the run', () => {
+    const drafts = [
+      draft({ title: 'Announce Spring EP', related_campaign_id: 'c1' }),
+      draft({ title: 'announce spring ep ', related_campaign_id: 'c2' }),
+      draft({ title: 'Tips' }),
+      draft({ title: 'tips' }),
+    ];
+    const existing = [{ title: 'Announce Spring EP', related_campaign_id: 'c1' }];
+    expect(freshDrafts(drafts, existing).map((d) => d.title)).toEqual(['announce spring ep ', 'Tips']);
+  });
+});
+
+describe('pendingQueue', () => {
+  it('keeps pending suggestions, soonest first, then most confident, undated last', () => {
+    const queue = pendingQueue([
+      suggestion({ id: 'later', suggested_date: '2026-03-12' }),
+      suggestion({ id: 'undated', suggested_date: null, confidence: 0.9 }),
+      suggestion({ id: 'soon-low', suggested_date: '2026-03-06', confidence: 0.3 }),
+      suggestion({ id: 'soon-high', suggested_date: '2026-03-06', confidence: 0.7 }),
+      suggestion({ id: 'dismissed', suggested_date: '2026-03-05', status: 'dismissed' }),
+    ]);
+    expect(queue.map((s) => s.id)).toEqual(['soon-high', 'soon-low', 'later', 'undated']);
+  });
+});
+
+describe('suggestedDateLabel', () => {
+  it('labels nearby days by name and later ones by date', () => {
+    expect(suggestedDateLabel(null, TODAY)).toBeNull();
+    expect(suggestedDateLabel('2026-03-04', TODAY)).toBe('Today');
+    expect(suggestedDateLabel('2026-03-05', TODAY)).toBe('Tomorrow');
+    expect(suggestedDateLabel('2026-03-06', TODAY)).toBe('Fri');
+    expect(suggestedDateLabel('2026-03-20', TODAY)).toBe('Mar 20');
+  });
+});
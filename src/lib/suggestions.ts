@@ -0,0 +1,279 @@
+/**
+ * Content suggestions: the generator interface, a rule-based local generator and queue helpers.
+ * Any generator (the local rules, an AI backend) returns drafts; the queue stores them as pending
+ * suggestions until they are accepted, scheduled or dismissed.
+ */
+import { addDays, differenceInCalendarDays, format, getISOWeek, parseISO, startOfDay } from 'date-fns';
+import type { Campaign, ContentSuggestion, CreatorType, EnergyLevel, Phase, Platform, Task } from '@/types';
+import { PHASE_TYPE_LABELS, phaseCoversMonth, phaseMonthIndices } from '@/lib/campaigns';
+
+export type SuggestionDraft = Omit<ContentSuggestion, 'id' | 'user_id' | 'status' | 'created_at'>;
+
+export interface SuggestionProfile {
+  creatorType: string | null;
+  platforms: Platform[];
+  nicheKeywords: string[];
+}
+
+export interface SuggestionInput {
+  today: Date;
+  profile: SuggestionProfile;
+  campaigns: Campaign[];
+  phases: Phase[];
+  tasks: Task[];
+}
+
+export interface SuggestionProvider {
+  id: string;
+  generate: (input: SuggestionInput) => Promise<SuggestionDraft[]>;
+}
+
+// How many suggestions one generation adds to the queue at most
+export const MAX_SUGGESTIONS_PER_RUN = 6;
+
+// Days ahead the local rules look at
+const HORIZON_DAYS = 30;
+
+// Campaigns with fewer tasks than this get promo suggestions
+const THIN_CAMPAIGN_TASKS = 3;
+
+const toISODate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const SEASONAL_MOMENTS: { month: number; day: number; name: string; idea: string }[] = [
+  { month: 1, day: 1, name: 'New Year', idea: 'Share your goals for the year' },
+  { month: 2, day: 14, name: "Valentine's Day", idea: 'Share something you love about your craft' },
+  { month: 3, day: 20, name: 'First day of spring', idea: 'Post a fresh-start update' },
+  { month: 6, day: 21, name: 'Midsummer', idea: 'Share your summer plans' },
+  { month: 9, day: 1, name: 'Back to routine', idea: 'Share how you get back into a rhythm' },
+  { month: 10, day: 31, name: 'Halloween', idea: 'Post a themed behind-the-scenes' },
+  { month: 12, day: 15, name: 'Year in review', idea: 'Look back at your year' },
+];
+
+const PHASE_IDEAS: Record<Phase['type'], { title: string; content_type: string; energy: EnergyLevel; description: string }> = {
+  planning: {
+    title: 'Ask your audience what they want next',
+    content_type: 'poll',
+    energy: 'low',
+    description: 'A quick poll keeps people involved while you plan.',
+  },
+  creation: {
+    title: 'Share a work-in-progress',
+    content_type: 'behind_the_scenes',
+    energy: 'medium',
+    description: 'Show a rough cut, sketch or draft from what you are making.',
+  },
+  launch: {
+    title: 'Post a launch countdown',
+    content_type: 'countdown',
+    energy: 'high',
+    description: 'Build anticipation in the days before things go live.',
+  },
+  reflection: {
+    title: 'Share a recap',
+    content_type: 'recap',
+    energy: 'recovery',
+    description: 'What worked, what you learned and what comes next.',
+  },
+};
+
+const DEFAULT_CREATOR_PLATFORM: Partial<Record<CreatorType, Platform>> = {
+  musician: 'instagram',
+  visual_artist: 'instagram',
+  writer: 'newsletter',
+  coach: 'linkedin',
+  content_creator: 'tiktok',
+  entrepreneur: 'linkedin',
+};
+
+function pickPlatform(profile: SuggestionProfile, index: number): Platform | null {
+  if (profile.platforms.length > 0) return profile.platforms[index % profile.platforms.length];
+  return DEFAULT_CREATOR_PLATFORM[profile.creatorType as CreatorType] ?? null;
+}
+
+/**
+ * First day of a campaign: its week's first day, or the 1st of its month.
+ * Campaigns whose month has already passed this year fall in next year.
+ */
+function campaignStart(campaign: Campaign, today: Date): Date {
+  const year = campaign.month - 1 < today.getMonth() ? today.getFullYear() + 1 : today.getFullYear();
+  return new Date(year, campaign.month - 1, campaign.week ? (campaign.week - 1) * 7 + 1 : 1);
+}
+
+// Suggest a date no earlier than tomorrow
+function notBefore(date: Date, today: Date): Date {
+  const tomorrow = addDays(startOfDay(today), 1);
+  return date < tomorrow ? tomorrow : date;
+}
+
+/**
+ * Deterministic rule-based generator: the same input always gives the same drafts.
+ * Stands in for the AI and keeps suggestions coming when it is unavailable.
+ */
+export const localSuggestionProvider: SuggestionProvider = {
+  id: 'local',
+  generate: async ({ today, profile, campaigns, phases, tasks }) => {
+    const drafts: SuggestionDraft[] = [];
+    const day = startOfDay(today);
+    const month = day.getMonth();
+
+    // Campaigns starting soon that have little planned for them
+    const taskCounts = new Map<string, number>();
+    tasks.forEach((t) => {
+      if (t.campaign_id) taskCounts.set(t.campaign_id, (taskCounts.get(t.campaign_id) ?? 0) + 1);
+    });
+    campaigns
+      .filter((c) => c.status === 'planned' || c.status === 'active')
+      .forEach((campaign, i) => {
+        const start = campaignStart(campaign, day);
+        const daysAway = differenceInCalendarDays(start, day);
+        const running = campaign.month - 1 === month;
+        if (!running && daysAway > HORIZON_DAYS) return;
+        if ((taskCounts.get(campaign.id) ?? 0) >= THIN_CAMPAIGN_TASKS) return;
+
+        const platform = pickPlatform(profile, i);
+        if (daysAway > 7) {
+          drafts.push({
+            title: `Tease ${campaign.name}`,
+            description: 'A first hint so the launch does not come out of nowhere.',
+            content_type: 'teaser',
+            suggested_date: toISODate(notBefore(addDays(start, -7), day)),
+            reason: `${campaign.name} starts in ${daysAway} days`,
+            trend_source: null,
+            platform,
+            energy_level: 'medium',
+            confidence: 0.7,
+            related_campaign_id: campaign.id,
+          });
+        }
+        drafts.push({
+          title: `Announce ${campaign.name}`,
+          description: campaign.description || 'Tell people what is coming and when.',
+          content_type: 'announcement',
+          suggested_date: toISODate(notBefore(start, day)),
+          reason: running ? `${campaign.name} is running this month` : `${campaign.name} starts soon`,
+          trend_source: null,
+          platform,
+          energy_level: campaign.energy_level,
+          confidence: 0.8,
+          related_campaign_id: campaign.id,
+        });
+      });
+
+    // The phase the year is in right now
+    phases
+      .filter((phase) => phaseCoversMonth(phase, month))
+      .forEach((phase, i) => {
+        const idea = PHASE_IDEAS[phase.type];
+        const months = phaseMonthIndices(phase);
+        const isLastMonth = months[months.length - 1] === month;
+        // Recaps belong at the end of a phase
+        if (phase.type === 'reflection' && !isLastMonth) return;
+        drafts.push({
+          title: `${idea.title} (${phase.name})`,
+          description: idea.description,
+          content_type: idea.content_type,
+          suggested_date: toISODate(addDays(day, 2 + i)),
+          reason: `You are in a ${PHASE_TYPE_LABELS[phase.type].toLowerCase()} phase`,
+          trend_source: null,
+          platform: pickPlatform(profile, i),
+          energy_level: idea.energy,
+          confidence: 0.6,
+          related_campaign_id: null,
+        });
+      });
+
+    // Seasonal moments coming up
+    SEASONAL_MOMENTS.forEach((moment, i) => {
+      let date = new Date(day.getFullYear(), moment.month - 1, moment.day);
+      if (date < day) date = new Date(day.getFullYear() + 1, moment.month - 1, moment.day);
+      const daysAway = differenceInCalendarDays(date, day);
+      if (daysAway > HORIZON_DAYS) return;
+      drafts.push({
+        title: `${moment.idea} for ${moment.name}`,
+        description: `${moment.name} is on ${format(date, 'MMM d')}.`,
+        content_type: 'seasonal',
+        suggested_date: toISODate(notBefore(addDays(date, -3), day)),
+        reason: daysAway === 0 ? `${moment.name} is today` : `${moment.name} is in ${daysAway} days`,
+        trend_source: 'seasonal',
+        platform: pickPlatform(profile, i),
+        energy_level: 'medium',
+        confidence: 0.5,
+        related_campaign_id: null,
+      });
+    });
+
+    // One evergreen idea from the niche, rotating weekly
+    if (profile.nicheKeywords.length > 0) {
+      const week = getISOWeek(day);
+      const keyword = profile.nicheKeywords[week % profile.nicheKeywords.length];
+      drafts.push({
+        title: `Quick tips on ${keyword}`,
+        description: 'Three short tips your audience can use today.',
+        content_type: 'tips',
+        suggested_date: toISODate(addDays(day, 3)),
+        reason: `${keyword} is one of your topics`,
+        trend_source: null,
+        platform: pickPlatform(profile, week),
+        energy_level: 'low',
+        confidence: 0.4,
+        related_campaign_id: null,
+      });
+    }
+
+    return drafts;
+  },
+};
+
+const suggestionKey = (s: Pick<ContentSuggestion, 'title' | 'related_campaign_id'>) =>
+  `${s.title.trim().toLowerCase()}|${s.related_campaign_id ?? ''}`;
+
+/**
+ * Drafts not already in the queue (in any status, so dismissed ideas stay dismissed),
+ * best first, capped at `limit`.
+ */
+export function freshDrafts(
+  drafts: SuggestionDraft[],
+  existing: Pick<ContentSuggestion, 'title' | 'related_campaign_id'>[],
+  limit = MAX_SUGGESTIONS_PER_RUN
+): SuggestionDraft[] {
+  const seen = new Set(existing.map(suggestionKey));
+  const fresh: SuggestionDraft[] = [];
+  [...drafts]
+    .sort((a, b) => b.confidence - a.confidence || compareSuggestedDates(a, b))
+    .forEach((draft) => {
+      const key = suggestionKey(draft);
+      if (seen.has(key) || fresh.length >= limit) return;
+      seen.add(key);
+      fresh.push(draft);
+    });
+  return fresh;
+}
+
+function compareSuggestedDates(a: Pick<ContentSuggestion, 'suggested_date'>, b: Pick<ContentSuggestion, 'suggested_date'>) {
+  if (a.suggested_date === b.suggested_date) return 0;
+  if (!a.suggested_date) return 1;
+  if (!b.suggested_date) return -1;
+  return a.suggested_date.localeCompare(b.suggested_date);
+}
+
+/**
+ * Pending suggestions in queue order: soonest date first, then most confident.
+ */
+export function pendingQueue(suggestions: ContentSuggestion[]): ContentSuggestion[] {
+  return suggestions
+    .filter((s) => s.status === 'pending')
+    .sort((a, b) => compareSuggestedDates(a, b) || b.confidence - a.confidence);
+}
+
+/**
+ * "Tomorrow", "Fri", "Oct 24" for a suggested date.
+ */
+export function suggestedDateLabel(date: string | null, today = new Date()): string | null {
+  if (!date) return null;
+  const parsed = parseISO(date);
+  const days = differenceInCalendarDays(parsed, today);
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  if (days > 1 && days < 7) return format(parsed, 'EEE');
+  return format(parsed, 'MMM d');
+}
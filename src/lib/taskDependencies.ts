@@ -0,0 +1,117 @@
+/**
+ * Finish-to-start task dependencies: a task may not start before the tasks it depends on end.
+ * Pure functions over the task list so the store, the views and drag and drop agree on what is blocked.
+ */
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { Task } from '@/types';
+import { parseOccurrenceId } from './recurrence';
+
+type TaskLookup = Map<string, Task>;
+
+export const indexTasks = (tasks: Task[]): TaskLookup => new Map(tasks.map((t) => [t.id, t]));
+
+// Occurrences of a repeating task share the series' dependencies
+const baseId = (id: string) => parseOccurrenceId(id)?.seriesId ?? id;
+
+const dependencyIds = (task: Pick<Task, 'depends_on'> | undefined) => task?.depends_on ?? [];
+
+// A task ends on its last day (multi-day tasks) or its due date
+const lastDay = (task: Task) => task.end_date ?? task.due_date;
+
+/**
+ * Tasks this task waits on, skipping ids whose task has since been deleted.
+ */
+export function getDependencies(task: Task, lookup: TaskLookup): Task[] {
+  return dependencyIds(lookup.get(baseId(task.id)) ?? task)
+    .map((id) => lookup.get(id))
+    .filter((t): t is Task => !!t);
+}
+
+/**
+ * Unfinished dependencies; a task with any is blocked.
+ */
+export function getBlockers(task: Task, lookup: TaskLookup): Task[] {
+  return getDependencies(task, lookup).filter((t) => !t.completed);
+}
+
+export const isBlocked = (task: Task, lookup: TaskLookup) => !task.completed && getBlockers(task, lookup).length > 0;
+
+export function blockedLabel(blockers: Task[]): string {
+  if (blockers.length === 0) return '';
+  const names = blockers.slice(0, 2).map((t) => `"${t.title}"`).join(', ');
+  return `Waiting on ${names}${blockers.length > 2 ? ` and ${blockers.length - 2} more` : ''}`;
+}
+
+/**
+ * Whether making taskId depend on dependsOnId would close a loop (including depending on itself).
+ */
+export function wouldCreateCycle(tasks: Task[], taskId: string, dependsOnId: string): boolean {
+  const target = baseId(taskId);
+  const lookup = indexTasks(tasks);
+  const seen = new Set<string>();
+  const stack = [baseId(dependsOnId)];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === target) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...dependencyIds(lookup.get(id)));
+  }
+  return false;
+}
+
+/**
+ * Tasks that directly depend on taskId.
+ */
+export function getDependents(tasks: Task[], taskId: string): Task[] {
+  const id = baseId(taskId);
+  return tasks.filter((t) => dependencyIds(t).includes(id));
+}
+
+/**
+ * Everything downstream of taskId, nearest first.
+ */
+export function getAllDependents(tasks: Task[], taskId: string): Task[] {
+  const result: Task[] = [];
+  const seen = new Set([baseId(taskId)]);
+  const queue = [baseId(taskId)];
+  while (queue.length > 0) {
+    for (const dependent of getDependents(tasks, queue.shift()!)) {
+      if (seen.has(dependent.id)) continue;
+      seen.add(dependent.id);
+      result.push(dependent);
+      queue.push(dependent.id);
+    }
+  }
+  return result;
+}
+
+/**
+ * Unfinished dependencies that would still be running after the task starts on startDate (YYYY-MM-DD).
+ */
+export function getSchedulingConflicts(task: Task, startDate: string, tasks: Task[]): Task[] {
+  return getBlockers(task, indexTasks(tasks)).filter((dep) => {
+    const end = lastDay(dep);
+    return !!end && end > startDate;
+  });
+}
+
+export interface DependentShift {
+  id: string;
+  due_date: string;
+  end_date: string | null;
+}
+
+/**
+ * New dates for the unfinished, scheduled tasks downstream of a task moved from fromDate to toDate,
+ * keeping their spacing. Repeating tasks are left alone.
+ */
+export function planDependentShift(tasks: Task[], taskId: string, fromDate: string, toDate: string): DependentShift[] {
+  const days = differenceInCalendarDays(parseISO(toDate), parseISO(fromDate));
+  if (days === 0) return [];
+  const shift = (date: string) => format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+
+  return getAllDependents(tasks, taskId)
+    .filter((t) => !t.completed && t.due_date && !t.recurrence)
+    .map((t) => ({ id: t.id, due_date: shift(t.due_date!), end_date: t.end_date ? shift(t.end_date) : null }));
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import type { Campaign, Task } from '@/types';
+import { collectTags, createTaskMatcher, parseFilterQuery } from './taskFilter';
+
+const TODAY = '2026-03-04';
+
+const task = (id: string, overrides: Partial<Task> = {}): Task =>
+  ({
+    id,
+    title: id,
+    description: null,
+    energy_level: 'medium',
+    urgency: 'normal',
+    due_date: null,
+    end_date: null,
+    location: null,
+    completed: false,
+    recurrence: null,
+    campaign_id: null,
+    depends_on: [],
+    tags: [],
+    ...overrides,
+  }) as Task;
+
+const TASKS: Task[] = [
+  task('mix', { title: 'Mix track 3', energy_level: 'high', urgency: 'high', due_date: '2026-03-04', tags: ['release'], campaign_id: 'c1' }),
+  task('master', { title: 'Master the EP', due_date: '2026-03-09', depends_on: ['mix'], tags: ['release', 'audio'] }),
+  task('invoice', { title: 'Send invoice', energy_level: 'low', due_date: '2026-03-01' }),
+  task('sketch', { title: 'Sketch cover ideas', description: 'Moody, in blue', location: 'notes' }),
+  task('call', { title: 'Call the venue', energy_level: 'recovery', completed: true, due_date: '2026-03-02' }),
+  task('idea', { title: 'Tour merch' }),
+  task('weekly', { title: 'Weekly review', due_date: '2026-04-10', recurrence: { freq: 'weekly' } as Task['recurrence'] }),
+];
+
+const CAMPAIGNS = [{ id: 'c1', name: 'Spring Launch' }] as Campaign[];
+
+const run = (query: string) => {
+  const filter = parseFilterQuery(query);
+  const matches = createTaskMatcher(filter, { today: TODAY, tasks: TASKS, campaigns: CAMPAIGNS });
+  return TASKS.filter(matches).map((t) => t.id);
+};
+
+describe('parseFilterQuery', () => {
+  it('parses field operators, lists and negation', () => {
+    expect(parseFilterQuery('tag:a,B -energy:high,rec due:<=2w').clauses).toEqual([
+      { kind: 'tag', values: ['a', 'b'], negate: false },
+      { kind: 'energy', values: ['high', 'recovery'], negate: true },
+      { kind: 'due', test: { kind: 'compare', op: '<=', bound: { offset: 2, unit: 'w' } }, negate: false },
+    ]);
+  });
+
+  it('keeps quoted phrases together, after a key too', () => {
+    expect(parseFilterQuery('"mix track" -"the ep" campaign:"spring launch"').clauses).toEqual([
+      { kind: 'text', value: 'mix track', negate: false },
+      { kind: 'text', value: 'the ep', negate: true },
+      { kind: 'campaign', value: 'spring launch', negate: false },
+    ]);
+  });
+
+  it('reports terms it cannot understand and keeps the rest', () => {
+    const { clauses, errors } = parseFilterQuery('energy:huge urgency: due:soon due:2026-02-30 tag: campaign: is:odd mix');
+    expect(errors).toEqual([
+      'Unknown energy in "energy:huge"',
+      'Unknown urgency in "urgency:"',
+      'Unknown date in "due:soon"',
+      'Unknown date in "due:2026-02-30"',
+      '"tag:" needs a tag',
+      '"campaign:" needs a campaign name',
+      'Unknown state in "is:odd"',
+    ]);
+    expect(clauses).toEqual([{ kind: 'text', value: 'mix', negate: false }]);
+  });
+
+  it('treats unknown keys and a lone dash as text', () => {
+    expect(parseFilterQuery('ratio:16:9 -').clauses).toEqual([
+      { kind: 'text', value: 'ratio:16:9', negate: false },
+      { kind: 'text', value: '-', negate: false },
+    ]);
+  });
+});
+
+describe('createTaskMatcher', () => {
+  it('lets every task through an empty filter', () => {
+    expect(run('   ')).toHaveLength(TASKS.length);
+  });
+
+  it('matches tags, energy, urgency and campaigns', () => {
+    expect(run('tag:audio,missing')).toEqual(['master']);
+    expect(run('energy:low,rec')).toEqual(['invoice', 'call']);
+    expect(run('urgency:high')).toEqual(['mix']);
+    expect(run('campaign:spring')).toEqual(['mix']);
+    expect(run('campaign:none tag:release')).toEqual(['master']);
+  });
+
+  it('negates any term', () => {
+    expect(run('tag:release -energy:high')).toEqual(['master']);
+    expect(run('-scheduled -is:notes')).toEqual(['idea']);
+  });
+
+  it('searches title, description and tags, with quoted phrases', () => {
+    expect(run('blue')).toEqual(['sketch']);
+    expect(run('"the ep"')).toEqual(['master']);
+    expect(run('cover blue')).toEqual(['sketch']);
+    expect(run('"cover blue"')).toEqual([]);
+    expect(run('audio')).toEqual(['master']);
+  });
+
+  it('understands date keywords and relative bounds', () => {
+    expect(run('due:today')).toEqual(['mix']);
+    expect(run('due:<5d')).toEqual(['mix', 'invoice', 'call']);
+    expect(run('due:>=5d due:<1m')).toEqual(['master']);
+    expect(run('due:>2026-03-09')).toEqual(['weekly']);
+    expect(run('due:overdue')).toEqual(['invoice']);
+    expect(run('due:none')).toEqual(['sketch', 'idea']);
+  });
+
+  it('matches states as words and through is:', () => {
+    expect(run('done')).toEqual(['call']);
+    expect(run('is:open overdue')).toEqual(['invoice']);
+    expect(run('blocked')).toEqual(['master']);
+    expect(run('recurring')).toEqual(['weekly']);
+    expect(run('is:inbox')).toEqual(['idea']);
+    // Without is:, "notes" is a text search
+    expect(run('notes')).toEqual([]);
+  });
+
+  it('ignores terms that could not be parsed', () => {
+    expect(run('energy:huge tag:release')).toEqual(['mix', 'master']);
+  });
+});
+
+describe('collectTags', () => {
+  it('lists tags by use, then alphabetically', () => {
+    expect(collectTags(TASKS)).toEqual(['release', 'audio']);
+  });
+});
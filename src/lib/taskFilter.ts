@@ -0,0 +1,310 @@
+/**
+ * Task filter queries, e.g. `tag:release energy:high due:<7d -completed`.
+ * Deterministic and fully client-side: every planner view and pane runs tasks through the same
+ * parsed filter, so they agree on what is shown.
+ *
+ * Supported (prefix any term with - to negate it):
+ *   tag:release, tag:a,b        has any of the tags
+ *   energy:high, energy:low,rec energy level (high, med, low, rec)
+ *   urgency:high                urgency (low, normal, high, critical)
+ *   due:today, due:tomorrow     due on that day
+ *   due:<7d, due:>=2w, due:<1m  relative to today (overdue tasks count as before)
+ *   due:2026-03-14, due:<2026-03-14
+ *   due:overdue, due:none, due:any
+ *   campaign:launch             campaign name contains the text; campaign:none for no campaign
+ *   completed, done, open, blocked, overdue, recurring, scheduled, unscheduled, tagged
+ *   is:inbox, is:notes          any of the words above also work as is:<word>
+ *   anything else               matches title, description or tags; "quoted phrases" stay together
+ */
+import { addDays, addMonths, format, isValid, parseISO } from 'date-fns';
+import type { Campaign, EnergyLevel, Task, Urgency } from '@/types';
+import { indexTasks, isBlocked } from './taskDependencies';
+
+export type FilterFlag =
+  | 'completed'
+  | 'open'
+  | 'blocked'
+  | 'overdue'
+  | 'recurring'
+  | 'scheduled'
+  | 'unscheduled'
+  | 'tagged'
+  | 'inbox'
+  | 'notes';
+
+type RelativeUnit = 'd' | 'w' | 'm';
+type DateBound = { date: string } | { offset: number; unit: RelativeUnit };
+type Comparison = '<' | '<=' | '>' | '>=' | '=';
+
+export type DueTest =
+  | { kind: 'none' }
+  | { kind: 'any' }
+  | { kind: 'overdue' }
+  | { kind: 'compare'; op: Comparison; bound: DateBound };
+
+export type FilterClause = { negate: boolean } & (
+  | { kind: 'tag'; values: string[] }
+  | { kind: 'energy'; values: EnergyLevel[] }
+  | { kind: 'urgency'; values: Urgency[] }
+  | { kind: 'due'; test: DueTest }
+  | { kind: 'campaign'; value: string }
+  | { kind: 'flag'; flag: FilterFlag }
+  | { kind: 'text'; value: string }
+);
+
+export interface ParsedFilter {
+  clauses: FilterClause[];
+  errors: string[]; // terms that could not be understood; they are ignored
+}
+
+export interface FilterContext {
+  today: string; // YYYY-MM-DD
+  tasks: Task[]; // full list, for blocked checks
+  campaigns: Campaign[];
+}
+
+const ENERGY_WORDS: Record<string, EnergyLevel> = {
+  high: 'high',
+  medium: 'medium',
+  med: 'medium',
+  low: 'low',
+  recovery: 'recovery',
+  rec: 'recovery',
+};
+
+const URGENCY_WORDS: Record<string, Urgency> = {
+  low: 'low',
+  normal: 'normal',
+  high: 'high',
+  critical: 'critical',
+};
+
+const FLAG_WORDS: Record<string, FilterFlag> = {
+  completed: 'completed',
+  done: 'completed',
+  open: 'open',
+  blocked: 'blocked',
+  overdue: 'overdue',
+  recurring: 'recurring',
+  scheduled: 'scheduled',
+  unscheduled: 'unscheduled',
+  tagged: 'tagged',
+};
+
+// Only reachable through is:, so plain "inbox" or "notes" still searches the text
+const IS_ONLY_FLAGS: Record<string, FilterFlag> = {
+  inbox: 'inbox',
+  notes: 'notes',
+};
+
+export const EMPTY_FILTER: ParsedFilter = { clauses: [], errors: [] };
+
+/**
+ * Split on whitespace, keeping "quoted phrases" (also after key:) together.
+ */
+function tokenize(query: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /(-?(?:[a-z]+:)?)"([^"]*)"?|(\S+)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query)) !== null) {
+    if (match[3] !== undefined) tokens.push(match[3]);
+    else if (match[2].trim()) tokens.push(`${match[1]}${match[2].trim()}`);
+  }
+  return tokens;
+}
+
+const listValues = (value: string) => value.split(',').map((v) => v.trim().toLowerCase()).filter(Boolean);
+
+function parseBound(value: string): DateBound | null {
+  const relative = value.match(/^(\d+)([dwm])$/i);
+  if (relative) return { offset: Number(relative[1]), unit: relative[2].toLowerCase() as RelativeUnit };
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value))) return { date: value };
+  return null;
+}
+
+function parseDue(value: string): DueTest | null {
+  const word = value.toLowerCase();
+  if (word === 'none') return { kind: 'none' };
+  if (word === 'any') return { kind: 'any' };
+  if (word === 'overdue') return { kind: 'overdue' };
+  if (word === 'today') return { kind: 'compare', op: '=', bound: { offset: 0, unit: 'd' } };
+  if (word === 'tomorrow') return { kind: 'compare', op: '=', bound: { offset: 1, unit: 'd' } };
+
+  const match = value.match(/^(<=|>=|<|>)?(.+)$/);
+  if (!match) return null;
+  const bound = parseBound(match[2]);
+  if (!bound) return null;
+  return { kind: 'compare', op: (match[1] as Comparison | undefined) ?? '=', bound };
+}
+
+function parseTerm(term: string, negate: boolean): FilterClause | string {
+  const colon = term.indexOf(':');
+  const key = colon > 0 ? term.slice(0, colon).toLowerCase() : null;
+  const value = colon > 0 ? term.slice(colon + 1) : term;
+
+  switch (key) {
+    case 'tag':
+    case 'tags': {
+      const values = listValues(value);
+      return values.length > 0 ? { kind: 'tag', values, negate } : `"${term}" needs a tag`;
+    }
+    case 'energy': {
+      const words = listValues(value);
+      const values = words.map((w) => ENERGY_WORDS[w]);
+      if (words.length === 0 || values.some((v) => !v)) return `Unknown energy in "${term}"`;
+      return { kind: 'energy', values, negate };
+    }
+    case 'urgency': {
+      const words = listValues(value);
+      const values = words.map((w) => URGENCY_WORDS[w]);
+      if (words.length === 0 || values.some((v) => !v)) return `Unknown urgency in "${term}"`;
+      return { kind: 'urgency', values, negate };
+    }
+    case 'due': {
+      const test = parseDue(value);
+      return test ? { kind: 'due', test, negate } : `Unknown date in "${term}"`;
+    }
+    case 'campaign': {
+      const name = value.trim().toLowerCase();
+      return name ? { kind: 'campaign', value: name, negate } : `"${term}" needs a campaign name`;
+    }
+    case 'is': {
+      const word = value.toLowerCase();
+      const flag = FLAG_WORDS[word] ?? IS_ONLY_FLAGS[word];
+      return flag ? { kind: 'flag', flag, negate } : `Unknown state in "${term}"`;
+    }
+    case null: {
+      const flag = FLAG_WORDS[value.toLowerCase()];
+      if (flag) return { kind: 'flag', flag, negate };
+      return { kind: 'text', value: value.toLowerCase(), negate };
+    }
+    default:
+      // Not a known key: a plain search for text that happens to contain a colon
+      return { kind: 'text', value: term.toLowerCase(), negate };
+  }
+}
+
+export function parseFilterQuery(query: string): ParsedFilter {
+  const clauses: FilterClause[] = [];
+  const errors: string[] = [];
+
+  for (const token of tokenize(query)) {
+    const negate = token.length > 1 && token.startsWith('-');
+    const term = negate ? token.slice(1) : token;
+    const result = parseTerm(term, negate);
+    if (typeof result === 'string') errors.push(result);
+    else clauses.push(result);
+  }
+
+  return { clauses, errors };
+}
+
+export const isFilterActive = (filter: ParsedFilter) => filter.clauses.length > 0;
+
+function resolveBound(bound: DateBound, today: string): string {
+  if ('date' in bound) return bound.date;
+  const base = parseISO(today);
+  const date =
+    bound.unit === 'm' ? addMonths(base, bound.offset) : addDays(base, bound.unit === 'w' ? bound.offset * 7 : bound.offset);
+  return format(date, 'yyyy-MM-dd');
+}
+
+const isOverdue = (task: Task, today: string) => !task.completed && !!task.due_date && (task.end_date ?? task.due_date) < today;
+
+function matchesDue(task: Task, test: DueTest, today: string): boolean {
+  switch (test.kind) {
+    case 'none':
+      return !task.due_date;
+    case 'any':
+      return !!task.due_date;
+    case 'overdue':
+      return isOverdue(task, today);
+    case 'compare': {
+      if (!task.due_date) return false;
+      const bound = resolveBound(test.bound, today);
+      const due = task.due_date;
+      // ISO dates compare correctly as strings
+      if (test.op === '<') return due < bound;
+      if (test.op === '<=') return due <= bound;
+      if (test.op === '>') return due > bound;
+      if (test.op === '>=') return due >= bound;
+      return due === bound;
+    }
+  }
+}
+
+function matchesFlag(task: Task, flag: FilterFlag, ctx: FilterContext, lookup: () => ReturnType<typeof indexTasks>): boolean {
+  switch (flag) {
+    case 'completed':
+      return task.completed;
+    case 'open':
+      return !task.completed;
+    case 'blocked':
+      return isBlocked(task, lookup());
+    case 'overdue':
+      return isOverdue(task, ctx.today);
+    case 'recurring':
+      return !!task.recurrence;
+    case 'scheduled':
+      return !!task.due_date;
+    case 'unscheduled':
+      return !task.due_date;
+    case 'tagged':
+      return (task.tags ?? []).length > 0;
+    case 'inbox':
+      return !task.due_date && task.location === null;
+    case 'notes':
+      return task.location === 'notes';
+  }
+}
+
+/**
+ * Build a predicate for a parsed filter; an empty filter lets every task through.
+ */
+export function createTaskMatcher(filter: ParsedFilter, ctx: FilterContext): (task: Task) => boolean {
+  if (!isFilterActive(filter)) return () => true;
+
+  let lookupCache: ReturnType<typeof indexTasks> | null = null;
+  const lookup = () => (lookupCache ??= indexTasks(ctx.tasks));
+  const campaignNames = new Map(ctx.campaigns.map((c) => [c.id, c.name.toLowerCase()]));
+
+  const matchesClause = (task: Task, clause: FilterClause): boolean => {
+    const tags = task.tags ?? [];
+    switch (clause.kind) {
+      case 'tag':
+        return clause.values.some((tag) => tags.includes(tag));
+      case 'energy':
+        return clause.values.includes(task.energy_level);
+      case 'urgency':
+        return clause.values.includes(task.urgency);
+      case 'due':
+        return matchesDue(task, clause.test, ctx.today);
+      case 'campaign': {
+        if (clause.value === 'none') return !task.campaign_id;
+        const name = task.campaign_id ? campaignNames.get(task.campaign_id) : undefined;
+        return !!name && name.includes(clause.value);
+      }
+      case 'flag':
+        return matchesFlag(task, clause.flag, ctx, lookup);
+      case 'text':
+        return (
+          task.title.toLowerCase().includes(clause.value) ||
+          (task.description ?? '').toLowerCase().includes(clause.value) ||
+          tags.some((tag) => tag.includes(clause.value))
+        );
+    }
+  };
+
+  return (task) => filter.clauses.every((clause) => matchesClause(task, clause) !== clause.negate);
+}
+
+/**
+ * Every tag in use, most used first, for suggestions.
+ */
+export function collectTags(tasks: Task[]): string[] {
+  const counts = new Map<string, number>();
+  for (const task of tasks) {
+    for (const tag of task.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+}
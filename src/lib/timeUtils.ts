@@ -44,3 +44,16 @@ export const getTimeDurationMinutes = (
   
   return Math.max(15, (endHours - startHours) * 60);
 };
+
+/**
+ * Shift a time string by minutes; null when the result would leave the day
+ */
+export const shiftTime = (time: string | null | undefined, minutes: number): string | null => {
+  const hours = parseTimeToHours(time);
+  if (hours === null) return null;
+
+  const shifted = hours + minutes / 60;
+  if (shifted < 0 || shifted >= 24) return null;
+
+  return formatHoursToTime(shifted);
+};
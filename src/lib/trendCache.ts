@@ -0,0 +1,171 @@
+/**
+ * Trend cache: trending topics stored per user and niche keyword set until they expire,
+ * so opening the trends modal does not call the AI every time.
+ * Each trend carries TrendCache metadata (relevance, source, expiry) and lists are
+ * ranked by relevance to the profile's niche keywords.
+ */
+import { addHours } from 'date-fns';
+import type { EnergyLevel, TrendCache } from '@/types';
+
+export interface Trend {
+  title: string;
+  description: string;
+  content_ideas: string[];
+  platform: string;
+  urgency: 'now' | 'this_week' | 'this_month' | 'ongoing';
+  energy_level: EnergyLevel;
+  category: 'news' | 'seasonal' | 'industry' | 'viral' | 'evergreen';
+}
+
+export type CachedTrend = Trend & TrendCache;
+
+export interface TrendCacheEntry {
+  key: string;
+  fetched_at: string;
+  expires_at: string;
+  trends: CachedTrend[];
+}
+
+const storageKey = (userKey: string) => `luminoo-trend-cache:${userKey}`;
+
+// A fetched list is served for this long, unless every trend in it expires sooner
+const ENTRY_TTL_HOURS = 12;
+
+// Keyword sets kept; the least recently fetched is dropped first
+const MAX_ENTRIES = 5;
+
+// How long a single trend stays relevant
+const URGENCY_TTL_HOURS: Record<Trend['urgency'], number> = {
+  now: 6,
+  this_week: 24,
+  this_month: 72,
+  ongoing: 168,
+};
+
+const URGENCY_WEIGHT: Record<Trend['urgency'], number> = {
+  now: 1,
+  this_week: 0.75,
+  this_month: 0.5,
+  ongoing: 0.25,
+};
+
+const SOURCE_TYPES: Record<Trend['category'], TrendCache['source_type']> = {
+  news: 'news',
+  viral: 'social',
+  seasonal: 'seasonal',
+  industry: 'industry',
+  evergreen: 'industry',
+};
+
+const normalizeKeywords = (keywords: string[]) =>
+  [...new Set(keywords.map((k) => k.trim().toLowerCase()).filter(Boolean))].sort();
+
+/**
+ * Cache key for a keyword set; order and case do not matter.
+ */
+export function trendCacheKey(keywords: string[]): string {
+  return normalizeKeywords(keywords).join('|') || '*';
+}
+
+function mentions(text: string, keyword: string): boolean {
+  return text.toLowerCase().includes(keyword);
+}
+
+/**
+ * Relevance 0-1: keyword matches in the title count most, then the description and ideas,
+ * with a small boost for urgent trends.
+ */
+export function scoreTrend(trend: Trend, keywords: string[]): { score: number; matched: string[] } {
+  const normalized = normalizeKeywords(keywords);
+  const matched: string[] = [];
+  let weight = 0;
+  normalized.forEach((keyword) => {
+    let best = 0;
+    if (mentions(trend.title, keyword)) best = 1;
+    else if (mentions(trend.description, keyword)) best = 0.6;
+    else if (trend.content_ideas.some((idea) => mentions(idea, keyword))) best = 0.4;
+    if (best > 0) matched.push(keyword);
+    weight += best;
+  });
+
+  // Without keywords every trend is equally on-topic
+  const keywordScore = normalized.length > 0 ? Math.min(1, weight / Math.min(normalized.length, 3)) : 0.5;
+  const score = 0.8 * keywordScore + 0.2 * (URGENCY_WEIGHT[trend.urgency] ?? 0);
+  return { score: Math.round(score * 100) / 100, matched };
+}
+
+/**
+ * Most relevant first; ties keep the order the trends arrived in.
+ */
+export function rankTrends<T extends Pick<TrendCache, 'relevance_score'>>(trends: T[]): T[] {
+  return trends
+    .map((trend, index) => ({ trend, index }))
+    .sort((a, b) => b.trend.relevance_score - a.trend.relevance_score || a.index - b.index)
+    .map(({ trend }) => trend);
+}
+
+function readAll(userKey: string): TrendCacheEntry[] {
+  try {
+    const raw = localStorage.getItem(storageKey(userKey));
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeAll(userKey: string, entries: TrendCacheEntry[]) {
+  try {
+    localStorage.setItem(storageKey(userKey), JSON.stringify(entries));
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * The user's cached list for a keyword set with expired trends removed, or null when
+ * nothing usable is cached.
+ */
+export function readTrendCache(userKey: string, keywords: string[], now = new Date()): TrendCacheEntry | null {
+  const key = trendCacheKey(keywords);
+  const entry = readAll(userKey).find((e) => e.key === key);
+  if (!entry || new Date(entry.expires_at) <= now) return null;
+
+  const live = entry.trends.filter((t) => new Date(t.expires_at) > now);
+  if (live.length === 0) return null;
+  return { ...entry, trends: rankTrends(live) };
+}
+
+/**
+ * Score, rank and store freshly fetched trends for the user's keyword set.
+ */
+export function writeTrendCache(userKey: string, keywords: string[], trends: Trend[], now = new Date()): TrendCacheEntry {
+  const key = trendCacheKey(keywords);
+  const fetchedAt = now.toISOString();
+  const cached: CachedTrend[] = trends.map((trend) => {
+    const { score, matched } = scoreTrend(trend, keywords);
+    return {
+      ...trend,
+      id: crypto.randomUUID(),
+      topic: trend.title,
+      relevance_score: score,
+      source_type: SOURCE_TYPES[trend.category] ?? 'industry',
+      niche_keywords: matched,
+      detected_at: fetchedAt,
+      expires_at: addHours(now, URGENCY_TTL_HOURS[trend.urgency] ?? ENTRY_TTL_HOURS).toISOString(),
+    };
+  });
+
+  const entry: TrendCacheEntry = {
+    key,
+    fetched_at: fetchedAt,
+    expires_at: addHours(now, ENTRY_TTL_HOURS).toISOString(),
+    trends: rankTrends(cached),
+  };
+  const others = readAll(userKey)
+    .filter((e) => e.key !== key)
+    .sort((a, b) => b.fetched_at.localeCompare(a.fetched_at))
+    .slice(0, MAX_ENTRIES - 1);
+  writeAll(userKey, [entry, ...others]);
+  return entry;
+}
@@ -1,23 +1,45 @@
-import { useState, useEffect, useCallback, lazy, Suspense } from 'react';
+import { useState, useEffect, useCallback, useMemo, lazy, Suspense } from 'react';
 import type { Dispatch, SetStateAction } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Session, type User } from '@supabase/supabase-js';
-import { Loader2 } from 'lucide-react';
+import {
+  Brain,
+  CalendarDays,
+  CalendarRange,
+  CalendarSync,
+  Flag,
+  Loader2,
+  PanelLeft,
+  Plus,
+  Sun,
+  TrendingUp,
+  User as UserIcon,
+  Users,
+  ZoomIn,
+  ZoomOut,
+} from 'lucide-react';
 import Header from '@/components/layout/Header';
 import Sidebar from '@/components/layout/Sidebar';
 import DndProvider from '@/components/dnd/DndProvider';
 import MemoryPanel from '@/components/memory/MemoryPanel';
+import TaskFilterBar from '@/components/filters/TaskFilterBar';
+import CommandPalette from '@/components/command-palette/CommandPalette';
+import ShortcutsDialog from '@/components/shortcuts/ShortcutsDialog';
 import { TasksProvider, useTasksContext } from '@/contexts/TasksContext';
+import { CampaignsProvider } from '@/contexts/CampaignsContext';
+import { SuggestionsProvider } from '@/contexts/SuggestionsContext';
+import { FiltersProvider } from '@/contexts/FiltersContext';
+import { Command, CommandsProvider, useRegisterCommands } from '@/contexts/CommandsContext';
+import { ShortcutsProvider, useShortcuts } from '@/contexts/ShortcutsContext';
+import { UndoRecorder, useUndoOptional } from '@/contexts/UndoContext';
 import { useIsMobile } from '@/hooks/use-mobile';
 import WindowLayout from '@/windows/WindowLayout';
-import InboxPane from '@/windows/InboxPane';
-import CalendarPane from '@/windows/CalendarPane';
-import NotesPane from '@/windows/NotesPane';
-import NowPane from '@/windows/NowPane';
+import { WindowHostProvider } from '@/windows/WindowHostContext';
 import { WindowStateProvider, useWindowStateContext } from '@/windows/useWindowState';
 import { WorkspaceProvider } from '@/windows/WorkspaceContext';
 
+import { createChecklistItem } from '@/lib/checklist';
 import { ViewMode, ZoomLevel, EnergyLevel, ParsedItem, Platform } from '@/types';
 
 // Lazy load modals for better performance
@@ -26,6 +48,8 @@ const ProfileModal = lazy(() => import('@/components/profile/ProfileModal'));
 const TrendingTopicsModal = lazy(() => import('@/components/trends/TrendingTopicsModal'));
 const FriendsModal = lazy(() => import('@/components/friends/FriendsModal'));
 const QuickAddTaskDialog = lazy(() => import('@/components/tasks/QuickAddTaskDialog'));
+const CalendarSyncModal = lazy(() => import('@/components/calendar-sync/CalendarSyncModal'));
+const CampaignsModal = lazy(() => import('@/components/campaigns/CampaignsModal'));
 
 interface UserProfile {
   creatorType: string | null;
@@ -158,14 +182,24 @@ const Index = () => {
 
   return (
     <TasksProvider userId={user.id}>
-      <AuthenticatedApp
-        user={user}
-        session={session}
-        userProfile={userProfile}
-        setUserProfile={setUserProfile}
-        cachedViewState={cachedViewState}
-        cachedHighlight={cachedHighlight}
-      />
+      <CampaignsProvider userId={user.id}>
+        <SuggestionsProvider userId={user.id} profile={userProfile}>
+          <CommandsProvider>
+            <ShortcutsProvider userKey={user.id}>
+              <FiltersProvider userId={user.id}>
+                <AuthenticatedApp
+                  user={user}
+                  session={session}
+                  userProfile={userProfile}
+                  setUserProfile={setUserProfile}
+                  cachedViewState={cachedViewState}
+                  cachedHighlight={cachedHighlight}
+                />
+              </FiltersProvider>
+            </ShortcutsProvider>
+          </CommandsProvider>
+        </SuggestionsProvider>
+      </CampaignsProvider>
     </TasksProvider>
   );
 };
@@ -186,6 +220,7 @@ const AuthenticatedApp = ({
   cachedHighlight: string
 }) => {
   const { addTask, refreshTasks } = useTasksContext();
+  const undoContext = useUndoOptional();
   const navigate = useNavigate();
   const isMobile = useIsMobile();
 
@@ -204,6 +239,8 @@ const AuthenticatedApp = ({
   const [profileOpen, setProfileOpen] = useState(false);
   const [trendingOpen, setTrendingOpen] = useState(false);
   const [friendsOpen, setFriendsOpen] = useState(false);
+  const [calendarSyncOpen, setCalendarSyncOpen] = useState(false);
+  const [campaignsOpen, setCampaignsOpen] = useState(false);
   const [quickAddOpen, setQuickAddOpen] = useState(false);
   const [memoryOpen, setMemoryOpen] = useState(false);
 
@@ -263,6 +300,16 @@ const AuthenticatedApp = ({
     }
   }, [zoomLevel]);
 
+  const handleZoomIn = useCallback(() => {
+    if (zoomLevel === 'year') {
+      handleZoomLevelChange('month');
+    } else if (zoomLevel === 'month') {
+      handleZoomLevelChange('week');
+    } else if (zoomLevel === 'week') {
+      handleZoomLevelChange('day');
+    }
+  }, [zoomLevel, handleZoomLevelChange]);
+
   const handleJumpToToday = useCallback(() => {
     const today = new Date();
     setFocusedDate(today);
@@ -282,18 +329,29 @@ const AuthenticatedApp = ({
     setEnergyFilter([energy]);
   }, []);
 
-  const handleBrainDumpItems = useCallback(async (items: ParsedItem[]) => {
-    if (!user) return;
+  // Resolves to the created task ids in item order (null where an item failed)
+  const handleBrainDumpItems = useCallback(async (items: ParsedItem[]): Promise<(string | null)[]> => {
+    if (!user) return items.map(() => null);
+
+    const importItems = async (undo?: UndoRecorder) => {
+      const ids: (string | null)[] = [];
+      for (const item of items) {
+        const task = await addTask({
+          title: item.text,
+          energy_level: item.user_override_energy || item.detected_energy || 'medium',
+          due_date: item.due_date,
+          detected_from_brain_dump: true,
+          checklist: (item.subtasks ?? []).map(createChecklistItem),
+        }, { undo });
+        ids.push(task?.id ?? null);
+      }
+      return ids;
+    };
 
-    for (const item of items) {
-      await addTask({
-        title: item.text,
-        energy_level: item.user_override_energy || item.detected_energy || 'medium',
-        due_date: item.due_date,
-        detected_from_brain_dump: true,
-      });
-    }
-  }, [user, addTask]);
+    // The whole import undoes as one step
+    if (undoContext) return undoContext.transaction('Brain dump imported', importItems);
+    return importItems();
+  }, [user, addTask, undoContext]);
 
   const handleAddTrendTask = useCallback(async (title: string, energy: EnergyLevel) => {
     if (!user) return;
@@ -327,6 +385,43 @@ const AuthenticatedApp = ({
     setSidebarOpen(false);
   }, []);
 
+  const appCommands = useMemo((): Command[] => [
+    { id: 'view.today', title: 'Jump to today', group: 'Navigation', keywords: ['now', 'date'], icon: Sun, run: handleJumpToToday },
+    ...(['year', 'month', 'week', 'day'] as ZoomLevel[]).map((level) => ({
+      id: `view.zoom.${level}`,
+      title: `${level.charAt(0).toUpperCase()}${level.slice(1)} view`,
+      group: 'Navigation',
+      keywords: ['zoom', 'calendar'],
+      icon: level === 'day' || level === 'week' ? CalendarDays : CalendarRange,
+      run: () => handleZoomLevelChange(level),
+    })),
+    { id: 'view.zoom-in', title: 'Zoom in', group: 'Navigation', keywords: ['closer'], icon: ZoomIn, run: handleZoomIn },
+    { id: 'view.zoom-out', title: 'Zoom out', group: 'Navigation', keywords: ['back'], icon: ZoomOut, run: handleZoomOut },
+    { id: 'task.new', title: 'New task', group: 'Create', keywords: ['add', 'quick add'], icon: Plus, run: () => setQuickAddOpen(true) },
+    { id: 'open.brain-dump', title: 'Brain dump', group: 'Open', keywords: ['parse', 'notes'], icon: Brain, run: () => setBrainDumpOpen(true) },
+    { id: 'open.trends', title: 'Trending topics', group: 'Open', keywords: ['ideas'], icon: TrendingUp, run: () => setTrendingOpen(true) },
+    { id: 'open.friends', title: 'Friends & sharing', group: 'Open', keywords: ['share'], icon: Users, run: () => setFriendsOpen(true) },
+    { id: 'open.campaigns', title: 'Campaigns & phases', group: 'Open', icon: Flag, run: () => setCampaignsOpen(true) },
+    { id: 'open.calendar-sync', title: 'Import / export calendar', group: 'Open', keywords: ['ical', 'sync'], icon: CalendarSync, run: () => setCalendarSyncOpen(true) },
+    { id: 'open.profile', title: 'Profile & settings', group: 'Open', keywords: ['preferences'], icon: UserIcon, run: () => setProfileOpen(true) },
+    { id: 'view.sidebar', title: 'Toggle sidebar', group: 'Open', keywords: ['menu'], icon: PanelLeft, run: () => setSidebarOpen((prev) => !prev) },
+  ], [handleJumpToToday, handleZoomLevelChange, handleZoomIn, handleZoomOut]);
+
+  useRegisterCommands('app', appCommands);
+
+  useShortcuts({
+    'view.today': handleJumpToToday,
+    'view.zoom-in': handleZoomIn,
+    'view.zoom-out': handleZoomOut,
+    'view.zoom.year': () => handleZoomLevelChange('year'),
+    'view.zoom.month': () => handleZoomLevelChange('month'),
+    'view.zoom.week': () => handleZoomLevelChange('week'),
+    'view.zoom.day': () => handleZoomLevelChange('day'),
+  });
+
+  // Day and week views create at the focused slot instead
+  useShortcuts({ 'task.new': () => setQuickAddOpen(true) }, { fallback: true });
+
   // Pane area: uses WindowStateProvider as the single source of truth.
   const WindowedPaneArea = () => {
     const { visibleWindows } = useWindowStateContext();
@@ -334,39 +429,33 @@ const AuthenticatedApp = ({
     return (
       <div className="flex-1 overflow-hidden p-2 sm:p-4 lg:p-6 min-h-0">
         <div className="w-full h-full max-w-[1600px] 2xl:max-w-[1800px] mx-auto">
-          <WindowLayout visibleWindows={visibleWindows}>
-            {(windowId) => {
-              switch (windowId) {
-                case 'inbox':
-                  return <InboxPane energyFilter={energyFilter} onScheduleTask={handleScheduleTask} />;
-                case 'calendar':
-                  return (
-                    <CalendarPane
-                      viewMode={viewMode}
-                      zoomLevel={zoomLevel}
-                      focusedMonth={focusedMonth}
-                      focusedDate={focusedDate}
-                      currentEnergy={currentEnergy}
-                      energyFilter={energyFilter}
-                      onMonthClick={handleMonthClick}
-                      onDayClick={handleDayClick}
-                      onWeekClick={handleWeekClick}
-                      onZoomOut={handleZoomOut}
-                      onZoomLevelChange={handleZoomLevelChange}
-                      onJumpToToday={handleJumpToToday}
-                      onSetFocusedDate={setFocusedDate}
-                      onSetFocusedMonth={setFocusedMonth}
-                    />
-                  );
-                case 'notes':
-                  return <NotesPane />;
-                case 'now':
-                  return <NowPane />;
-                default:
-                  return null;
-              }
+          <WindowHostProvider
+            value={{
+              userId: user.id,
+              energyFilter,
+              onScheduleTask: handleScheduleTask,
+              calendar: {
+                viewMode,
+                zoomLevel,
+                focusedMonth,
+                focusedDate,
+                currentEnergy,
+                energyFilter,
+                onMonthClick: handleMonthClick,
+                onDayClick: handleDayClick,
+                onWeekClick: handleWeekClick,
+                onZoomOut: handleZoomOut,
+                onZoomLevelChange: handleZoomLevelChange,
+                onJumpToToday: handleJumpToToday,
+                onSetFocusedDate: setFocusedDate,
+                onSetFocusedMonth: setFocusedMonth,
+              },
+              userProfile,
+              onAddTrendTask: handleAddTrendTask,
             }}
-          </WindowLayout>
+          >
+            <WindowLayout visibleWindows={visibleWindows} />
+          </WindowHostProvider>
         </div>
       </div>
     );
@@ -399,6 +488,8 @@ const AuthenticatedApp = ({
               onBrainDumpClick={() => setBrainDumpOpen(true)}
               onTrendingClick={() => setTrendingOpen(true)}
               onFriendsClick={() => setFriendsOpen(true)}
+              onCalendarSyncClick={() => setCalendarSyncOpen(true)}
+              onCampaignsClick={() => setCampaignsOpen(true)}
               onJumpToToday={handleJumpToToday}
               memoryOpen={memoryOpen}
               onMemoryClick={() => setMemoryOpen(!memoryOpen)}
@@ -408,6 +499,7 @@ const AuthenticatedApp = ({
               onClearEnergies={() => setEnergyFilter([])}
             />
             <main className="flex-1 flex flex-col overflow-hidden min-w-0 min-h-0">
+              <TaskFilterBar />
               <WindowedPaneArea />
             </main>
 
@@ -420,6 +512,9 @@ const AuthenticatedApp = ({
             )}
           </div>
 
+          <CommandPalette onGoToDate={handleDayClick} />
+          <ShortcutsDialog />
+
           <Suspense fallback={null}>
             {brainDumpOpen && (
               <BrainDumpModal
@@ -443,6 +538,7 @@ const AuthenticatedApp = ({
               <TrendingTopicsModal
                 open={trendingOpen}
                 onOpenChange={setTrendingOpen}
+                userId={user.id}
                 userProfile={userProfile}
                 onAddTask={handleAddTrendTask}
               />
@@ -456,6 +552,22 @@ const AuthenticatedApp = ({
               />
             )}
 
+            {calendarSyncOpen && (
+              <CalendarSyncModal
+                open={calendarSyncOpen}
+                onOpenChange={setCalendarSyncOpen}
+                focusedDate={focusedDate ?? undefined}
+                energyFilter={energyFilter}
+              />
+            )}
+
+            {campaignsOpen && (
+              <CampaignsModal
+                open={campaignsOpen}
+                onOpenChange={setCampaignsOpen}
+              />
+            )}
+
             {quickAddOpen && (
               <QuickAddTaskDialog
                 open={quickAddOpen}
@@ -38,6 +38,22 @@ export type SuggestionStatus = 'pending' | 'accepted' | 'dismissed' | 'scheduled
 // Urgency Levels
 export type Urgency = 'low' | 'normal' | 'high' | 'critical';
 
+// Recurrence (RRULE-style repeat rules)
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number; // every N days/weeks/months
+  by_weekday: number[]; // 0 (Sun) - 6 (Sat); weekly days, or the single weekday for monthly nth-weekday
+  by_month_day: number | null; // monthly "on day N"
+  by_set_pos: number | null; // monthly "Nth weekday" (1-4, or -1 for last)
+  until: string | null; // inclusive end date (YYYY-MM-DD)
+  count: number | null; // total number of occurrences
+}
+
+// Which occurrences an edit to a recurring task applies to
+export type RecurrenceEditScope = 'this' | 'following' | 'all';
+
 // User Profile
 export interface Profile {
   id: string;
@@ -105,10 +121,22 @@ export interface Task {
   shared_with: string[];
   location: string | null;
   display_order: number;
+  recurrence: RecurrenceRule | null;
+  recurrence_exceptions: string[]; // occurrence dates (YYYY-MM-DD) removed from the series
+  ical_uid: string | null; // UID of the calendar event this task was imported from
+  depends_on: string[]; // ids of tasks that must be finished before this one starts
+  checklist: ChecklistItem[]; // ordered steps inside the task
+  tags: string[]; // lowercase, free-form
   created_at: string;
   updated_at: string;
 }
 
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
 // Brain Dump
 export interface BrainDump {
   id: string;
@@ -116,10 +144,20 @@ export interface BrainDump {
   raw_text: string;
   ai_parsed_result: ParsedBrainDumpResult | null;
   user_highlights: UserHighlight[];
-  items_added_to_planner: string[];
+  items_added_to_planner: string[]; // task ids, in import order
+  item_links: BrainDumpItemLink[];
+  previous_parsed_result: ParsedBrainDumpResult | null; // the parse replaced by the latest re-parse
   created_at: string;
 }
 
+// Which parsed item became which task
+export interface BrainDumpItemLink {
+  item_key: string; // normalized item text, see brainDumpItemKey
+  text: string;
+  task_id: string;
+  added_at: string;
+}
+
 export interface UserHighlight {
   text: string;
   start_index: number;
@@ -143,6 +181,7 @@ export interface ParsedItem {
   confidence: number;
   related_items: string[];
   due_date?: string | null;
+  subtasks?: string[]; // related items that go into this item's checklist instead of becoming tasks
 }
 
 // Content Suggestion (AI-generated)
@@ -163,6 +202,16 @@ export interface ContentSuggestion {
   created_at: string;
 }
 
+// Saved Filter (a named filter query, optionally pinned to the sidebar)
+export interface SavedFilter {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string;
+  pinned: boolean;
+  created_at: string;
+}
+
 // Trend Cache
 export interface TrendCache {
   id: string;
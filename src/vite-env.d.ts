@@ -1,3 +1,9 @@
 /// <reference types="vite/client" />
 
 declare const __BUILD_TIMESTAMP__: string;
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_AI_BACKEND?: 'supabase' | 'openai' | 'mock';
+}
@@ -1,35 +1,26 @@
 import PlannerView from '@/components/planner/PlannerView';
-import { EnergyLevel, ViewMode, ZoomLevel } from '@/types';
 import WindowFrame from './WindowFrame';
+import WindowEnergyFilter from './WindowEnergyFilter';
+import type { WindowPaneProps } from './windowRegistry';
+import { useInstanceCalendar, useWindowInstance } from './useWindowInstance';
 import { useDroppable } from '@dnd-kit/core';
 import { cn } from '@/lib/utils';
 import { useDndContext } from '@/components/dnd/DndProvider';
 
-interface CalendarPaneProps {
-  viewMode: ViewMode;
-  zoomLevel: ZoomLevel;
-  focusedMonth: number | null;
-  focusedDate: Date | null;
-  currentEnergy: EnergyLevel;
-  energyFilter: EnergyLevel[];
-  onMonthClick: (month: number) => void;
-  onDayClick: (date: Date) => void;
-  onWeekClick: (date: Date) => void;
-  onZoomOut: () => void;
-  onZoomLevelChange: (level: ZoomLevel) => void;
-  onJumpToToday: () => void;
-  onSetFocusedDate: (date: Date) => void;
-  onSetFocusedMonth: (month: number) => void;
-}
-
-export default function CalendarPane(props: CalendarPaneProps) {
+export default function CalendarPane({ instanceId }: WindowPaneProps) {
+  const props = useInstanceCalendar(instanceId);
+  const { title, energyFilter, setEnergyFilter } = useWindowInstance(instanceId);
   const { activeTask } = useDndContext();
   const { setNodeRef, isOver } = useDroppable({
-    id: 'zone:calendar',
+    id: `zone:${instanceId}`,
     data: { kind: 'zone', zone: 'calendar', date: props.focusedDate ?? new Date() },
   });
   return (
-    <WindowFrame title="Calendar" className="h-full">
+    <WindowFrame
+      title={title}
+      className="h-full"
+      actions={setEnergyFilter && <WindowEnergyFilter value={energyFilter} onChange={setEnergyFilter} />}
+    >
       <div
         ref={setNodeRef}
         className={cn(
@@ -40,7 +31,7 @@ export default function CalendarPane(props: CalendarPaneProps) {
       >
         {import.meta.env.DEV && activeTask && (
           <div className="pointer-events-none absolute top-2 right-2 z-50 text-[10px] text-blue-200/80 bg-blue-500/10 border border-blue-500/30 rounded px-2 py-1">
-            droppable: zone:calendar
+            droppable: zone:{instanceId}
           </div>
         )}
         <PlannerView {...props} />
@@ -0,0 +1,99 @@
+import { useMemo } from 'react';
+import { MoreHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Progress } from '@/components/ui/progress';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { useCampaigns } from '@/contexts/CampaignsContext';
+import { CAMPAIGN_STATUS_LABELS, campaignColor, campaignProgressMap, campaignWhenLabel } from '@/lib/campaigns';
+import type { CampaignStatus } from '@/types';
+import WindowFrame from './WindowFrame';
+
+const COLUMNS: CampaignStatus[] = ['planned', 'active', 'paused', 'completed'];
+
+/**
+ * Campaigns in a column per status; the card menu moves a campaign between columns.
+ */
+export default function CampaignBoardPane() {
+  const { tasks } = useTasksContext();
+  const { campaigns, phases, loading, updateCampaign } = useCampaigns();
+
+  const progress = useMemo(() => campaignProgressMap(tasks, campaigns), [tasks, campaigns]);
+
+  return (
+    <WindowFrame title="Campaign board" className="h-full">
+      {campaigns.length === 0 ? (
+        <p className="py-8 text-center text-sm text-foreground-muted">{loading ? 'Loading…' : 'No campaigns yet'}</p>
+      ) : (
+        <div className="grid gap-3 grid-cols-[repeat(auto-fit,minmax(180px,1fr))]">
+          {COLUMNS.map((status) => {
+            const column = campaigns
+              .filter((c) => c.status === status)
+              .sort((a, b) => a.month - b.month || (a.week ?? 0) - (b.week ?? 0) || a.name.localeCompare(b.name));
+            return (
+              <section key={status} className="min-w-0 rounded-lg bg-secondary/30 p-2">
+                <h4 className="mb-2 flex items-center justify-between px-1 text-xs font-medium uppercase tracking-wide text-foreground-muted">
+                  {CAMPAIGN_STATUS_LABELS[status]}
+                  <span className="tabular-nums">{column.length}</span>
+                </h4>
+                <div className="space-y-1.5">
+                  {column.map((campaign) => {
+                    const p = progress.get(campaign.id);
+                    const phase = phases.find((ph) => ph.id === campaign.phase_id);
+                    return (
+                      <div key={campaign.id} className="rounded-lg border border-border/50 bg-card px-3 py-2">
+                        <div className="flex items-center gap-2">
+                          <span
+                            className="w-2.5 h-2.5 rounded-full flex-shrink-0"
+                            style={{ backgroundColor: campaignColor(campaign, phases) }}
+                          />
+                          <span className="flex-1 text-sm font-medium truncate">{campaign.name}</span>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6"
+                                aria-label={`Move ${campaign.name}`}
+                              >
+                                <MoreHorizontal className="w-3.5 h-3.5" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuLabel className="text-xs text-muted-foreground">Move to</DropdownMenuLabel>
+                              {COLUMNS.filter((s) => s !== status).map((s) => (
+                                <DropdownMenuItem key={s} onClick={() => updateCampaign(campaign.id, { status: s })}>
+                                  {CAMPAIGN_STATUS_LABELS[s]}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </div>
+                        <div className="mt-1 truncate text-xs text-foreground-muted pl-[18px]">
+                          {campaignWhenLabel(campaign)}
+                          {phase && ` · ${phase.name}`}
+                        </div>
+                        <div className="mt-2 flex items-center gap-2 pl-[18px]">
+                          <Progress value={p?.percent ?? 0} className="h-1.5 flex-1" />
+                          <span className="text-[11px] tabular-nums text-foreground-muted">
+                            {p?.completed ?? 0}/{p?.total ?? 0}
+                          </span>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </WindowFrame>
+  );
+}
@@ -1,20 +1,24 @@
-import { EnergyLevel } from '@/types';
 import UnscheduledTasks from '@/components/planner/UnscheduledTasks';
 import WindowFrame from './WindowFrame';
+import WindowEnergyFilter from './WindowEnergyFilter';
+import { useWindowHost } from './WindowHostContext';
+import type { WindowPaneProps } from './windowRegistry';
+import { useWindowInstance } from './useWindowInstance';
 import { useDroppable } from '@dnd-kit/core';
 import { cn } from '@/lib/utils';
 import { useDndContext } from '@/components/dnd/DndProvider';
 
-interface InboxPaneProps {
-  energyFilter: EnergyLevel[];
-  onScheduleTask: (taskId: string, date: Date) => void;
-}
-
-export default function InboxPane({ energyFilter, onScheduleTask }: InboxPaneProps) {
+export default function InboxPane({ instanceId }: WindowPaneProps) {
+  const { onScheduleTask } = useWindowHost();
+  const { title, energyFilter, setEnergyFilter } = useWindowInstance(instanceId);
   const { activeTask } = useDndContext();
-  const { setNodeRef, isOver } = useDroppable({ id: 'zone:inbox', data: { kind: 'zone', zone: 'inbox' } });
+  const { setNodeRef, isOver } = useDroppable({ id: `zone:${instanceId}`, data: { kind: 'zone', zone: 'inbox' } });
   return (
-    <WindowFrame title="Inbox" className="h-full">
+    <WindowFrame
+      title={title}
+      className="h-full"
+      actions={setEnergyFilter && <WindowEnergyFilter value={energyFilter} onChange={setEnergyFilter} />}
+    >
       <div
         ref={setNodeRef}
         className={cn(
@@ -25,7 +29,7 @@ export default function InboxPane({ energyFilter, onScheduleTask }: InboxPanePro
       >
         {import.meta.env.DEV && activeTask && (
           <div className="pointer-events-none absolute top-2 right-2 text-[10px] text-blue-200/80 bg-blue-500/10 border border-blue-500/30 rounded px-2 py-1">
-            droppable: zone:inbox
+            droppable: zone:{instanceId}
           </div>
         )}
         <UnscheduledTasks energyFilter={energyFilter} onScheduleTask={onScheduleTask} />
@@ -0,0 +1,12 @@
+import MemoryPanel from '@/components/memory/MemoryPanel';
+import WindowFrame from './WindowFrame';
+import { useWindowHost } from './WindowHostContext';
+
+export default function MemoryPane() {
+  const { userId } = useWindowHost();
+  return (
+    <WindowFrame title="Memory" className="h-full">
+      <MemoryPanel userId={userId} isOpen variant="window" onClose={() => {}} />
+    </WindowFrame>
+  );
+}
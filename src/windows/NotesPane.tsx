@@ -3,6 +3,7 @@ import { useDroppable } from '@dnd-kit/core';
 import { cn } from '@/lib/utils';
 import WindowFrame from './WindowFrame';
 import { useTasksContext } from '@/contexts/TasksContext';
+import { useFilters } from '@/contexts/FiltersContext';
 import type { Task } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -12,10 +13,11 @@ import { useDndContext } from '@/components/dnd/DndProvider';
 
 export default function NotesPane() {
   const { notesTasks, addNotesTask, updateTask, deleteTask } = useTasksContext();
+  const { matchesTask, isActive: filterActive } = useFilters();
   const { activeTask } = useDndContext();
   const { setNodeRef, isOver } = useDroppable({ id: 'zone:notes', data: { kind: 'zone', zone: 'notes' } });
 
-  const notes = useMemo(() => notesTasks, [notesTasks]);
+  const notes = useMemo(() => notesTasks.filter(matchesTask), [notesTasks, matchesTask]);
 
   const [title, setTitle] = useState('');
 
@@ -68,7 +70,9 @@ export default function NotesPane() {
         <div className="flex-1 min-h-0 overflow-auto space-y-2">
           {notes.length === 0 ? (
             <div className="text-sm text-muted-foreground">
-              Drop tasks here to pin them. Drag back out to Inbox or Calendar.
+              {filterActive && notesTasks.length > 0
+                ? 'No notes match the active filter.'
+                : 'Drop tasks here to pin them. Drag back out to Inbox or Calendar.'}
             </div>
           ) : (
             notes.map((t: Task) => (
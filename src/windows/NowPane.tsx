@@ -3,24 +3,37 @@ import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import WindowFrame from './WindowFrame';
 import { useTasksContext } from '@/contexts/TasksContext';
+import { useFilters } from '@/contexts/FiltersContext';
+import { expandTasksInRange, isRecurring } from '@/lib/recurrence';
 import type { Task } from '@/types';
-import { CalendarCheck, Plus } from 'lucide-react';
+import { CalendarCheck, Lock, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { useTaskBlockers } from '@/hooks/useTaskBlockers';
+import { blockedLabel } from '@/lib/taskDependencies';
 
 function NowTaskRow({ task }: { task: Task }) {
+  const blockers = useTaskBlockers(task);
+  const isBlocked = blockers.length > 0;
+
   return (
     <div
       className={cn(
         'flex items-center gap-2 rounded-lg border border-border bg-card/60 px-2 py-2 min-h-[44px] min-w-0',
+        isBlocked && 'border-dashed bg-card/30',
       )}
     >
       <div className="flex-shrink-0 w-6 h-6 rounded-md bg-secondary/60 flex items-center justify-center">
-        <CalendarCheck className="w-4 h-4 text-highlight" />
+        {isBlocked ? (
+          <Lock className="w-4 h-4 text-muted-foreground" />
+        ) : (
+          <CalendarCheck className="w-4 h-4 text-highlight" />
+        )}
       </div>
       <div className="min-w-0 flex-1">
-        <div className="text-sm font-medium truncate">{task.title}</div>
+        <div className={cn('text-sm font-medium truncate', isBlocked && 'text-muted-foreground')}>{task.title}</div>
         <div className="text-xs text-muted-foreground truncate">
           {task.start_time ? task.start_time.slice(0, 5) : 'Untimed'}
+          {isBlocked && ` · ${blockedLabel(blockers)}`}
         </div>
       </div>
     </div>
@@ -44,13 +57,19 @@ function Section({ title, tasks }: { title: string; tasks: Task[] }) {
 
 export default function NowPane() {
   const { tasks, addTask } = useTasksContext();
+  const { matchesTask, isActive: filterActive } = useFilters();
   const todayStr = format(new Date(), 'yyyy-MM-dd');
 
   const relevant = useMemo(() => tasks.filter((t) => !t.completed && t.location !== 'notes' && t.location !== 'memory'), [tasks]);
 
-  const scheduledToday = useMemo(() => relevant.filter((t) => t.due_date === todayStr && !!t.start_time), [relevant, todayStr]);
-  const todayUntimed = useMemo(() => relevant.filter((t) => t.due_date === todayStr && !t.start_time), [relevant, todayStr]);
-  const overdue = useMemo(() => relevant.filter((t) => t.due_date && t.due_date < todayStr), [relevant, todayStr]);
+  const today = useMemo(() => expandTasksInRange(relevant, todayStr, todayStr).filter(matchesTask), [relevant, todayStr, matchesTask]);
+  const scheduledToday = useMemo(() => today.filter((t) => !!t.start_time), [today]);
+  const todayUntimed = useMemo(() => today.filter((t) => !t.start_time), [today]);
+  // A series that started in the past isn't overdue; only its occurrences are shown.
+  const overdue = useMemo(
+    () => relevant.filter((t) => t.due_date && t.due_date < todayStr && !isRecurring(t) && matchesTask(t)),
+    [relevant, todayStr, matchesTask]
+  );
 
   const isEmpty = scheduledToday.length === 0 && todayUntimed.length === 0;
 
@@ -64,7 +83,7 @@ export default function NowPane() {
         {isEmpty && (
           <div className="mt-2 flex flex-col gap-2">
             <div className="text-sm text-muted-foreground">
-              Nothing scheduled for today yet.
+              {filterActive ? 'Nothing for today matches the active filter.' : 'Nothing scheduled for today yet.'}
             </div>
             <Button
               variant="outline"
@@ -0,0 +1,12 @@
+import TrendingTopics from '@/components/trends/TrendingTopics';
+import WindowFrame from './WindowFrame';
+import { useWindowHost } from './WindowHostContext';
+
+export default function TrendsPane() {
+  const { userId, userProfile, onAddTrendTask } = useWindowHost();
+  return (
+    <WindowFrame title="Trends" className="h-full">
+      <TrendingTopics active userId={userId} userProfile={userProfile} onAddTask={onAddTrendTask} className="h-full" />
+    </WindowFrame>
+  );
+}
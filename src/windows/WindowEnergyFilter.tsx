@@ -0,0 +1,67 @@
+import { Check, Filter } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import type { EnergyLevel } from '@/types';
+
+const ENERGY_OPTIONS: { value: EnergyLevel; label: string; color: string }[] = [
+  { value: 'high', label: 'High Focus', color: 'bg-energy-high' },
+  { value: 'medium', label: 'Steady', color: 'bg-energy-medium' },
+  { value: 'low', label: 'Low Energy', color: 'bg-energy-low' },
+  { value: 'recovery', label: 'Recovery', color: 'bg-energy-recovery' },
+];
+
+interface WindowEnergyFilterProps {
+  value: EnergyLevel[];
+  onChange: (next: EnergyLevel[]) => void;
+}
+
+/**
+ * Energy filter for a single window, in its title bar.
+ */
+export default function WindowEnergyFilter({ value, onChange }: WindowEnergyFilterProps) {
+  const toggle = (energy: EnergyLevel) =>
+    onChange(value.includes(energy) ? value.filter((e) => e !== energy) : [...value, energy]);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('h-7 w-7', value.length > 0 && 'text-primary')}
+          aria-label="Filter this window by energy"
+        >
+          <Filter className="w-3.5 h-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-52 p-2" align="end">
+        <div className="flex items-center justify-between px-2 py-1">
+          <span className="text-xs font-medium text-foreground-muted uppercase">This window</span>
+          {value.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => onChange([])} className="h-6 px-2 text-xs">
+              Show all
+            </Button>
+          )}
+        </div>
+        {ENERGY_OPTIONS.map((energy) => {
+          const selected = value.includes(energy.value);
+          return (
+            <button
+              key={energy.value}
+              onClick={() => toggle(energy.value)}
+              className={cn(
+                'w-full flex items-center gap-3 px-2 py-2 rounded-md transition-colors text-sm',
+                selected ? 'bg-secondary text-foreground' : 'text-foreground-muted hover:bg-secondary/50 hover:text-foreground'
+              )}
+            >
+              <div className={cn('w-3 h-3 rounded-full', energy.color)} />
+              <span>{energy.label}</span>
+              {selected && <Check className="ml-auto w-4 h-4 text-primary" />}
+            </button>
+          );
+        })}
+      </PopoverContent>
+    </Popover>
+  );
+}
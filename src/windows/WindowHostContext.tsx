@@ -0,0 +1,50 @@
+import { createContext, useContext } from 'react';
+import type { EnergyLevel, ViewMode, ZoomLevel } from '@/types';
+import type { TrendsUserProfile } from '@/components/trends/TrendingTopics';
+
+export type CalendarPaneProps = {
+  viewMode: ViewMode;
+  zoomLevel: ZoomLevel;
+  focusedMonth: number | null;
+  focusedDate: Date | null;
+  currentEnergy: EnergyLevel;
+  energyFilter: EnergyLevel[];
+  onMonthClick: (month: number) => void;
+  onDayClick: (date: Date) => void;
+  onWeekClick: (date: Date) => void;
+  onZoomOut: () => void;
+  onZoomLevelChange: (level: ZoomLevel) => void;
+  onJumpToToday: () => void;
+  onSetFocusedDate: (date: Date) => void;
+  onSetFocusedMonth: (month: number) => void;
+};
+
+// Planner state the page hands to whichever windows are open
+export type WindowHostValue = {
+  userId: string;
+  energyFilter: EnergyLevel[];
+  onScheduleTask: (taskId: string, date: Date) => void;
+  calendar: CalendarPaneProps;
+  userProfile: TrendsUserProfile;
+  onAddTrendTask: (title: string, energy: EnergyLevel) => void;
+};
+
+const WindowHostContext = createContext<WindowHostValue | null>(null);
+
+export function WindowHostProvider({
+  value,
+  children,
+}: {
+  value: WindowHostValue;
+  children: React.ReactNode;
+}) {
+  return <WindowHostContext.Provider value={value}>{children}</WindowHostContext.Provider>;
+}
+
+export function useWindowHost(): WindowHostValue {
+  const ctx = useContext(WindowHostContext);
+  if (!ctx) {
+    throw new Error('useWindowHost must be used within WindowHostProvider');
+  }
+  return ctx;
+}
@@ -0,0 +1,9 @@
+import { createContext, useContext } from 'react';
+import type { WindowInstanceId } from './windowRegistry';
+
+// The window a component renders in; null outside a workspace window
+export const WindowInstanceContext = createContext<WindowInstanceId | null>(null);
+
+export function useWindowInstanceId(): WindowInstanceId | null {
+  return useContext(WindowInstanceContext);
+}
@@ -1,18 +1,34 @@
-import { ReactNode, useMemo, useRef, useState } from 'react';
+import { Suspense, useMemo, useRef, useState } from 'react';
 import { cn } from '@/lib/utils';
-import { WindowId, getWindowDefinition } from './windowRegistry';
+import { WindowInstanceId, getWindowDefinition, windowInstanceTitle, windowTypeOf } from './windowRegistry';
 import { useContainerSize } from '@/hooks/useContainerSize';
 import { WindowLayoutProvider, type LayoutTier } from './WindowLayoutContext';
+import { WindowInstanceContext } from './WindowInstanceContext';
 import { Responsive, type Layouts, type Layout } from 'react-grid-layout';
 import { useWorkspace } from './WorkspaceContext';
+import { ShortcutScope } from '@/contexts/ShortcutsContext';
 import { WORKSPACE_BREAKPOINTS, WORKSPACE_COLS } from './workspaces';
 
 interface WindowLayoutProps {
-  visibleWindows: WindowId[];
-  children: (windowId: WindowId) => ReactNode;
+  visibleWindows: WindowInstanceId[];
   className?: string;
 }
 
+// The window's registered pane; its shortcuts go to the window the user last worked in, and its
+// drag-and-drop ids carry the window's id
+function WindowContent({ id }: { id: WindowInstanceId }) {
+  const { component: Pane } = getWindowDefinition(windowTypeOf(id));
+  return (
+    <WindowInstanceContext.Provider value={id}>
+      <ShortcutScope id={id}>
+        <Suspense fallback={null}>
+          <Pane instanceId={id} />
+        </Suspense>
+      </ShortcutScope>
+    </WindowInstanceContext.Provider>
+  );
+}
+
 function computeLayoutTier(width: number): LayoutTier {
   if (width > 0 && width < 900) return 'narrow';
   if (width > 0 && width < 1200) return 'medium';
@@ -22,7 +38,7 @@ function computeLayoutTier(width: number): LayoutTier {
 const breakpoints = WORKSPACE_BREAKPOINTS;
 const cols = WORKSPACE_COLS;
 
-export default function WindowLayout({ visibleWindows, children, className }: WindowLayoutProps) {
+export default function WindowLayout({ visibleWindows, className }: WindowLayoutProps) {
   const { ref, width, height } = useContainerSize<HTMLDivElement>();
   const tier = useMemo(() => computeLayoutTier(width), [width]);
   const [currentBreakpoint, setCurrentBreakpoint] = useState<keyof typeof breakpoints>('lg');
@@ -147,24 +163,30 @@ export default function WindowLayout({ visibleWindows, children, className }: Wi
         <WindowLayoutProvider value={{ tier, width, height }}>
           {visibleWindows.length > 1 && (
             <div className="flex border-b border-border bg-secondary/30 flex-shrink-0">
-              {visibleWindows.map((id) => (
-                <button
-                  key={id}
-                  onClick={() => setActiveTab(id)}
-                  className={cn(
-                    'flex-1 px-4 py-2 text-sm font-medium transition-colors border-b-2',
-                    displayTab === id
-                      ? 'border-primary text-primary'
-                      : 'border-transparent text-muted-foreground hover:text-foreground'
-                  )}
-                >
-                  {getWindowDefinition(id).title}
-                </button>
-              ))}
+              {visibleWindows.map((id) => {
+                const { icon: Icon } = getWindowDefinition(windowTypeOf(id));
+                return (
+                  <button
+                    key={id}
+                    onClick={() => setActiveTab(id)}
+                    className={cn(
+                      'flex-1 flex items-center justify-center gap-1.5 min-w-0 px-2 py-2 text-sm font-medium transition-colors border-b-2',
+                      displayTab === id
+                        ? 'border-primary text-primary'
+                        : 'border-transparent text-muted-foreground hover:text-foreground'
+                    )}
+                  >
+                    <Icon className="w-4 h-4 flex-shrink-0" />
+                    <span className="truncate">{windowInstanceTitle(id, 'tabLabel')}</span>
+                  </button>
+                );
+              })}
             </div>
           )}
           <div className="flex-1 overflow-hidden min-w-0 min-h-0">
-            <div className="h-full min-w-0 min-h-0">{children(displayTab)}</div>
+            <div className="h-full min-w-0 min-h-0">
+              <WindowContent id={displayTab} />
+            </div>
           </div>
         </WindowLayoutProvider>
       </div>
@@ -271,7 +293,7 @@ export default function WindowLayout({ visibleWindows, children, className }: Wi
           >
             {visibleWindows.map((id) => (
               <div key={id} data-window-id={id} className="h-full min-w-0 min-h-0">
-                {children(id)}
+                <WindowContent id={id} />
               </div>
             ))}
           </Responsive>
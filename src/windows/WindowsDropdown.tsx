@@ -1,5 +1,5 @@
-import { memo, useState } from 'react';
-import { LayoutGrid } from 'lucide-react';
+import { memo, useCallback, useState } from 'react';
+import { LayoutGrid, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -14,16 +14,18 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { WindowId, getAllWindows } from './windowRegistry';
+import { getAllWindows, isPrimaryInstance, windowInstanceTitle, windowTypeOf } from './windowRegistry';
 import { useWindowStateContext } from './useWindowState';
 import { useWorkspace } from './WorkspaceContext';
 import WorkspacesDialog from './WorkspacesDialog';
+import { useWindowCommands } from './useWindowCommands';
 
 function WindowsDropdown() {
-  const { visibleWindows, toggleWindow } = useWindowStateContext();
+  const { visibleWindows, toggleWindow, addWindowInstance } = useWindowStateContext();
   const windows = getAllWindows();
   const { locked, setLocked, restoreLastGood, hasLastGood, templates, applyTemplate } = useWorkspace();
   const [workspacesOpen, setWorkspacesOpen] = useState(false);
+  useWindowCommands(useCallback(() => setWorkspacesOpen(true), []));
 
   return (
     <DropdownMenu>
@@ -52,18 +54,41 @@ function WindowsDropdown() {
         {windows.map((w) => {
           const checked = visibleWindows.includes(w.id);
           const isLastVisible = checked && visibleWindows.length === 1;
-          return (
+          // Further windows of this type; unchecking closes one
+          const extra = visibleWindows.filter((id) => !isPrimaryInstance(id) && windowTypeOf(id) === w.id);
+          return [
             <DropdownMenuCheckboxItem
               key={w.id}
               checked={checked}
               disabled={isLastVisible}
-              onCheckedChange={() => !isLastVisible && toggleWindow(w.id as WindowId)}
+              onCheckedChange={() => !isLastVisible && toggleWindow(w.id)}
               onSelect={(e) => e.preventDefault()}
             >
+              <w.icon className="w-4 h-4 mr-2 text-muted-foreground" />
               {w.title}
-            </DropdownMenuCheckboxItem>
-          );
+            </DropdownMenuCheckboxItem>,
+            ...extra.map((id) => (
+              <DropdownMenuCheckboxItem
+                key={id}
+                checked
+                disabled={visibleWindows.length === 1}
+                onCheckedChange={() => toggleWindow(id)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                <w.icon className="w-4 h-4 mr-2 text-muted-foreground" />
+                {windowInstanceTitle(id)}
+              </DropdownMenuCheckboxItem>
+            )),
+          ];
         })}
+        {windows
+          .filter((w) => w.multiInstance)
+          .map((w) => (
+            <DropdownMenuItem key={`new-${w.id}`} onSelect={(e) => e.preventDefault()} onClick={() => addWindowInstance(w.id)}>
+              <Plus className="w-4 h-4 mr-2 text-muted-foreground" />
+              New {w.title.toLowerCase()} window
+            </DropdownMenuItem>
+          ))}
 
         <DropdownMenuSeparator />
         <DropdownMenuLabel className="px-2 py-1.5 text-xs text-muted-foreground">Workspaces</DropdownMenuLabel>
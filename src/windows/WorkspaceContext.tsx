@@ -1,34 +1,61 @@
 import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
-import type { Layouts } from 'react-grid-layout';
-import type { WindowId } from './windowRegistry';
+import type { ResponsiveLayouts } from 'react-grid-layout';
+import type { WindowInstanceId } from './windowRegistry';
 import { useWindowStateContext } from './useWindowState';
 import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import {
   BUILTIN_TEMPLATES,
+  CURRENT_LAYOUT_STORAGE_VERSION,
+  WORKSPACE_SCHEMA_VERSION,
   BuiltinTemplateId,
   WorkspaceData,
   SavedWorkspace,
+  WindowInstanceConfig,
   activeTabStorageKey,
   currentLayoutStorageKey,
   ensureVisibleInLayouts,
+  instancesStorageKey,
   lastGoodStorageKey,
   lockStorageKey,
   makeTemplateData,
   normalizeVisibleWindows,
-  safeParseJson,
   templateName,
+  visibleInstanceConfigs,
   workspacesStorageKey,
 } from './workspaces';
+import {
+  UnreadableSavedWorkspace,
+  WorkspaceStatePayload,
+  migrateSavedWorkspaces,
+  migrateWorkspaceData,
+  migrateWorkspaceState,
+  readVersionedStorage,
+  tryMigrateWorkspaceData,
+} from './workspaceMigrations';
+import { ImportCollisionStrategy, ImportedWorkspace, uniqueWorkspaceName } from './workspaceTransfer';
+import {
+  SyncedWorkspace,
+  WORKSPACE_SYNC_FIELD_LABELS,
+  isNewerRevision,
+  mergeUnreadableSaved,
+  mergeWorkspaceSync,
+  sameSyncedWorkspace,
+  syncedFromState,
+} from './workspaceSync';
 
 type WorkspaceContextValue = {
   userKey: string;
   // Current working layout state
-  layouts: Layouts;
-  setLayouts: (next: Layouts) => void;
-  activeTab: WindowId;
-  setActiveTab: (id: WindowId) => void;
+  layouts: ResponsiveLayouts;
+  setLayouts: (next: ResponsiveLayouts) => void;
+  activeTab: WindowInstanceId;
+  setActiveTab: (id: WindowInstanceId) => void;
   locked: boolean;
   setLocked: (locked: boolean) => void;
+  instances: WorkspaceData['instances'];
+  updateInstanceConfig: (id: WindowInstanceId, patch: WindowInstanceConfig) => void;
 
   // Templates + named workspaces
   templates: Array<{ id: BuiltinTemplateId; name: string }>;
@@ -39,6 +66,10 @@ type WorkspaceContextValue = {
   saveCurrent: (name: string) => void;
   renameSaved: (id: string, name: string) => void;
   deleteSaved: (id: string) => void;
+  importWorkspaces: (
+    workspaces: ImportedWorkspace[],
+    onCollision: ImportCollisionStrategy
+  ) => { added: number; replaced: number; skipped: number };
 
   restoreLastGood: () => void;
   hasLastGood: boolean;
@@ -55,6 +86,57 @@ function newId() {
   return `ws_${Math.random().toString(36).slice(2)}_${Date.now().toString(36)}`;
 }
 
+function readLastGood(userKey: string): WorkspaceData | null {
+  const stored = readVersionedStorage((v) => lastGoodStorageKey(userKey, v), WORKSPACE_SCHEMA_VERSION);
+  return stored ? tryMigrateWorkspaceData(stored.raw) : null;
+}
+
+// The working layout from localStorage (older key versions included), upgraded to the current schema.
+// `failed` when it was there but couldn't be upgraded.
+function loadStoredWorkspace(userKey: string, visibleWindows: WindowInstanceId[]): { data: WorkspaceData | null; failed: boolean } {
+  if (typeof window === 'undefined') return { data: null, failed: false };
+  const layouts = readVersionedStorage((v) => currentLayoutStorageKey(userKey, v), CURRENT_LAYOUT_STORAGE_VERSION);
+  if (!layouts) return { data: null, failed: false };
+
+  const tab = readVersionedStorage((v) => activeTabStorageKey(userKey, v), WORKSPACE_SCHEMA_VERSION);
+  const lock = readVersionedStorage((v) => lockStorageKey(userKey, v), WORKSPACE_SCHEMA_VERSION);
+  const instances = readVersionedStorage((v) => instancesStorageKey(userKey, v), WORKSPACE_SCHEMA_VERSION);
+  try {
+    const data = migrateWorkspaceData({
+      version: layouts.version,
+      layouts: layouts.raw,
+      visibleWindows,
+      activeTab: tab?.raw,
+      locked: lock?.raw,
+      instances: instances?.raw,
+    });
+    return { data, failed: false };
+  } catch (err) {
+    console.error('Workspace migration error:', err);
+    return { data: null, failed: true };
+  }
+}
+
+interface StoredWorkspaceState {
+  exists: boolean; // false when the profile row is missing
+  raw: unknown; // the column as stored, for guarding writes when it has no revision
+  remote: SyncedWorkspace | null;
+}
+
+// profiles.workspace_state as stored now
+async function fetchRemoteWorkspace(userKey: string): Promise<StoredWorkspaceState | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('workspace_state')
+    .eq('id', userKey)
+    .maybeSingle();
+  if (error) return null;
+  if (!data) return { exists: false, raw: null, remote: null };
+  const raw = (data as unknown as { workspace_state?: unknown }).workspace_state ?? null;
+  const ws = migrateWorkspaceState(raw);
+  return { exists: true, raw, remote: ws && syncedFromState(ws) };
+}
+
 export function WorkspaceProvider({ userKey, children }: { userKey: string; children: ReactNode }) {
   const { visibleWindows, setVisibleWindows } = useWindowStateContext();
   const isAnonymous = userKey === 'anonymous';
@@ -64,41 +146,97 @@ export function WorkspaceProvider({ userKey, children }: { userKey: string; chil
   const lastGoodKey = useMemo(() => lastGoodStorageKey(userKey), [userKey]);
   const lockKey = useMemo(() => lockStorageKey(userKey), [userKey]);
   const tabKey = useMemo(() => activeTabStorageKey(userKey), [userKey]);
+  const instancesKey = useMemo(() => instancesStorageKey(userKey), [userKey]);
 
   const templates = useMemo(
     () => BUILTIN_TEMPLATES.map((id) => ({ id, name: templateName(id) })),
     []
   );
 
-  const [layouts, setLayoutsState] = useState<Layouts>(() => {
-    const stored = typeof window === 'undefined' ? null : safeParseJson<Layouts>(localStorage.getItem(layoutKey));
-    return stored ?? makeTemplateData('classic-2x2').layouts;
-  });
+  const { toast } = useToast();
+  const [stored] = useState(() => loadStoredWorkspace(userKey, visibleWindows));
 
-  const [activeTab, setActiveTabState] = useState<WindowId>(() => {
-    const stored = typeof window === 'undefined' ? null : safeParseJson<WindowId>(localStorage.getItem(tabKey));
-    return stored ?? 'inbox';
-  });
+  const [layouts, setLayoutsState] = useState<ResponsiveLayouts>(
+    () => stored.data?.layouts ?? makeTemplateData('classic-2x2').layouts
+  );
 
-  const [locked, setLockedState] = useState<boolean>(() => {
-    const stored = typeof window === 'undefined' ? null : safeParseJson<boolean>(localStorage.getItem(lockKey));
-    return stored ?? false;
-  });
+  const [activeTab, setActiveTabState] = useState<WindowInstanceId>(() => stored.data?.activeTab ?? 'inbox');
+
+  const [locked, setLockedState] = useState<boolean>(() => stored.data?.locked ?? false);
 
-  const [saved, setSaved] = useState<SavedWorkspace[]>(() => {
-    const stored = typeof window === 'undefined' ? null : safeParseJson<SavedWorkspace[]>(localStorage.getItem(savedKey));
-    return Array.isArray(stored) ? stored : [];
+  const [instances, setInstances] = useState<WorkspaceData['instances']>(() => stored.data?.instances ?? {});
+
+  const [storedSaved] = useState(() => {
+    if (typeof window === 'undefined') return null;
+    const list = readVersionedStorage((v) => workspacesStorageKey(userKey, v), WORKSPACE_SCHEMA_VERSION);
+    return list ? migrateSavedWorkspaces(list.raw) : null;
   });
 
+  const [saved, setSaved] = useState<SavedWorkspace[]>(() => storedSaved?.workspaces ?? []);
+
+  // Saved workspaces that couldn't be upgraded: not listed, but stored back unchanged
+  const [unreadableSaved, setUnreadableSaved] = useState<UnreadableSavedWorkspace[]>(
+    () => storedSaved?.unreadable ?? []
+  );
+
   const [hasLastGood, setHasLastGood] = useState<boolean>(() => {
     if (typeof window === 'undefined') return false;
-    return !!localStorage.getItem(lastGoodKey);
+    return !!readLastGood(userKey);
   });
 
+  const applyWorkspaceData = useCallback(
+    (data: WorkspaceData) => {
+      const normalized = normalizeVisibleWindows(data.visibleWindows);
+      setVisibleWindows(normalized);
+      setLayoutsState(data.layouts);
+      setActiveTabState(normalized.includes(data.activeTab) ? data.activeTab : normalized[0] ?? 'inbox');
+      setLockedState(!!data.locked);
+      setInstances(data.instances ?? {});
+    },
+    [setVisibleWindows]
+  );
+
+  // Stored layouts that can't be upgraded fall back to the last good snapshot (or the defaults)
+  const recoverFromFailedMigration = useCallback(
+    (lastGood: WorkspaceData | null) => {
+      if (lastGood) applyWorkspaceData(lastGood);
+      toast({
+        title: "Your layout couldn't be upgraded",
+        description: lastGood ? 'Restored your last good layout.' : 'Started from the default layout.',
+        variant: 'destructive',
+      });
+    },
+    [applyWorkspaceData, toast]
+  );
+
+  const notifiedUnreadableRef = useRef(0);
+  useEffect(() => {
+    const count = unreadableSaved.length;
+    if (count <= notifiedUnreadableRef.current) return;
+    notifiedUnreadableRef.current = count;
+    const names = unreadableSaved.map((w) => `"${w.name}"`).join(', ');
+    toast({
+      title: count === 1 ? "A saved workspace couldn't be upgraded" : `${count} saved workspaces couldn't be upgraded`,
+      description: `${names} ${count === 1 ? 'is' : 'are'} kept as stored and hidden until this app can open ${count === 1 ? 'it' : 'them'}.`,
+      variant: 'destructive',
+    });
+  }, [toast, unreadableSaved]);
+
+  const didRecoverRef = useRef(false);
+  useEffect(() => {
+    if (!stored.failed || didRecoverRef.current) return;
+    didRecoverRef.current = true;
+    recoverFromFailedMigration(readLastGood(userKey));
+  }, [recoverFromFailedMigration, stored.failed, userKey]);
+
   // Supabase-backed persistence (preferred when authenticated), with localStorage fallback.
   // This is intentionally best-effort: if the column doesn't exist or RLS blocks it, we silently fall back.
   const didHydrateRef = useRef(false);
   const suppressRemoteWriteRef = useRef(false);
+  // The stored state this device last read or wrote; local edits since then are what a merge keeps
+  const syncBaseRef = useRef<SyncedWorkspace | null>(null);
+  // Bumped when a merge kept local edits the stored state lacks, so they go out even if nothing re-rendered
+  const [pushRequest, setPushRequest] = useState(0);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
@@ -116,26 +254,10 @@ export function WorkspaceProvider({ userKey, children }: { userKey: string; chil
 
         if (cancelled) return;
         if (error || !data) return;
-        const raw = (data as unknown as { workspace_state?: unknown }).workspace_state;
-        if (!raw || typeof raw !== 'object') return;
-
-        const ws = raw as Partial<{
-          layouts: Layouts;
-          saved: SavedWorkspace[];
-          lastGood: WorkspaceData;
-          locked: boolean;
-          activeTab: WindowId;
-          visibleWindows: WindowId[];
-        }>;
+        const ws = migrateWorkspaceState((data as unknown as { workspace_state?: unknown }).workspace_state);
+        if (!ws) return;
 
         suppressRemoteWriteRef.current = true;
-        if (ws.visibleWindows && Array.isArray(ws.visibleWindows)) {
-          setVisibleWindows(ws.visibleWindows);
-        }
-        if (ws.layouts) setLayoutsState(ws.layouts);
-        if (ws.activeTab) setActiveTabState(ws.activeTab);
-        if (typeof ws.locked === 'boolean') setLockedState(ws.locked);
-        if (ws.saved && Array.isArray(ws.saved)) setSaved(ws.saved);
         if (ws.lastGood) {
           try {
             localStorage.setItem(lastGoodKey, JSON.stringify(ws.lastGood));
@@ -144,7 +266,19 @@ export function WorkspaceProvider({ userKey, children }: { userKey: string; chil
             // ignore
           }
         }
+        if (ws.current) {
+          setVisibleWindows(ws.current.visibleWindows);
+          setLayoutsState(ws.current.layouts);
+          setActiveTabState(ws.current.activeTab);
+          setLockedState(ws.current.locked);
+          setInstances(ws.current.instances);
+        } else if (ws.failed) {
+          recoverFromFailedMigration(ws.lastGood ?? readLastGood(userKey));
+        }
+        if (ws.saved) setSaved(ws.saved);
+        setUnreadableSaved((prev) => mergeUnreadableSaved(prev, ws.unreadableSaved));
 
+        syncBaseRef.current = syncedFromState(ws);
         didHydrateRef.current = true;
       } finally {
         // allow remote writes after initial hydration pass
@@ -157,7 +291,7 @@ export function WorkspaceProvider({ userKey, children }: { userKey: string; chil
     return () => {
       cancelled = true;
     };
-  }, [isAnonymous, lastGoodKey, setVisibleWindows, userKey]);
+  }, [isAnonymous, lastGoodKey, recoverFromFailedMigration, setVisibleWindows, userKey]);
 
   // Keep layouts compatible with window visibility changes.
   useEffect(() => {
@@ -166,6 +300,11 @@ export function WorkspaceProvider({ userKey, children }: { userKey: string; chil
       const normalized = normalizeVisibleWindows(visibleWindows);
       return normalized.includes(prev) ? prev : normalized[0] ?? 'inbox';
     });
+    // A closed window's config goes with it, so reopening starts fresh
+    setInstances((prev) => {
+      const next = visibleInstanceConfigs(prev, visibleWindows);
+      return Object.keys(next).length === Object.keys(prev).length ? prev : next;
+    });
   }, [visibleWindows]);
 
   // Keep current layouts synced with current-layout storage (back-compat with existing persistence).
@@ -195,48 +334,39 @@ export function WorkspaceProvider({ userKey, children }: { userKey: string; chil
 
   useEffect(() => {
     try {
-      localStorage.setItem(savedKey, JSON.stringify(saved));
+      localStorage.setItem(instancesKey, JSON.stringify(instances));
     } catch {
       // ignore
     }
-  }, [savedKey, saved]);
+  }, [instancesKey, instances]);
 
-  // Persist to Supabase (debounced) when authenticated.
   useEffect(() => {
-    if (typeof window === 'undefined') return;
-    if (isAnonymous) return;
-    if (suppressRemoteWriteRef.current) return;
-
-    const handle = window.setTimeout(async () => {
-      try {
-        const payload = {
-          layouts,
-          saved,
-          locked,
-          activeTab,
-          visibleWindows,
-          lastGood: safeParseJson<WorkspaceData>(localStorage.getItem(lastGoodKey)) ?? null,
-        };
-        await supabase
-          .from('profiles')
-          .upsert({ id: userKey, workspace_state: payload } as unknown as Record<string, unknown>, { onConflict: 'id' });
-      } catch {
-        // ignore
-      }
-    }, 800);
-
-    return () => window.clearTimeout(handle);
-  }, [activeTab, isAnonymous, layouts, lastGoodKey, locked, saved, userKey, visibleWindows]);
+    try {
+      localStorage.setItem(savedKey, JSON.stringify([...saved, ...unreadableSaved.map((w) => w.raw)]));
+    } catch {
+      // ignore
+    }
+  }, [savedKey, saved, unreadableSaved]);
 
-  const setLayouts = useCallback((next: Layouts) => setLayoutsState(next), []);
-  const setActiveTab = useCallback((id: WindowId) => setActiveTabState(id), []);
+  const setLayouts = useCallback((next: ResponsiveLayouts) => setLayoutsState(next), []);
+  const setActiveTab = useCallback((id: WindowInstanceId) => setActiveTabState(id), []);
   const setLocked = useCallback((v: boolean) => setLockedState(v), []);
+  const updateInstanceConfig = useCallback((id: WindowInstanceId, patch: WindowInstanceConfig) => {
+    setInstances((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+  }, []);
 
   const snapshotCurrent = useCallback((): WorkspaceData => {
     const normalized = normalizeVisibleWindows(visibleWindows);
     const tab = normalized.includes(activeTab) ? activeTab : normalized[0] ?? 'inbox';
-    return { version: 1, layouts, visibleWindows: normalized, activeTab: tab, locked };
-  }, [activeTab, layouts, locked, visibleWindows]);
+    return {
+      version: WORKSPACE_SCHEMA_VERSION,
+      layouts,
+      visibleWindows: normalized,
+      activeTab: tab,
+      locked,
+      instances: visibleInstanceConfigs(instances, normalized),
+    };
+  }, [activeTab, instances, layouts, locked, visibleWindows]);
 
   const writeLastGood = useCallback(
     (data: WorkspaceData) => {
@@ -250,17 +380,143 @@ export function WorkspaceProvider({ userKey, children }: { userKey: string; chil
     [lastGoodKey]
   );
 
-  const applyWorkspaceData = useCallback(
-    (data: WorkspaceData) => {
-      const normalized = normalizeVisibleWindows(data.visibleWindows);
-      setVisibleWindows(normalized);
-      setLayoutsState(data.layouts);
-      setActiveTabState(normalized.includes(data.activeTab) ? data.activeTab : normalized[0] ?? 'inbox');
-      setLockedState(!!data.locked);
+  // Latest local state for the sync callbacks, which run outside of render
+  const localSyncRef = useRef<SyncedWorkspace | null>(null);
+  useEffect(() => {
+    localSyncRef.current = {
+      revision: syncBaseRef.current?.revision ?? 0,
+      current: snapshotCurrent(),
+      saved,
+      unreadableSaved,
+    };
+  }, [saved, snapshotCurrent, unreadableSaved]);
+
+  // A newer state from another device: merge it per field and offer to undo
+  const receiveRemote = useCallback(
+    (remote: SyncedWorkspace) => {
+      const base = syncBaseRef.current;
+      const local = localSyncRef.current;
+      if (!local || !isNewerRevision(remote, base)) return;
+      syncBaseRef.current = remote;
+
+      const { merged, changed } = mergeWorkspaceSync(base, local, remote);
+      setUnreadableSaved((prev) => mergeUnreadableSaved(prev, merged.unreadableSaved));
+      if (!sameSyncedWorkspace(merged, remote)) setPushRequest((n) => n + 1);
+      if (changed.length === 0) return;
+      const layoutChanged = changed.includes('layout') || changed.includes('lock');
+      if (changed.includes('layout')) writeLastGood(local.current);
+      if (layoutChanged) applyWorkspaceData(merged.current);
+      if (changed.includes('saved')) setSaved(merged.saved);
+
+      const undo = () => {
+        if (layoutChanged) applyWorkspaceData(local.current);
+        if (changed.includes('saved')) setSaved(local.saved);
+      };
+      toast({
+        title: 'Layout updated from another device',
+        description: `Changed: ${changed.map((f) => WORKSPACE_SYNC_FIELD_LABELS[f]).join(', ')}.`,
+        action: (
+          <ToastAction altText="Undo layout update" onClick={undo}>
+            Undo
+          </ToastAction>
+        ),
+      });
     },
-    [setVisibleWindows]
+    [applyWorkspaceData, toast, writeLastGood]
+  );
+
+  // Writes build on the revision read just before them. When another device got there first, its
+  // state is merged in instead and the result goes out with the next write.
+  const pushWorkspaceState = useCallback(
+    async (local: SyncedWorkspace) => {
+      const stored = await fetchRemoteWorkspace(userKey);
+      if (!stored) return;
+      const base = syncBaseRef.current;
+      if (stored.remote && isNewerRevision(stored.remote, base)) {
+        receiveRemote(stored.remote);
+        return;
+      }
+
+      const revision = (stored.remote?.revision ?? 0) + 1;
+      const payload: WorkspaceStatePayload = {
+        version: WORKSPACE_SCHEMA_VERSION,
+        revision,
+        layouts: local.current.layouts,
+        saved: [...local.saved, ...local.unreadableSaved.map((w) => w.raw)],
+        locked: local.current.locked,
+        activeTab: local.current.activeTab,
+        visibleWindows: local.current.visibleWindows,
+        instances: local.current.instances,
+        lastGood: readLastGood(userKey),
+      };
+      const row = { id: userKey, workspace_state: payload } as unknown as Record<string, unknown>;
+
+      if (!stored.exists) {
+        const { error } = await supabase.from('profiles').upsert(row, { onConflict: 'id' });
+        if (error) return;
+      } else {
+        let update = supabase.from('profiles').update(row).eq('id', userKey);
+        // Without a revision to compare, only write over exactly what was read
+        if (stored.remote?.revision) update = update.eq('workspace_state->>revision', String(stored.remote.revision));
+        else if (stored.raw === null) update = update.is('workspace_state', null);
+        else update = update.eq('workspace_state', JSON.stringify(stored.raw));
+        const { data, error } = await update.select('id');
+        if (error) return;
+        if (!data?.length) {
+          // Lost the race to another device's write
+          const latest = await fetchRemoteWorkspace(userKey);
+          if (latest?.remote) receiveRemote(latest.remote);
+          return;
+        }
+      }
+      syncBaseRef.current = { ...local, revision };
+    },
+    [receiveRemote, userKey]
   );
 
+  // Persist to Supabase (debounced) when authenticated.
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    if (isAnonymous) return;
+    if (suppressRemoteWriteRef.current) return;
+
+    const local: SyncedWorkspace = {
+      revision: syncBaseRef.current?.revision ?? 0,
+      current: snapshotCurrent(),
+      saved,
+      unreadableSaved,
+    };
+    if (syncBaseRef.current && sameSyncedWorkspace(local, syncBaseRef.current)) return;
+
+    const handle = window.setTimeout(async () => {
+      try {
+        await pushWorkspaceState(local);
+      } catch {
+        // ignore
+      }
+    }, 800);
+
+    return () => window.clearTimeout(handle);
+  }, [isAnonymous, pushRequest, pushWorkspaceState, saved, snapshotCurrent, unreadableSaved]);
+
+  // Follow changes made on other devices
+  useEffect(() => {
+    if (isAnonymous) return;
+
+    const channel = supabase
+      .channel('workspace-state-changes')
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'profiles', filter: `id=eq.${userKey}` }, (payload) => {
+        const ws = migrateWorkspaceState((payload.new as { workspace_state?: unknown }).workspace_state);
+        const remote = ws && syncedFromState(ws);
+        if (remote) receiveRemote(remote);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [isAnonymous, receiveRemote, userKey]);
+
   const applyTemplate = useCallback(
     (id: BuiltinTemplateId) => {
       const data = makeTemplateData(id);
@@ -305,11 +561,38 @@ export function WorkspaceProvider({ userKey, children }: { userKey: string; chil
     setSaved((prev) => prev.filter((w) => w.id !== id));
   }, []);
 
+  // Same-named workspaces are renamed, replaced in place or skipped
+  const importWorkspaces = useCallback(
+    (incoming: ImportedWorkspace[], onCollision: ImportCollisionStrategy) => {
+      const next = saved.slice();
+      const counts = { added: 0, replaced: 0, skipped: 0 };
+      const t = nowMs();
+
+      for (const ws of incoming) {
+        const existing = next.findIndex((w) => w.name.toLowerCase() === ws.name.toLowerCase());
+        if (existing >= 0 && onCollision === 'skip') {
+          counts.skipped++;
+        } else if (existing >= 0 && onCollision === 'replace') {
+          next[existing] = { ...next[existing], data: ws.data, updatedAt: t };
+          counts.replaced++;
+        } else {
+          const name = uniqueWorkspaceName(ws.name, next.map((w) => w.name));
+          next.unshift({ id: newId(), name, createdAt: ws.createdAt, updatedAt: t, data: ws.data });
+          counts.added++;
+        }
+      }
+
+      setSaved(next);
+      return counts;
+    },
+    [saved]
+  );
+
   const restoreLastGood = useCallback(() => {
-    const stored = safeParseJson<WorkspaceData>(localStorage.getItem(lastGoodKey));
-    if (!stored) return;
-    applyWorkspaceData(stored);
-  }, [applyWorkspaceData, lastGoodKey]);
+    const lastGood = readLastGood(userKey);
+    if (!lastGood) return;
+    applyWorkspaceData(lastGood);
+  }, [applyWorkspaceData, userKey]);
 
   const value: WorkspaceContextValue = {
     userKey,
@@ -319,6 +602,8 @@ export function WorkspaceProvider({ userKey, children }: { userKey: string; chil
     setActiveTab,
     locked,
     setLocked,
+    instances,
+    updateInstanceConfig,
     templates,
     saved,
     applyTemplate,
@@ -326,6 +611,7 @@ export function WorkspaceProvider({ userKey, children }: { userKey: string; chil
     saveCurrent,
     renameSaved,
     deleteSaved,
+    importWorkspaces,
     restoreLastGood,
     hasLastGood,
   };
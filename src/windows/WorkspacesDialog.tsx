@@ -1,8 +1,9 @@
-import { useMemo, useState } from 'react';
-import { Pencil, Trash2 } from 'lucide-react';
+import { useMemo, useRef, useState } from 'react';
+import { Download, FileUp, Pencil, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Dialog,
   DialogContent,
@@ -23,7 +24,28 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
 import { useWorkspace } from './WorkspaceContext';
+import { SavedWorkspace } from './workspaces';
+import {
+  ImportCollisionStrategy,
+  WorkspaceImport,
+  WorkspaceImportError,
+  exportFileName,
+  exportWorkspaces,
+  parseWorkspaceImport,
+} from './workspaceTransfer';
+
+function downloadWorkspaces(workspaces: SavedWorkspace[]) {
+  const blob = new Blob([exportWorkspaces(workspaces)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = exportFileName(workspaces);
+  link.click();
+  // Firefox and Safari start the download after click() returns; revoking right away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
 
 export default function WorkspacesDialog({
   open,
@@ -40,6 +62,7 @@ export default function WorkspacesDialog({
     saveCurrent,
     renameSaved,
     deleteSaved,
+    importWorkspaces,
     restoreLastGood,
     hasLastGood,
     locked,
@@ -50,6 +73,44 @@ export default function WorkspacesDialog({
   const [renamingId, setRenamingId] = useState<string | null>(null);
   const [renameValue, setRenameValue] = useState('');
 
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<(WorkspaceImport & { fileName: string }) | null>(null);
+  const [collisionStrategy, setCollisionStrategy] = useState<ImportCollisionStrategy>('rename');
+
+  const collidingNames = useMemo(() => {
+    if (!pendingImport) return new Set<string>();
+    const existing = new Set(saved.map((w) => w.name.toLowerCase()));
+    return new Set(pendingImport.workspaces.map((w) => w.name).filter((n) => existing.has(n.toLowerCase())));
+  }, [pendingImport, saved]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setPendingImport({ ...parseWorkspaceImport(await file.text()), fileName: file.name });
+      setCollisionStrategy('rename');
+    } catch (err) {
+      console.error('Workspace import error:', err);
+      toast({
+        title: 'Could not import workspaces',
+        description: err instanceof WorkspaceImportError ? err.message : 'The file could not be read',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const commitImport = () => {
+    if (!pendingImport) return;
+    const { added, replaced, skipped } = importWorkspaces(pendingImport.workspaces, collisionStrategy);
+    const parts = [
+      added > 0 && `${added} added`,
+      replaced > 0 && `${replaced} replaced`,
+      skipped > 0 && `${skipped} skipped`,
+    ].filter(Boolean);
+    toast({ title: 'Workspaces imported', description: parts.join(', ') });
+    setPendingImport(null);
+  };
+
   const sortedSaved = useMemo(() => saved.slice().sort((a, b) => b.updatedAt - a.updatedAt), [saved]);
 
   const startRename = (id: string, currentName: string) => {
@@ -74,7 +135,9 @@ export default function WorkspacesDialog({
       <DialogContent className="max-w-2xl">
         <DialogHeader>
           <DialogTitle>Workspaces</DialogTitle>
-          <DialogDescription>Apply a template, or save your current layout as a named workspace.</DialogDescription>
+          <DialogDescription>
+            Apply a template, or save your current layout as a named workspace. Export workspaces as JSON to share them.
+          </DialogDescription>
         </DialogHeader>
 
         <div className="flex items-center justify-between gap-3 rounded-lg border border-border p-3">
@@ -108,7 +171,79 @@ export default function WorkspacesDialog({
           </div>
 
           <div>
-            <div className="text-sm font-semibold mb-2">Saved workspaces</div>
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <div className="text-sm font-semibold">Saved workspaces</div>
+              <div className="flex gap-1">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    void handleFile(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+                <Button variant="ghost" size="sm" className="gap-1.5" onClick={() => fileInputRef.current?.click()}>
+                  <FileUp className="w-4 h-4" />
+                  Import
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-1.5"
+                  disabled={saved.length === 0}
+                  onClick={() => downloadWorkspaces(sortedSaved)}
+                >
+                  <Download className="w-4 h-4" />
+                  Export all
+                </Button>
+              </div>
+            </div>
+
+            {pendingImport && (
+              <div className="mb-3 space-y-3 rounded-lg border border-border p-3">
+                <div className="text-sm">
+                  Import {pendingImport.workspaces.length} workspace{pendingImport.workspaces.length === 1 ? '' : 's'} from{' '}
+                  <span className="font-medium">{pendingImport.fileName}</span>
+                </div>
+                <ul className="space-y-1 text-sm">
+                  {pendingImport.workspaces.map((w, i) => (
+                    <li key={i} className="flex items-center gap-2">
+                      <span className="truncate">{w.name}</span>
+                      {collidingNames.has(w.name) && (
+                        <span className="text-xs text-muted-foreground">(name already used)</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                {pendingImport.droppedWindows.length > 0 && (
+                  <div className="text-xs text-muted-foreground">
+                    Windows this app doesn’t have will be left out: {pendingImport.droppedWindows.join(', ')}
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center justify-end gap-2">
+                  {collidingNames.size > 0 && (
+                    <Select value={collisionStrategy} onValueChange={(v) => setCollisionStrategy(v as ImportCollisionStrategy)}>
+                      <SelectTrigger className="h-9 w-48 mr-auto">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="rename">Keep both (rename)</SelectItem>
+                        <SelectItem value="replace">Replace existing</SelectItem>
+                        <SelectItem value="skip">Skip duplicates</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Button variant="ghost" className="h-9" onClick={() => setPendingImport(null)}>
+                    Cancel
+                  </Button>
+                  <Button className="h-9" onClick={commitImport}>
+                    Import
+                  </Button>
+                </div>
+              </div>
+            )}
 
             <div className="flex gap-2 mb-3">
               <Input
@@ -173,6 +308,15 @@ export default function WorkspacesDialog({
                         <Button variant="ghost" size="icon" className="h-9 w-9" onClick={() => startRename(w.id, w.name)}>
                           <Pencil className="w-4 h-4" />
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-9 w-9"
+                          aria-label={`Export ${w.name}`}
+                          onClick={() => downloadWorkspaces([w])}
+                        >
+                          <Download className="w-4 h-4" />
+                        </Button>
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <Button variant="ghost" size="icon" className="h-9 w-9 text-destructive">
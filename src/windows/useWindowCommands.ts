@@ -0,0 +1,112 @@
+import { useMemo } from 'react';
+import { AppWindow, LayoutTemplate, Lock, Plus, RotateCcw, Unlock } from 'lucide-react';
+import { Command, useRegisterCommands } from '@/contexts/CommandsContext';
+import { useShortcuts } from '@/contexts/ShortcutsContext';
+import { getAllWindows } from './windowRegistry';
+import { useWindowStateContext } from './useWindowState';
+import { useWorkspace } from './WorkspaceContext';
+
+/**
+ * Palette commands (and window shortcuts) for showing windows and switching workspaces.
+ */
+export function useWindowCommands(onManageWorkspaces: () => void) {
+  const { visibleWindows, toggleWindow, addWindowInstance } = useWindowStateContext();
+  const { templates, saved, applyTemplate, applySaved, locked, setLocked, restoreLastGood, hasLastGood } = useWorkspace();
+
+  const commands = useMemo(() => {
+    const windowCommands: Command[] = getAllWindows()
+      .filter((w) => !(visibleWindows.length === 1 && visibleWindows[0] === w.id)) // keep one visible
+      .map((w) => ({
+        id: `window.toggle.${w.id}`,
+        title: `${visibleWindows.includes(w.id) ? 'Hide' : 'Show'} ${w.title} window`,
+        group: 'Windows',
+        keywords: ['window', 'pane', w.description ?? ''],
+        icon: AppWindow,
+        run: () => toggleWindow(w.id),
+      }));
+    const newWindowCommands: Command[] = getAllWindows()
+      .filter((w) => w.multiInstance)
+      .map((w) => ({
+        id: `window.new.${w.id}`,
+        title: `New ${w.title.toLowerCase()} window`,
+        group: 'Windows',
+        keywords: ['window', 'pane', 'another', 'second'],
+        icon: Plus,
+        run: () => addWindowInstance(w.id),
+      }));
+
+    const workspaceCommands: Command[] = [
+      ...templates.map((t) => ({
+        id: `workspace.template.${t.id}`,
+        title: `Workspace template: ${t.name}`,
+        group: 'Workspaces',
+        keywords: ['layout', 'template'],
+        icon: LayoutTemplate,
+        run: () => applyTemplate(t.id),
+      })),
+      ...saved.map((w) => ({
+        id: `workspace.saved.${w.id}`,
+        title: `Workspace: ${w.name}`,
+        group: 'Workspaces',
+        keywords: ['layout', 'saved'],
+        icon: LayoutTemplate,
+        run: () => applySaved(w.id),
+      })),
+      {
+        id: 'workspace.lock',
+        title: locked ? 'Unlock layout' : 'Lock layout',
+        group: 'Workspaces',
+        keywords: ['layout'],
+        icon: locked ? Unlock : Lock,
+        run: () => setLocked(!locked),
+      },
+      {
+        id: 'workspace.manage',
+        title: 'Manage workspaces…',
+        group: 'Workspaces',
+        keywords: ['layout', 'save', 'rename'],
+        icon: LayoutTemplate,
+        run: onManageWorkspaces,
+      },
+    ];
+    if (hasLastGood) {
+      workspaceCommands.push({
+        id: 'workspace.restore-last-good',
+        title: 'Restore last good layout',
+        group: 'Workspaces',
+        keywords: ['layout', 'reset'],
+        icon: RotateCcw,
+        run: restoreLastGood,
+      });
+    }
+
+    return [...windowCommands, ...newWindowCommands, ...workspaceCommands];
+  }, [
+    visibleWindows,
+    toggleWindow,
+    addWindowInstance,
+    templates,
+    saved,
+    applyTemplate,
+    applySaved,
+    locked,
+    setLocked,
+    restoreLastGood,
+    hasLastGood,
+    onManageWorkspaces,
+  ]);
+
+  useRegisterCommands('windows', commands);
+
+  useShortcuts(
+    Object.fromEntries(
+      getAllWindows().map((w) => [
+        `window.toggle.${w.id}`,
+        () => {
+          if (visibleWindows.length === 1 && visibleWindows[0] === w.id) return; // keep one visible
+          toggleWindow(w.id);
+        },
+      ])
+    )
+  );
+}
@@ -0,0 +1,95 @@
+import { useCallback, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import type { EnergyLevel, ZoomLevel } from '@/types';
+import { WindowInstanceId, isPrimaryInstance, windowInstanceTitle } from './windowRegistry';
+import { CalendarPaneProps, useWindowHost } from './WindowHostContext';
+import { useWorkspace } from './WorkspaceContext';
+import type { WindowInstanceConfig } from './workspaces';
+
+const NO_CONFIG: WindowInstanceConfig = {};
+
+/**
+ * A window's own config. The first window of a type follows the main planner state;
+ * further ones keep their own, falling back to the main state for anything unset.
+ */
+export function useWindowInstance(instanceId: WindowInstanceId) {
+  const { instances, updateInstanceConfig } = useWorkspace();
+  const host = useWindowHost();
+  const isPrimary = isPrimaryInstance(instanceId);
+  const config = instances[instanceId] ?? NO_CONFIG;
+
+  const update = useCallback(
+    (patch: WindowInstanceConfig) => updateInstanceConfig(instanceId, patch),
+    [instanceId, updateInstanceConfig]
+  );
+
+  const energyFilter = isPrimary ? host.energyFilter : config.energyFilter ?? host.energyFilter;
+  const setEnergyFilter = useCallback((next: EnergyLevel[]) => update({ energyFilter: next }), [update]);
+
+  return {
+    isPrimary,
+    title: windowInstanceTitle(instanceId),
+    config,
+    update,
+    energyFilter,
+    setEnergyFilter: isPrimary ? undefined : setEnergyFilter,
+  };
+}
+
+const toDateKey = (date: Date | null) => (date ? format(date, 'yyyy-MM-dd') : null);
+
+/**
+ * Calendar props for a window: the main planner's for the first calendar,
+ * the window's own zoom and focus for the others (same navigation rules as the main planner).
+ */
+export function useInstanceCalendar(instanceId: WindowInstanceId): CalendarPaneProps {
+  const { calendar } = useWindowHost();
+  const { isPrimary, config, update, energyFilter } = useWindowInstance(instanceId);
+
+  const zoomLevel = config.zoomLevel ?? calendar.zoomLevel;
+  const focusedMonth = config.focusedMonth !== undefined ? config.focusedMonth : calendar.focusedMonth;
+  const focusedDate = useMemo(
+    () => (config.focusedDate !== undefined ? (config.focusedDate ? parseISO(config.focusedDate) : null) : calendar.focusedDate),
+    [config.focusedDate, calendar.focusedDate]
+  );
+
+  const own = useMemo((): CalendarPaneProps => {
+    const onZoomLevelChange = (level: ZoomLevel) => {
+      const patch: WindowInstanceConfig = { zoomLevel: level };
+      if (level === 'year') {
+        patch.focusedMonth = null;
+        patch.focusedDate = null;
+      } else if (level === 'month' && focusedMonth === null) {
+        patch.focusedMonth = new Date().getMonth();
+      } else if ((level === 'week' || level === 'day') && focusedDate === null) {
+        patch.focusedDate = toDateKey(new Date());
+      }
+      update(patch);
+    };
+
+    return {
+      ...calendar,
+      zoomLevel,
+      focusedMonth,
+      focusedDate,
+      energyFilter,
+      onMonthClick: (month) => update({ focusedMonth: month, zoomLevel: 'month' }),
+      onDayClick: (date) => update({ focusedDate: toDateKey(date), zoomLevel: 'day' }),
+      onWeekClick: (date) => update({ focusedDate: toDateKey(date), zoomLevel: 'week' }),
+      onZoomOut: () => {
+        if (zoomLevel === 'day') update({ zoomLevel: 'week' });
+        else if (zoomLevel === 'week') update({ zoomLevel: 'month' });
+        else if (zoomLevel === 'month') update({ zoomLevel: 'year', focusedMonth: null });
+      },
+      onZoomLevelChange,
+      onJumpToToday: () => {
+        const today = new Date();
+        update({ focusedDate: toDateKey(today), focusedMonth: today.getMonth(), zoomLevel: 'day' });
+      },
+      onSetFocusedDate: (date) => update({ focusedDate: toDateKey(date) }),
+      onSetFocusedMonth: (month) => update({ focusedMonth: month }),
+    };
+  }, [calendar, energyFilter, focusedDate, focusedMonth, update, zoomLevel]);
+
+  return isPrimary ? calendar : own;
+}
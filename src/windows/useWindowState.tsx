@@ -1,27 +1,27 @@
-import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from 'react';
-import { WindowId, WINDOW_REGISTRY } from './windowRegistry';
+import { createContext, ReactNode, useCallback, useContext, useEffect, useState } from 'react';
+import { WindowId, WindowInstanceId, getAllWindows, isWindowInstanceId, nextInstanceId } from './windowRegistry';
 
 const STORAGE_KEY = 'ui.windows.visible';
-const DEFAULT_VISIBLE: WindowId[] = ['inbox', 'calendar', 'notes', 'now'];
+const DEFAULT_VISIBLE: WindowInstanceId[] = getAllWindows().filter((w) => w.defaultVisible).map((w) => w.id);
 
 export type WindowStateValue = {
-  visibleWindows: WindowId[];
-  toggleWindow: (windowId: WindowId) => void;
-  setWindowVisible: (windowId: WindowId, visible: boolean) => void;
-  setVisibleWindows: (next: WindowId[]) => void;
-  isWindowVisible: (windowId: WindowId) => boolean;
+  visibleWindows: WindowInstanceId[];
+  toggleWindow: (windowId: WindowInstanceId) => void;
+  setWindowVisible: (windowId: WindowInstanceId, visible: boolean) => void;
+  setVisibleWindows: (next: WindowInstanceId[]) => void;
+  isWindowVisible: (windowId: WindowInstanceId) => boolean;
+  // Opens another window of the type and returns its id
+  addWindowInstance: (type: WindowId) => WindowInstanceId;
 };
 
 export function useWindowState(): WindowStateValue {
-  const validIds = useMemo(() => new Set<WindowId>(Object.keys(WINDOW_REGISTRY) as WindowId[]), []);
-
-  const [visibleWindows, setVisibleWindows] = useState<WindowId[]>(() => {
+  const [visibleWindows, setVisibleWindows] = useState<WindowInstanceId[]>(() => {
     try {
       const raw = localStorage.getItem(STORAGE_KEY);
       if (raw) {
         const parsed = JSON.parse(raw) as unknown;
         if (Array.isArray(parsed)) {
-          const valid = parsed.filter((id): id is WindowId => typeof id === 'string' && validIds.has(id as WindowId));
+          const valid = parsed.filter(isWindowInstanceId);
           if (valid.length > 0) return valid;
         }
       }
@@ -39,7 +39,7 @@ export function useWindowState(): WindowStateValue {
     }
   }, [visibleWindows]);
 
-  const toggleWindow = useCallback((windowId: WindowId) => {
+  const toggleWindow = useCallback((windowId: WindowInstanceId) => {
     setVisibleWindows((prev) => {
       if (prev.includes(windowId)) {
         if (prev.length === 1) return prev; // keep at least one visible
@@ -49,7 +49,7 @@ export function useWindowState(): WindowStateValue {
     });
   }, []);
 
-  const setWindowVisible = useCallback((windowId: WindowId, visible: boolean) => {
+  const setWindowVisible = useCallback((windowId: WindowInstanceId, visible: boolean) => {
     setVisibleWindows((prev) => {
       if (visible) {
         if (prev.includes(windowId)) return prev;
@@ -60,18 +60,33 @@ export function useWindowState(): WindowStateValue {
     });
   }, []);
 
-  const isWindowVisible = useCallback((windowId: WindowId) => visibleWindows.includes(windowId), [visibleWindows]);
+  const isWindowVisible = useCallback((windowId: WindowInstanceId) => visibleWindows.includes(windowId), [visibleWindows]);
+
+  const addWindowInstance = useCallback(
+    (type: WindowId) => {
+      const id = nextInstanceId(type, visibleWindows);
+      setVisibleWindows((prev) => (prev.includes(id) ? prev : [...prev, id]));
+      return id;
+    },
+    [visibleWindows]
+  );
 
-  const setVisibleWindowsSafe = useCallback((next: WindowId[]) => {
-    const validIds = new Set<WindowId>(Object.keys(WINDOW_REGISTRY) as WindowId[]);
-    const filtered = next.filter((id): id is WindowId => validIds.has(id));
+  const setVisibleWindowsSafe = useCallback((next: WindowInstanceId[]) => {
+    const filtered = next.filter(isWindowInstanceId);
     setVisibleWindows((prev) => {
       const final = filtered.length > 0 ? filtered : prev.length > 0 ? prev : DEFAULT_VISIBLE;
       return final;
     });
   }, []);
 
-  return { visibleWindows, toggleWindow, setWindowVisible, setVisibleWindows: setVisibleWindowsSafe, isWindowVisible };
+  return {
+    visibleWindows,
+    toggleWindow,
+    setWindowVisible,
+    setVisibleWindows: setVisibleWindowsSafe,
+    isWindowVisible,
+    addWindowInstance,
+  };
 }
 
 const WindowStateContext = createContext<WindowStateValue | null>(null);
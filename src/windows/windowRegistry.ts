@@ -1,38 +1,116 @@
-export type WindowId = 'inbox' | 'calendar' | 'notes' | 'now';
+import { ComponentType, LazyExoticComponent, lazy } from 'react';
+import { Archive, CalendarDays, Flag, Inbox, LucideIcon, StickyNote, Target, TrendingUp } from 'lucide-react';
+import type { WorkspaceBreakpoint } from './workspaces';
 
-export interface WindowDefinition {
-  id: WindowId;
+export type GridSize = { w: number; h: number };
+export type BreakpointSizes = Record<WorkspaceBreakpoint, GridSize>;
+
+export interface WindowSpec {
   title: string;
+  tabLabel: string; // narrow-mode tab bar
+  icon: LucideIcon;
   defaultVisible: boolean;
+  multiInstance?: boolean; // more than one can be open, each with its own config
   description?: string;
+  // Lazy so the registry can be imported without pulling in every pane
+  component: LazyExoticComponent<ComponentType<WindowPaneProps>>;
+  defaultSize: BreakpointSizes; // where a template doesn't place the window
+  minSize: BreakpointSizes;
 }
 
-export const WINDOW_REGISTRY: Record<WindowId, WindowDefinition> = {
+export type WindowPaneProps = { instanceId: WindowInstanceId };
+
+const sameSize = (size: GridSize): BreakpointSizes => ({ lg: size, md: size, sm: size, xs: size });
+
+// Order here is the window order in menus, the tab bar and the window shortcuts.
+// Panes take what they need from the host (see WindowHostContext).
+const WINDOWS = {
   inbox: {
-    id: 'inbox',
     title: 'Inbox',
+    tabLabel: 'Inbox',
+    icon: Inbox,
     defaultVisible: true,
+    multiInstance: true,
     description: 'Unscheduled tasks',
+    component: lazy(() => import('./InboxPane')),
+    defaultSize: { lg: { w: 6, h: 8 }, md: { w: 5, h: 8 }, sm: { w: 3, h: 8 }, xs: { w: 4, h: 6 } },
+    minSize: sameSize({ w: 3, h: 6 }),
   },
   calendar: {
-    id: 'calendar',
     title: 'Calendar',
+    tabLabel: 'Calendar',
+    icon: CalendarDays,
     defaultVisible: true,
+    multiInstance: true,
     description: 'Schedule view',
+    component: lazy(() => import('./CalendarPane')),
+    defaultSize: { lg: { w: 6, h: 10 }, md: { w: 5, h: 10 }, sm: { w: 3, h: 10 }, xs: { w: 4, h: 10 } },
+    minSize: sameSize({ w: 4, h: 8 }),
   },
   notes: {
-    id: 'notes',
     title: 'Notes',
+    tabLabel: 'Notes',
+    icon: StickyNote,
     defaultVisible: true,
     description: 'Pinned task stash',
+    component: lazy(() => import('./NotesPane')),
+    defaultSize: { lg: { w: 6, h: 8 }, md: { w: 5, h: 8 }, sm: { w: 3, h: 8 }, xs: { w: 4, h: 6 } },
+    minSize: sameSize({ w: 2, h: 6 }),
   },
   now: {
-    id: 'now',
     title: 'Now',
+    tabLabel: 'Now',
+    icon: Target,
     defaultVisible: true,
     description: 'Today’s focus',
+    component: lazy(() => import('./NowPane')),
+    defaultSize: { lg: { w: 6, h: 6 }, md: { w: 5, h: 6 }, sm: { w: 3, h: 6 }, xs: { w: 4, h: 6 } },
+    minSize: sameSize({ w: 2, h: 6 }),
+  },
+  memory: {
+    title: 'Memory',
+    tabLabel: 'Memory',
+    icon: Archive,
+    defaultVisible: false,
+    description: 'Stored ideas and tasks',
+    component: lazy(() => import('./MemoryPane')),
+    defaultSize: { lg: { w: 4, h: 10 }, md: { w: 4, h: 10 }, sm: { w: 3, h: 10 }, xs: { w: 4, h: 8 } },
+    minSize: sameSize({ w: 2, h: 6 }),
+  },
+  trends: {
+    title: 'Trends',
+    tabLabel: 'Trends',
+    icon: TrendingUp,
+    defaultVisible: false,
+    description: 'Trending topics for your niche',
+    component: lazy(() => import('./TrendsPane')),
+    defaultSize: { lg: { w: 6, h: 12 }, md: { w: 5, h: 12 }, sm: { w: 6, h: 12 }, xs: { w: 4, h: 12 } },
+    minSize: sameSize({ w: 3, h: 8 }),
+  },
+  campaigns: {
+    title: 'Campaign board',
+    tabLabel: 'Campaigns',
+    icon: Flag,
+    defaultVisible: false,
+    description: 'Campaigns by status',
+    component: lazy(() => import('./CampaignBoardPane')),
+    defaultSize: { lg: { w: 12, h: 10 }, md: { w: 10, h: 10 }, sm: { w: 6, h: 12 }, xs: { w: 4, h: 12 } },
+    minSize: sameSize({ w: 4, h: 8 }),
   },
-};
+} satisfies Record<string, WindowSpec>;
+
+export type WindowId = keyof typeof WINDOWS;
+
+// The first window of a type uses the type's id; further ones are numbered ("calendar:2")
+export type WindowInstanceId = WindowId | `${WindowId}:${number}`;
+
+export interface WindowDefinition extends WindowSpec {
+  id: WindowId;
+}
+
+export const WINDOW_REGISTRY = Object.fromEntries(
+  (Object.entries(WINDOWS) as Array<[WindowId, WindowSpec]>).map(([id, spec]) => [id, { id, ...spec }])
+) as Record<WindowId, WindowDefinition>;
 
 export function getWindowDefinition(id: WindowId): WindowDefinition {
   return WINDOW_REGISTRY[id];
@@ -41,3 +119,44 @@ export function getWindowDefinition(id: WindowId): WindowDefinition {
 export function getAllWindows(): WindowDefinition[] {
   return Object.values(WINDOW_REGISTRY);
 }
+
+export function isWindowId(value: unknown): value is WindowId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(WINDOW_REGISTRY, value);
+}
+
+export function parseWindowInstance(id: string): { type: WindowId; index: number } | null {
+  const [type, index, ...rest] = id.split(':');
+  if (!isWindowId(type) || rest.length > 0) return null;
+  if (index === undefined) return { type, index: 1 };
+  const n = Number(index);
+  if (!Number.isInteger(n) || n < 2 || String(n) !== index) return null;
+  if (!WINDOW_REGISTRY[type].multiInstance) return null;
+  return { type, index: n };
+}
+
+export function isWindowInstanceId(value: unknown): value is WindowInstanceId {
+  return typeof value === 'string' && parseWindowInstance(value) !== null;
+}
+
+export function windowTypeOf(id: WindowInstanceId): WindowId {
+  return parseWindowInstance(id)?.type ?? (id as WindowId);
+}
+
+export function isPrimaryInstance(id: WindowInstanceId): id is WindowId {
+  return isWindowId(id);
+}
+
+export function nextInstanceId(type: WindowId, taken: WindowInstanceId[]): WindowInstanceId {
+  if (!taken.includes(type)) return type;
+  let n = 2;
+  while (taken.includes(`${type}:${n}`)) n++;
+  return `${type}:${n}`;
+}
+
+// "Calendar", "Calendar 2"...
+export function windowInstanceTitle(id: WindowInstanceId, label: 'title' | 'tabLabel' = 'title'): string {
+  const parsed = parseWindowInstance(id);
+  if (!parsed) return id;
+  const name = WINDOW_REGISTRY[parsed.type][label];
+  return parsed.index > 1 ? `${name} ${parsed.index}` : name;
+}
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  WORKSPACE_MIGRATIONS,
+  WorkspaceMigrationError,
+  migrateSavedWorkspaces,
+  migrateWorkspaceData,
+  migrateWorkspaceState,
+} from './workspaceMigrations';
+import { WORKSPACE_SCHEMA_VERSION } from './workspaces';
+
+const item = (i: string, x = 0, y = 0) => ({ i, x, y, w: 6, h: 8 });
+
+// Workspace data as each schema version stored it
+const FIXTURES: Record<number, Record<string, unknown>> = {
+  // Unversioned: layouts only, window list and tab from before they were stored
+  0: {
+    layouts: { lg: [item('inbox'), item('calendar', 6)] },
+  },
+  1: {
+    version: 1,
+    layouts: { lg: [item('inbox'), item('calendar', 6)] },
+    visibleWindows: ['calendar', 'inbox'],
+    activeTab: 'calendar',
+    locked: true,
+  },
+  2: {
+    version: 2,
+    layouts: { lg: [item('inbox'), item('calendar', 6), item('calendar:2', 0, 8)] },
+    visibleWindows: ['calendar', 'calendar:2', 'inbox'],
+    activeTab: 'calendar:2',
+    locked: false,
+    instances: { 'calendar:2': { zoomLevel: 'week', focusedDate: '2026-03-02', energyFilter: ['high', 'bogus'] } },
+  },
+};
+
+const savedEntry = (id: string, data: unknown) => ({ id, name: `Workspace ${id}`, createdAt: 1, updatedAt: 2, data });
+
+// Failed upgrades are logged
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('migrateWorkspaceData', () => {
+  it('has a migration step from every older version', () => {
+    for (let version = 0; version < WORKSPACE_SCHEMA_VERSION; version++) {
+      expect(WORKSPACE_MIGRATIONS.some((m) => m.from === version)).toBe(true);
+    }
+  });
+
+  it('upgrades unversioned data with the default windows', () => {
+    const data = migrateWorkspaceData(FIXTURES[0]);
+    expect(data.version).toBe(WORKSPACE_SCHEMA_VERSION);
+    expect(data.visibleWindows).toEqual(['inbox', 'calendar', 'notes', 'now']);
+    expect(data.activeTab).toBe('inbox');
+    expect(data.locked).toBe(false);
+    expect(data.instances).toEqual({});
+    expect(data.layouts.lg.map((l) => l.i)).toEqual(['inbox', 'calendar', 'notes', 'now']);
+  });
+
+  it('upgrades version 1 data, keeping its windows, tab and lock', () => {
+    const data = migrateWorkspaceData(FIXTURES[1]);
+    expect(data.version).toBe(WORKSPACE_SCHEMA_VERSION);
+    expect(data.visibleWindows).toEqual(['inbox', 'calendar']);
+    expect(data.activeTab).toBe('calendar');
+    expect(data.locked).toBe(true);
+    expect(data.instances).toEqual({});
+  });
+
+  it('reads version 2 data and cleans up window configs', () => {
+    const data = migrateWorkspaceData(FIXTURES[2]);
+    expect(data.visibleWindows).toEqual(['inbox', 'calendar', 'calendar:2']);
+    expect(data.activeTab).toBe('calendar:2');
+    expect(data.instances).toEqual({
+      'calendar:2': { zoomLevel: 'week', focusedDate: '2026-03-02', energyFilter: ['high'] },
+    });
+  });
+
+  it('leaves out windows this app does not have', () => {
+    const dropped = new Set<string>();
+    const data = migrateWorkspaceData(
+      { ...FIXTURES[1], visibleWindows: ['inbox', 'radio'], layouts: { lg: [item('inbox'), item('radio')] } },
+      dropped
+    );
+    expect(data.visibleWindows).toEqual(['inbox']);
+    expect(data.layouts.lg.map((l) => l.i)).toEqual(['inbox']);
+    expect([...dropped]).toEqual(['radio']);
+  });
+
+  it('fails on data from a newer schema', () => {
+    expect(() => migrateWorkspaceData({ ...FIXTURES[2], version: WORKSPACE_SCHEMA_VERSION + 1 })).toThrow(
+      WorkspaceMigrationError
+    );
+  });
+
+  it('fails with the version a migration step broke at', () => {
+    const step = WORKSPACE_MIGRATIONS.find((m) => m.from === 1);
+    vi.spyOn(step, 'migrate').mockImplementation(() => {
+      throw new Error('boom');
+    });
+
+    let error: unknown;
+    try {
+      migrateWorkspaceData(FIXTURES[0]);
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(WorkspaceMigrationError);
+    expect((error as WorkspaceMigrationError).fromVersion).toBe(1);
+    expect((error as WorkspaceMigrationError).message).toContain('boom');
+  });
+
+  it('fails on data that is not a workspace', () => {
+    expect(() => migrateWorkspaceData('nope')).toThrow(WorkspaceMigrationError);
+  });
+});
+
+describe('migrateSavedWorkspaces', () => {
+  it('upgrades saved workspaces of every version', () => {
+    const { workspaces, unreadable } = migrateSavedWorkspaces(
+      Object.entries(FIXTURES).map(([version, data]) => savedEntry(`v${version}`, data))
+    );
+    expect(unreadable).toEqual([]);
+    expect(workspaces.map((w) => w.id)).toEqual(['v0', 'v1', 'v2']);
+    expect(workspaces.every((w) => w.data.version === WORKSPACE_SCHEMA_VERSION)).toBe(true);
+    expect(workspaces[2]).toMatchObject({ name: 'Workspace v2', createdAt: 1, updatedAt: 2 });
+  });
+
+  it('sets entries that fail to upgrade aside unchanged', () => {
+    const newer = savedEntry('future', { ...FIXTURES[2], version: WORKSPACE_SCHEMA_VERSION + 1 });
+    const { workspaces, unreadable } = migrateSavedWorkspaces([savedEntry('ok', FIXTURES[1]), newer, 'junk']);
+    expect(workspaces.map((w) => w.id)).toEqual(['ok']);
+    expect(unreadable).toEqual([{ id: 'future', name: 'Workspace future', raw: newer }]);
+  });
+});
+
+describe('migrateWorkspaceState', () => {
+  it.each([0, 1, 2])('upgrades a version %i payload', (version) => {
+    const { version: _, ...fields } = FIXTURES[version];
+    const state = migrateWorkspaceState({
+      ...(version > 0 ? { version } : {}),
+      ...fields,
+      saved: [savedEntry('s', FIXTURES[version])],
+      lastGood: FIXTURES[version],
+    });
+    expect(state.failed).toBe(false);
+    expect(state.revision).toBe(0);
+    expect(state.current?.version).toBe(WORKSPACE_SCHEMA_VERSION);
+    expect(state.saved?.map((w) => w.id)).toEqual(['s']);
+    expect(state.lastGood?.version).toBe(WORKSPACE_SCHEMA_VERSION);
+  });
+
+  it('reports a current layout that fails to upgrade and keeps the rest', () => {
+    const state = migrateWorkspaceState({
+      ...FIXTURES[2],
+      version: WORKSPACE_SCHEMA_VERSION + 1,
+      revision: 4,
+      saved: [savedEntry('s', FIXTURES[2])],
+    });
+    expect(state.current).toBeNull();
+    expect(state.failed).toBe(true);
+    expect(state.revision).toBe(4);
+    expect(state.saved?.map((w) => w.id)).toEqual(['s']);
+  });
+
+  it('returns null for anything but a payload', () => {
+    expect(migrateWorkspaceState(null)).toBeNull();
+  });
+});
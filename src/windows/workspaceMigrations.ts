@@ -0,0 +1,269 @@
+import type { LayoutItem } from 'react-grid-layout';
+import type { EnergyLevel, ZoomLevel } from '@/types';
+import { WindowId, WindowInstanceId, isWindowInstanceId } from './windowRegistry';
+import {
+  SavedWorkspace,
+  WORKSPACE_BREAKPOINTS,
+  WORKSPACE_SCHEMA_VERSION,
+  WorkspaceData,
+  ensureVisibleInLayouts,
+  WindowInstanceConfig,
+  normalizeVisibleWindows,
+  safeParseJson,
+  visibleInstanceConfigs,
+} from './workspaces';
+
+// Upgrades for stored workspace data, one schema version at a time. To change the format, bump
+// WORKSPACE_SCHEMA_VERSION and add a step from the previous version; data from any older version
+// then runs through every step in between.
+
+type RawWorkspaceData = Record<string, unknown>;
+
+export interface WorkspaceMigration {
+  from: number; // returns data at from + 1
+  description: string;
+  migrate: (data: RawWorkspaceData) => RawWorkspaceData;
+}
+
+const DEFAULT_VISIBLE: WindowId[] = ['inbox', 'notes', 'calendar', 'now'];
+
+export const WORKSPACE_MIGRATIONS: WorkspaceMigration[] = [
+  {
+    from: 0,
+    description: 'Unversioned data: default the window list, mobile tab and lock state',
+    migrate: (data) => {
+      const visibleWindows = Array.isArray(data.visibleWindows) ? data.visibleWindows : DEFAULT_VISIBLE;
+      return {
+        ...data,
+        version: 1,
+        layouts: isRecord(data.layouts) ? data.layouts : {},
+        visibleWindows,
+        activeTab: typeof data.activeTab === 'string' ? data.activeTab : visibleWindows[0],
+        locked: data.locked === true,
+      };
+    },
+  },
+  {
+    from: 1,
+    description: 'Several windows of one type: per-window config',
+    migrate: (data) => ({ ...data, version: 2, instances: isRecord(data.instances) ? data.instances : {} }),
+  },
+];
+
+export class WorkspaceMigrationError extends Error {
+  readonly fromVersion: number | null; // null when the data isn't versioned workspace data at all
+
+  constructor(message: string, fromVersion: number | null) {
+    super(message);
+    this.name = 'WorkspaceMigrationError';
+    this.fromVersion = fromVersion;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const ZOOM_LEVELS: ZoomLevel[] = ['year', 'quarter', 'month', 'week', 'day', 'hour'];
+const ENERGY_LEVELS: EnergyLevel[] = ['high', 'medium', 'low', 'recovery'];
+
+function readInstanceConfig(raw: unknown): WindowInstanceConfig {
+  if (!isRecord(raw)) return {};
+  const config: WindowInstanceConfig = {};
+  if (ZOOM_LEVELS.includes(raw.zoomLevel as ZoomLevel)) config.zoomLevel = raw.zoomLevel as ZoomLevel;
+  if (raw.focusedDate === null) config.focusedDate = null;
+  if (typeof raw.focusedDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(raw.focusedDate)) config.focusedDate = raw.focusedDate;
+  if (raw.focusedMonth === null || (Number.isInteger(raw.focusedMonth) && (raw.focusedMonth as number) >= 0 && (raw.focusedMonth as number) < 12)) {
+    config.focusedMonth = raw.focusedMonth as number | null;
+  }
+  if (Array.isArray(raw.energyFilter)) {
+    config.energyFilter = ENERGY_LEVELS.filter((e) => (raw.energyFilter as unknown[]).includes(e));
+  }
+  return config;
+}
+
+function readLayouts(raw: unknown, dropped: Set<string>): WorkspaceData['layouts'] {
+  const layouts: WorkspaceData['layouts'] = {};
+  if (!isRecord(raw)) return layouts;
+
+  for (const bp of Object.keys(WORKSPACE_BREAKPOINTS)) {
+    const items = raw[bp];
+    if (!Array.isArray(items)) continue;
+    layouts[bp] = items.filter((item): item is LayoutItem => {
+      if (!isRecord(item) || typeof item.i !== 'string') return false;
+      if (!isWindowInstanceId(item.i)) {
+        dropped.add(item.i);
+        return false;
+      }
+      return [item.x, item.y, item.w, item.h].every(isFiniteNumber);
+    });
+  }
+  return layouts;
+}
+
+// Current-schema data with anything this app can't show left out
+function repairWorkspaceData(data: RawWorkspaceData, dropped: Set<string>): WorkspaceData {
+  const listed = Array.isArray(data.visibleWindows) ? data.visibleWindows : [];
+  listed.filter((id) => !isWindowInstanceId(id)).forEach((id) => dropped.add(String(id)));
+  const visibleWindows = normalizeVisibleWindows(listed.filter(isWindowInstanceId));
+  const instances = Object.fromEntries(
+    Object.entries(isRecord(data.instances) ? data.instances : {}).map(([id, config]) => [id, readInstanceConfig(config)])
+  );
+
+  return {
+    version: WORKSPACE_SCHEMA_VERSION,
+    layouts: ensureVisibleInLayouts(readLayouts(data.layouts, dropped), visibleWindows),
+    visibleWindows,
+    activeTab: isWindowInstanceId(data.activeTab) && visibleWindows.includes(data.activeTab) ? data.activeTab : visibleWindows[0],
+    locked: data.locked === true,
+    instances: visibleInstanceConfigs(instances, visibleWindows),
+  };
+}
+
+/**
+ * Upgrade workspace data of any older version (no version counts as 0) to the current schema.
+ * Window types this app doesn't have are left out and collected in `dropped`.
+ * Throws WorkspaceMigrationError when the data can't be upgraded.
+ */
+export function migrateWorkspaceData(raw: unknown, dropped = new Set<string>()): WorkspaceData {
+  if (!isRecord(raw)) throw new WorkspaceMigrationError('Workspace data is missing', null);
+
+  let data = raw;
+  let version = isFiniteNumber(raw.version) ? raw.version : 0;
+  if (version > WORKSPACE_SCHEMA_VERSION) {
+    throw new WorkspaceMigrationError(`Workspace schema ${version} is newer than this app`, version);
+  }
+
+  while (version < WORKSPACE_SCHEMA_VERSION) {
+    const step = WORKSPACE_MIGRATIONS.find((m) => m.from === version);
+    if (!step) throw new WorkspaceMigrationError(`No migration from workspace schema ${version}`, version);
+    try {
+      data = step.migrate(data);
+    } catch (err) {
+      throw new WorkspaceMigrationError(
+        `Migration from workspace schema ${version} failed: ${err instanceof Error ? err.message : String(err)}`,
+        version
+      );
+    }
+    version = step.from + 1;
+  }
+
+  return repairWorkspaceData(data, dropped);
+}
+
+/**
+ * migrateWorkspaceData, or null when it fails.
+ */
+export function tryMigrateWorkspaceData(raw: unknown): WorkspaceData | null {
+  try {
+    return migrateWorkspaceData(raw);
+  } catch (err) {
+    console.error('Workspace migration error:', err);
+    return null;
+  }
+}
+
+// A saved workspace that couldn't be upgraded. It is stored back exactly as it was read, so an app
+// that can read it (e.g. a newer version on another device) still finds it.
+export type UnreadableSavedWorkspace = {
+  id: string;
+  name: string;
+  raw: Record<string, unknown>;
+};
+
+export type MigratedSavedWorkspaces = {
+  workspaces: SavedWorkspace[];
+  unreadable: UnreadableSavedWorkspace[];
+};
+
+/**
+ * Saved workspaces with their data upgraded. Entries that can't be upgraded are set aside in
+ * `unreadable`; entries without an id aren't saved workspaces and are left out.
+ */
+export function migrateSavedWorkspaces(raw: unknown): MigratedSavedWorkspaces {
+  const result: MigratedSavedWorkspaces = { workspaces: [], unreadable: [] };
+  if (!Array.isArray(raw)) return result;
+
+  for (const entry of raw) {
+    if (!isRecord(entry) || typeof entry.id !== 'string') continue;
+    const name = typeof entry.name === 'string' ? entry.name : '';
+    const data = name ? tryMigrateWorkspaceData(entry.data) : null;
+    if (!data) {
+      result.unreadable.push({ id: entry.id, name: name || 'Untitled', raw: entry });
+      continue;
+    }
+    const now = Date.now();
+    result.workspaces.push({
+      id: entry.id,
+      name,
+      createdAt: isFiniteNumber(entry.createdAt) ? entry.createdAt : now,
+      updatedAt: isFiniteNumber(entry.updatedAt) ? entry.updatedAt : now,
+      data,
+    });
+  }
+  return result;
+}
+
+// Shape of profiles.workspace_state. Payloads written before it carried a version count as 0.
+export type WorkspaceStatePayload = {
+  version: number;
+  revision: number; // bumped on every write (see workspaceSync)
+  layouts: WorkspaceData['layouts'];
+  saved: Array<SavedWorkspace | UnreadableSavedWorkspace['raw']>; // unreadable entries go back as read
+  locked: boolean;
+  activeTab: WindowInstanceId;
+  visibleWindows: WindowInstanceId[];
+  instances: WorkspaceData['instances'];
+  lastGood: WorkspaceData | null;
+};
+
+export type MigratedWorkspaceState = {
+  revision: number; // 0 for payloads written before revisions
+  current: WorkspaceData | null;
+  failed: boolean; // the payload had a current layout that couldn't be upgraded
+  saved: SavedWorkspace[] | null; // null when the payload has no saved list
+  unreadableSaved: UnreadableSavedWorkspace[];
+  lastGood: WorkspaceData | null;
+};
+
+/**
+ * Upgrade a profiles.workspace_state payload: the current layout, the saved list and the last good snapshot.
+ * Returns null when it isn't a workspace payload.
+ */
+export function migrateWorkspaceState(raw: unknown): MigratedWorkspaceState | null {
+  if (!isRecord(raw)) return null;
+
+  const version = isFiniteNumber(raw.version) ? raw.version : 0;
+  const hasCurrent = raw.layouts !== undefined || raw.visibleWindows !== undefined;
+  const current = hasCurrent
+    ? tryMigrateWorkspaceData({
+        version,
+        layouts: raw.layouts,
+        visibleWindows: raw.visibleWindows,
+        activeTab: raw.activeTab,
+        locked: raw.locked,
+        instances: raw.instances,
+      })
+    : null;
+  const saved = Array.isArray(raw.saved) ? migrateSavedWorkspaces(raw.saved) : null;
+  return {
+    revision: isFiniteNumber(raw.revision) ? raw.revision : 0,
+    current,
+    failed: hasCurrent && !current,
+    saved: saved?.workspaces ?? null,
+    unreadableSaved: saved?.unreadable ?? [],
+    lastGood: raw.lastGood ? tryMigrateWorkspaceData(raw.lastGood) : null,
+  };
+}
+
+/**
+ * The stored value under the newest key keyFor(version) has, looking back through older versions' keys.
+ */
+export function readVersionedStorage(keyFor: (version: number) => string, currentVersion: number): { raw: unknown; version: number } | null {
+  for (let version = currentVersion; version >= 1; version--) {
+    const raw = safeParseJson<unknown>(localStorage.getItem(keyFor(version)));
+    if (raw !== null) return { raw, version };
+  }
+  return null;
+}
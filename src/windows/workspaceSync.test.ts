@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import type { SavedWorkspace, WorkspaceData } from './workspaces';
+import { makeTemplateData } from './workspaces';
+import {
+  SyncedWorkspace,
+  isNewerRevision,
+  mergeSavedWorkspaces,
+  mergeUnreadableSaved,
+  mergeWorkspaceSync,
+} from './workspaceSync';
+
+const DATA = makeTemplateData('plan');
+
+const saved = (id: string, updatedAt = 1, name = `Workspace ${id}`): SavedWorkspace => ({
+  id,
+  name,
+  createdAt: 1,
+  updatedAt,
+  data: DATA,
+});
+
+const state = (overrides: Partial<SyncedWorkspace> = {}, current: Partial<WorkspaceData> = {}): SyncedWorkspace => ({
+  revision: 1,
+  current: { ...DATA, ...current },
+  saved: [saved('a'), saved('b')],
+  unreadableSaved: [],
+  ...overrides,
+});
+
+// The same layout with the calendar window moved down a row
+const moved = (data: WorkspaceData): WorkspaceData => ({
+  ...data,
+  layouts: { ...data.layouts, lg: data.layouts.lg!.map((l) => (l.i === 'calendar' ? { ...l, y: l.y + 1 } : l)) },
+});
+
+const ids = (list: SavedWorkspace[]) => list.map((w) => w.id);
+
+describe('isNewerRevision', () => {
+  it('accepts only states past the base revision', () => {
+    expect(isNewerRevision({ revision: 3 }, { revision: 2 })).toBe(true);
+    // Our own write coming back
+    expect(isNewerRevision({ revision: 2 }, { revision: 2 })).toBe(false);
+    // Stale: read before a write of ours landed
+    expect(isNewerRevision({ revision: 1 }, { revision: 2 })).toBe(false);
+    expect(isNewerRevision({ revision: 0 }, null)).toBe(true);
+  });
+});
+
+describe('mergeSavedWorkspaces', () => {
+  const base = [saved('a'), saved('b')];
+
+  it('keeps entries added on either side', () => {
+    expect(ids(mergeSavedWorkspaces(base, [...base, saved('mine')], [...base, saved('theirs')]))).toEqual([
+      'mine',
+      'a',
+      'b',
+      'theirs',
+    ]);
+  });
+
+  it('drops entries removed on either side', () => {
+    expect(ids(mergeSavedWorkspaces(base, [saved('b')], base))).toEqual(['b']);
+    expect(ids(mergeSavedWorkspaces(base, base, [saved('a')]))).toEqual(['a']);
+    expect(mergeSavedWorkspaces(base, [saved('b')], [saved('a')])).toEqual([]);
+  });
+
+  it('keeps the newer edit of an entry changed on both sides', () => {
+    const merged = mergeSavedWorkspaces(
+      base,
+      [saved('a', 5, 'Mine'), saved('b', 2, 'Mine')],
+      [saved('a', 4, 'Theirs'), saved('b', 3, 'Theirs')]
+    );
+    expect(merged.map((w) => w.name)).toEqual(['Mine', 'Theirs']);
+  });
+});
+
+describe('mergeWorkspaceSync', () => {
+  const base = state();
+
+  it('takes fields changed only remotely and reports them', () => {
+    const remote = state(
+      { revision: 2, saved: [saved('a', 3, 'Renamed'), saved('b')] },
+      { ...moved(DATA), locked: true }
+    );
+    const { merged, changed } = mergeWorkspaceSync(base, base, remote);
+    expect(merged).toEqual(remote);
+    expect(changed).toEqual(['layout', 'saved', 'lock']);
+  });
+
+  it('keeps fields changed only locally', () => {
+    const local = state({ saved: [saved('a')] }, { ...moved(DATA), locked: true });
+    const remote = state({ revision: 2 });
+    const { merged, changed } = mergeWorkspaceSync(base, local, remote);
+    expect(merged).toEqual({ ...local, revision: 2 });
+    expect(changed).toEqual([]);
+  });
+
+  it('merges fields independently when each side changed a different one', () => {
+    const local = state({}, { locked: true });
+    const remote = state({ revision: 2 }, moved(DATA));
+    const { merged, changed } = mergeWorkspaceSync(base, local, remote);
+    expect(merged.current).toEqual({ ...moved(DATA), locked: true });
+    expect(changed).toEqual(['layout']);
+  });
+
+  it('keeps the local edit when both sides changed the same field', () => {
+    const local = state({}, { activeTab: 'calendar', locked: true });
+    const remote = state({ revision: 2 }, { ...moved(DATA), locked: true });
+    const { merged, changed } = mergeWorkspaceSync(base, local, remote);
+    expect(merged.current).toEqual(local.current);
+    expect(changed).toEqual([]);
+  });
+
+  it('takes the remote state whole without a base', () => {
+    const local = state({ saved: [saved('mine')] }, { locked: true });
+    const remote = state({ revision: 2 });
+    const { merged, changed } = mergeWorkspaceSync(null, local, remote);
+    expect(merged).toEqual(remote);
+    expect(changed).toEqual(['saved', 'lock']);
+  });
+
+  it('only ever adds unreadable saved workspaces', () => {
+    const old = { id: 'old', name: 'Old', raw: {} };
+    const other = { id: 'other', name: 'Other', raw: {} };
+    const { merged } = mergeWorkspaceSync(
+      base,
+      state({ unreadableSaved: [old] }),
+      state({ revision: 2, unreadableSaved: [other] })
+    );
+    expect(merged.unreadableSaved).toEqual([old, other]);
+    expect(mergeUnreadableSaved([old], [])).toEqual([old]);
+  });
+});
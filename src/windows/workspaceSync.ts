@@ -0,0 +1,122 @@
+import type { SavedWorkspace, WorkspaceData } from './workspaces';
+import type { MigratedWorkspaceState, UnreadableSavedWorkspace } from './workspaceMigrations';
+
+// The part of profiles.workspace_state devices share. `revision` goes up by one with every write,
+// so a device can tell whether the stored state moved on since it last looked.
+export type SyncedWorkspace = {
+  revision: number;
+  current: WorkspaceData;
+  saved: SavedWorkspace[];
+  unreadableSaved: UnreadableSavedWorkspace[];
+};
+
+// Merged independently: a layout change on one device and a rename on another both survive
+export type WorkspaceSyncField = 'layout' | 'saved' | 'lock';
+
+export const WORKSPACE_SYNC_FIELD_LABELS: Record<WorkspaceSyncField, string> = {
+  layout: 'window layout',
+  saved: 'saved workspaces',
+  lock: 'layout lock',
+};
+
+export function syncedFromState(ws: MigratedWorkspaceState): SyncedWorkspace | null {
+  if (!ws.current) return null;
+  return { revision: ws.revision, current: ws.current, saved: ws.saved ?? [], unreadableSaved: ws.unreadableSaved };
+}
+
+// Unreadable entries are only ever added: no device can show them, so none can have deleted them
+export function mergeUnreadableSaved(
+  a: UnreadableSavedWorkspace[],
+  b: UnreadableSavedWorkspace[]
+): UnreadableSavedWorkspace[] {
+  const ids = new Set(a.map((w) => w.id));
+  const added = b.filter((w) => !ids.has(w.id));
+  return added.length > 0 ? [...a, ...added] : a;
+}
+
+// Grid positions only: the grid adds its own flags (moved, static) to items it touches
+function layoutSignature(data: WorkspaceData): string {
+  const layouts = Object.keys(data.layouts)
+    .sort()
+    .map((bp) => [
+      bp,
+      (data.layouts[bp] ?? [])
+        .map(({ i, x, y, w, h }) => [i, x, y, w, h])
+        .sort((a, b) => String(a[0]).localeCompare(String(b[0]))),
+    ]);
+  return JSON.stringify([layouts, data.visibleWindows, data.activeTab, data.instances]);
+}
+
+function savedSignature(saved: SavedWorkspace[]): string {
+  return JSON.stringify(saved.map((w) => [w.id, w.name, w.updatedAt]));
+}
+
+export function sameSyncedWorkspace(a: SyncedWorkspace, b: SyncedWorkspace): boolean {
+  return (
+    a.current.locked === b.current.locked &&
+    layoutSignature(a.current) === layoutSignature(b.current) &&
+    savedSignature(a.saved) === savedSignature(b.saved) &&
+    a.unreadableSaved.length === b.unreadableSaved.length
+  );
+}
+
+/**
+ * Whether a stored state moved on since `base`, the one this device last read or wrote.
+ * A stale or echoed state (our own write coming back) is not; anything is newer than no base.
+ */
+export function isNewerRevision(
+  remote: Pick<SyncedWorkspace, 'revision'>,
+  base: Pick<SyncedWorkspace, 'revision'> | null
+): boolean {
+  return !base || remote.revision > base.revision;
+}
+
+/**
+ * Three-way merge of saved workspaces by id. Deletions on either side stick; an entry changed
+ * on both sides keeps the newer edit.
+ */
+export function mergeSavedWorkspaces(
+  base: SavedWorkspace[],
+  local: SavedWorkspace[],
+  remote: SavedWorkspace[]
+): SavedWorkspace[] {
+  const baseIds = new Set(base.map((w) => w.id));
+  const localById = new Map(local.map((w) => [w.id, w]));
+  const remoteIds = new Set(remote.map((w) => w.id));
+
+  const addedLocally = local.filter((w) => !baseIds.has(w.id) && !remoteIds.has(w.id));
+  const kept = remote.flatMap((w) => {
+    const mine = localById.get(w.id);
+    if (!mine) return baseIds.has(w.id) ? [] : [w];
+    return [mine.updatedAt > w.updatedAt ? mine : w];
+  });
+  return [...addedLocally, ...kept];
+}
+
+/**
+ * Merge a newer remote state into the local one. Fields unchanged locally since `base` (the state
+ * both last agreed on) take the remote value; fields edited locally keep the local edit.
+ * Without a base, the remote state wins. `changed` lists the fields that differ from `local`.
+ */
+export function mergeWorkspaceSync(
+  base: SyncedWorkspace | null,
+  local: SyncedWorkspace,
+  remote: SyncedWorkspace
+): { merged: SyncedWorkspace; changed: WorkspaceSyncField[] } {
+  const layoutEdited = !!base && layoutSignature(local.current) !== layoutSignature(base.current);
+  const lockEdited = !!base && local.current.locked !== base.current.locked;
+
+  const layoutSource = layoutEdited ? local.current : remote.current;
+  const merged: SyncedWorkspace = {
+    revision: remote.revision,
+    current: { ...layoutSource, locked: lockEdited ? local.current.locked : remote.current.locked },
+    saved: base ? mergeSavedWorkspaces(base.saved, local.saved, remote.saved) : remote.saved,
+    unreadableSaved: mergeUnreadableSaved(local.unreadableSaved, remote.unreadableSaved),
+  };
+
+  const changed: WorkspaceSyncField[] = [];
+  if (layoutSignature(merged.current) !== layoutSignature(local.current)) changed.push('layout');
+  if (savedSignature(merged.saved) !== savedSignature(local.saved)) changed.push('saved');
+  if (merged.current.locked !== local.current.locked) changed.push('lock');
+  return { merged, changed };
+}
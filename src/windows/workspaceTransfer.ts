@@ -0,0 +1,115 @@
+import { SavedWorkspace, WORKSPACE_SCHEMA_VERSION } from './workspaces';
+import { WorkspaceMigrationError, migrateWorkspaceData } from './workspaceMigrations';
+
+// Versioned JSON files for moving saved workspaces between accounts and sharing them.
+
+export const WORKSPACE_EXPORT_FORMAT = 'luminoo.workspaces';
+
+export type ImportedWorkspace = Pick<SavedWorkspace, 'name' | 'createdAt' | 'updatedAt' | 'data'>;
+
+export type WorkspaceExportFile = {
+  format: typeof WORKSPACE_EXPORT_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  workspaces: ImportedWorkspace[];
+};
+
+export type WorkspaceImport = {
+  workspaces: ImportedWorkspace[];
+  droppedWindows: string[]; // window types in the file that this app doesn't have
+};
+
+export type ImportCollisionStrategy = 'rename' | 'replace' | 'skip';
+
+export class WorkspaceImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceImportError';
+  }
+}
+
+export function exportWorkspaces(workspaces: SavedWorkspace[]): string {
+  const file: WorkspaceExportFile = {
+    format: WORKSPACE_EXPORT_FORMAT,
+    schemaVersion: WORKSPACE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    workspaces: workspaces.map(({ name, createdAt, updatedAt, data }) => ({ name, createdAt, updatedAt, data })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function exportFileName(workspaces: SavedWorkspace[]): string {
+  if (workspaces.length === 1) {
+    const slug = workspaces[0].name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return `luminoo-workspace-${slug || 'untitled'}.json`;
+  }
+  return `luminoo-workspaces-${new Date().toISOString().slice(0, 10)}.json`;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Read an exported workspace file. Throws WorkspaceImportError with a user-facing message
+ * when the file can't be used.
+ */
+export function parseWorkspaceImport(text: string): WorkspaceImport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new WorkspaceImportError('The file is not valid JSON');
+  }
+
+  if (!isRecord(parsed) || parsed.format !== WORKSPACE_EXPORT_FORMAT || !Array.isArray(parsed.workspaces)) {
+    throw new WorkspaceImportError('The file is not a luminoo workspace export');
+  }
+
+  const schemaVersion = isFiniteNumber(parsed.schemaVersion) ? parsed.schemaVersion : 0;
+  if (schemaVersion > WORKSPACE_SCHEMA_VERSION) {
+    throw new WorkspaceImportError('The file was made by a newer version of luminoo; update the app and try again');
+  }
+
+  const dropped = new Set<string>();
+  const now = Date.now();
+  const workspaces = parsed.workspaces.map((raw, index): ImportedWorkspace => {
+    const entry = isRecord(raw) ? raw : {};
+    const name = typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : `Imported workspace ${index + 1}`;
+    // Per-workspace versions win over the file's, for hand-assembled files
+    const version = isRecord(entry.data) && isFiniteNumber(entry.data.version) ? entry.data.version : schemaVersion;
+    if (version > WORKSPACE_SCHEMA_VERSION) {
+      throw new WorkspaceImportError(`"${name}" was made by a newer version of luminoo`);
+    }
+    if (!isRecord(entry.data)) throw new WorkspaceImportError(`"${name}" has no layout data`);
+
+    try {
+      return {
+        name,
+        createdAt: isFiniteNumber(entry.createdAt) ? entry.createdAt : now,
+        updatedAt: isFiniteNumber(entry.updatedAt) ? entry.updatedAt : now,
+        data: migrateWorkspaceData({ ...entry.data, version }, dropped),
+      };
+    } catch (err) {
+      if (err instanceof WorkspaceMigrationError) throw new WorkspaceImportError(`"${name}" couldn't be upgraded`);
+      throw err;
+    }
+  });
+
+  if (workspaces.length === 0) throw new WorkspaceImportError('The file has no workspaces');
+  return { workspaces, droppedWindows: [...dropped] };
+}
+
+/**
+ * "Name", or "Name (2)", "Name (3)"... when taken (case-insensitive).
+ */
+export function uniqueWorkspaceName(name: string, taken: Iterable<string>): string {
+  const names = new Set([...taken].map((n) => n.toLowerCase()));
+  if (!names.has(name.toLowerCase())) return name;
+
+  const base = name.replace(/\s\(\d+\)$/, '');
+  let n = 2;
+  while (names.has(`${base} (${n})`.toLowerCase())) n++;
+  return `${base} (${n})`;
+}
@@ -1,12 +1,16 @@
-import type { Layout, Layouts } from 'react-grid-layout';
-import type { WindowId } from './windowRegistry';
+import type { LayoutItem, ResponsiveLayouts } from 'react-grid-layout';
+import type { EnergyLevel, ZoomLevel } from '@/types';
+import { WindowId, WindowInstanceId, getAllWindows, getWindowDefinition, parseWindowInstance, windowTypeOf } from './windowRegistry';
 
-export const WORKSPACE_SCHEMA_VERSION = 1;
+// Bumping either needs a step in workspaceMigrations.ts; older keys are read and upgraded on load.
+export const WORKSPACE_SCHEMA_VERSION = 2;
 export const CURRENT_LAYOUT_STORAGE_VERSION = 1;
 
 export const WORKSPACE_BREAKPOINTS = { lg: 1200, md: 900, sm: 600, xs: 0 } as const;
 export const WORKSPACE_COLS = { lg: 12, md: 10, sm: 6, xs: 4 } as const;
 
+export type WorkspaceBreakpoint = keyof typeof WORKSPACE_BREAKPOINTS;
+
 export type BuiltinTemplateId =
   | 'focus'
   | 'capture'
@@ -18,16 +22,38 @@ export type BuiltinTemplateId =
   | 'capture-mode'
   | 'mobile-stack';
 
+// Older template IDs and the templates that replaced them
+const LEGACY_TEMPLATE_IDS: Partial<Record<BuiltinTemplateId, BuiltinTemplateId>> = {
+  'classic-2x2': 'plan',
+  'focus-calendar': 'focus',
+  'capture-mode': 'capture',
+  'mobile-stack': 'minimal',
+};
+
+export function canonicalTemplateId(id: BuiltinTemplateId): BuiltinTemplateId {
+  return LEGACY_TEMPLATE_IDS[id] ?? id;
+}
+
+// Per-window settings; anything unset follows the main planner state.
+export type WindowInstanceConfig = {
+  zoomLevel?: ZoomLevel;
+  focusedDate?: string | null; // yyyy-MM-dd
+  focusedMonth?: number | null; // 0-11
+  energyFilter?: EnergyLevel[];
+};
+
 export type WorkspaceData = {
   version: typeof WORKSPACE_SCHEMA_VERSION;
   // Grid layouts for responsive breakpoints (used in medium/wide).
-  layouts: Layouts;
+  layouts: ResponsiveLayouts;
   // Visible windows (also defines mobile tab order).
-  visibleWindows: WindowId[];
+  visibleWindows: WindowInstanceId[];
   // Active tab for narrow mode.
-  activeTab: WindowId;
+  activeTab: WindowInstanceId;
   // When locked: windows cannot move/resize (tasks still draggable).
   locked: boolean;
+  // Config of the visible windows that have any.
+  instances: Partial<Record<WindowInstanceId, WindowInstanceConfig>>;
 };
 
 export type SavedWorkspace = {
@@ -38,24 +64,28 @@ export type SavedWorkspace = {
   data: WorkspaceData;
 };
 
-export function currentLayoutStorageKey(userKey: string) {
-  return `ui.workspace.layout.v${CURRENT_LAYOUT_STORAGE_VERSION}.${userKey}`;
+export function currentLayoutStorageKey(userKey: string, version = CURRENT_LAYOUT_STORAGE_VERSION) {
+  return `ui.workspace.layout.v${version}.${userKey}`;
 }
 
-export function workspacesStorageKey(userKey: string) {
-  return `ui.workspaces.v${WORKSPACE_SCHEMA_VERSION}.${userKey}`;
+export function workspacesStorageKey(userKey: string, version = WORKSPACE_SCHEMA_VERSION) {
+  return `ui.workspaces.v${version}.${userKey}`;
 }
 
-export function lastGoodStorageKey(userKey: string) {
-  return `ui.workspaces.lastGood.v${WORKSPACE_SCHEMA_VERSION}.${userKey}`;
+export function lastGoodStorageKey(userKey: string, version = WORKSPACE_SCHEMA_VERSION) {
+  return `ui.workspaces.lastGood.v${version}.${userKey}`;
 }
 
-export function lockStorageKey(userKey: string) {
-  return `ui.workspace.lock.v${WORKSPACE_SCHEMA_VERSION}.${userKey}`;
+export function lockStorageKey(userKey: string, version = WORKSPACE_SCHEMA_VERSION) {
+  return `ui.workspace.lock.v${version}.${userKey}`;
 }
 
-export function activeTabStorageKey(userKey: string) {
-  return `ui.workspace.mobile.activeTab.v${WORKSPACE_SCHEMA_VERSION}.${userKey}`;
+export function activeTabStorageKey(userKey: string, version = WORKSPACE_SCHEMA_VERSION) {
+  return `ui.workspace.mobile.activeTab.v${version}.${userKey}`;
+}
+
+export function instancesStorageKey(userKey: string, version = WORKSPACE_SCHEMA_VERSION) {
+  return `ui.workspace.instances.v${version}.${userKey}`;
 }
 
 export function safeParseJson<T>(raw: string | null): T | null {
@@ -67,134 +97,138 @@ export function safeParseJson<T>(raw: string | null): T | null {
   }
 }
 
-export function normalizeVisibleWindows(input: WindowId[]): WindowId[] {
-  const order: WindowId[] = ['inbox', 'calendar', 'now', 'notes'];
-  const set = new Set(input);
-  const normalized = order.filter((id) => set.has(id));
+// Registry order, then instance number
+export function normalizeVisibleWindows(input: WindowInstanceId[]): WindowInstanceId[] {
+  const typeOrder = getAllWindows().map((w) => w.id);
+  const rank = (id: WindowInstanceId) => {
+    const parsed = parseWindowInstance(id);
+    return parsed ? typeOrder.indexOf(parsed.type) * 1000 + parsed.index : -1;
+  };
+  const normalized = [...new Set(input)].filter((id) => rank(id) >= 0).sort((a, b) => rank(a) - rank(b));
   return normalized.length > 0 ? normalized : ['inbox'];
 }
 
-function layoutMin(id: WindowId): Pick<Layout, 'minW' | 'minH'> {
-  if (id === 'calendar') return { minW: 4, minH: 8 };
-  if (id === 'inbox') return { minW: 3, minH: 6 };
-  return { minW: 2, minH: 6 };
+function layoutMin(id: WindowInstanceId, bp: WorkspaceBreakpoint): Pick<LayoutItem, 'minW' | 'minH'> {
+  const { w, h } = getWindowDefinition(windowTypeOf(id)).minSize[bp];
+  return { minW: w, minH: h };
+}
+
+// A window the template doesn't place: its registry size, below everything else
+function defaultLayoutItem(id: WindowInstanceId, bp: WorkspaceBreakpoint, below: readonly LayoutItem[]): LayoutItem {
+  const { w, h } = getWindowDefinition(windowTypeOf(id)).defaultSize[bp];
+  const y = below.reduce((max, l) => Math.max(max, l.y + l.h), 0);
+  return { i: id, x: 0, y, w: Math.min(w, WORKSPACE_COLS[bp]), h, ...layoutMin(id, bp) };
 }
 
 export function makeTemplateData(templateId: BuiltinTemplateId): WorkspaceData {
-  // Normalize legacy IDs.
-  const id: BuiltinTemplateId =
-    templateId === 'classic-2x2' ? 'plan' :
-    templateId === 'focus-calendar' ? 'focus' :
-    templateId === 'capture-mode' ? 'capture' :
-    templateId === 'mobile-stack' ? 'minimal' :
-    templateId;
+  const id = canonicalTemplateId(templateId);
 
   const visibleWindows: WindowId[] = ['inbox', 'notes', 'calendar', 'now'];
   const activeTab: WindowId = 'inbox';
   const locked = false;
 
-  const lg: Layout[] = [];
-  const md: Layout[] = [];
-  const sm: Layout[] = [];
-  const xs: Layout[] = [];
+  const lg: LayoutItem[] = [];
+  const md: LayoutItem[] = [];
+  const sm: LayoutItem[] = [];
+  const xs: LayoutItem[] = [];
 
-  const add = (arr: Layout[], l: Layout) => arr.push(l);
+  const add = (arr: LayoutItem[], l: LayoutItem) => arr.push(l);
 
   if (id === 'plan') {
     // lg (12 cols): 6/6 split, each column stacked.
-    add(lg, { i: 'inbox', x: 0, y: 0, w: 6, h: 8, ...layoutMin('inbox') });
-    add(lg, { i: 'notes', x: 0, y: 8, w: 6, h: 8, ...layoutMin('notes') });
-    add(lg, { i: 'calendar', x: 6, y: 0, w: 6, h: 10, ...layoutMin('calendar') });
-    add(lg, { i: 'now', x: 6, y: 10, w: 6, h: 6, ...layoutMin('now') });
+    add(lg, { i: 'inbox', x: 0, y: 0, w: 6, h: 8, ...layoutMin('inbox', 'lg') });
+    add(lg, { i: 'notes', x: 0, y: 8, w: 6, h: 8, ...layoutMin('notes', 'lg') });
+    add(lg, { i: 'calendar', x: 6, y: 0, w: 6, h: 10, ...layoutMin('calendar', 'lg') });
+    add(lg, { i: 'now', x: 6, y: 10, w: 6, h: 6, ...layoutMin('now', 'lg') });
 
     // md (10 cols): 5/5 split
-    add(md, { i: 'inbox', x: 0, y: 0, w: 5, h: 8, ...layoutMin('inbox') });
-    add(md, { i: 'notes', x: 0, y: 8, w: 5, h: 8, ...layoutMin('notes') });
-    add(md, { i: 'calendar', x: 5, y: 0, w: 5, h: 10, ...layoutMin('calendar') });
-    add(md, { i: 'now', x: 5, y: 10, w: 5, h: 6, ...layoutMin('now') });
+    add(md, { i: 'inbox', x: 0, y: 0, w: 5, h: 8, ...layoutMin('inbox', 'md') });
+    add(md, { i: 'notes', x: 0, y: 8, w: 5, h: 8, ...layoutMin('notes', 'md') });
+    add(md, { i: 'calendar', x: 5, y: 0, w: 5, h: 10, ...layoutMin('calendar', 'md') });
+    add(md, { i: 'now', x: 5, y: 10, w: 5, h: 6, ...layoutMin('now', 'md') });
 
     // sm (6 cols): 3/3 split (still readable)
-    add(sm, { i: 'inbox', x: 0, y: 0, w: 3, h: 8, ...layoutMin('inbox') });
-    add(sm, { i: 'notes', x: 0, y: 8, w: 3, h: 8, ...layoutMin('notes') });
-    add(sm, { i: 'calendar', x: 3, y: 0, w: 3, h: 10, ...layoutMin('calendar') });
-    add(sm, { i: 'now', x: 3, y: 10, w: 3, h: 6, ...layoutMin('now') });
+    add(sm, { i: 'inbox', x: 0, y: 0, w: 3, h: 8, ...layoutMin('inbox', 'sm') });
+    add(sm, { i: 'notes', x: 0, y: 8, w: 3, h: 8, ...layoutMin('notes', 'sm') });
+    add(sm, { i: 'calendar', x: 3, y: 0, w: 3, h: 10, ...layoutMin('calendar', 'sm') });
+    add(sm, { i: 'now', x: 3, y: 10, w: 3, h: 6, ...layoutMin('now', 'sm') });
 
     // xs: stack vertically (fallback)
-    add(xs, { i: 'calendar', x: 0, y: 0, w: 4, h: 10, ...layoutMin('calendar') });
-    add(xs, { i: 'now', x: 0, y: 10, w: 4, h: 6, ...layoutMin('now') });
-    add(xs, { i: 'inbox', x: 0, y: 16, w: 4, h: 6, ...layoutMin('inbox') });
-    add(xs, { i: 'notes', x: 0, y: 22, w: 4, h: 6, ...layoutMin('notes') });
+    add(xs, { i: 'calendar', x: 0, y: 0, w: 4, h: 10, ...layoutMin('calendar', 'xs') });
+    add(xs, { i: 'now', x: 0, y: 10, w: 4, h: 6, ...layoutMin('now', 'xs') });
+    add(xs, { i: 'inbox', x: 0, y: 16, w: 4, h: 6, ...layoutMin('inbox', 'xs') });
+    add(xs, { i: 'notes', x: 0, y: 22, w: 4, h: 6, ...layoutMin('notes', 'xs') });
   }
 
   if (id === 'focus') {
     // Calendar dominates the right; left is stacked capture/focus lanes.
-    add(lg, { i: 'calendar', x: 4, y: 0, w: 8, h: 16, ...layoutMin('calendar') });
-    add(lg, { i: 'inbox', x: 0, y: 0, w: 4, h: 6, ...layoutMin('inbox') });
-    add(lg, { i: 'now', x: 0, y: 6, w: 4, h: 5, ...layoutMin('now') });
-    add(lg, { i: 'notes', x: 0, y: 11, w: 4, h: 5, ...layoutMin('notes') });
+    add(lg, { i: 'calendar', x: 4, y: 0, w: 8, h: 16, ...layoutMin('calendar', 'lg') });
+    add(lg, { i: 'inbox', x: 0, y: 0, w: 4, h: 6, ...layoutMin('inbox', 'lg') });
+    add(lg, { i: 'now', x: 0, y: 6, w: 4, h: 5, ...layoutMin('now', 'lg') });
+    add(lg, { i: 'notes', x: 0, y: 11, w: 4, h: 5, ...layoutMin('notes', 'lg') });
 
-    add(md, { i: 'calendar', x: 4, y: 0, w: 6, h: 16, ...layoutMin('calendar') });
-    add(md, { i: 'inbox', x: 0, y: 0, w: 4, h: 6, ...layoutMin('inbox') });
-    add(md, { i: 'now', x: 0, y: 6, w: 4, h: 5, ...layoutMin('now') });
-    add(md, { i: 'notes', x: 0, y: 11, w: 4, h: 5, ...layoutMin('notes') });
+    add(md, { i: 'calendar', x: 4, y: 0, w: 6, h: 16, ...layoutMin('calendar', 'md') });
+    add(md, { i: 'inbox', x: 0, y: 0, w: 4, h: 6, ...layoutMin('inbox', 'md') });
+    add(md, { i: 'now', x: 0, y: 6, w: 4, h: 5, ...layoutMin('now', 'md') });
+    add(md, { i: 'notes', x: 0, y: 11, w: 4, h: 5, ...layoutMin('notes', 'md') });
 
     // sm: calendar top, rest stacked below
-    add(sm, { i: 'calendar', x: 0, y: 0, w: 6, h: 10, ...layoutMin('calendar') });
-    add(sm, { i: 'inbox', x: 0, y: 10, w: 6, h: 6, ...layoutMin('inbox') });
-    add(sm, { i: 'now', x: 0, y: 16, w: 6, h: 5, ...layoutMin('now') });
-    add(sm, { i: 'notes', x: 0, y: 21, w: 6, h: 6, ...layoutMin('notes') });
-
-    add(xs, { i: 'calendar', x: 0, y: 0, w: 4, h: 10, ...layoutMin('calendar') });
-    add(xs, { i: 'inbox', x: 0, y: 10, w: 4, h: 6, ...layoutMin('inbox') });
-    add(xs, { i: 'now', x: 0, y: 16, w: 4, h: 6, ...layoutMin('now') });
-    add(xs, { i: 'notes', x: 0, y: 22, w: 4, h: 6, ...layoutMin('notes') });
+    add(sm, { i: 'calendar', x: 0, y: 0, w: 6, h: 10, ...layoutMin('calendar', 'sm') });
+    add(sm, { i: 'inbox', x: 0, y: 10, w: 6, h: 6, ...layoutMin('inbox', 'sm') });
+    add(sm, { i: 'now', x: 0, y: 16, w: 6, h: 5, ...layoutMin('now', 'sm') });
+    add(sm, { i: 'notes', x: 0, y: 21, w: 6, h: 6, ...layoutMin('notes', 'sm') });
+
+    add(xs, { i: 'calendar', x: 0, y: 0, w: 4, h: 10, ...layoutMin('calendar', 'xs') });
+    add(xs, { i: 'inbox', x: 0, y: 10, w: 4, h: 6, ...layoutMin('inbox', 'xs') });
+    add(xs, { i: 'now', x: 0, y: 16, w: 4, h: 6, ...layoutMin('now', 'xs') });
+    add(xs, { i: 'notes', x: 0, y: 22, w: 4, h: 6, ...layoutMin('notes', 'xs') });
   }
 
   if (id === 'capture') {
     // Big Inbox, medium Notes, smaller Calendar+Now lane.
-    add(lg, { i: 'inbox', x: 0, y: 0, w: 6, h: 16, ...layoutMin('inbox') });
-    add(lg, { i: 'notes', x: 6, y: 0, w: 3, h: 16, ...layoutMin('notes') });
-    add(lg, { i: 'calendar', x: 9, y: 0, w: 3, h: 10, ...layoutMin('calendar') });
-    add(lg, { i: 'now', x: 9, y: 10, w: 3, h: 6, ...layoutMin('now') });
+    add(lg, { i: 'inbox', x: 0, y: 0, w: 6, h: 16, ...layoutMin('inbox', 'lg') });
+    add(lg, { i: 'notes', x: 6, y: 0, w: 3, h: 16, ...layoutMin('notes', 'lg') });
+    add(lg, { i: 'calendar', x: 9, y: 0, w: 3, h: 10, ...layoutMin('calendar', 'lg') });
+    add(lg, { i: 'now', x: 9, y: 10, w: 3, h: 6, ...layoutMin('now', 'lg') });
 
-    add(md, { i: 'inbox', x: 0, y: 0, w: 5, h: 16, ...layoutMin('inbox') });
-    add(md, { i: 'notes', x: 5, y: 0, w: 3, h: 16, ...layoutMin('notes') });
-    add(md, { i: 'calendar', x: 8, y: 0, w: 2, h: 10, ...layoutMin('calendar') });
-    add(md, { i: 'now', x: 8, y: 10, w: 2, h: 6, ...layoutMin('now') });
+    add(md, { i: 'inbox', x: 0, y: 0, w: 5, h: 16, ...layoutMin('inbox', 'md') });
+    add(md, { i: 'notes', x: 5, y: 0, w: 3, h: 16, ...layoutMin('notes', 'md') });
+    add(md, { i: 'calendar', x: 8, y: 0, w: 2, h: 10, ...layoutMin('calendar', 'md') });
+    add(md, { i: 'now', x: 8, y: 10, w: 2, h: 6, ...layoutMin('now', 'md') });
 
     // sm: inbox+notes split, calendar+now stacked full width below
-    add(sm, { i: 'inbox', x: 0, y: 0, w: 4, h: 12, ...layoutMin('inbox') });
-    add(sm, { i: 'notes', x: 4, y: 0, w: 2, h: 12, ...layoutMin('notes') });
-    add(sm, { i: 'calendar', x: 0, y: 12, w: 6, h: 10, ...layoutMin('calendar') });
-    add(sm, { i: 'now', x: 0, y: 22, w: 6, h: 6, ...layoutMin('now') });
-
-    add(xs, { i: 'inbox', x: 0, y: 0, w: 4, h: 10, ...layoutMin('inbox') });
-    add(xs, { i: 'notes', x: 0, y: 10, w: 4, h: 8, ...layoutMin('notes') });
-    add(xs, { i: 'calendar', x: 0, y: 18, w: 4, h: 10, ...layoutMin('calendar') });
-    add(xs, { i: 'now', x: 0, y: 28, w: 4, h: 6, ...layoutMin('now') });
+    add(sm, { i: 'inbox', x: 0, y: 0, w: 4, h: 12, ...layoutMin('inbox', 'sm') });
+    add(sm, { i: 'notes', x: 4, y: 0, w: 2, h: 12, ...layoutMin('notes', 'sm') });
+    add(sm, { i: 'calendar', x: 0, y: 12, w: 6, h: 10, ...layoutMin('calendar', 'sm') });
+    add(sm, { i: 'now', x: 0, y: 22, w: 6, h: 6, ...layoutMin('now', 'sm') });
+
+    add(xs, { i: 'inbox', x: 0, y: 0, w: 4, h: 10, ...layoutMin('inbox', 'xs') });
+    add(xs, { i: 'notes', x: 0, y: 10, w: 4, h: 8, ...layoutMin('notes', 'xs') });
+    add(xs, { i: 'calendar', x: 0, y: 18, w: 4, h: 10, ...layoutMin('calendar', 'xs') });
+    add(xs, { i: 'now', x: 0, y: 28, w: 4, h: 6, ...layoutMin('now', 'xs') });
   }
 
   if (id === 'minimal') {
     // Minimal: calendar dominates, with a slim bottom lane for capture/focus.
-    add(lg, { i: 'calendar', x: 0, y: 0, w: 12, h: 12, ...layoutMin('calendar') });
-    add(lg, { i: 'inbox', x: 0, y: 12, w: 6, h: 6, ...layoutMin('inbox') });
-    add(lg, { i: 'now', x: 6, y: 12, w: 3, h: 6, ...layoutMin('now') });
-    add(lg, { i: 'notes', x: 9, y: 12, w: 3, h: 6, ...layoutMin('notes') });
-
-    add(md, { i: 'calendar', x: 0, y: 0, w: 10, h: 12, ...layoutMin('calendar') });
-    add(md, { i: 'inbox', x: 0, y: 12, w: 5, h: 6, ...layoutMin('inbox') });
-    add(md, { i: 'now', x: 5, y: 12, w: 3, h: 6, ...layoutMin('now') });
-    add(md, { i: 'notes', x: 8, y: 12, w: 2, h: 6, ...layoutMin('notes') });
-
-    add(sm, { i: 'calendar', x: 0, y: 0, w: 6, h: 10, ...layoutMin('calendar') });
-    add(sm, { i: 'inbox', x: 0, y: 10, w: 6, h: 6, ...layoutMin('inbox') });
-    add(sm, { i: 'now', x: 0, y: 16, w: 6, h: 5, ...layoutMin('now') });
-    add(sm, { i: 'notes', x: 0, y: 21, w: 6, h: 6, ...layoutMin('notes') });
-
-    add(xs, { i: 'calendar', x: 0, y: 0, w: 4, h: 10, ...layoutMin('calendar') });
-    add(xs, { i: 'inbox', x: 0, y: 10, w: 4, h: 6, ...layoutMin('inbox') });
-    add(xs, { i: 'now', x: 0, y: 16, w: 4, h: 6, ...layoutMin('now') });
-    add(xs, { i: 'notes', x: 0, y: 22, w: 4, h: 6, ...layoutMin('notes') });
+    add(lg, { i: 'calendar', x: 0, y: 0, w: 12, h: 12, ...layoutMin('calendar', 'lg') });
+    add(lg, { i: 'inbox', x: 0, y: 12, w: 6, h: 6, ...layoutMin('inbox', 'lg') });
+    add(lg, { i: 'now', x: 6, y: 12, w: 3, h: 6, ...layoutMin('now', 'lg') });
+    add(lg, { i: 'notes', x: 9, y: 12, w: 3, h: 6, ...layoutMin('notes', 'lg') });
+
+    add(md, { i: 'calendar', x: 0, y: 0, w: 10, h: 12, ...layoutMin('calendar', 'md') });
+    add(md, { i: 'inbox', x: 0, y: 12, w: 5, h: 6, ...layoutMin('inbox', 'md') });
+    add(md, { i: 'now', x: 5, y: 12, w: 3, h: 6, ...layoutMin('now', 'md') });
+    add(md, { i: 'notes', x: 8, y: 12, w: 2, h: 6, ...layoutMin('notes', 'md') });
+
+    add(sm, { i: 'calendar', x: 0, y: 0, w: 6, h: 10, ...layoutMin('calendar', 'sm') });
+    add(sm, { i: 'inbox', x: 0, y: 10, w: 6, h: 6, ...layoutMin('inbox', 'sm') });
+    add(sm, { i: 'now', x: 0, y: 16, w: 6, h: 5, ...layoutMin('now', 'sm') });
+    add(sm, { i: 'notes', x: 0, y: 21, w: 6, h: 6, ...layoutMin('notes', 'sm') });
+
+    add(xs, { i: 'calendar', x: 0, y: 0, w: 4, h: 10, ...layoutMin('calendar', 'xs') });
+    add(xs, { i: 'inbox', x: 0, y: 10, w: 4, h: 6, ...layoutMin('inbox', 'xs') });
+    add(xs, { i: 'now', x: 0, y: 16, w: 4, h: 6, ...layoutMin('now', 'xs') });
+    add(xs, { i: 'notes', x: 0, y: 22, w: 4, h: 6, ...layoutMin('notes', 'xs') });
   }
 
   return {
@@ -203,45 +237,52 @@ export function makeTemplateData(templateId: BuiltinTemplateId): WorkspaceData {
     visibleWindows,
     activeTab,
     locked,
+    instances: {},
   };
 }
 
 export function templateName(id: BuiltinTemplateId): string {
-  switch (id) {
+  switch (canonicalTemplateId(id)) {
     case 'plan':
-    case 'classic-2x2':
       return 'Plan';
     case 'focus':
-    case 'focus-calendar':
       return 'Focus';
     case 'capture':
-    case 'capture-mode':
       return 'Capture';
-    case 'minimal':
-    case 'mobile-stack':
+    default:
       return 'Minimal';
   }
 }
 
 export const BUILTIN_TEMPLATES: BuiltinTemplateId[] = ['focus', 'capture', 'plan', 'minimal'];
 
-export function ensureVisibleInLayouts(layouts: Layouts, visible: WindowId[]): Layouts {
+// Only configs for windows that are showing
+export function visibleInstanceConfigs(
+  instances: WorkspaceData['instances'],
+  visible: WindowInstanceId[]
+): WorkspaceData['instances'] {
+  return Object.fromEntries(
+    Object.entries(instances).filter(([id, config]) => visible.includes(id as WindowInstanceId) && config && Object.keys(config).length > 0)
+  );
+}
+
+export function ensureVisibleInLayouts(layouts: ResponsiveLayouts, visible: WindowInstanceId[]): ResponsiveLayouts {
   const normalized = normalizeVisibleWindows(visible);
   const defaults = makeTemplateData('classic-2x2').layouts;
-  const next: Layouts = { ...layouts };
+  const next: ResponsiveLayouts = { ...layouts };
 
-  (Object.keys(WORKSPACE_BREAKPOINTS) as Array<keyof typeof WORKSPACE_BREAKPOINTS>).forEach((bp) => {
-    const current = ((next[bp] ?? []) as Layout[]).map((l) => ({ ...l }));
+  (Object.keys(WORKSPACE_BREAKPOINTS) as WorkspaceBreakpoint[]).forEach((bp) => {
+    const current = (next[bp] ?? []).map((l) => ({ ...l }));
     const present = new Set(current.map((l) => l.i));
     const merged = [...current];
     for (const id of normalized) {
       if (!present.has(id)) {
-        const def = ((defaults[bp] ?? []) as Layout[]).find((l) => l.i === id);
-        if (def) merged.push({ ...def });
+        const def = (defaults[bp] ?? []).find((l) => l.i === id);
+        merged.push(def ? { ...def } : defaultLayoutItem(id, bp, merged));
       }
     }
     // Keep layouts compact by dropping hidden windows.
-    next[bp] = merged.filter((l) => normalized.includes(l.i as WindowId));
+    next[bp] = merged.filter((l) => normalized.includes(l.i as WindowInstanceId));
   });
 
   return next;
@@ -0,0 +1,109 @@
+// Chat completions against an OpenAI-compatible server (OpenAI, a local model server).
+// The key and the prompts stay here; browsers only send the capability and its request.
+// Configure with AI_API_KEY, AI_BASE_URL and AI_MODEL in the function secrets.
+
+export type AiCapability = "parseBrainDump" | "trendingTopics" | "profileSummary";
+
+export const SYSTEM_PROMPTS: Record<AiCapability, string> = {
+  parseBrainDump:
+    "You turn a creative professional's brain dump into planner items. Reply with JSON " +
+    '{"items":[{"text","type":"task"|"campaign"|"idea","detected_energy":"high"|"medium"|"low"|"recovery",' +
+    '"suggested_timeframe","urgency":"low"|"normal"|"high"|"critical","emotional_note","confidence","related_items"}],"summary"}. ' +
+    'Text spans in "highlights" were marked by the user with an energy level: items covering them use that energy.',
+  trendingTopics:
+    "You suggest current trends a creator could make content about, given their profile. Reply with JSON " +
+    '{"trends":[{"title","description","content_ideas":[],"platform","urgency":"now"|"this_week"|"this_month"|"ongoing",' +
+    '"energy_level":"high"|"medium"|"low"|"recovery","category":"news"|"seasonal"|"industry"|"viral"|"evergreen"}]}.',
+  profileSummary:
+    'You write a two-sentence summary of a creator from their profile, in the second person. Reply with JSON {"summary"}.',
+};
+
+export const isAiCapability = (value: unknown): value is AiCapability =>
+  typeof value === "string" && value in SYSTEM_PROMPTS;
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// A failure sent back as { error } with this status; the app retries 429 and 5xx
+export class AiFunctionError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+export async function chatJson(capability: AiCapability, request: unknown): Promise<unknown> {
+  const apiKey = Deno.env.get("AI_API_KEY") ?? "";
+  const baseUrl = (Deno.env.get("AI_BASE_URL") || "https://api.openai.com/v1").replace(/\/$/, "");
+  const model = Deno.env.get("AI_MODEL") || "gpt-4o-mini";
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model,
+      response_format: { type: "json_object" },
+      messages: [
+        { role: "system", content: SYSTEM_PROMPTS[capability] },
+        { role: "user", content: JSON.stringify(request) },
+      ],
+    }),
+  });
+
+  if (!response.ok) {
+    // Other upstream errors (a bad key, an unknown model) won't go away on a retry
+    const status = response.status === 429 ? 429 : response.status >= 500 ? 502 : 424;
+    throw new AiFunctionError(`AI endpoint returned ${response.status}`, status);
+  }
+
+  const body = await response.json();
+  const content = body?.choices?.[0]?.message?.content;
+  if (typeof content !== "string") throw new AiFunctionError("AI endpoint returned no content", 502);
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new AiFunctionError("AI endpoint returned malformed JSON", 502);
+  }
+}
+
+/**
+ * Shared request handling: CORS preflight, POST only, and errors as { error } with a status.
+ */
+export function serveAi(handle: (body: Record<string, unknown>) => Promise<unknown>) {
+  Deno.serve(async (req) => {
+    if (req.method === "OPTIONS") {
+      return new Response(null, { headers: corsHeaders });
+    }
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return jsonResponse({ error: "Request body must be JSON" }, 400);
+    }
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return jsonResponse({ error: "Request body must be an object" }, 400);
+    }
+
+    try {
+      return jsonResponse(await handle(body as Record<string, unknown>));
+    } catch (error) {
+      console.error("AI function error:", error);
+      if (error instanceof AiFunctionError) return jsonResponse({ error: error.message }, error.status);
+      return jsonResponse({ error: "Internal error" }, 500);
+    }
+  });
+}
@@ -0,0 +1,11 @@
+// Server side of the app's 'openai' AI backend: runs a capability against the configured
+// OpenAI-compatible server so the API key never reaches the browser.
+// Body: { capability, request }. Only signed-in users can call it (verify_jwt).
+import { AiFunctionError, chatJson, isAiCapability, serveAi } from "../_shared/ai.ts";
+
+serveAi(async ({ capability, request }) => {
+  if (!isAiCapability(capability)) {
+    throw new AiFunctionError("Unknown AI capability", 400);
+  }
+  return chatJson(capability, request ?? {});
+});
@@ -0,0 +1,10 @@
+// Two-sentence creator summary for profiles.ai_profile_summary.
+// Body: { userProfile }. Answers { summary }; the app validates the shape.
+import { AiFunctionError, chatJson, serveAi } from "../_shared/ai.ts";
+
+serveAi(async ({ userProfile }) => {
+  if (!userProfile || typeof userProfile !== "object") {
+    throw new AiFunctionError("Missing userProfile", 400);
+  }
+  return chatJson("profileSummary", { userProfile });
+});
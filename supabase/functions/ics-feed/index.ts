@@ -0,0 +1,222 @@
+// Private, token-protected iCalendar feed of a user's scheduled tasks.
+// Subscribe with: <SUPABASE_URL>/functions/v1/ics-feed?token=<token>
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+interface RecurrenceRule {
+  freq: "daily" | "weekly" | "monthly";
+  interval: number;
+  by_weekday: number[];
+  by_month_day: number | null;
+  by_set_pos: number | null;
+  until: string | null;
+  count: number | null;
+}
+
+interface FeedTask {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  energy_level: "high" | "medium" | "low" | "recovery";
+  due_date: string | null;
+  end_date: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  location: string | null;
+  completed: boolean;
+  recurrence: RecurrenceRule | null;
+  recurrence_exceptions: string[] | null;
+  ical_uid: string | null;
+  updated_at: string;
+}
+
+const ENERGY_CATEGORY: Record<FeedTask["energy_level"], string> = {
+  high: "High Focus",
+  medium: "Steady",
+  low: "Low Energy",
+  recovery: "Recovery",
+};
+
+const ICS_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// Only serve recent and upcoming tasks so feeds stay small
+const PAST_DAYS = 90;
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const foldLine = (line: string) => {
+  if (line.length <= 75) return line;
+  const parts: string[] = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) parts.push(" " + line.slice(i, i + 74));
+  return parts.join("\r\n");
+};
+
+const icsDate = (dateStr: string) => dateStr.replace(/-/g, "");
+const icsDateTime = (dateStr: string, time: string) => `${icsDate(dateStr)}T${time.slice(0, 5).replace(":", "")}00`;
+const icsStamp = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const addDays = (dateStr: string, days: number) => {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+function rrule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === "weekly" && rule.by_weekday.length > 0) {
+    parts.push(`BYDAY=${rule.by_weekday.map((d) => ICS_WEEKDAYS[d]).join(",")}`);
+  }
+  if (rule.freq === "monthly") {
+    if (rule.by_set_pos != null && rule.by_weekday.length > 0) {
+      parts.push(`BYDAY=${ICS_WEEKDAYS[rule.by_weekday[0]]}`, `BYSETPOS=${rule.by_set_pos}`);
+    } else if (rule.by_month_day != null) {
+      parts.push(`BYMONTHDAY=${rule.by_month_day}`);
+    }
+  }
+  if (rule.until) parts.push(`UNTIL=${icsDate(rule.until)}`);
+  else if (rule.count != null) parts.push(`COUNT=${rule.count}`);
+  return `RRULE:${parts.join(";")}`;
+}
+
+function taskToVevent(task: FeedTask, ownerName: string | null): string[] {
+  const startDate = task.due_date!;
+  const endDate = task.end_date ?? startDate;
+  const startTime = task.start_time?.slice(0, 5) ?? null;
+  const endTime = task.end_time?.slice(0, 5) ?? null;
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${task.ical_uid ?? `${task.id}@luminoo`}`,
+    `DTSTAMP:${icsStamp(task.updated_at)}`,
+  ];
+
+  if (startTime) {
+    lines.push(`DTSTART:${icsDateTime(startDate, startTime)}`);
+    lines.push(`DTEND:${icsDateTime(endDate, endTime ?? startTime)}`);
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${icsDate(startDate)}`);
+    lines.push(`DTEND;VALUE=DATE:${icsDate(addDays(endDate, 1))}`);
+  }
+
+  if (task.recurrence) {
+    lines.push(rrule(task.recurrence));
+    for (const date of task.recurrence_exceptions ?? []) {
+      lines.push(startTime ? `EXDATE:${icsDateTime(date, startTime)}` : `EXDATE;VALUE=DATE:${icsDate(date)}`);
+    }
+  }
+
+  const title = ownerName ? `${task.title} (${ownerName})` : task.title;
+  lines.push(`SUMMARY:${escapeText(title)}`);
+  if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+  if (task.location && task.location !== "notes" && task.location !== "memory") {
+    lines.push(`LOCATION:${escapeText(task.location)}`);
+  }
+  lines.push(`CATEGORIES:${escapeText(ENERGY_CATEGORY[task.energy_level])}`);
+  lines.push(`X-LUMINOO-ENERGY:${task.energy_level}`);
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+const TASK_COLUMNS =
+  "id, user_id, title, description, energy_level, due_date, end_date, start_time, end_time, location, completed, recurrence, recurrence_exceptions, ical_uid, updated_at";
+
+Deno.serve(async (req) => {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const token = new URL(req.url).searchParams.get("token");
+  if (!token) {
+    return new Response("Missing token", { status: 401 });
+  }
+
+  try {
+    // Service role: the token is the only credential a calendar client has
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    );
+
+    const { data: feed, error: feedError } = await supabase
+      .from("calendar_feed_tokens")
+      .select("user_id, include_shared")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (feedError) throw feedError;
+    if (!feed) {
+      return new Response("Invalid or revoked token", { status: 404 });
+    }
+
+    const since = addDays(new Date().toISOString().slice(0, 10), -PAST_DAYS);
+
+    // Own tasks: recurring series are always included, they may have upcoming occurrences
+    const { data: ownTasks, error: tasksError } = await supabase
+      .from("tasks")
+      .select(TASK_COLUMNS)
+      .eq("user_id", feed.user_id)
+      .not("due_date", "is", null)
+      .or(`due_date.gte.${since},recurrence.not.is.null`);
+
+    if (tasksError) throw tasksError;
+
+    const events: string[] = (ownTasks as FeedTask[]).flatMap((t) => taskToVevent(t, null));
+
+    if (feed.include_shared) {
+      const { data: shares, error: sharesError } = await supabase
+        .from("shared_calendars")
+        .select("owner_id")
+        .eq("shared_with_id", feed.user_id);
+
+      if (sharesError) throw sharesError;
+
+      const ownerIds = (shares ?? []).map((s: { owner_id: string }) => s.owner_id);
+      if (ownerIds.length > 0) {
+        const [{ data: sharedTasks, error: sharedError }, { data: owners }] = await Promise.all([
+          supabase
+            .from("tasks")
+            .select(TASK_COLUMNS)
+            .in("user_id", ownerIds)
+            .not("due_date", "is", null)
+            .or(`due_date.gte.${since},recurrence.not.is.null`),
+          supabase.from("profiles").select("id, display_name").in("id", ownerIds),
+        ]);
+
+        if (sharedError) throw sharedError;
+
+        const names = new Map(
+          (owners ?? []).map((p: { id: string; display_name: string | null }) => [p.id, p.display_name]),
+        );
+        for (const task of sharedTasks as FeedTask[]) {
+          events.push(...taskToVevent(task, names.get(task.user_id) ?? "Shared"));
+        }
+      }
+    }
+
+    const body = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//luminoo//Planner//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      "X-WR-CALNAME:luminoo",
+      "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+      "X-PUBLISHED-TTL:PT1H",
+      ...events,
+      "END:VCALENDAR",
+    ].map(foldLine).join("\r\n") + "\r\n";
+
+    return new Response(req.method === "HEAD" ? null : body, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="luminoo.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("ics-feed error:", error);
+    return new Response("Internal error", { status: 500 });
+  }
+});
@@ -0,0 +1,3 @@
+-- Recurring tasks: a series row stores its rule; skipped/detached dates are exceptions.
+alter table public.tasks add column if not exists recurrence jsonb;
+alter table public.tasks add column if not exists recurrence_exceptions text[] not null default '{}';
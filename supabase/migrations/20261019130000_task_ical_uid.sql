@@ -0,0 +1,3 @@
+-- Calendar import: remember the source event UID so re-imports can be deduplicated.
+alter table public.tasks add column if not exists ical_uid text;
+create index if not exists tasks_user_ical_uid_idx on public.tasks (user_id, ical_uid) where ical_uid is not null;
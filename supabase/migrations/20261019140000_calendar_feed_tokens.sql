@@ -0,0 +1,18 @@
+-- Private ICS feed: one secret token per user, read by the ics-feed edge function.
+create table if not exists public.calendar_feed_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  token text not null unique,
+  include_shared boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists calendar_feed_tokens_user_id_idx on public.calendar_feed_tokens (user_id);
+
+alter table public.calendar_feed_tokens enable row level security;
+
+create policy "Users manage their own feed token"
+  on public.calendar_feed_tokens
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
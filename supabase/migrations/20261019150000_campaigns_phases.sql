@@ -0,0 +1,58 @@
+-- Annual planning: phases (month ranges of the year) and campaigns (a month, optionally a week of it).
+create table if not exists public.phases (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  type text not null default 'planning' check (type in ('planning', 'creation', 'launch', 'reflection')),
+  start_month smallint not null check (start_month between 1 and 12),
+  end_month smallint not null check (end_month between 1 and 12), -- may be before start_month (wraps the year end)
+  description text,
+  color text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.campaigns (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  phase_id uuid references public.phases (id) on delete set null,
+  name text not null,
+  description text,
+  month smallint not null check (month between 1 and 12),
+  week smallint check (week between 1 and 5),
+  energy_level text not null default 'medium' check (energy_level in ('high', 'medium', 'low', 'recovery')),
+  status text not null default 'planned' check (status in ('planned', 'active', 'completed', 'paused')),
+  tags text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists phases_user_id_idx on public.phases (user_id);
+create index if not exists campaigns_user_id_idx on public.campaigns (user_id);
+
+alter table public.phases enable row level security;
+alter table public.campaigns enable row level security;
+
+create policy "Users manage their own phases"
+  on public.phases
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users manage their own campaigns"
+  on public.campaigns
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Tasks keep living when their campaign is deleted
+alter table public.tasks add column if not exists campaign_id uuid;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'tasks_campaign_id_fkey') then
+    alter table public.tasks
+      add constraint tasks_campaign_id_fkey foreign key (campaign_id) references public.campaigns (id) on delete set null;
+  end if;
+end $$;
+
+create index if not exists tasks_campaign_id_idx on public.tasks (campaign_id);
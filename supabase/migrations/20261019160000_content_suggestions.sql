@@ -0,0 +1,27 @@
+-- Content suggestions queue: generated ideas waiting to be accepted, scheduled or dismissed.
+create table if not exists public.content_suggestions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null,
+  description text not null default '',
+  content_type text not null,
+  suggested_date date,
+  reason text not null default '',
+  trend_source text,
+  platform text,
+  energy_level text not null default 'medium' check (energy_level in ('high', 'medium', 'low', 'recovery')),
+  confidence real not null default 0.5 check (confidence between 0 and 1),
+  status text not null default 'pending' check (status in ('pending', 'accepted', 'dismissed', 'scheduled')),
+  related_campaign_id uuid references public.campaigns (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists content_suggestions_user_status_idx on public.content_suggestions (user_id, status);
+
+alter table public.content_suggestions enable row level security;
+
+create policy "Users manage their own content suggestions"
+  on public.content_suggestions
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,25 @@
+-- Brain dump history: which parsed items became which tasks, and the parse before the latest re-parse.
+create table if not exists public.brain_dumps (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  raw_text text not null,
+  ai_parsed_result jsonb,
+  user_highlights jsonb not null default '[]'::jsonb,
+  items_added_to_planner text[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+alter table public.brain_dumps
+  add column if not exists item_links jsonb not null default '[]'::jsonb,
+  add column if not exists previous_parsed_result jsonb;
+
+create index if not exists brain_dumps_user_created_idx on public.brain_dumps (user_id, created_at desc);
+
+alter table public.brain_dumps enable row level security;
+
+drop policy if exists "Users manage their own brain dumps" on public.brain_dumps;
+create policy "Users manage their own brain dumps"
+  on public.brain_dumps
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,5 @@
+-- Finish-to-start dependencies: a task can't start before every task in depends_on is done.
+alter table public.tasks
+  add column if not exists depends_on uuid[] not null default '{}';
+
+create index if not exists tasks_depends_on_idx on public.tasks using gin (depends_on);
@@ -0,0 +1,3 @@
+-- Ordered checklist items inside a task: [{ id, text, done }].
+alter table public.tasks
+  add column if not exists checklist jsonb not null default '[]'::jsonb;
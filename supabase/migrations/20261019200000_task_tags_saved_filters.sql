@@ -0,0 +1,24 @@
+-- Free-form task tags and saved filter queries (e.g. "tag:release energy:high due:<7d -completed").
+alter table public.tasks
+  add column if not exists tags text[] not null default '{}';
+
+create index if not exists tasks_tags_idx on public.tasks using gin (tags);
+
+create table if not exists public.saved_filters (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  query text not null,
+  pinned boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists saved_filters_user_idx on public.saved_filters (user_id);
+
+alter table public.saved_filters enable row level security;
+
+create policy "Users manage their own saved filters"
+  on public.saved_filters
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,13 @@
+-- Workspace layouts live in profiles.workspace_state; open sessions follow each other's changes.
+alter table public.profiles
+  add column if not exists workspace_state jsonb;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'profiles'
+  ) then
+    alter publication supabase_realtime add table public.profiles;
+  end if;
+end $$;